@@ -5,7 +5,7 @@
  * This CLI provides commands for initialization, installation, and management.
  *
  * Supports two modes:
- * - CLI Mode: Direct command execution (init, install, version)
+ * - CLI Mode: Direct command execution (init, install, version, daemon)
  * - Hook Mode: Automatic detection when receiving JSON input from Claude Code
  *
  * @version 1.0.0
@@ -27,8 +27,10 @@ import {
   removeHooksFromSettings,
   updateClaudeSettings,
 } from './cli/helpers.js';
-import { runHookMode } from './cli/hookMode.js';
-import { version } from './index.js';
+import { runHookMode } from './cli/hookEntry.js';
+import { getDaemonStatus, startDaemon, stopDaemon } from './daemon/client.js';
+import { getDaemonPaths } from './daemon/paths.js';
+import { resolveProjectRoot } from './utils/projectRoot.js';
 import { detectAllVersions, detectBiomeVersion } from './utils/versionDetector.js';
 
 /**
@@ -58,7 +60,8 @@ async function main(): Promise<void> {
       return;
     }
 
-    // CLI mode - set up commander
+    // CLI mode - set up commander (the library is loaded here to keep hook mode thin)
+    const { version } = await import('./index.js');
     const program = new Command();
 
     // Configure the main program
@@ -270,6 +273,88 @@ async function main(): Promise<void> {
         }
       });
 
+    // Daemon command - manages the background daemon for the current project
+    const daemon = program
+      .command('daemon')
+      .description('Manage the background daemon that keeps validators warm');
+
+    daemon
+      .command('start')
+      .description('Start the daemon for this project')
+      .action(async () => {
+        const projectRoot = resolveProjectRoot({ cwd: process.cwd() });
+        const status = await startDaemon(projectRoot);
+        if (!status) {
+          console.error(
+            formatError(`Daemon did not start - see ${getDaemonPaths(projectRoot).logPath}`)
+          );
+          process.exit(1);
+          return;
+        }
+        console.log(formatSuccess(`Daemon running for ${projectRoot} (pid ${status.pid})`));
+      });
+
+    daemon
+      .command('stop')
+      .description('Stop the daemon for this project')
+      .action(async () => {
+        const projectRoot = resolveProjectRoot({ cwd: process.cwd() });
+        if (await stopDaemon(projectRoot)) {
+          console.log(formatSuccess('Daemon stopped'));
+        } else {
+          console.log(formatWarning('No daemon running for this project'));
+        }
+      });
+
+    daemon
+      .command('status')
+      .description('Show whether the daemon for this project is running')
+      .action(async () => {
+        const projectRoot = resolveProjectRoot({ cwd: process.cwd() });
+        const status = await getDaemonStatus(projectRoot);
+        if (!status) {
+          console.log(formatWarning('No daemon running for this project'));
+          return;
+        }
+        console.log(formatSuccess(`Daemon running for ${status.projectRoot}`));
+        console.log(`   pid: ${status.pid}`);
+        console.log(`   uptime: ${Math.round(status.uptime / 1000)}s`);
+        console.log(`   hook events handled: ${status.requests}`);
+        console.log(`   socket: ${getDaemonPaths(projectRoot).socketPath}`);
+      });
+
+    // Runs the daemon in the foreground; used by `daemon start` and the hook client
+    daemon
+      .command('run', { hidden: true })
+      .option('--project-root <path>', 'Project the daemon serves')
+      .option('--idle-timeout <ms>', 'Exit after this long without requests')
+      .action(async (options: { projectRoot?: string; idleTimeout?: string }) => {
+        const projectRoot = options.projectRoot ?? resolveProjectRoot({ cwd: process.cwd() });
+        const { loadConfig, YamlConfigLoader } = await import('./config/index.js');
+        const { DaemonServer } = await import('./daemon/DaemonServer.js');
+
+        // A broken configuration fails the event, not the daemon serving every event
+        YamlConfigLoader.exitOnError = false;
+
+        let idleTimeout = Number(options.idleTimeout);
+        if (!Number.isFinite(idleTimeout)) {
+          idleTimeout = await loadConfig(projectRoot)
+            .then((config) => config.daemon?.idleTimeout ?? Number.NaN)
+            .catch(() => Number.NaN);
+        }
+
+        const server = new DaemonServer(
+          projectRoot,
+          Number.isFinite(idleTimeout) ? idleTimeout : undefined
+        );
+        if (!(await server.start())) {
+          console.error('[DaemonServer] Another daemon is already running for this project');
+          return;
+        }
+        await server.waitUntilStopped();
+        process.exit(0);
+      });
+
     // Parse command line arguments
     program.parse();
 
@@ -0,0 +1,83 @@
+/**
+ * Hook Entry Point
+ *
+ * Thin client run for every hook invocation. It forwards the event to the
+ * project's background daemon when one is running and otherwise processes it
+ * in process, loading the validation modules only in that case.
+ */
+
+import { requestHookFromDaemon, spawnDaemon } from '../daemon/client.js';
+import { parseStdin } from '../hooks/InputHandler.js';
+import { type HookInput, isToolHookInput } from '../hooks/inputSchema.js';
+import { resolveProjectRoot } from '../utils/projectRoot.js';
+import { type HookResponse, writeHookResponse } from './hookProtocol.js';
+
+/**
+ * Route diagnostic logging to stderr so stdout only carries hook output
+ */
+function redirectLogsToStderr(): void {
+  console.log = console.error;
+  console.info = console.error;
+}
+
+/**
+ * Process the event in this process and start a daemon for later events if enabled
+ */
+async function handleInProcess(input: HookInput, workspaceRoot: string): Promise<HookResponse> {
+  const { hasConfig, loadConfig, YamlConfigLoader } = await import('../config/index.js');
+  const { handleHookInput } = await import('./hookMode.js');
+
+  // A broken configuration fails the event with an explanation instead of ending the hook
+  YamlConfigLoader.exitOnError = false;
+  const response = await handleHookInput(input);
+
+  try {
+    // The daemon is configured by the workspace root's configuration
+    const config = hasConfig(workspaceRoot) ? await loadConfig(workspaceRoot) : null;
+    if (config?.daemon?.enabled) {
+      spawnDaemon(workspaceRoot);
+    }
+  } catch (error) {
+    console.warn(
+      `[claude-jsqualityhooks] Could not start daemon: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Main entry point for hook mode
+ */
+export async function runHookMode(): Promise<void> {
+  redirectLogsToStderr();
+
+  try {
+    // Read and validate JSON from stdin
+    const parsed = await parseStdin();
+
+    if (!parsed.success) {
+      writeHookResponse({ exitCode: 1, stderr: parsed.error });
+      process.exit(1);
+      return;
+    }
+
+    // The daemon runs elsewhere, so the event must carry this process's directory
+    const input: HookInput = { ...parsed.input, cwd: parsed.input.cwd ?? process.cwd() };
+    const filePath = isToolHookInput(input) ? input.tool_input.file_path : undefined;
+    const workspaceRoot = resolveProjectRoot({ cwd: input.cwd, filePath });
+
+    const response =
+      (await requestHookFromDaemon(workspaceRoot, input)) ??
+      (await handleInProcess(input, workspaceRoot));
+
+    writeHookResponse(response);
+    process.exit(response.exitCode);
+  } catch (error) {
+    writeHookResponse({
+      exitCode: 1,
+      stderr: `Hook mode failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+    process.exit(1);
+  }
+}
@@ -5,76 +5,86 @@
  * This is the core integration point between Claude Code and the validation system.
  */
 
-import { loadConfig } from '../config/index.js';
-// Unused import removed for linting
-
-export interface HookInput {
-  hook_event_name: string;
-  tool_name: string;
-  tool_input: {
-    file_path: string;
-    content?: string;
-    old_string?: string;
-    new_string?: string;
-    edits?: Array<{
-      old_string: string;
-      new_string: string;
-    }>;
-  };
-}
+import { readFileSync } from 'node:fs';
+import { relative, resolve } from 'node:path';
+import { hasConfig, loadConfig, loadConfigForFile } from '../config/index.js';
+import {
+  getEditedRanges,
+  type LineRange,
+  mapRanges,
+  partitionIssues,
+} from '../hooks/editedRanges.js';
+import { HookManager } from '../hooks/HookManager.js';
+import { applyEdits, createFileInfo } from '../hooks/InputHandler.js';
+import {
+  FILE_TOOLS,
+  type HookInput,
+  isStopHookInput,
+  isToolHookInput,
+  type ToolHookInput,
+} from '../hooks/inputSchema.js';
+import { PatternMatcher } from '../hooks/PatternMatcher.js';
+import { PreWriteHook } from '../hooks/PreWriteHook.js';
+import { SessionTracker } from '../hooks/SessionTracker.js';
+import type { Config } from '../types/config.js';
+import type { HookResult } from '../types/hooks.js';
+import { cachePerConfig } from '../utils/configCache.js';
+import { resolveProjectRoot } from '../utils/projectRoot.js';
+import type { ValidationIssue } from '../validators/biome/adapters/BiomeAdapter.js';
+import { SecretsScanner } from '../validators/secrets/index.js';
+import type { ValidationResponse } from '../validators/ValidatorManager.js';
+import {
+  formatIssue,
+  type HookOutput,
+  type HookResponse,
+  shouldBlock,
+  toPostToolUseResponse,
+  toPreToolUseResponse,
+  toStopResponse,
+} from './hookProtocol.js';
+import { processStopHook } from './stopGate.js';
 
-export interface HookOutput {
-  success: boolean;
-  message?: string;
-  errors?: string[];
-  warnings?: string[];
-  fixes_applied?: string[];
-}
+/**
+ * Hooks are reused per configuration so a long-running daemon keeps them warm
+ */
+const getHookManager = cachePerConfig(
+  (config, projectRoot) => new HookManager(config, projectRoot),
+  (manager) => manager.dispose()
+);
+const getPreWriteHook = cachePerConfig(
+  (config, projectRoot) => new PreWriteHook(config, projectRoot),
+  (hook) => hook.dispose()
+);
+const getSecretsScanner = cachePerConfig(
+  (config, projectRoot) => new SecretsScanner(config.validators.secrets, projectRoot)
+);
 
 /**
- * Read JSON input from stdin
+ * Configuration and directories a tool event is processed with
  */
-export async function readStdinJson(): Promise<HookInput | null> {
-  return new Promise((resolve) => {
-    let data = '';
-
-    // Set up timeout for stdin reading
-    const timeout = setTimeout(() => {
-      resolve(null);
-    }, 5000);
-
-    process.stdin.setEncoding('utf8');
-
-    process.stdin.on('data', (chunk) => {
-      data += chunk;
-    });
-
-    process.stdin.on('end', () => {
-      clearTimeout(timeout);
-      try {
-        const parsed = JSON.parse(data.trim()) as HookInput;
-        resolve(parsed);
-      } catch {
-        resolve(null);
-      }
-    });
-
-    process.stdin.on('error', () => {
-      clearTimeout(timeout);
-      resolve(null);
-    });
-  });
+interface HookContext {
+  config: Config;
+  /** Directory of the configuration that applies to the file */
+  projectRoot: string;
+  /** Workspace root, used to display paths */
+  workspaceRoot: string;
 }
 
 /**
- * Check if configuration file exists
+ * Check if a configuration file applies to the edited file
+ *
+ * Only checks that the file exists, so loading it is left to
+ * loadConfigForFile and monorepos may configure their packages only.
  */
-async function checkConfigExists(): Promise<{ exists: boolean; message?: string }> {
-  try {
-    await loadConfig();
+function checkConfigExists(
+  workspaceRoot: string,
+  filePath?: string
+): { exists: boolean; message?: string } {
+  if (hasConfig(workspaceRoot, filePath)) {
     return { exists: true };
-  } catch (_error) {
-    const configMissingMessage = `⚠️  Configuration file not found: claude-jsqualityhooks.config.yaml
+  }
+
+  const configMissingMessage = `⚠️  Configuration file not found: claude-jsqualityhooks.config.yaml
 
 To get started:
 1. Run: npx claude-jsqualityhooks init
@@ -90,20 +100,22 @@ To get started:
 Without this configuration file, the hook will not run.
 For details, see: https://github.com/dkmaker/claude-jsqualityhooks#configuration`;
 
-    return {
-      exists: false,
-      message: configMissingMessage,
-    };
-  }
+  return {
+    exists: false,
+    message: configMissingMessage,
+  };
 }
 
 /**
  * Process hook input and return results
  */
-export async function processHookInput(input: HookInput): Promise<HookOutput> {
+export async function processHookInput(input: ToolHookInput): Promise<HookOutput> {
   try {
+    const filePath = input.tool_input.file_path;
+    const workspaceRoot = resolveProjectRoot({ cwd: input.cwd, filePath });
+
     // Check if configuration exists
-    const configCheck = await checkConfigExists();
+    const configCheck = checkConfigExists(workspaceRoot, filePath);
     if (!configCheck.exists) {
       return {
         success: false,
@@ -111,8 +123,11 @@ export async function processHookInput(input: HookInput): Promise<HookOutput> {
       };
     }
 
-    // Load configuration
-    const config = await loadConfig();
+    // Load the configuration nearest to the file (per-package in monorepos)
+    const { config, projectRoot } = filePath
+      ? await loadConfigForFile(filePath, workspaceRoot)
+      : { config: await loadConfig(workspaceRoot), projectRoot: workspaceRoot };
+    const context: HookContext = { config, projectRoot, workspaceRoot };
 
     // Check if hooks are enabled
     if (!config.enabled) {
@@ -123,16 +138,13 @@ export async function processHookInput(input: HookInput): Promise<HookOutput> {
     }
 
     // Validate tool name
-    const supportedTools = ['Write', 'Edit', 'MultiEdit'];
-    if (!supportedTools.includes(input.tool_name)) {
+    if (!(FILE_TOOLS as readonly string[]).includes(input.tool_name)) {
       return {
         success: true,
         message: `Tool ${input.tool_name} not configured for hooks`,
       };
     }
 
-    // Extract file path
-    const filePath = input.tool_input.file_path;
     if (!filePath) {
       return {
         success: false,
@@ -140,35 +152,23 @@ export async function processHookInput(input: HookInput): Promise<HookOutput> {
       };
     }
 
-    // Check if file matches patterns
-    const patterns: { include?: string[]; exclude?: string[] } = {};
-    if (config.include) patterns.include = config.include;
-    if (config.exclude) patterns.exclude = config.exclude;
-
-    if (!shouldProcessFile(filePath, patterns)) {
+    // Secrets block in every written file, before patterns and validators apply
+    const secrets = await scanWrittenSecrets(input, filePath, context);
+    if (secrets.errors.length > 0) {
       return {
-        success: true,
-        message: `File ${filePath} excluded by patterns`,
+        success: false,
+        message: `Found ${secrets.errors.length} possible secret(s) in ${filePath}`,
+        file: relative(workspaceRoot, filePath) || filePath,
+        blocking: true,
+        errors: secrets.errors,
+        warnings: secrets.warnings,
       };
     }
 
-    // TODO: Implement validation pipeline
-    // This will be implemented in Phase 2 when validators are ready
-    const warnings: string[] = [];
-    const errors: string[] = [];
-    const fixesApplied: string[] = [];
-
-    // For now, just log that we received the hook
-    console.error(`[claude-jsqualityhooks] Processing ${input.tool_name} on ${filePath}`);
-
-    // Placeholder validation results
-    return {
-      success: true,
-      message: `Processed ${input.tool_name} on ${filePath}`,
-      warnings,
-      errors,
-      fixes_applied: fixesApplied,
-    };
+    const output = await processFileEvent(input, filePath, context);
+    return secrets.warnings.length > 0
+      ? { ...output, warnings: [...secrets.warnings, ...(output.warnings ?? [])] }
+      : output;
   } catch (error) {
     return {
       success: false,
@@ -178,94 +178,269 @@ export async function processHookInput(input: HookInput): Promise<HookOutput> {
 }
 
 /**
- * Check if file should be processed based on patterns
+ * Process a tool event on a file: validate proposed content before it is
+ * written, or validate and fix the written file
  */
-function shouldProcessFile(
+async function processFileEvent(
+  input: ToolHookInput,
   filePath: string,
-  patterns?: { include?: string[]; exclude?: string[] }
-): boolean {
-  if (!patterns || (!patterns.include && !patterns.exclude)) {
-    // Default patterns for TypeScript/JavaScript files
-    return /\.(ts|tsx|js|jsx|mts|cts)$/.test(filePath);
-  }
+  context: HookContext
+): Promise<HookOutput> {
+  const { config, projectRoot } = context;
 
-  const { include = ['**/*.{ts,tsx,js,jsx,mts,cts}'], exclude = [] } = patterns;
+  // Check if file matches patterns
+  const patternMatcher = new PatternMatcher(config.include, config.exclude, projectRoot);
+  if (!patternMatcher.shouldValidate(filePath)) {
+    return {
+      success: true,
+      message: `File ${filePath} excluded by patterns`,
+    };
+  }
 
-  // Check exclude patterns first
-  for (const excludePattern of exclude) {
-    if (matchesPattern(filePath, excludePattern)) {
-      return false;
-    }
+  if (input.hook_event_name === 'PreToolUse') {
+    return await processPreToolUse(input, filePath, context);
   }
 
-  // Check include patterns
-  for (const includePattern of include) {
-    if (matchesPattern(filePath, includePattern)) {
-      return true;
-    }
+  // Remember the file so the Stop gate can re-check it
+  if (input.session_id) {
+    await new SessionTracker(input.session_id).recordFile(resolve(filePath));
   }
 
-  return false;
+  // Build file info from the file Claude just wrote
+  const fileInfo = await createFileInfo(filePath, input.tool_input.content);
+
+  // Only report issues on the lines Claude changed when configured to
+  const editedRanges =
+    config.hooks?.scope === 'changes' ? getEditedRanges(input, fileInfo.content) : null;
+
+  console.error(`[claude-jsqualityhooks] Processing ${input.tool_name} on ${filePath}`);
+
+  // Run validators, auto-fix and verification through the post-write hook
+  const hookManager = getHookManager(config, projectRoot);
+  const result = await hookManager.executePostWrite(fileInfo);
+
+  // Issues are reported on the fixed file, so the ranges follow the lines fixes moved
+  const ranges =
+    editedRanges && result.modified
+      ? mapRanges(editedRanges, fileInfo.content, readFixedContent(filePath, fileInfo.content))
+      : editedRanges;
+
+  return buildHookOutput(input, filePath, result, context, ranges);
 }
 
 /**
- * Simple pattern matching (basic glob support)
+ * Read the file auto-fix wrote, or the written content if it cannot be read
  */
-function matchesPattern(filePath: string, pattern: string): boolean {
-  // Convert glob pattern to regex
-  const regexPattern = pattern
-    .replace(/\./g, '\\.') // Escape dots first
-    .replace(/\*\*\/\*/g, '.*') // **/* matches anything (greedy)
-    .replace(/\*\*/g, '.*') // ** matches anything
-    .replace(/\*/g, '[^/]*') // * matches anything except path separator
-    .replace(/\{([^}]+)\}/g, '(?:$1)') // {a,b,c} becomes (?:a|b|c)
-    .replace(/,/g, '|'); // Convert commas to OR
-
-  const regex = new RegExp(`^${regexPattern}$`);
-  return regex.test(filePath);
+function readFixedContent(filePath: string, written: string): string {
+  try {
+    return readFileSync(filePath, 'utf-8');
+  } catch {
+    return written;
+  }
 }
 
 /**
- * Format hook output for Claude Code
+ * Scan the file a tool call writes for secrets
+ *
+ * Only secrets in the text the tool call writes are reported, so secrets
+ * already in the file do not block unrelated edits. Secrets are reported as
+ * errors, or as warnings in files excluded from secret detection.
  */
-export function formatHookOutput(output: HookOutput): string {
-  // Return clean JSON without ANSI codes for AI consumption
-  return JSON.stringify(output, null, 2);
+async function scanWrittenSecrets(
+  input: ToolHookInput,
+  filePath: string,
+  { config, projectRoot, workspaceRoot }: HookContext
+): Promise<{ errors: string[]; warnings: string[] }> {
+  if (config.validators.secrets?.enabled === false) {
+    return { errors: [], warnings: [] };
+  }
+
+  const content =
+    input.hook_event_name === 'PreToolUse'
+      ? resolveProposedContent(input, filePath)
+      : (await createFileInfo(filePath, input.tool_input.content)).content;
+  if (content === null) {
+    return { errors: [], warnings: [] };
+  }
+
+  const toolInput = input.tool_input;
+  const written =
+    input.tool_name === 'Write'
+      ? [toolInput.content ?? '']
+      : input.tool_name === 'MultiEdit'
+        ? (toolInput.edits ?? []).map((edit) => edit.new_string)
+        : [toolInput.new_string ?? ''];
+
+  const issues = getSecretsScanner(config, projectRoot).scan({ path: filePath, content }, written);
+  return formatBySeverity(issues, workspaceRoot);
 }
 
 /**
- * Main entry point for hook mode
+ * Validate the content a Write/Edit/MultiEdit would produce before it lands
  */
-export async function runHookMode(): Promise<void> {
+async function processPreToolUse(
+  input: ToolHookInput,
+  filePath: string,
+  { config, projectRoot, workspaceRoot }: HookContext
+): Promise<HookOutput> {
+  const content = resolveProposedContent(input, filePath);
+  if (content === null) {
+    // Claude Code rejects edits that do not apply, so there is nothing to check
+    return {
+      success: true,
+      message: `Edits for ${filePath} do not apply to the current file`,
+    };
+  }
+
+  const fileInfo = await createFileInfo(filePath, content);
+  // An empty string makes createFileInfo fall back to the file on disk
+  fileInfo.content = content;
+
+  console.error(`[claude-jsqualityhooks] Checking proposed ${input.tool_name} on ${filePath}`);
+
+  const result = await getPreWriteHook(config, projectRoot).execute(fileInfo);
+  const file = relative(workspaceRoot, filePath) || filePath;
+
+  if (!result.success) {
+    return {
+      success: false,
+      message: `Pre-write validation failed for ${filePath}: ${result.error ?? 'Unknown error'}`,
+      file,
+    };
+  }
+
+  const denied = Array.isArray(result.metadata?.denied)
+    ? (result.metadata.denied as ValidationIssue[])
+    : [];
+  const errors = denied.map((issue) => formatIssue(issue, workspaceRoot));
+
+  return {
+    success: errors.length === 0,
+    message: `Checked proposed ${input.tool_name} on ${filePath}: ${errors.length} new error(s)`,
+    file,
+    blocking: errors.length > 0,
+    errors,
+    warnings: [],
+  };
+}
+
+/**
+ * Compute the file content a tool call would produce
+ *
+ * Returns null when the edits cannot be applied to the current file.
+ */
+function resolveProposedContent(input: ToolHookInput, filePath: string): string | null {
+  const toolInput = input.tool_input;
+
+  if (input.tool_name === 'Write') {
+    return toolInput.content ?? '';
+  }
+
+  let current = '';
   try {
-    // Read JSON from stdin
-    const input = await readStdinJson();
+    current = readFileSync(filePath, 'utf-8');
+  } catch {
+    // New file - edits must create it from scratch
+  }
 
-    if (!input) {
-      const errorOutput: HookOutput = {
-        success: false,
-        message: 'Failed to read JSON input from stdin',
-      };
-      console.log(formatHookOutput(errorOutput));
-      process.exit(1);
-      return;
-    }
+  const edits =
+    input.tool_name === 'MultiEdit'
+      ? (toolInput.edits ?? [])
+      : [
+          {
+            old_string: toolInput.old_string ?? '',
+            new_string: toolInput.new_string ?? '',
+            replace_all: toolInput.replace_all ?? false,
+          },
+        ];
+
+  return applyEdits(current, edits);
+}
 
-    // Process the hook input
-    const output = await processHookInput(input);
+/**
+ * Convert post-write hook result into hook output
+ *
+ * With edited ranges, only issues on those lines are reported as errors and
+ * warnings (and can block); the rest are kept separately as `elsewhere`.
+ */
+function buildHookOutput(
+  input: ToolHookInput,
+  filePath: string,
+  result: HookResult,
+  { config, workspaceRoot }: HookContext,
+  editedRanges: LineRange[] | null = null
+): HookOutput {
+  const validation = result.validation as ValidationResponse | undefined;
+  const allIssues = validation?.results.flatMap((r) => r.issues) ?? [];
+  const { inChange: issues, elsewhere } = editedRanges
+    ? partitionIssues(allIssues, editedRanges)
+    : { inChange: allIssues, elsewhere: [] };
 
-    // Output results to stdout for Claude
-    console.log(formatHookOutput(output));
+  const { errors, warnings } = formatBySeverity(issues, workspaceRoot);
 
-    // Exit with appropriate code
-    process.exit(output.success ? 0 : 1);
-  } catch (error) {
-    const errorOutput: HookOutput = {
+  const fixesApplied = Array.isArray(result.metadata?.fixesApplied)
+    ? (result.metadata.fixesApplied as string[])
+    : [];
+
+  const file = relative(workspaceRoot, filePath) || filePath;
+
+  if (!result.success) {
+    return {
       success: false,
-      message: `Hook mode failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      message: `Validation failed for ${filePath}: ${result.error ?? 'Unknown error'}`,
+      file,
+      warnings,
+      errors,
+      fixes_applied: fixesApplied,
     };
+  }
 
-    console.log(formatHookOutput(errorOutput));
-    process.exit(1);
+  return {
+    success: errors.length === 0,
+    message:
+      `Processed ${input.tool_name} on ${filePath}: ${errors.length} error(s), ` +
+      `${warnings.length} warning(s), ${fixesApplied.length} fix(es) applied`,
+    file,
+    blocking: shouldBlock(errors, warnings, config.hooks?.blockOn),
+    warnings,
+    errors,
+    fixes_applied: fixesApplied,
+    ...(editedRanges && { elsewhere: formatBySeverity(elsewhere, workspaceRoot) }),
+  };
+}
+
+/**
+ * Format issues as lines, split into errors and warnings
+ */
+function formatBySeverity(
+  issues: ValidationIssue[],
+  workspaceRoot: string
+): { errors: string[]; warnings: string[] } {
+  return {
+    errors: issues
+      .filter((issue) => issue.severity === 'error')
+      .map((issue) => formatIssue(issue, workspaceRoot)),
+    warnings: issues
+      .filter((issue) => issue.severity !== 'error')
+      .map((issue) => formatIssue(issue, workspaceRoot)),
+  };
+}
+
+/**
+ * Process any hook event and map the result onto the Claude Code hook protocol
+ *
+ * Used both in-process by hook mode and by the background daemon.
+ */
+export async function handleHookInput(input: HookInput): Promise<HookResponse> {
+  if (isStopHookInput(input)) {
+    return toStopResponse(await processStopHook(input));
+  }
+  if (!isToolHookInput(input)) {
+    // Nothing to check for events without a tool call or a finished turn
+    return { exitCode: 0, stdout: { suppressOutput: true } };
+  }
+  if (input.hook_event_name === 'PreToolUse') {
+    return toPreToolUseResponse(await processHookInput(input));
   }
+  return toPostToolUseResponse(await processHookInput(input));
 }
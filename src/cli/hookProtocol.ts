@@ -0,0 +1,361 @@
+/**
+ * Claude Code Hook Protocol
+ *
+ * Maps validation results onto the JSON output and exit codes that Claude Code
+ * understands (decision/reason, hookSpecificOutput, continue, suppressOutput).
+ */
+
+import { isAbsolute, relative } from 'node:path';
+import type { HooksConfig } from '../types/config.js';
+import type { ValidationIssue } from '../validators/biome/adapters/BiomeAdapter.js';
+
+/**
+ * Maximum number of issues listed in a single reason or context message
+ */
+const MAX_LISTED_ISSUES = 20;
+
+/**
+ * Maximum number of diff lines shown under an issue
+ */
+const MAX_DIFF_LINES = 20;
+
+/**
+ * Display names of validators whose name is not just capitalized
+ */
+const SOURCE_NAMES: Record<string, string> = {
+  typescript: 'TypeScript',
+  eslint: 'ESLint',
+  prettier: 'Prettier',
+};
+
+/**
+ * Internal result of processing a hook event
+ */
+export interface HookOutput {
+  success: boolean;
+  message?: string;
+  file?: string;
+  blocking?: boolean;
+  errors?: string[];
+  warnings?: string[];
+  fixes_applied?: string[];
+  /** Issues outside the edited lines when only changes are reported */
+  elsewhere?: { errors: string[]; warnings: string[] };
+}
+
+/**
+ * JSON output understood by Claude Code
+ */
+export interface ClaudeHookOutput {
+  continue?: boolean;
+  stopReason?: string;
+  suppressOutput?: boolean;
+  decision?: 'block';
+  reason?: string;
+  hookSpecificOutput?: {
+    hookEventName: string;
+    additionalContext?: string;
+    permissionDecision?: 'allow' | 'deny' | 'ask';
+    permissionDecisionReason?: string;
+  };
+}
+
+/**
+ * Complete hook response: JSON (or plain text) for stdout, text for stderr and the exit code
+ */
+export interface HookResponse {
+  exitCode: 0 | 1 | 2;
+  stdout?: ClaudeHookOutput | string;
+  stderr?: string;
+}
+
+/**
+ * Decide whether issues at the given severities should block Claude
+ */
+export function shouldBlock(
+  errors: string[],
+  warnings: string[],
+  blockOn: HooksConfig['blockOn'] = 'error'
+): boolean {
+  switch (blockOn) {
+    case 'never':
+      return false;
+    case 'warning':
+      return errors.length > 0 || warnings.length > 0;
+    default:
+      return errors.length > 0;
+  }
+}
+
+/**
+ * Format validation issue as a line, with the path relative to the project root
+ *
+ * The rule and the suggested fix are included when the validator provides
+ * them; an expected diff follows on indented lines.
+ */
+export function formatIssue(issue: ValidationIssue, projectRoot: string = process.cwd()): string {
+  const file = isAbsolute(issue.file) ? relative(projectRoot, issue.file) : issue.file;
+  let line = `${file}:${issue.line}:${issue.column} - ${issue.message}`;
+
+  if (issue.ruleId) {
+    line += ` (${issue.ruleId})`;
+  }
+  if (issue.suggestion) {
+    line += ` ${formatSource(issue.source)} suggests: ${issue.suggestion}`;
+  }
+  if (issue.diff) {
+    line += `\n${formatDiff(issue.diff)}`;
+  }
+
+  return line;
+}
+
+/**
+ * Indent a diff under its issue line, truncated for concise output
+ */
+function formatDiff(diff: string): string {
+  const lines = diff.split('\n');
+  const shown = lines.slice(0, MAX_DIFF_LINES);
+
+  if (lines.length > MAX_DIFF_LINES) {
+    shown.push(`... ${lines.length - MAX_DIFF_LINES} more diff line(s)`);
+  }
+
+  return shown.map((line) => `  ${line}`).join('\n');
+}
+
+/**
+ * Name of the validator that reported an issue, as shown to Claude
+ */
+function formatSource(source: string | undefined): string {
+  if (!source) {
+    return 'Validator';
+  }
+  return SOURCE_NAMES[source] ?? source.charAt(0).toUpperCase() + source.slice(1);
+}
+
+/**
+ * Format a titled list of issues, truncated for concise output
+ */
+function formatIssueList(title: string, issues: string[]): string {
+  const lines = [title, ...issues.slice(0, MAX_LISTED_ISSUES).map((issue) => `- ${issue}`)];
+
+  if (issues.length > MAX_LISTED_ISSUES) {
+    lines.push(`- ... and ${issues.length - MAX_LISTED_ISSUES} more`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Describe fixes applied to the file so Claude knows it changed on disk
+ */
+function formatFixes(output: HookOutput): string | undefined {
+  const fixes = output.fixes_applied ?? [];
+  if (fixes.length === 0) {
+    return undefined;
+  }
+
+  return formatIssueList(
+    `Auto-fixes were applied to ${output.file ?? 'the file'} (re-read it before editing again):`,
+    fixes
+  );
+}
+
+/**
+ * Note issues left out because they are outside the edited lines
+ */
+function formatElsewhere(output: HookOutput): string | undefined {
+  const count = (output.elsewhere?.errors.length ?? 0) + (output.elsewhere?.warnings.length ?? 0);
+  if (count === 0) {
+    return undefined;
+  }
+
+  return `${count} other issue(s) in ${output.file ?? 'the file'} are outside your change and not listed.`;
+}
+
+/**
+ * Map hook output onto the PostToolUse protocol
+ *
+ * - Blocking issues: `decision: "block"` with a concise reason
+ * - Non-blocking issues and applied fixes: `hookSpecificOutput.additionalContext`
+ * - Clean runs: `suppressOutput: true`
+ * - Internal failures: non-blocking exit code 1 with the message on stderr
+ */
+export function toPostToolUseResponse(output: HookOutput): HookResponse {
+  const errors = output.errors ?? [];
+  const warnings = output.warnings ?? [];
+  const file = output.file ?? 'the file';
+  const fixes = formatFixes(output);
+  const elsewhere = formatElsewhere(output);
+
+  if (output.blocking) {
+    const sections = [
+      formatIssueList(`Code quality issues remain in ${file} after auto-fix:`, [
+        ...errors,
+        ...warnings,
+      ]),
+    ];
+    if (elsewhere) {
+      sections.push(elsewhere);
+    }
+    if (fixes) {
+      sections.push(fixes);
+    }
+    sections.push('Fix these issues before continuing.');
+
+    return {
+      exitCode: 0,
+      stdout: {
+        decision: 'block',
+        reason: sections.join('\n\n'),
+      },
+    };
+  }
+
+  if (!output.success && errors.length === 0) {
+    return {
+      exitCode: 1,
+      stderr: output.message ?? 'claude-jsqualityhooks failed',
+    };
+  }
+
+  const context: string[] = [];
+  if (errors.length > 0) {
+    context.push(formatIssueList(`Code quality errors in ${file}:`, errors));
+  }
+  if (warnings.length > 0) {
+    context.push(formatIssueList(`Code quality warnings in ${file}:`, warnings));
+  }
+  if (elsewhere && context.length > 0) {
+    context.push(elsewhere);
+  }
+  if (fixes) {
+    context.push(fixes);
+  }
+
+  if (context.length === 0) {
+    return {
+      exitCode: 0,
+      stdout: { suppressOutput: true },
+    };
+  }
+
+  return {
+    exitCode: 0,
+    stdout: {
+      hookSpecificOutput: {
+        hookEventName: 'PostToolUse',
+        additionalContext: context.join('\n\n'),
+      },
+    },
+  };
+}
+
+/**
+ * Map hook output onto the PreToolUse protocol
+ *
+ * - Blocking issues: `permissionDecision: "deny"` with the diagnostics as reason
+ * - Internal failures: non-blocking exit code 1 with the message on stderr
+ * - Otherwise: no decision, so Claude Code's normal permission flow applies
+ */
+export function toPreToolUseResponse(output: HookOutput): HookResponse {
+  if (output.blocking) {
+    const issues = [...(output.errors ?? []), ...(output.warnings ?? [])];
+
+    return {
+      exitCode: 0,
+      stdout: {
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: 'deny',
+          permissionDecisionReason: [
+            formatIssueList(
+              `This change would introduce errors in ${output.file ?? 'the file'}:`,
+              issues
+            ),
+            'Revise the change before writing it.',
+          ].join('\n\n'),
+        },
+      },
+    };
+  }
+
+  if (!output.success) {
+    return {
+      exitCode: 1,
+      stderr: output.message ?? 'claude-jsqualityhooks failed',
+    };
+  }
+
+  return {
+    exitCode: 0,
+    stdout: { suppressOutput: true },
+  };
+}
+
+/**
+ * Map hook output onto the Stop/SubagentStop protocol
+ *
+ * - Blocking issues: `decision: "block"` with the consolidated report as reason
+ * - Non-blocking issues: the report as plain stdout, shown in transcript mode
+ * - Clean runs: `suppressOutput: true`
+ * - Internal failures: non-blocking exit code 1 with the message on stderr
+ */
+export function toStopResponse(output: HookOutput): HookResponse {
+  const errors = output.errors ?? [];
+  const warnings = output.warnings ?? [];
+
+  if (!output.success && errors.length === 0 && !output.blocking) {
+    return {
+      exitCode: 1,
+      stderr: output.message ?? 'claude-jsqualityhooks failed',
+    };
+  }
+
+  if (errors.length === 0 && warnings.length === 0) {
+    return {
+      exitCode: 0,
+      stdout: { suppressOutput: true },
+    };
+  }
+
+  const sections = [output.message ?? 'Quality gate report'];
+  if (errors.length > 0) {
+    sections.push(formatIssueList('Errors:', errors));
+  }
+  if (warnings.length > 0) {
+    sections.push(formatIssueList('Warnings:', warnings));
+  }
+
+  if (output.blocking) {
+    sections.push('Fix these issues before finishing.');
+    return {
+      exitCode: 0,
+      stdout: {
+        decision: 'block',
+        reason: sections.join('\n\n'),
+      },
+    };
+  }
+
+  return {
+    exitCode: 0,
+    stdout: sections.join('\n\n'),
+  };
+}
+
+/**
+ * Write hook response to stdout/stderr
+ */
+export function writeHookResponse(response: HookResponse): void {
+  if (typeof response.stdout === 'string') {
+    process.stdout.write(`${response.stdout}\n`);
+  } else if (response.stdout) {
+    process.stdout.write(`${JSON.stringify(response.stdout)}\n`);
+  }
+
+  if (response.stderr) {
+    process.stderr.write(`${response.stderr}\n`);
+  }
+}
@@ -3,4 +3,7 @@
  */
 
 export * from './helpers.js';
+export * from './hookEntry.js';
 export * from './hookMode.js';
+export * from './hookProtocol.js';
+export * from './stopGate.js';
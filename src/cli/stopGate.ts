@@ -0,0 +1,161 @@
+/**
+ * Stop Gate Handler
+ *
+ * Final quality gate when Claude Code finishes a turn (Stop) or a subagent
+ * finishes (SubagentStop). Re-checks every file touched in the session plus
+ * the files that import them, and blocks stopping while errors remain.
+ */
+
+import { existsSync } from 'node:fs';
+import { hasConfig, loadConfig, loadConfigForFile } from '../config/index.js';
+import { createFileInfo } from '../hooks/InputHandler.js';
+import type { StopHookInput } from '../hooks/inputSchema.js';
+import { PatternMatcher } from '../hooks/PatternMatcher.js';
+import { SessionTracker } from '../hooks/SessionTracker.js';
+import type { Config } from '../types/config.js';
+import { cachePerConfig } from '../utils/configCache.js';
+import { findDependents } from '../utils/dependencyGraph.js';
+import { resolveProjectRoot } from '../utils/projectRoot.js';
+import { ValidatorManager } from '../validators/ValidatorManager.js';
+import { formatIssue, type HookOutput, shouldBlock } from './hookProtocol.js';
+
+/**
+ * Validators are reused per configuration so a long-running daemon keeps them warm
+ */
+const getValidatorManager = cachePerConfig(
+  (config, projectRoot) => new ValidatorManager(config, projectRoot),
+  (manager) => manager.dispose()
+);
+
+/**
+ * Re-check files touched in the session and build the consolidated report
+ */
+export async function processStopHook(input: StopHookInput): Promise<HookOutput> {
+  try {
+    const workspaceRoot = resolveProjectRoot({ cwd: input.cwd });
+    // Monorepos may only configure their packages, so the root configuration is optional
+    const rootConfig = hasConfig(workspaceRoot) ? await loadConfig(workspaceRoot) : null;
+
+    if (rootConfig && !rootConfig.enabled) {
+      return {
+        success: true,
+        message: 'Hooks disabled in configuration',
+      };
+    }
+
+    const tracker = new SessionTracker(input.session_id);
+    await tracker.removeStaleRecords();
+
+    // Each file is checked under its nearest configuration (per-package in monorepos)
+    const touched: TouchedFile[] = [];
+    for (const file of await tracker.getFiles()) {
+      const resolved = existsSync(file) ? await resolveCheckedFile(file, workspaceRoot) : null;
+      if (resolved) {
+        touched.push(resolved);
+      }
+    }
+
+    if (touched.length === 0) {
+      await tracker.clear();
+      return {
+        success: true,
+        message: 'No files touched in this session',
+      };
+    }
+
+    // Files importing a touched file can break without being edited themselves;
+    // without a root configuration, look in the packages of the touched files
+    const scopes: Array<Omit<TouchedFile, 'file'>> = rootConfig
+      ? [{ config: rootConfig, projectRoot: workspaceRoot }]
+      : [...new Map(touched.map((entry) => [entry.projectRoot, entry])).values()];
+    const candidates: string[] = [];
+    for (const { config, projectRoot } of scopes) {
+      const patternMatcher = new PatternMatcher(config.include, config.exclude, projectRoot);
+      candidates.push(...(await patternMatcher.getMatchingFiles(projectRoot)));
+    }
+    const touchedFiles = touched.map((entry) => entry.file);
+    const dependents = await findDependents(touchedFiles, candidates);
+
+    console.error(
+      `[claude-jsqualityhooks] Stop gate checking ${touched.length} touched and ` +
+        `${dependents.length} dependent file(s)`
+    );
+
+    // Check files one at a time to keep the load on the machine predictable
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    // Each file blocks according to its own configuration's `hooks.blockOn`
+    let failed = false;
+    for (const file of [...touchedFiles, ...dependents]) {
+      const { config: fileConfig, projectRoot } = await loadConfigForFile(file, workspaceRoot);
+      const validatorManager = getValidatorManager(fileConfig, projectRoot);
+      // Cached results can be stale once the files this one imports have changed
+      validatorManager.clearCache();
+
+      const validation = await validatorManager.validateFile(await createFileInfo(file));
+      const issues = validation.results.flatMap((result) => result.issues);
+      const fileErrors = issues
+        .filter((issue) => issue.severity === 'error')
+        .map((issue) => formatIssue(issue, workspaceRoot));
+      const fileWarnings = issues
+        .filter((issue) => issue.severity !== 'error')
+        .map((issue) => formatIssue(issue, workspaceRoot));
+
+      errors.push(...fileErrors);
+      warnings.push(...fileWarnings);
+      failed ||= shouldBlock(fileErrors, fileWarnings, fileConfig.hooks?.blockOn);
+    }
+
+    // Claude is already continuing because of this gate; don't hold it forever
+    const blocking = !input.stop_hook_active && failed;
+
+    // The next turn starts from a clean slate; files still failing stay recorded
+    if (!failed) {
+      await tracker.clear();
+    }
+
+    return {
+      success: errors.length === 0,
+      message:
+        `Quality gate: ${touched.length + dependents.length} file(s) checked ` +
+        `(${touched.length} touched, ${dependents.length} dependent): ` +
+        `${errors.length} error(s), ${warnings.length} warning(s)`,
+      blocking,
+      errors,
+      warnings,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Stop gate failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Touched file with the configuration it is checked under
+ */
+interface TouchedFile {
+  file: string;
+  config: Config;
+  projectRoot: string;
+}
+
+/**
+ * Resolve the nearest configuration of a touched file, or null when no
+ * configuration applies or it disables or excludes the file
+ */
+async function resolveCheckedFile(
+  file: string,
+  workspaceRoot: string
+): Promise<TouchedFile | null> {
+  if (!hasConfig(workspaceRoot, file)) {
+    return null;
+  }
+
+  const { config, projectRoot } = await loadConfigForFile(file, workspaceRoot);
+  const checked =
+    config.enabled &&
+    new PatternMatcher(config.include, config.exclude, projectRoot).shouldValidate(file);
+  return checked ? { file, config, projectRoot } : null;
+}
@@ -0,0 +1,204 @@
+/**
+ * Nearest-config resolution for claude-jsqualityhooks
+ *
+ * In a monorepo each package can have its own claude-jsqualityhooks.config.yaml.
+ * The ConfigResolver finds the configuration file nearest to an edited file and
+ * optionally merges it over parent configurations up to the workspace root
+ * (`inherit: true`). Resolved configurations are cached per directory and
+ * reloaded when one of their files changes.
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import type { Config } from '../types/config.js';
+import { findUp, PROJECT_CONFIG_FILE } from '../utils/projectRoot.js';
+import { YamlConfigLoader } from './YamlConfigLoader.js';
+
+/**
+ * Configuration resolved for a file
+ */
+export interface ResolvedConfig {
+  /** Validated configuration, merged with its parents when inheriting */
+  config: Config;
+  /** Directory containing the nearest configuration file */
+  projectRoot: string;
+  /** Configuration files that contributed, from the workspace root down */
+  configPaths: string[];
+}
+
+/**
+ * Cache entry for a configuration directory
+ */
+interface CacheEntry {
+  resolved: ResolvedConfig;
+  /** Modification times of the contributing files when they were loaded */
+  mtimes: number[];
+}
+
+/**
+ * Raw configuration file content
+ */
+type RawConfig = Record<string, unknown>;
+
+/**
+ * Check whether a value is a plain object (not an array or null)
+ */
+function isPlainObject(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge a child configuration over its parent
+ *
+ * Objects are merged key by key; arrays and scalar values from the child
+ * replace the parent's.
+ */
+export function mergeRawConfig(parent: RawConfig, child: RawConfig): RawConfig {
+  const merged: RawConfig = { ...parent };
+
+  for (const [key, value] of Object.entries(child)) {
+    const parentValue = merged[key];
+    merged[key] =
+      isPlainObject(parentValue) && isPlainObject(value)
+        ? mergeRawConfig(parentValue, value)
+        : value;
+  }
+
+  return merged;
+}
+
+/**
+ * Get the modification time of a file, or -1 if it no longer exists
+ */
+function getMtime(path: string): number {
+  try {
+    return statSync(path).mtimeMs;
+  } catch {
+    return -1;
+  }
+}
+
+/**
+ * Resolves the configuration that applies to each file in a workspace
+ */
+export class ConfigResolver {
+  private readonly cache = new Map<string, CacheEntry>();
+
+  constructor(private readonly workspaceRoot: string = process.cwd()) {}
+
+  /**
+   * Resolve the configuration for a file from its nearest configuration file
+   *
+   * Falls back to the workspace root when no configuration file is found
+   * above the file.
+   */
+  async resolveForFile(filePath: string): Promise<ResolvedConfig> {
+    return this.resolveDirectory(this.findConfigDir(filePath) ?? this.workspaceRoot);
+  }
+
+  /**
+   * Check whether a configuration file applies to a file, or to the workspace
+   * root when no file is given, without loading it
+   */
+  hasConfig(filePath?: string): boolean {
+    return (
+      existsSync(join(this.workspaceRoot, PROJECT_CONFIG_FILE)) ||
+      (filePath !== undefined && this.findConfigDir(filePath) !== null)
+    );
+  }
+
+  /**
+   * Resolve the configuration defined in a directory
+   */
+  async resolveDirectory(configDir: string): Promise<ResolvedConfig> {
+    const cached = this.cache.get(configDir);
+    if (cached && this.isFresh(cached)) {
+      return cached.resolved;
+    }
+
+    const configPaths: string[] = [];
+    const rawConfigs: RawConfig[] = [];
+
+    // Walk up while each config asks to inherit from its parent
+    let currentDir: string | null = configDir;
+    while (currentDir) {
+      const configPath = join(currentDir, PROJECT_CONFIG_FILE);
+      const rawConfig = await new YamlConfigLoader(configPath).loadRaw();
+      const raw = isPlainObject(rawConfig) ? rawConfig : {};
+
+      configPaths.unshift(configPath);
+      rawConfigs.unshift(raw);
+
+      currentDir = raw.inherit === true ? this.findParentConfigDir(currentDir) : null;
+    }
+
+    const merged = rawConfigs.reduce((parent, child) => mergeRawConfig(parent, child), {});
+    const config = new YamlConfigLoader(join(configDir, PROJECT_CONFIG_FILE)).parse(merged);
+
+    const resolved: ResolvedConfig = { config, projectRoot: configDir, configPaths };
+    this.cache.set(configDir, { resolved, mtimes: configPaths.map(getMtime) });
+
+    return resolved;
+  }
+
+  /**
+   * Clear all cached configurations
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Find the directory of the configuration file nearest to a file
+   */
+  private findConfigDir(filePath: string): string | null {
+    return findUp(dirname(resolve(this.workspaceRoot, filePath)), PROJECT_CONFIG_FILE);
+  }
+
+  /**
+   * Find the nearest parent directory with a configuration file inside the workspace
+   */
+  private findParentConfigDir(configDir: string): string | null {
+    const parentDir = dirname(configDir);
+    if (parentDir === configDir || !this.isInWorkspace(parentDir)) {
+      return null;
+    }
+
+    const parentConfigDir = findUp(parentDir, PROJECT_CONFIG_FILE);
+    return parentConfigDir && this.isInWorkspace(parentConfigDir) ? parentConfigDir : null;
+  }
+
+  /**
+   * Check whether a directory is the workspace root or below it
+   */
+  private isInWorkspace(dir: string): boolean {
+    const path = relative(this.workspaceRoot, dir);
+    return !path.startsWith('..') && !isAbsolute(path);
+  }
+
+  /**
+   * Check whether none of the files behind a cache entry changed
+   */
+  private isFresh(entry: CacheEntry): boolean {
+    return entry.resolved.configPaths.every(
+      (configPath, index) => getMtime(configPath) === entry.mtimes[index]
+    );
+  }
+}
+
+/**
+ * Shared resolvers, one per workspace root
+ */
+const resolvers = new Map<string, ConfigResolver>();
+
+/**
+ * Get the shared ConfigResolver for a workspace root
+ */
+export function getConfigResolver(workspaceRoot: string = process.cwd()): ConfigResolver {
+  let resolver = resolvers.get(workspaceRoot);
+  if (!resolver) {
+    resolver = new ConfigResolver(workspaceRoot);
+    resolvers.set(workspaceRoot, resolver);
+  }
+  return resolver;
+}
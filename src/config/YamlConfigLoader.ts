@@ -20,7 +20,11 @@ import { type ConfigSchema, configSchema } from './schemas.js';
  * Configuration file constants
  */
 const CONFIG_FILE = 'claude-jsqualityhooks.config.yaml';
-const CONFIG_PATH = resolve(process.cwd(), CONFIG_FILE);
+
+/**
+ * Configuration problem that was already explained, thrown instead of exiting
+ */
+class ConfigLoadError extends Error {}
 
 /**
  * YAML Configuration Loader
@@ -29,44 +33,84 @@ const CONFIG_PATH = resolve(process.cwd(), CONFIG_FILE);
  * configuration from the required YAML file.
  */
 export class YamlConfigLoader implements ConfigLoader {
+  /**
+   * Whether configuration errors end the process after they are explained
+   *
+   * Long-running processes such as the daemon turn this off, so a broken
+   * configuration fails the event being handled with an error instead.
+   */
+  static exitOnError = true;
+
   private readonly configPath: string;
   private readonly configFile: string;
 
-  constructor(configPath?: string) {
+  constructor(configPath?: string, projectRoot: string = process.cwd()) {
     this.configFile = CONFIG_FILE;
-    this.configPath = configPath ?? CONFIG_PATH;
+    this.configPath = configPath ?? resolve(projectRoot, CONFIG_FILE);
   }
 
   /**
    * Load and validate configuration from YAML file
    *
    * @returns Promise<Config> - Validated configuration object
-   * @throws Never - All errors are handled gracefully with process.exit()
+   * @throws Error - Only when exitOnError is off; otherwise errors end the process
    */
   async load(): Promise<Config> {
     try {
-      // Check if config file exists
-      await this.checkConfigExists();
-
-      // Read and parse YAML file
-      const rawContent = await readFile(this.configPath, 'utf-8');
-      const parsedYaml = parseYaml(rawContent);
-
-      // Validate with Zod schema
-      const isValid = this.validate(parsedYaml);
-
-      if (!isValid || !this._validatedConfig) {
-        throw new Error('Configuration validation failed');
-      }
+      return this.parse(await this.readYaml());
+    } catch (error) {
+      this.handleLoadError(error);
+      // Never reached: handleLoadError exits or throws
+      throw new Error('Unexpected error in configuration loading');
+    }
+  }
 
-      return this._validatedConfig as Config;
+  /**
+   * Load the YAML file without validating it
+   *
+   * Used to merge configuration files before validation, so defaults are only
+   * applied once to the merged result.
+   *
+   * @returns Promise<unknown> - Parsed YAML content
+   * @throws Error - Only when exitOnError is off; otherwise errors end the process
+   */
+  async loadRaw(): Promise<unknown> {
+    try {
+      return await this.readYaml();
     } catch (error) {
       this.handleLoadError(error);
-      // This line should never be reached due to process.exit() in handleLoadError
+      // Never reached: handleLoadError exits or throws
       throw new Error('Unexpected error in configuration loading');
     }
   }
 
+  /**
+   * Validate a raw configuration object and apply defaults
+   *
+   * @param config - Raw configuration object, e.g. from loadRaw()
+   * @returns Config - Validated configuration object
+   */
+  parse(config: unknown): Config {
+    const isValid = this.validate(config);
+
+    if (!isValid || !this._validatedConfig) {
+      throw new Error('Configuration validation failed');
+    }
+
+    return this._validatedConfig as Config;
+  }
+
+  /**
+   * Read and parse the YAML file
+   */
+  private async readYaml(): Promise<unknown> {
+    // Check if config file exists
+    await this.checkConfigExists();
+
+    const rawContent = await readFile(this.configPath, 'utf-8');
+    return parseYaml(rawContent);
+  }
+
   /**
    * Validate configuration object using Zod schema
    *
@@ -108,6 +152,10 @@ export class YamlConfigLoader implements ConfigLoader {
    * @param error - The error that occurred during loading
    */
   private handleLoadError(error: unknown): never {
+    if (error instanceof ConfigLoadError) {
+      throw error;
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('ENOENT') || error.message.includes('no such file')) {
         this.showWarningAndExit();
@@ -123,7 +171,7 @@ export class YamlConfigLoader implements ConfigLoader {
     // Fallback for unknown error types
     console.error('❌ An unexpected error occurred while loading configuration.');
     console.error('Please check your claude-jsqualityhooks.config.yaml file.');
-    process.exit(1);
+    this.exit(1, 'An unexpected error occurred while loading configuration');
   }
 
   /**
@@ -153,7 +201,7 @@ export class YamlConfigLoader implements ConfigLoader {
     console.log('https://github.com/dkmaker/claude-jsqualityhooks#configuration');
 
     // Exit with code 0 - this is not an error, just missing setup
-    process.exit(0);
+    this.exit(0, `Configuration file not found: ${this.configFile}`);
   }
 
   /**
@@ -176,7 +224,7 @@ export class YamlConfigLoader implements ConfigLoader {
     console.error('For help with YAML syntax, see:');
     console.error('https://yaml.org/');
 
-    process.exit(1);
+    this.exit(1, `Configuration file ${this.configFile} has invalid YAML syntax: ${error.message}`);
   }
 
   /**
@@ -200,7 +248,10 @@ export class YamlConfigLoader implements ConfigLoader {
     console.error('For valid configuration options, see:');
     console.error('https://github.com/dkmaker/claude-jsqualityhooks#configuration');
 
-    process.exit(1);
+    const fields = error.issues.map(
+      (issue) => `${issue.path.join('.') || 'root'}: ${issue.message}`
+    );
+    this.exit(1, `Configuration file ${this.configFile} has invalid values: ${fields.join('; ')}`);
   }
 
   /**
@@ -220,6 +271,19 @@ export class YamlConfigLoader implements ConfigLoader {
     console.error('  - The file contains valid YAML syntax');
     console.error('  - The configuration values are correct');
 
-    process.exit(1);
+    this.exit(1, `Failed to load configuration file ${this.configFile}: ${error.message}`);
+  }
+
+  /**
+   * End the process, or throw the error when exitOnError is off
+   *
+   * @param code - Exit code
+   * @param message - Error message, for processes that keep running
+   */
+  private exit(code: number, message: string): never {
+    if (YamlConfigLoader.exitOnError) {
+      process.exit(code);
+    }
+    throw new ConfigLoadError(message);
   }
 }
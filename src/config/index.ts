@@ -6,17 +6,37 @@
  */
 
 import type { Config } from '../types/config.js';
+import { getConfigResolver, type ResolvedConfig } from './ConfigResolver.js';
 import { YamlConfigLoader } from './YamlConfigLoader.js';
 
 // Export the config types and schemas for use by other modules
 export type {
   AutoFixConfig,
   BiomeConfig,
+  CommandJsonFields,
+  CommandParserConfig,
+  CommandValidatorConfig,
   Config,
   ConfigLoader,
+  CyclesConfig,
+  DaemonConfig,
+  ESLintConfig,
+  HooksConfig,
+  ImportsConfig,
+  PrettierConfig,
+  RuleConfig,
+  SecretPatternConfig,
+  SecretsConfig,
+  TestsConfig,
   TypeScriptConfig,
   ValidatorsConfig,
 } from '../types/config.js';
+export {
+  ConfigResolver,
+  getConfigResolver,
+  mergeRawConfig,
+  type ResolvedConfig,
+} from './ConfigResolver.js';
 export { type ConfigSchema, configSchema, DEFAULT_CONFIG } from './schemas.js';
 // Export the YamlConfigLoader class for direct use
 export { YamlConfigLoader } from './YamlConfigLoader.js';
@@ -27,14 +47,48 @@ export { YamlConfigLoader } from './YamlConfigLoader.js';
  * This function creates a YamlConfigLoader instance and loads the configuration
  * from the default location (claude-jsqualityhooks.config.yaml in project root).
  *
+ * @param projectRoot - Directory containing the configuration file (defaults to cwd)
  * @returns Promise<Config> - Validated configuration object with smart defaults applied
- * @throws Never - All errors are handled gracefully with process.exit()
+ * @throws Error - Only when YamlConfigLoader.exitOnError is off; otherwise errors end the process
  */
-export async function loadConfig(): Promise<Config> {
-  const loader = new YamlConfigLoader();
+export async function loadConfig(projectRoot?: string): Promise<Config> {
+  const loader = new YamlConfigLoader(undefined, projectRoot);
   return await loader.load();
 }
 
+/**
+ * Load the configuration that applies to a file
+ *
+ * Uses the claude-jsqualityhooks.config.yaml nearest to the file, merged with
+ * parent configs up to the workspace root when it sets `inherit: true`.
+ * Results are cached per directory.
+ *
+ * @param filePath - File the configuration is needed for
+ * @param workspaceRoot - Outermost directory to inherit from (defaults to cwd)
+ * @returns Promise<ResolvedConfig> - Configuration and the directory it applies from
+ * @throws Error - Only when YamlConfigLoader.exitOnError is off; otherwise errors end the process
+ */
+export async function loadConfigForFile(
+  filePath: string,
+  workspaceRoot?: string
+): Promise<ResolvedConfig> {
+  return await getConfigResolver(workspaceRoot).resolveForFile(filePath);
+}
+
+/**
+ * Check whether a configuration file applies to a file without loading it
+ *
+ * Monorepos may only have configuration files in their packages, so a file
+ * can be configured while the workspace root is not.
+ *
+ * @param workspaceRoot - Workspace root, checked when no file is given
+ * @param filePath - File the configuration is needed for
+ * @returns boolean - Whether loadConfigForFile (or loadConfig without a file) finds a file
+ */
+export function hasConfig(workspaceRoot: string, filePath?: string): boolean {
+  return getConfigResolver(workspaceRoot).hasConfig(filePath);
+}
+
 /**
  * Convenience function to validate configuration using the default YamlConfigLoader
  *
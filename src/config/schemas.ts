@@ -12,10 +12,16 @@ import { z } from 'zod';
  */
 const SMART_DEFAULTS = {
   enabled: true,
+  inherit: false,
   autoFixEnabled: true,
   autoFixMaxAttempts: 3,
   timeout: 5000, // 5 seconds
   biomeVersion: 'auto' as const,
+  blockOn: 'error' as const,
+  denyOn: ['syntax', 'type'] as Array<'syntax' | 'type' | 'lint'>,
+  scope: 'file' as const,
+  daemonEnabled: false,
+  daemonIdleTimeout: 600000, // 10 minutes
   include: ['src/**/*.{ts,tsx,js,jsx}', '**/*.{ts,tsx,js,jsx}'] as string[],
   exclude: ['node_modules/**', 'dist/**', 'build/**', '.next/**', 'coverage/**'] as string[],
 };
@@ -46,6 +52,133 @@ export const typeScriptConfigSchema = z
     enabled: true,
   });
 
+/**
+ * ESLint validator configuration schema
+ *
+ * ESLint is opt-in, so the section has no default.
+ */
+export const eslintConfigSchema = z.object({
+  enabled: z.boolean(),
+  configPath: z.string().optional(),
+});
+
+/**
+ * Prettier validator configuration schema
+ *
+ * Prettier is opt-in, so the section has no default.
+ */
+export const prettierConfigSchema = z.object({
+  enabled: z.boolean(),
+  configPath: z.string().optional(),
+});
+
+/**
+ * Import resolution validator configuration schema
+ *
+ * Import checks are opt-in, so the section has no default.
+ */
+export const importsConfigSchema = z.object({
+  enabled: z.boolean(),
+  devFiles: z.array(z.string()).optional(),
+});
+
+/**
+ * Circular dependency validator configuration schema
+ *
+ * Cycle checks are opt-in, so the section has no default.
+ */
+export const cyclesConfigSchema = z.object({
+  enabled: z.boolean(),
+  allow: z.array(z.array(z.string()).min(1)).optional(),
+});
+
+/**
+ * Secret detection configuration schema
+ *
+ * Secrets are scanned unless the section disables them, so it has no default.
+ */
+export const secretsConfigSchema = z.object({
+  enabled: z.boolean(),
+  patterns: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        pattern: z.string().min(1),
+        flags: z.string().optional(),
+        description: z.string().optional(),
+      })
+    )
+    .optional(),
+  exclude: z.array(z.string()).optional(),
+  entropyThreshold: z.number().min(0).max(8).optional(),
+});
+
+/**
+ * Related tests validator configuration schema
+ *
+ * Running tests is opt-in, so the section has no default.
+ */
+export const testsConfigSchema = z.object({
+  enabled: z.boolean(),
+  runner: z.enum(['vitest', 'jest']).optional(),
+  related: z.enum(['runner', 'graph']).optional(),
+  testFiles: z.array(z.string()).optional(),
+  testFileNames: z.array(z.string().includes('{name}')).optional(),
+  timeout: z.number().min(1000).optional(),
+});
+
+/**
+ * Command validator output parser schema
+ */
+export const commandParserConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('regex'), pattern: z.string().min(1), flags: z.string().optional() }),
+  z.object({
+    type: z.literal('json'),
+    path: z.string().optional(),
+    fields: z.object({
+      file: z.string().optional(),
+      line: z.string().optional(),
+      column: z.string().optional(),
+      endLine: z.string().optional(),
+      endColumn: z.string().optional(),
+      severity: z.string().optional(),
+      message: z.string(),
+      ruleId: z.string().optional(),
+    }),
+  }),
+  z.object({ type: z.literal('sarif') }),
+  z.object({ type: z.literal('checkstyle') }),
+  z.object({ type: z.literal('file-line-col') }),
+]);
+
+/**
+ * Command validator configuration schema
+ */
+export const commandValidatorConfigSchema = z.object({
+  name: z.string().min(1),
+  command: z.string().min(1),
+  parser: commandParserConfigSchema,
+  successExitCodes: z.array(z.number().int()).optional(),
+  issueExitCodes: z.array(z.number().int()).optional(),
+  severity: z.enum(['error', 'warning', 'info']).optional(),
+  stream: z.enum(['stdout', 'stderr']).optional(),
+  stdin: z.boolean().optional(),
+  timeout: z.number().min(100).optional(),
+});
+
+/**
+ * Project rule configuration schema
+ */
+export const ruleConfigSchema = z.object({
+  name: z.string().min(1),
+  type: z.enum(['import', 'identifier', 'call']),
+  pattern: z.string().min(1),
+  files: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).optional(),
+  severity: z.enum(['error', 'warning', 'info']).optional(),
+  message: z.string().min(1),
+});
+
 /**
  * Validators configuration schema
  */
@@ -53,6 +186,14 @@ export const validatorsConfigSchema = z
   .object({
     biome: biomeConfigSchema.optional(),
     typescript: typeScriptConfigSchema.optional(),
+    eslint: eslintConfigSchema.optional(),
+    prettier: prettierConfigSchema.optional(),
+    imports: importsConfigSchema.optional(),
+    cycles: cyclesConfigSchema.optional(),
+    secrets: secretsConfigSchema.optional(),
+    tests: testsConfigSchema.optional(),
+    commands: z.array(commandValidatorConfigSchema).optional(),
+    custom: z.array(z.string()).optional(),
   })
   .default({
     biome: {
@@ -74,6 +215,34 @@ export const autoFixConfigSchema = z
     maxAttempts: SMART_DEFAULTS.autoFixMaxAttempts,
   });
 
+/**
+ * Hook behaviour configuration schema
+ */
+export const hooksConfigSchema = z
+  .object({
+    blockOn: z.enum(['error', 'warning', 'never']).default(SMART_DEFAULTS.blockOn),
+    denyOn: z.array(z.enum(['syntax', 'type', 'lint'])).default(SMART_DEFAULTS.denyOn),
+    scope: z.enum(['file', 'changes']).default(SMART_DEFAULTS.scope),
+  })
+  .default({
+    blockOn: SMART_DEFAULTS.blockOn,
+    denyOn: SMART_DEFAULTS.denyOn,
+    scope: SMART_DEFAULTS.scope,
+  });
+
+/**
+ * Background daemon configuration schema
+ */
+export const daemonConfigSchema = z
+  .object({
+    enabled: z.boolean().default(SMART_DEFAULTS.daemonEnabled),
+    idleTimeout: z.number().min(10000).default(SMART_DEFAULTS.daemonIdleTimeout),
+  })
+  .default({
+    enabled: SMART_DEFAULTS.daemonEnabled,
+    idleTimeout: SMART_DEFAULTS.daemonIdleTimeout,
+  });
+
 /**
  * Main configuration schema
  *
@@ -95,12 +264,24 @@ export const configSchema = z.object({
   include: z.array(z.string()).default(SMART_DEFAULTS.include),
   exclude: z.array(z.string()).default(SMART_DEFAULTS.exclude),
 
+  // Merge over the nearest parent config (monorepos)
+  inherit: z.boolean().default(SMART_DEFAULTS.inherit),
+
   // Validators configuration
   validators: validatorsConfigSchema,
 
   // Auto-fix configuration
   autoFix: autoFixConfigSchema,
 
+  // Hook behaviour configuration
+  hooks: hooksConfigSchema,
+
+  // Background daemon configuration
+  daemon: daemonConfigSchema,
+
+  // Project rules banning imports, identifiers and calls
+  rules: z.array(ruleConfigSchema).optional(),
+
   // Global timeout setting
   timeout: z.number().min(1000).max(30000).default(SMART_DEFAULTS.timeout),
 });
@@ -115,6 +296,7 @@ export type ConfigSchema = z.infer<typeof configSchema>;
  */
 export const DEFAULT_CONFIG: ConfigSchema = {
   enabled: SMART_DEFAULTS.enabled,
+  inherit: SMART_DEFAULTS.inherit,
   include: SMART_DEFAULTS.include,
   exclude: SMART_DEFAULTS.exclude,
   validators: {
@@ -127,5 +309,14 @@ export const DEFAULT_CONFIG: ConfigSchema = {
     enabled: SMART_DEFAULTS.autoFixEnabled,
     maxAttempts: SMART_DEFAULTS.autoFixMaxAttempts,
   },
+  hooks: {
+    blockOn: SMART_DEFAULTS.blockOn,
+    denyOn: SMART_DEFAULTS.denyOn,
+    scope: SMART_DEFAULTS.scope,
+  },
+  daemon: {
+    enabled: SMART_DEFAULTS.daemonEnabled,
+    idleTimeout: SMART_DEFAULTS.daemonIdleTimeout,
+  },
   timeout: SMART_DEFAULTS.timeout,
 };
@@ -0,0 +1,226 @@
+/**
+ * Daemon Server
+ *
+ * Long-running process that handles hook events for one project, so validators
+ * and their caches stay warm instead of being rebuilt by every hook invocation.
+ * Events are processed one at a time and the daemon exits after a period
+ * without requests.
+ */
+
+import { unlinkSync } from 'node:fs';
+import { createServer, type Server, type Socket } from 'node:net';
+import { handleHookInput } from '../cli/hookMode.js';
+import { hookInputSchema } from '../hooks/inputSchema.js';
+import { disposeCachedInstances } from '../utils/configCache.js';
+import { ensurePrivateDir } from '../utils/userDir.js';
+import { sendDaemonRequest } from './client.js';
+import { getDaemonPaths } from './paths.js';
+import {
+  DAEMON_PROTOCOL_VERSION,
+  type DaemonRequest,
+  type DaemonResponse,
+  decodeMessage,
+  encodeMessage,
+} from './protocol.js';
+
+/**
+ * Default time without requests after which the daemon exits
+ */
+export const DEFAULT_IDLE_TIMEOUT_MS = 600000;
+
+/**
+ * Serves hook events for a project over its daemon socket
+ */
+export class DaemonServer {
+  private server: Server | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly startedAt = Date.now();
+  private requests = 0;
+  private readonly dir: string;
+  private readonly socketPath: string;
+  private readonly stopped: Promise<void>;
+  private resolveStopped: () => void = () => {};
+
+  constructor(
+    private readonly projectRoot: string = process.cwd(),
+    private readonly idleTimeout: number = DEFAULT_IDLE_TIMEOUT_MS
+  ) {
+    const paths = getDaemonPaths(projectRoot);
+    this.dir = paths.dir;
+    this.socketPath = paths.socketPath;
+    this.stopped = new Promise((resolve) => {
+      this.resolveStopped = resolve;
+    });
+  }
+
+  /**
+   * Start listening on the project's socket
+   *
+   * @returns false if another daemon is already serving the project
+   * @throws If the daemon directory is not safe to use
+   */
+  async start(): Promise<boolean> {
+    ensurePrivateDir(this.dir);
+    const server = createServer((socket) => this.handleConnection(socket));
+
+    try {
+      await this.listen(server);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EADDRINUSE') {
+        throw error;
+      }
+
+      // Keep a live daemon; replace a socket left behind by one that crashed
+      const alive = await sendDaemonRequest(this.socketPath, {
+        type: 'status',
+        protocol: DAEMON_PROTOCOL_VERSION,
+      });
+      if (alive || process.platform === 'win32') {
+        return false;
+      }
+      unlinkSync(this.socketPath);
+      await this.listen(server);
+    }
+
+    this.server = server;
+    this.resetIdleTimer();
+    console.error(`[DaemonServer] Listening on ${this.socketPath} for ${this.projectRoot}`);
+    return true;
+  }
+
+  /**
+   * Stop listening, dispose of the loaded validators and let the process exit
+   */
+  async stop(): Promise<void> {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await disposeCachedInstances();
+      console.error('[DaemonServer] Stopped');
+    }
+    this.resolveStopped();
+  }
+
+  /**
+   * Resolve once the daemon has stopped
+   */
+  waitUntilStopped(): Promise<void> {
+    return this.stopped;
+  }
+
+  private listen(server: Server): Promise<void> {
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  private resetIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
+    this.idleTimer = setTimeout(() => {
+      console.error(`[DaemonServer] Idle for ${this.idleTimeout}ms, shutting down`);
+      void this.stop();
+    }, this.idleTimeout);
+    this.idleTimer.unref();
+  }
+
+  private handleConnection(socket: Socket): void {
+    let data = '';
+
+    socket.setEncoding('utf8');
+    socket.on('error', () => socket.destroy());
+    socket.on('data', (chunk) => {
+      data += chunk;
+      const newline = data.indexOf('\n');
+      if (newline === -1) {
+        return;
+      }
+
+      socket.removeAllListeners('data');
+      const request = decodeMessage<DaemonRequest>(data.slice(0, newline));
+      void this.handleRequest(request).then((response) => {
+        socket.end(encodeMessage(response));
+        if (response.type === 'stopping') {
+          void this.stop();
+        }
+      });
+    });
+  }
+
+  private async handleRequest(request: DaemonRequest | null): Promise<DaemonResponse> {
+    this.resetIdleTimer();
+
+    if (!request) {
+      return { type: 'error', message: 'Invalid request' };
+    }
+    if (request.protocol !== DAEMON_PROTOCOL_VERSION) {
+      return {
+        type: 'error',
+        message: `Unsupported protocol version ${request.protocol} (expected ${DAEMON_PROTOCOL_VERSION})`,
+      };
+    }
+
+    switch (request.type) {
+      case 'status':
+        return {
+          type: 'status',
+          status: {
+            pid: process.pid,
+            projectRoot: this.projectRoot,
+            uptime: Date.now() - this.startedAt,
+            requests: this.requests,
+          },
+        };
+      case 'stop':
+        return { type: 'stopping' };
+      case 'hook':
+        return this.enqueue(() => this.handleHook(request.input));
+      default:
+        return { type: 'error', message: 'Unknown request type' };
+    }
+  }
+
+  /**
+   * Run hook events one after another, as separate hook processes would
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async handleHook(payload: unknown): Promise<DaemonResponse> {
+    const parsed = hookInputSchema.safeParse(payload);
+    if (!parsed.success) {
+      return { type: 'error', message: 'Invalid hook input' };
+    }
+
+    this.requests++;
+    try {
+      return { type: 'hook', response: await handleHookInput(parsed.data) };
+    } catch (error) {
+      // The event was taken, so the failure is its answer rather than a rejection
+      return {
+        type: 'hook',
+        response: {
+          exitCode: 1,
+          stderr: `Hook failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      };
+    } finally {
+      this.resetIdleTimer();
+    }
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Daemon Client
+ *
+ * Used by the hook entry point and the `daemon` commands. Failing to reach
+ * the daemon resolves to null so callers can fall back to running in process.
+ * Once the daemon has taken a hook event, the client waits for its answer:
+ * processing the event again in process would check and fix the file twice.
+ */
+
+import { spawn } from 'node:child_process';
+import { openSync } from 'node:fs';
+import { createConnection } from 'node:net';
+import type { HookResponse } from '../cli/hookProtocol.js';
+import type { HookInput } from '../hooks/inputSchema.js';
+import { ensurePrivateDir } from '../utils/userDir.js';
+import { getDaemonPaths } from './paths.js';
+import {
+  DAEMON_PROTOCOL_VERSION,
+  type DaemonRequest,
+  type DaemonResponse,
+  type DaemonStatus,
+  decodeMessage,
+  encodeMessage,
+} from './protocol.js';
+
+/**
+ * Maximum time to wait for the daemon to answer a status or stop request
+ */
+const CONTROL_REQUEST_TIMEOUT_MS = 2000;
+
+/**
+ * Maximum time to wait for a newly spawned daemon to accept connections
+ */
+const START_TIMEOUT_MS = 5000;
+
+/**
+ * Outcome of sending a request to the daemon
+ */
+interface DaemonExchange {
+  /** Whether the daemon accepted the connection and received the request */
+  delivered: boolean;
+  /** The response, or null if none arrived */
+  response: DaemonResponse | null;
+}
+
+/**
+ * Send a request to the daemon listening on a socket
+ *
+ * @returns The response, or null if the daemon is not running, fails or times out
+ */
+export async function sendDaemonRequest(
+  socketPath: string,
+  request: DaemonRequest,
+  timeoutMs: number = CONTROL_REQUEST_TIMEOUT_MS
+): Promise<DaemonResponse | null> {
+  return (await exchangeMessages(socketPath, request, timeoutMs, timeoutMs)).response;
+}
+
+/**
+ * Send a request and wait for the response
+ *
+ * @param connectTimeoutMs - Time the daemon has to accept the connection
+ * @param responseTimeoutMs - Time the daemon has to answer once it received the
+ *   request, or null to wait until it answers or closes the connection
+ */
+function exchangeMessages(
+  socketPath: string,
+  request: DaemonRequest,
+  connectTimeoutMs: number,
+  responseTimeoutMs: number | null
+): Promise<DaemonExchange> {
+  return new Promise((resolve) => {
+    const socket = createConnection(socketPath);
+    let data = '';
+    let delivered = false;
+    let settled = false;
+
+    const finish = (response: DaemonResponse | null) => {
+      if (!settled) {
+        settled = true;
+        clearTimeout(timeout);
+        socket.destroy();
+        resolve({ delivered, response });
+      }
+    };
+
+    let timeout = setTimeout(() => finish(null), connectTimeoutMs);
+
+    socket.setEncoding('utf8');
+    socket.on('connect', () => {
+      socket.write(encodeMessage(request), () => {
+        delivered = true;
+        clearTimeout(timeout);
+        if (responseTimeoutMs !== null) {
+          timeout = setTimeout(() => finish(null), responseTimeoutMs);
+        }
+      });
+    });
+    socket.on('data', (chunk) => {
+      data += chunk;
+      const newline = data.indexOf('\n');
+      if (newline !== -1) {
+        finish(decodeMessage<DaemonResponse>(data.slice(0, newline)));
+      }
+    });
+    socket.on('error', () => finish(null));
+    socket.on('close', () => finish(null));
+  });
+}
+
+/**
+ * Get the socket of the project's daemon
+ *
+ * @returns The socket path, or null if the daemon directory is not safe to use
+ */
+function getSocketPath(projectRoot: string): string | null {
+  const { dir, socketPath } = getDaemonPaths(projectRoot);
+
+  try {
+    ensurePrivateDir(dir);
+    return socketPath;
+  } catch (error) {
+    console.warn(
+      `[DaemonClient] Not using the daemon: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    return null;
+  }
+}
+
+/**
+ * Let the project's daemon process a hook event
+ *
+ * Waits for the daemon to answer once it took the event; the hook's own
+ * timeout in Claude Code bounds the wait.
+ *
+ * @returns The hook response, or null if the daemon could not be reached or
+ *   rejected the event, so it must be processed in process
+ */
+export async function requestHookFromDaemon(
+  projectRoot: string,
+  input: HookInput
+): Promise<HookResponse | null> {
+  const socketPath = getSocketPath(projectRoot);
+  if (!socketPath) {
+    return null;
+  }
+
+  const { delivered, response } = await exchangeMessages(
+    socketPath,
+    { type: 'hook', protocol: DAEMON_PROTOCOL_VERSION, input },
+    CONTROL_REQUEST_TIMEOUT_MS,
+    null
+  );
+
+  if (response?.type === 'hook') {
+    return response.response;
+  }
+  if (!delivered || response?.type === 'error') {
+    return null;
+  }
+
+  // The daemon may have checked or fixed the file before it went away
+  return {
+    exitCode: 1,
+    stderr: 'The claude-jsqualityhooks daemon stopped before answering; the edit was not reported',
+  };
+}
+
+/**
+ * Get the status of the project's daemon
+ *
+ * @returns The status, or null if no daemon is running
+ */
+export async function getDaemonStatus(projectRoot: string): Promise<DaemonStatus | null> {
+  const socketPath = getSocketPath(projectRoot);
+  if (!socketPath) {
+    return null;
+  }
+
+  const response = await sendDaemonRequest(socketPath, {
+    type: 'status',
+    protocol: DAEMON_PROTOCOL_VERSION,
+  });
+
+  return response?.type === 'status' ? response.status : null;
+}
+
+/**
+ * Ask the project's daemon to shut down
+ *
+ * @returns Whether a running daemon acknowledged the request
+ */
+export async function stopDaemon(projectRoot: string): Promise<boolean> {
+  const socketPath = getSocketPath(projectRoot);
+  if (!socketPath) {
+    return false;
+  }
+
+  const response = await sendDaemonRequest(socketPath, {
+    type: 'stop',
+    protocol: DAEMON_PROTOCOL_VERSION,
+  });
+
+  return response?.type === 'stopping';
+}
+
+/**
+ * Spawn a detached daemon for the project
+ *
+ * The daemon runs `<cli> daemon run` and outlives the calling process.
+ *
+ * @throws If the daemon directory is not safe to use
+ */
+export function spawnDaemon(projectRoot: string, cliPath: string = process.argv[1] ?? ''): void {
+  const { dir, logPath } = getDaemonPaths(projectRoot);
+  ensurePrivateDir(dir);
+  const log = openSync(logPath, 'a', 0o600);
+
+  const child = spawn(process.execPath, [cliPath, 'daemon', 'run', '--project-root', projectRoot], {
+    cwd: projectRoot,
+    detached: true,
+    stdio: ['ignore', log, log],
+    windowsHide: true,
+  });
+  child.unref();
+}
+
+/**
+ * Start a daemon for the project and wait until it accepts connections
+ *
+ * @returns The status of the running daemon, or null if it did not come up in time
+ */
+export async function startDaemon(
+  projectRoot: string,
+  cliPath?: string
+): Promise<DaemonStatus | null> {
+  const running = await getDaemonStatus(projectRoot);
+  if (running) {
+    return running;
+  }
+
+  spawnDaemon(projectRoot, cliPath);
+
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const status = await getDaemonStatus(projectRoot);
+    if (status) {
+      return status;
+    }
+  }
+
+  return null;
+}
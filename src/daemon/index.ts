@@ -0,0 +1,8 @@
+/**
+ * Daemon exports
+ */
+
+export * from './client.js';
+export * from './DaemonServer.js';
+export * from './paths.js';
+export * from './protocol.js';
@@ -0,0 +1,47 @@
+/**
+ * Daemon Paths
+ *
+ * Each project gets its own daemon, addressed by a socket derived from a hash
+ * of the project root. Sockets and logs live in the per-user directory. Paths
+ * are kept short because unix socket paths are limited to about 100
+ * characters.
+ */
+
+import { createHash } from 'node:crypto';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getUserDir } from '../utils/userDir.js';
+
+/**
+ * Socket and log locations of a project's daemon
+ */
+export interface DaemonPaths {
+  /** Per-user directory holding the socket and the log */
+  dir: string;
+  /** Unix socket (named pipe on Windows) the daemon listens on */
+  socketPath: string;
+  /** File the detached daemon writes its diagnostic output to */
+  logPath: string;
+}
+
+/**
+ * Get the daemon paths for a project root
+ *
+ * Call `ensurePrivateDir()` on `dir` before using the paths.
+ */
+export function getDaemonPaths(projectRoot: string): DaemonPaths {
+  const id = createHash('sha1').update(projectRoot).digest('hex').slice(0, 12);
+
+  // Named pipes are not files, and the temp directory is already per user
+  if (process.platform === 'win32') {
+    const name = `claude-jsqualityhooks-${id}`;
+    return {
+      dir: tmpdir(),
+      socketPath: `\\\\.\\pipe\\${name}`,
+      logPath: join(tmpdir(), `${name}.log`),
+    };
+  }
+
+  const dir = getUserDir();
+  return { dir, socketPath: join(dir, `${id}.sock`), logPath: join(dir, `${id}.log`) };
+}
@@ -0,0 +1,69 @@
+/**
+ * Daemon Protocol
+ *
+ * Client and daemon exchange one newline-terminated JSON message each way per
+ * connection. Requests carry a protocol version so a client never talks to a
+ * daemon started from an incompatible release.
+ */
+
+import type { HookResponse } from '../cli/hookProtocol.js';
+import type { HookInput } from '../hooks/inputSchema.js';
+
+/**
+ * Version of the message format, bumped on incompatible changes
+ */
+export const DAEMON_PROTOCOL_VERSION = 1;
+
+/**
+ * Messages sent to the daemon
+ */
+export type DaemonRequest =
+  | { type: 'hook'; protocol: number; input: HookInput }
+  | { type: 'status'; protocol: number }
+  | { type: 'stop'; protocol: number };
+
+/**
+ * Daemon state reported by a status request
+ */
+export interface DaemonStatus {
+  pid: number;
+  projectRoot: string;
+  /** Milliseconds since the daemon started */
+  uptime: number;
+  /** Number of hook events handled */
+  requests: number;
+}
+
+/**
+ * Messages sent back by the daemon
+ *
+ * An `error` means the request was rejected without being processed.
+ */
+export type DaemonResponse =
+  | { type: 'hook'; response: HookResponse }
+  | { type: 'status'; status: DaemonStatus }
+  | { type: 'stopping' }
+  | { type: 'error'; message: string };
+
+/**
+ * Serialize a message for the wire
+ */
+export function encodeMessage(message: DaemonRequest | DaemonResponse): string {
+  return `${JSON.stringify(message)}\n`;
+}
+
+/**
+ * Parse a message received from the wire
+ *
+ * @returns The message, or null if it is not valid JSON
+ */
+export function decodeMessage<T extends DaemonRequest | DaemonResponse>(line: string): T | null {
+  try {
+    const message = JSON.parse(line);
+    return typeof message === 'object' && message !== null && typeof message.type === 'string'
+      ? (message as T)
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,16 +1,27 @@
 /**
  * AutoFixEngine - Core auto-fix engine for Phase 3
  *
- * Applies Biome fixes to files using version-specific adapters.
+ * Applies TypeScript quick fixes, Prettier formatting, ESLint fixes, custom
+ * validator fixes and Biome fixes (using version-specific adapters) to files.
  * Implements sequential fix order and tracks statistics.
  */
 
 import { readFile, writeFile } from 'node:fs/promises';
+import { relative } from 'node:path';
 import { execa } from 'execa';
 import type { Config } from '../types/config.js';
 import { detectBiomeVersion } from '../utils/versionDetector.js';
-import type { BiomeAdapter, ValidationIssue } from '../validators/biome/adapters/BiomeAdapter.js';
-import { createAdapterFromDetection } from '../validators/biome/adapters/BiomeAdapterFactory.js';
+import type {
+  BiomeAdapter,
+  TextEdit,
+  ValidationIssue,
+} from '../validators/biome/adapters/BiomeAdapter.js';
+import { createPreferredAdapter } from '../validators/biome/adapters/BiomeAdapterFactory.js';
+import { BUILTIN_VALIDATORS } from '../validators/builtinValidators.js';
+import { ESLintValidator } from '../validators/eslint/index.js';
+import { PrettierValidator } from '../validators/prettier/index.js';
+import { isSafeQuickFix } from '../validators/typescript/quickFixes.js';
+import { ValidatorManager } from '../validators/ValidatorManager.js';
 
 /**
  * Fix statistics tracking
@@ -44,14 +55,71 @@ export interface FileInfo {
   issues: ValidationIssue[];
 }
 
+/**
+ * Apply the fixes attached to issues to content
+ *
+ * Edits refer to the original content, so they are applied from the end of
+ * the file backwards. A fix whose edits overlap an already accepted fix is
+ * skipped as a whole; identical edits (e.g. the same missing import for two
+ * usages) are applied once.
+ */
+function applyIssueFixes(
+  content: string,
+  issues: ValidationIssue[]
+): { content: string; applied: number } {
+  const accepted: TextEdit[] = [];
+  let applied = 0;
+
+  for (const issue of issues) {
+    const edits = (issue.fix?.edits ?? []).filter(
+      (edit) =>
+        !accepted.some(
+          (other) =>
+            other.start === edit.start &&
+            other.length === edit.length &&
+            other.newText === edit.newText
+        )
+    );
+    const overlaps = edits.some((edit) =>
+      accepted.some(
+        (other) => edit.start < other.start + other.length && other.start < edit.start + edit.length
+      )
+    );
+
+    if (!overlaps) {
+      accepted.push(...edits);
+      applied++;
+    }
+  }
+
+  let result = content;
+  for (const edit of [...accepted].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.newText + result.slice(edit.start + edit.length);
+  }
+
+  return { content: result, applied };
+}
+
 /**
  * AutoFixEngine class - applies fixes sequentially and safely
  */
 export class AutoFixEngine {
   private readonly config: Config;
+  private readonly projectRoot: string;
+  private readonly validatorManager: ValidatorManager;
 
-  constructor(config: Config) {
+  /**
+   * @param validatorManager - Validators whose custom fixes are applied, such
+   *   as the ones that reported the issues
+   */
+  constructor(
+    config: Config,
+    projectRoot: string = process.cwd(),
+    validatorManager: ValidatorManager = new ValidatorManager(config, projectRoot)
+  ) {
     this.config = config;
+    this.projectRoot = projectRoot;
+    this.validatorManager = validatorManager;
   }
 
   /**
@@ -110,6 +178,72 @@ export class AutoFixEngine {
       // Create backup of original content
       await this.createBackup(fileInfo.path, fileInfo.content);
 
+      // Apply TypeScript quick fixes first: their edits refer to the checked content
+      const quickFixIssues = fixableIssues.filter(
+        (issue) => issue.source !== 'eslint' && issue.fix !== undefined && isSafeQuickFix(issue.fix)
+      );
+      if (quickFixIssues.length > 0) {
+        const quickFixResult = applyIssueFixes(currentContent, quickFixIssues);
+        fixAttempts++;
+        if (quickFixResult.content !== currentContent) {
+          await writeFile(fileInfo.path, quickFixResult.content, 'utf-8');
+          currentContent = quickFixResult.content;
+          fixesApplied.push(`Applied ${quickFixResult.applied} TypeScript quick fix(es)`);
+        }
+      }
+
+      // Format with Prettier before running the other fix tools
+      const prettierIssues = fixableIssues.filter((issue) => issue.source === 'prettier');
+      if (prettierIssues.length > 0) {
+        const prettierResult = await this.applyPrettierFormatting(fileInfo.path, currentContent);
+        fixAttempts++;
+        if (prettierResult.error) {
+          errors.push(prettierResult.error);
+        } else if (
+          prettierResult.output !== undefined &&
+          prettierResult.output !== currentContent
+        ) {
+          await writeFile(fileInfo.path, prettierResult.output, 'utf-8');
+          currentContent = prettierResult.output;
+          fixesApplied.push('Formatted the file with Prettier');
+        }
+      }
+
+      // Apply ESLint fixes before Biome, so Biome formats their result
+      const eslintIssues = fixableIssues.filter((issue) => issue.source === 'eslint');
+      if (eslintIssues.length > 0) {
+        const eslintResult = await this.applyESLintFixes(fileInfo.path, currentContent);
+        fixAttempts++;
+        if (eslintResult.error) {
+          errors.push(eslintResult.error);
+        } else if (eslintResult.output !== undefined && eslintResult.output !== currentContent) {
+          await writeFile(fileInfo.path, eslintResult.output, 'utf-8');
+          currentContent = eslintResult.output;
+          fixesApplied.push(`Fixed ${eslintIssues.length} ESLint issue(s)`);
+        }
+      }
+
+      // Let custom validators fix their own issues
+      const customSources = new Set(
+        fixableIssues
+          .map((issue) => issue.source)
+          .filter((source): source is string => source !== undefined && this.isCustomSource(source))
+      );
+      if (customSources.size > 0) {
+        const customResult = await this.applyCustomFixes(
+          fileInfo.path,
+          currentContent,
+          customSources
+        );
+        fixAttempts += customResult.attempts;
+        errors.push(...customResult.errors);
+        if (customResult.content !== currentContent) {
+          await writeFile(fileInfo.path, customResult.content, 'utf-8');
+          currentContent = customResult.content;
+          fixesApplied.push(...customResult.fixesApplied);
+        }
+      }
+
       // Apply Biome fixes if we have Biome issues
       const biomeIssues = fixableIssues.filter((issue) => this.isBiomeIssue(issue));
       if (biomeIssues.length > 0) {
@@ -189,9 +323,95 @@ export class AutoFixEngine {
    * Check if issue is from Biome validator
    */
   private isBiomeIssue(issue: ValidationIssue): boolean {
-    // This is a simple check - in reality we might need more sophisticated logic
-    // For now, assume all fixable issues can be handled by Biome
-    return issue.fixable;
+    // Issues from other validators are fixed by those validators or through their edits
+    if (issue.source !== undefined) {
+      return issue.fixable && issue.source === 'biome';
+    }
+    return issue.fixable && issue.fix === undefined;
+  }
+
+  /**
+   * Format the content with Prettier
+   */
+  private async applyPrettierFormatting(
+    filePath: string,
+    content: string
+  ): Promise<{ output?: string | undefined; error?: string | undefined }> {
+    const validator = new PrettierValidator(
+      this.config.validators.prettier ?? { enabled: true },
+      this.projectRoot
+    );
+    const result = await validator.format({ path: filePath, content });
+    return { output: result.output, error: result.error };
+  }
+
+  /**
+   * Run ESLint with fixes on the content
+   *
+   * ESLint applies fixes in several passes, which the edits attached to
+   * single issues cannot reproduce, so its fixed output is used instead.
+   */
+  private async applyESLintFixes(
+    filePath: string,
+    content: string
+  ): Promise<{ output?: string | undefined; error?: string | undefined }> {
+    const validator = new ESLintValidator(
+      this.config.validators.eslint ?? { enabled: true },
+      this.projectRoot
+    );
+    const result = await validator.fix({ path: filePath, content });
+    return { output: result.output, error: result.error };
+  }
+
+  /**
+   * Check whether issues from a source come from a custom validator
+   */
+  private isCustomSource(source: string): boolean {
+    return !BUILTIN_VALIDATORS.some((builtin) => builtin.name === source);
+  }
+
+  /**
+   * Run the fixes of the custom validators that reported fixable issues
+   *
+   * Validators are applied one after another, each on the previous result.
+   * They are the validator manager's instances, which it initializes and
+   * disposes of.
+   */
+  private async applyCustomFixes(
+    filePath: string,
+    content: string,
+    sources: Set<string>
+  ): Promise<{ content: string; fixesApplied: string[]; errors: string[]; attempts: number }> {
+    const fixesApplied: string[] = [];
+    const errors: string[] = [];
+    let attempts = 0;
+    let currentContent = content;
+
+    for (const validator of await this.validatorManager.getValidators()) {
+      if (!sources.has(validator.name) || !validator.fix) {
+        continue;
+      }
+
+      attempts++;
+      try {
+        const result = await validator.fix({
+          path: filePath,
+          relativePath: relative(this.projectRoot, filePath),
+          content: currentContent,
+        });
+
+        if (result.error) {
+          errors.push(result.error);
+        } else if (result.content !== currentContent) {
+          currentContent = result.content;
+          fixesApplied.push(`Applied ${validator.name} fixes`);
+        }
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return { content: currentContent, fixesApplied, errors, attempts };
   }
 
   /**
@@ -212,8 +432,12 @@ export class AutoFixEngine {
 
     try {
       // Detect Biome version and create adapter
-      const versionInfo = await detectBiomeVersion();
-      const adapter = createAdapterFromDetection(versionInfo);
+      const versionInfo = await detectBiomeVersion(this.config.validators.biome, this.projectRoot);
+      const adapter = await createPreferredAdapter(
+        versionInfo,
+        this.projectRoot,
+        this.config.validators.biome?.configPath
+      );
 
       // Group issues by fix type for sequential application
       const formatIssues = issues.filter((issue) => this.isFormatIssue(issue));
@@ -286,35 +510,34 @@ export class AutoFixEngine {
     _fixType: 'format' | 'imports' | 'lint'
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const fixFlag = adapter.getFixFlag(false); // Only safe fixes
-      const command = ['biome', 'check', filePath];
-
-      // Add fix flags (split by space if needed)
-      const fixFlags = fixFlag.split(' ').filter((flag: string) => flag.length > 0);
-      command.push(...fixFlags);
-
-      command.push('--reporter=json');
-
-      // Add no-colors flag for Biome 2.x
-      if (adapter.version === '2.x') {
-        command.push('--no-colors');
-      }
-
-      if (command.length === 0) {
-        return { success: false, error: 'Empty command array' };
+      // Adapters backed by the JS API apply all safe fixes in-process
+      if (adapter.checkContent) {
+        const content = await readFile(filePath, 'utf-8');
+        const result = await adapter.checkContent(content, filePath, { autoFix: true });
+        if (result.content !== content) {
+          await writeFile(filePath, result.content, 'utf-8');
+        }
+        return { success: true };
       }
 
-      const firstCommand = command[0];
-      if (!firstCommand) {
-        return { success: false, error: 'First command is empty' };
-      }
+      // Run the project's Biome the same way BiomeValidator does
+      const command = adapter.buildCommand(filePath, {
+        autoFix: true,
+        configPath: this.config.validators.biome?.configPath || undefined,
+        unsafeFixes: false, // Only safe fixes
+      });
 
-      const result = await execa(firstCommand, command.slice(1), {
+      const result = await execa('npx', ['@biomejs/biome', ...command], {
         timeout: this.config.timeout || 5000,
-        cwd: process.cwd(),
+        cwd: this.projectRoot,
+        reject: false, // Exit codes are interpreted below
       });
 
-      return { success: result.exitCode === 0 || result.exitCode === 1 }; // 1 is OK for fixes applied
+      // 1 is OK: fixes were applied and issues without safe fixes remain
+      if (result.exitCode === 0 || result.exitCode === 1) {
+        return { success: true };
+      }
+      return { success: false, error: result.stderr || result.message || 'Biome could not be run' };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return { success: false, error: errorMessage };
@@ -325,6 +548,10 @@ export class AutoFixEngine {
    * Check if issue is formatting related
    */
   private isFormatIssue(issue: ValidationIssue): boolean {
+    if (issue.category) {
+      return issue.category === 'format';
+    }
+
     const formatKeywords = ['format', 'indent', 'spacing', 'semicolon', 'quotes'];
     const message = issue.message.toLowerCase();
     return formatKeywords.some((keyword) => message.includes(keyword));
@@ -334,6 +561,10 @@ export class AutoFixEngine {
    * Check if issue is import related
    */
   private isImportIssue(issue: ValidationIssue): boolean {
+    if (issue.category) {
+      return issue.category === 'import';
+    }
+
     const importKeywords = ['import', 'unused', 'organize'];
     const message = issue.message.toLowerCase();
     return importKeywords.some((keyword) => message.includes(keyword));
@@ -371,7 +371,18 @@ export class ConflictResolver {
  * Utility function to classify fix priority based on validation issue
  */
 export function classifyFixPriority(issue: ValidationIssue): FixPriority {
-  // Classify based on message content since ValidationIssue doesn't have a rule property
+  // Validators that categorize their issues are trusted over message keywords
+  switch (issue.category) {
+    case 'format':
+      return FixPriority.FORMATTING;
+    case 'import':
+      return FixPriority.IMPORTS;
+    case 'lint':
+      return issue.fixable ? FixPriority.SAFE_LINT : FixPriority.OTHER;
+    case 'type':
+      return FixPriority.OTHER;
+  }
+
   const message = issue.message.toLowerCase();
 
   // Formatting fixes have highest priority
@@ -407,8 +418,8 @@ export function classifyFixPriority(issue: ValidationIssue): FixPriority {
  */
 export function getFixLineRange(issue: ValidationIssue): [number, number] {
   const startLine = issue.line || 1;
-  // Since ValidationIssue doesn't have endLine, assume single line
-  const endLine = issue.line || 1;
+  // Issues without an end are assumed to span a single line
+  const endLine = Math.max(issue.endLine ?? startLine, startLine);
   return [startLine, endLine];
 }
 
@@ -97,18 +97,29 @@ export interface VerificationResult {
 export class FixVerifier {
   private validatorManager: ValidatorManager;
 
-  constructor(config: Config) {
-    this.validatorManager = new ValidatorManager(config);
+  /**
+   * @param validatorManager - Validators to re-run, such as the ones the
+   *   original validation used
+   */
+  constructor(
+    config: Config,
+    projectRoot: string = process.cwd(),
+    validatorManager: ValidatorManager = new ValidatorManager(config, projectRoot)
+  ) {
+    this.validatorManager = validatorManager;
   }
 
   /**
    * Verify fixes applied to a file
+   *
+   * @param signal - Aborted when the hook times out
    */
   async verifyFixes(
     filePath: string,
     originalContent: string,
     fixedContent: string,
-    originalValidation: ValidationResponse
+    originalValidation: ValidationResponse,
+    signal?: AbortSignal
   ): Promise<VerificationResult> {
     const startTime = performance.now();
     const warnings: string[] = [];
@@ -139,9 +150,14 @@ export class FixVerifier {
         exists: integrity.exists,
         size: integrity.size,
         lastModified: Date.now(),
+        signal,
       };
 
-      const newValidation = await this.validatorManager.validateFile(fileInfo);
+      // Related tests can take most of the hook's time, so running them again
+      // would make the hook time out; fixes are not meant to change behavior
+      const newValidation = await this.validatorManager.validateFile(fileInfo, {
+        reuse: originalValidation.results.filter((result) => result.validator === 'tests'),
+      });
       const validationDuration = performance.now() - validationStartTime;
 
       // Step 3: Compare issue counts and identify changes
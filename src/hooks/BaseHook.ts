@@ -35,9 +35,14 @@ export abstract class BaseHook implements Hook {
   async execute(file: FileInfo): Promise<HookResult> {
     const startTime = performance.now();
 
+    const controller = new AbortController();
+
     try {
       // Execute hook with timeout protection
-      const result = await this.withTimeout(this.executeHook(file));
+      const result = await this.withTimeout(
+        this.executeHook({ ...file, signal: controller.signal }),
+        controller
+      );
       const duration = performance.now() - startTime;
 
       return {
@@ -76,18 +81,21 @@ export abstract class BaseHook implements Hook {
    * Wrap promise with timeout using Promise.race
    *
    * @param promise - Promise to wrap with timeout
+   * @param controller - Aborted on timeout, so the work behind the promise stops too
    * @returns Promise that rejects after timeout
    */
-  protected withTimeout<T>(promise: Promise<T>): Promise<T> {
+  protected withTimeout<T>(promise: Promise<T>, controller?: AbortController): Promise<T> {
     const timeoutMs = this.config.timeout ?? this.defaultTimeout;
+    let timer: NodeJS.Timeout | undefined;
 
     const timeoutPromise = new Promise<T>((_, reject) => {
-      setTimeout(() => {
+      timer = setTimeout(() => {
+        controller?.abort();
         reject(new Error(`Hook '${this.name}' timed out after ${timeoutMs}ms`));
       }, timeoutMs);
     });
 
-    return Promise.race([promise, timeoutPromise]);
+    return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
   }
 
   /**
@@ -22,7 +22,10 @@ export class HookManager {
   private readonly hooks = new Map<string, Hook>();
   private initialized = false;
 
-  constructor(private readonly config: Config) {}
+  constructor(
+    private readonly config: Config,
+    private readonly projectRoot: string = process.cwd()
+  ) {}
 
   /**
    * Initialize hooks based on configuration
@@ -158,6 +161,24 @@ export class HookManager {
     return results;
   }
 
+  /**
+   * Dispose of all registered hooks
+   *
+   * Hooks are initialized again on the next execution.
+   */
+  async dispose(): Promise<void> {
+    for (const hook of this.hooks.values()) {
+      try {
+        await hook.dispose?.();
+      } catch (error) {
+        this.warn(`Failed to dispose hook '${hook.name}'`, error);
+      }
+    }
+
+    this.hooks.clear();
+    this.initialized = false;
+  }
+
   /**
    * Get registered hook names
    */
@@ -195,7 +216,7 @@ export class HookManager {
   private async initializePostWriteHook(): Promise<void> {
     try {
       // PostWrite hook is always initialized when system is enabled
-      const postWriteHook = new PostWriteHook(this.config);
+      const postWriteHook = new PostWriteHook(this.config, this.projectRoot);
       this.hooks.set('postWrite', postWriteHook);
       this.info('PostWrite hook initialized');
     } catch (error) {
@@ -7,101 +7,116 @@
 
 import { readFileSync } from 'node:fs';
 import { extname, resolve } from 'node:path';
-import type { ClaudeCodeInput, FileInfo } from '../types/hooks.js';
+import type { FileInfo } from '../types/hooks.js';
+import {
+  type FileEdit,
+  type HookInputParseResult,
+  parseHookInputText,
+  type ToolHookInput,
+} from './inputSchema.js';
 
 /**
- * Parse Claude Code input from stdin
+ * Maximum time to wait for Claude Code to send input on stdin
  */
-export async function parseStdin(): Promise<ClaudeCodeInput | null> {
-  try {
-    // Read all input from stdin
-    const chunks: Uint8Array[] = [];
+const STDIN_TIMEOUT_MS = 5000;
 
+/**
+ * Read all of stdin as text
+ */
+function readStdin(): Promise<string | null> {
+  return new Promise((resolve) => {
     if (process.stdin.isTTY) {
       // No stdin input available
-      return null;
+      resolve(null);
+      return;
     }
 
-    // Set stdin encoding
-    process.stdin.setEncoding('utf8');
+    let data = '';
 
-    // Read stdin chunks
-    for await (const chunk of process.stdin) {
-      chunks.push(Buffer.from(chunk, 'utf8'));
-    }
+    // Set up timeout for stdin reading
+    const timeout = setTimeout(() => {
+      resolve(null);
+    }, STDIN_TIMEOUT_MS);
 
-    if (chunks.length === 0) {
-      return null;
-    }
+    process.stdin.setEncoding('utf8');
 
-    // Combine chunks and parse JSON
-    const inputData = Buffer.concat(chunks).toString('utf8').trim();
+    process.stdin.on('data', (chunk) => {
+      data += chunk;
+    });
 
-    if (!inputData) {
-      return null;
-    }
+    process.stdin.on('end', () => {
+      clearTimeout(timeout);
+      resolve(data);
+    });
 
-    const parsed = JSON.parse(inputData) as ClaudeCodeInput;
-    return validateInput(parsed) ? parsed : null;
-  } catch (error) {
-    console.warn('[InputHandler] Failed to parse stdin input:', error);
-    return null;
-  }
+    process.stdin.on('error', () => {
+      clearTimeout(timeout);
+      resolve(null);
+    });
+  });
 }
 
 /**
- * Parse Claude Code input from string
+ * Parse and validate Claude Code hook input from stdin
  */
-export function parseString(input: string): ClaudeCodeInput | null {
-  try {
-    const trimmed = input.trim();
-    if (!trimmed) {
-      return null;
-    }
-
-    const parsed = JSON.parse(trimmed) as ClaudeCodeInput;
-    return validateInput(parsed) ? parsed : null;
-  } catch (error) {
-    console.warn('[InputHandler] Failed to parse input string:', error);
-    return null;
+export async function parseStdin(): Promise<HookInputParseResult> {
+  const text = await readStdin();
+
+  if (text === null) {
+    return {
+      success: false,
+      error: `Invalid hook input: no input received on stdin within ${STDIN_TIMEOUT_MS}ms`,
+    };
   }
+
+  return parseHookInputText(text);
 }
 
 /**
- * Convert Claude Code input to FileInfo
+ * Parse and validate Claude Code hook input from string
  */
-export async function inputToFileInfo(input: ClaudeCodeInput): Promise<FileInfo> {
-  const filePath = resolve(input.file_path);
+export function parseString(input: string): HookInputParseResult {
+  return parseHookInputText(input);
+}
+
+/**
+ * Convert tool hook input to FileInfo
+ */
+export async function inputToFileInfo(input: ToolHookInput): Promise<FileInfo> {
+  const { file_path: inputPath, content: inputContent } = input.tool_input;
+  if (!inputPath) {
+    throw new Error(`${input.tool_name} input has no file path`);
+  }
+
+  const filePath = resolve(inputPath);
   const extension = extname(filePath);
 
-  // Determine file content based on operation type
+  // Determine file content based on tool type
   let content = '';
 
   try {
-    switch (input.operation) {
-      case 'write':
+    switch (input.tool_name) {
+      case 'Write':
         // For write operations, use provided content
-        content = input.content ?? '';
+        content = inputContent ?? '';
         break;
 
-      case 'edit':
-      case 'multiedit':
-        // For edit operations, read current file content
-        // In real scenarios, Claude would provide the final content
-        // but we can read from disk as fallback
+      case 'Edit':
+      case 'MultiEdit':
+        // Edits only carry replacements, so read the edited file from disk
         try {
           content = readFileSync(filePath, 'utf-8');
         } catch {
-          content = input.content ?? '';
+          content = inputContent ?? '';
         }
         break;
 
       default:
-        content = input.content ?? '';
+        content = inputContent ?? '';
     }
   } catch (error) {
     console.warn(`[InputHandler] Failed to determine content for ${filePath}:`, error);
-    content = input.content ?? '';
+    content = inputContent ?? '';
   }
 
   // Get file stats
@@ -175,58 +190,60 @@ export async function createFileInfo(filePath: string, content?: string): Promis
 }
 
 /**
- * Validate Claude Code input structure
+ * Apply Edit/MultiEdit string replacements to file content in memory
+ *
+ * Mirrors Claude Code's semantics: each `old_string` must match exactly once
+ * unless `replace_all` is set, and edits apply in order. An empty `old_string`
+ * on empty content creates the file. Returns null if any edit cannot be
+ * applied, in which case Claude Code rejects the tool call itself.
  */
-function validateInput(input: unknown): input is ClaudeCodeInput {
-  if (!input || typeof input !== 'object') {
-    return false;
-  }
-
-  // Cast to Record to access properties safely
-  const obj = input as Record<string, unknown>;
-
-  // Check required fields
-  if (!obj.operation || typeof obj.operation !== 'string') {
-    return false;
-  }
+export function applyEdits(content: string, edits: FileEdit[]): string | null {
+  let result = content;
+
+  for (const edit of edits) {
+    if (edit.old_string === '') {
+      if (result !== '') {
+        return null;
+      }
+      result = edit.new_string;
+      continue;
+    }
 
-  if (!obj.file_path || typeof obj.file_path !== 'string') {
-    return false;
-  }
+    const first = result.indexOf(edit.old_string);
+    if (first === -1) {
+      return null;
+    }
 
-  // Check valid operation types
-  const validOperations = ['write', 'edit', 'multiedit'];
-  if (!validOperations.includes(obj.operation)) {
-    return false;
-  }
+    if (edit.replace_all) {
+      result = result.split(edit.old_string).join(edit.new_string);
+      continue;
+    }
 
-  // For write operations, content should be present
-  if (obj.operation === 'write' && obj.content === undefined) {
-    console.warn('[InputHandler] Write operation without content');
-    // Don't fail validation - content could be empty string
-  }
+    if (result.indexOf(edit.old_string, first + edit.old_string.length) !== -1) {
+      return null;
+    }
 
-  // For edit operations, edits array should be present
-  if ((obj.operation === 'edit' || obj.operation === 'multiedit') && !Array.isArray(obj.edits)) {
-    console.warn('[InputHandler] Edit operation without edits array');
-    // Don't fail validation - edits could be provided another way
+    result =
+      result.slice(0, first) + edit.new_string + result.slice(first + edit.old_string.length);
   }
 
-  return true;
+  return result;
 }
 
 /**
  * Get operation summary for logging
  */
-export function getOperationSummary(input: ClaudeCodeInput): string {
-  switch (input.operation) {
-    case 'write':
-      return `Write file: ${input.file_path}`;
-    case 'edit':
-      return `Edit file: ${input.file_path} (${input.edits?.length || 0} edits)`;
-    case 'multiedit':
-      return `Multi-edit file: ${input.file_path} (${input.edits?.length || 0} edits)`;
+export function getOperationSummary(input: ToolHookInput): string {
+  const { file_path: filePath = '<no file>', edits } = input.tool_input;
+
+  switch (input.tool_name) {
+    case 'Write':
+      return `Write file: ${filePath}`;
+    case 'Edit':
+      return `Edit file: ${filePath}`;
+    case 'MultiEdit':
+      return `Multi-edit file: ${filePath} (${edits?.length ?? 0} edits)`;
     default:
-      return `Unknown operation: ${input.operation} on ${input.file_path}`;
+      return `${input.tool_name} on ${filePath}`;
   }
 }
@@ -5,6 +5,7 @@
  * with smart defaults for TypeScript/JavaScript files.
  */
 
+import { isAbsolute, relative } from 'node:path';
 import fg from 'fast-glob';
 import type { PatternMatchOptions } from '../types/hooks.js';
 
@@ -28,8 +29,10 @@ export const DEFAULT_EXCLUDE_PATTERNS = [
  */
 export class PatternMatcher {
   private readonly patterns: PatternMatchOptions;
+  private readonly projectRoot: string;
 
-  constructor(include?: string[], exclude?: string[]) {
+  constructor(include?: string[], exclude?: string[], projectRoot: string = process.cwd()) {
+    this.projectRoot = projectRoot;
     this.patterns = {
       include: include && include.length > 0 ? include : DEFAULT_INCLUDE_PATTERNS,
       exclude: exclude && exclude.length > 0 ? exclude : DEFAULT_EXCLUDE_PATTERNS,
@@ -41,8 +44,11 @@ export class PatternMatcher {
    */
   shouldValidate(filePath: string): boolean {
     try {
+      // Patterns are relative to the project, so make absolute paths relative first
+      const projectPath = isAbsolute(filePath) ? relative(this.projectRoot, filePath) : filePath;
+
       // Normalize path for consistent matching
-      const normalizedPath = filePath.replace(/\\/g, '/');
+      const normalizedPath = projectPath.replace(/\\/g, '/');
 
       // Check if file matches include patterns
       const isIncluded = this.matchesPatterns(normalizedPath, this.patterns.include);
@@ -130,20 +136,51 @@ export class PatternMatcher {
    * Simple implementation for common patterns
    */
   private patternToRegex(pattern: string): RegExp {
-    // Escape special regex characters except glob characters
-    let regexPattern = pattern
-      .replace(/[.+^${}()|[\]\\]/g, '\\$&') // Escape regex special chars
-      .replace(/\*\*/g, '.*') // ** matches any path
-      .replace(/\*/g, '[^/]*') // * matches any file name
-      .replace(/\?/g, '.'); // ? matches single character
-
-    // Handle file extensions pattern like {ts,tsx,js,jsx}
-    regexPattern = regexPattern.replace(/\{([^}]+)\}/g, '($1)');
-    regexPattern = regexPattern.replace(/,/g, '|');
+    let regexPattern = '';
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i] as string;
+
+      if (char === '*') {
+        if (pattern[i + 1] === '*') {
+          if (pattern[i + 2] === '/') {
+            // **/ matches zero or more directories
+            regexPattern += '(?:.*/)?';
+            i += 2;
+          } else {
+            // ** matches any path
+            regexPattern += '.*';
+            i += 1;
+          }
+        } else {
+          // * matches any file name
+          regexPattern += '[^/]*';
+        }
+      } else if (char === '?') {
+        // ? matches single character
+        regexPattern += '[^/]';
+      } else if (char === '{' && pattern.indexOf('}', i) !== -1) {
+        // Handle file extensions pattern like {ts,tsx,js,jsx}
+        const end = pattern.indexOf('}', i);
+        const alternatives = pattern
+          .slice(i + 1, end)
+          .split(',')
+          .map((alternative) => this.escapeRegex(alternative));
+        regexPattern += `(?:${alternatives.join('|')})`;
+        i = end;
+      } else {
+        regexPattern += this.escapeRegex(char);
+      }
+    }
 
     // Anchor the pattern
-    regexPattern = `^${regexPattern}$`;
+    return new RegExp(`^${regexPattern}$`, 'i'); // Case insensitive for Windows compatibility
+  }
 
-    return new RegExp(regexPattern, 'i'); // Case insensitive for Windows compatibility
+  /**
+   * Escape regex special characters
+   */
+  private escapeRegex(value: string): string {
+    return value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
   }
 }
@@ -8,7 +8,7 @@
 
 import { existsSync, readFileSync, statSync } from 'node:fs';
 import { extname } from 'node:path';
-import { AutoFixEngine } from '../fixers/index.js';
+import { AutoFixEngine, FixVerifier, type VerificationResult } from '../fixers/index.js';
 import type { Config } from '../types/config.js';
 import type { FileInfo, HookResult } from '../types/hooks.js';
 import type { ValidationIssue } from '../validators/biome/adapters/BiomeAdapter.js';
@@ -31,15 +31,22 @@ export class PostWriteHook extends BaseHook {
 
   private readonly patternMatcher: PatternMatcher;
   private readonly validatorManager: ValidatorManager;
+  private readonly fixVerifier: FixVerifier;
 
-  constructor(config: Config) {
+  constructor(
+    config: Config,
+    private readonly projectRoot: string = process.cwd()
+  ) {
     super(config);
 
     // Initialize pattern matcher with config patterns
-    this.patternMatcher = new PatternMatcher(config.include, config.exclude);
+    this.patternMatcher = new PatternMatcher(config.include, config.exclude, projectRoot);
 
     // Initialize validator manager
-    this.validatorManager = new ValidatorManager(config);
+    this.validatorManager = new ValidatorManager(config, projectRoot);
+
+    // Initialize fix verifier for re-validating auto-fixed content with the same validators
+    this.fixVerifier = new FixVerifier(config, projectRoot, this.validatorManager);
   }
 
   /**
@@ -60,28 +67,63 @@ export class PostWriteHook extends BaseHook {
       };
     }
 
+    // A file deleted since the write has nothing to validate, and fixes would recreate it
+    if (!existsSync(file.path)) {
+      this.info(`Skipping file (not found on disk): ${file.path}`);
+      return {
+        modified: false,
+        metadata: {
+          reason: 'skipped_file_not_found',
+          patterns: this.patternMatcher.getPatterns(),
+        },
+      };
+    }
+
     // Ensure file info is complete
     const completeFileInfo = await this.enrichFileInfo(file);
 
+    // Results of earlier events are stale once the files this one imports have changed
+    this.validatorManager.clearCache();
+
     // Execute validators using ValidatorManager
     const validationResult = await this.executeValidators(completeFileInfo);
 
-    // TODO: Phase 3 - Add auto-fix logic here
-    // This is where we'll apply automatic fixes if enabled
+    // Apply automatic fixes if enabled
     const fixResult = await this.executeAutoFix(completeFileInfo, validationResult);
 
+    // Re-validate fixed content so the reported issues reflect the file on disk
+    const verification = await this.executeVerification(
+      completeFileInfo,
+      validationResult,
+      fixResult
+    );
+
+    // The file is done with, so validators can move their baseline to it
+    await this.validatorManager.commitFile({
+      ...completeFileInfo,
+      content: fixResult.content ?? completeFileInfo.content,
+    });
+
     // TODO: Phase 4 - Format output for AI
     // This is where we'll format results for Claude consumption
     const _formattedOutput = await this.formatForAI(validationResult, fixResult);
 
     return {
       modified: fixResult.modified,
-      validation: validationResult.validation,
+      validation: verification?.validation ?? validationResult.validation,
       metadata: {
         validated: true,
         patterns: this.patternMatcher.getPatterns(),
         validationStats: validationResult.stats,
         fixStats: fixResult.stats,
+        fixesApplied: fixResult.fixesApplied,
+        verification: verification
+          ? {
+              success: verification.success,
+              effectiveness: verification.effectiveness,
+              warnings: verification.warnings,
+            }
+          : undefined,
         formatted: true,
       },
     };
@@ -217,6 +259,8 @@ export class PostWriteHook extends BaseHook {
     }
   ): Promise<{
     modified: boolean;
+    content?: string | undefined;
+    fixesApplied: string[];
     stats: { fixesApplied: number; fixesFailed: number };
   }> {
     try {
@@ -227,6 +271,7 @@ export class PostWriteHook extends BaseHook {
         this.info(`No fixable issues found for: ${file.path}`);
         return {
           modified: false,
+          fixesApplied: [],
           stats: {
             fixesApplied: 0,
             fixesFailed: 0,
@@ -236,8 +281,8 @@ export class PostWriteHook extends BaseHook {
 
       this.info(`Auto-fix running for: ${file.path} with ${allIssues.length} issues`);
 
-      // Create AutoFixEngine instance
-      const autoFixEngine = new AutoFixEngine(this.config);
+      // Custom validators fix their issues with the instances that reported them
+      const autoFixEngine = new AutoFixEngine(this.config, this.projectRoot, this.validatorManager);
 
       // Create AutoFixEngine FileInfo structure
       const autoFixFileInfo = {
@@ -263,6 +308,8 @@ export class PostWriteHook extends BaseHook {
       // Convert FixResult to expected format
       return {
         modified: fixResult.modified,
+        content: fixResult.content,
+        fixesApplied: fixResult.fixesApplied,
         stats: {
           fixesApplied: fixResult.statistics.fixedIssues,
           fixesFailed: fixResult.statistics.totalIssues - fixResult.statistics.fixedIssues,
@@ -277,6 +324,7 @@ export class PostWriteHook extends BaseHook {
       // Return safe fallback result
       return {
         modified: false,
+        fixesApplied: [],
         stats: {
           fixesApplied: 0,
           fixesFailed: validationResult.stats.issuesFound,
@@ -285,6 +333,45 @@ export class PostWriteHook extends BaseHook {
     }
   }
 
+  /**
+   * Verify applied fixes using FixVerifier
+   */
+  private async executeVerification(
+    file: FileInfo,
+    validationResult: { validation?: ValidationResponse },
+    fixResult: { modified: boolean; content?: string | undefined }
+  ): Promise<VerificationResult | undefined> {
+    // Nothing to verify unless fixes actually changed the file
+    if (!fixResult.modified || fixResult.content === undefined || !validationResult.validation) {
+      return undefined;
+    }
+
+    try {
+      const verification = await this.fixVerifier.verifyFixes(
+        file.path,
+        file.content,
+        fixResult.content,
+        validationResult.validation,
+        file.signal
+      );
+
+      if (!verification.success) {
+        this.warn(
+          `Fix verification reported ${verification.effectiveness} result for ${file.path}: ` +
+            verification.warnings.join(', ')
+        );
+      }
+
+      return verification;
+    } catch (error) {
+      this.warn(
+        `Fix verification failed for ${file.path}`,
+        error instanceof Error ? error : undefined
+      );
+      return undefined;
+    }
+  }
+
   /**
    * Extract all validation issues from ValidationResponse
    */
@@ -323,6 +410,13 @@ export class PostWriteHook extends BaseHook {
     return this.patternMatcher;
   }
 
+  /**
+   * Dispose of the validators this hook keeps loaded
+   */
+  async dispose(): Promise<void> {
+    await this.validatorManager.dispose();
+  }
+
   /**
    * Get validator manager (for testing)
    */
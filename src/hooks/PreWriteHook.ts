@@ -0,0 +1,157 @@
+/**
+ * Pre-write hook for claude-jsqualityhooks
+ *
+ * This module implements the PreWriteHook that validates content Claude Code
+ * is about to write, before it lands on disk. Issues of the configured error
+ * classes that the change introduces are reported so the tool call can be
+ * denied.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import type { Config } from '../types/config.js';
+import type { FileInfo, HookResult } from '../types/hooks.js';
+import type { ValidationIssue } from '../validators/biome/adapters/BiomeAdapter.js';
+import { type ValidationResponse, ValidatorManager } from '../validators/ValidatorManager.js';
+import { BaseHook } from './BaseHook.js';
+import { PatternMatcher } from './PatternMatcher.js';
+
+/**
+ * Default error classes that deny a write
+ */
+const DEFAULT_DENY_ON: NonNullable<NonNullable<Config['hooks']>['denyOn']> = ['syntax', 'type'];
+
+/**
+ * Pre-write hook that validates proposed content in memory
+ *
+ * Features:
+ * - File pattern matching (include/exclude)
+ * - Validation of content that has not been written yet
+ * - Only issues introduced by the change are denied
+ * - Non-blocking error handling
+ */
+export class PreWriteHook extends BaseHook {
+  readonly name = 'preWrite';
+
+  private readonly patternMatcher: PatternMatcher;
+  private readonly validatorManager: ValidatorManager;
+
+  constructor(config: Config, projectRoot: string = process.cwd()) {
+    super(config);
+
+    this.patternMatcher = new PatternMatcher(config.include, config.exclude, projectRoot);
+    this.validatorManager = new ValidatorManager(config, projectRoot);
+  }
+
+  /**
+   * Execute pre-write hook on proposed file content
+   */
+  protected async executeHook(file: FileInfo): Promise<Omit<HookResult, 'duration' | 'success'>> {
+    if (!this.patternMatcher.shouldValidate(file.path)) {
+      this.info(`Skipping file (does not match patterns): ${file.path}`);
+      return {
+        modified: false,
+        metadata: { reason: 'skipped_pattern_mismatch', denied: [] },
+      };
+    }
+
+    this.info(`Validating proposed content for: ${file.path}`);
+
+    // Results of earlier events are stale once the files this one imports have changed
+    this.validatorManager.clearCache();
+    const validation = await this.validatorManager.validateFile(file);
+    const candidates = this.collectDeniable(validation);
+
+    // Only issues the change introduces should deny it
+    const denied = candidates.length > 0 ? await this.excludeExisting(file, candidates) : [];
+
+    if (denied.length > 0) {
+      this.warn(`Proposed change to ${file.path} introduces ${denied.length} issue(s)`);
+    }
+
+    return {
+      modified: false,
+      validation,
+      metadata: {
+        validated: true,
+        denyOn: this.getDenyOn(),
+        denied,
+      },
+    };
+  }
+
+  /**
+   * Dispose of the validators this hook keeps loaded
+   */
+  async dispose(): Promise<void> {
+    await this.validatorManager.dispose();
+  }
+
+  /**
+   * Get error classes that deny a write
+   */
+  private getDenyOn(): NonNullable<ValidationIssue['kind']>[] {
+    return this.config.hooks?.denyOn ?? DEFAULT_DENY_ON;
+  }
+
+  /**
+   * Collect errors whose class is configured to deny the write
+   */
+  private collectDeniable(validation: ValidationResponse): ValidationIssue[] {
+    const denyOn = this.getDenyOn();
+
+    return validation.results
+      .flatMap((result) => result.issues)
+      .filter((issue) => issue.severity === 'error' && denyOn.includes(issue.kind ?? 'lint'));
+  }
+
+  /**
+   * Drop issues that are already present in the file on disk
+   *
+   * Issues are compared by class and message, since line numbers shift
+   * with the edit.
+   */
+  private async excludeExisting(
+    file: FileInfo,
+    candidates: ValidationIssue[]
+  ): Promise<ValidationIssue[]> {
+    if (!existsSync(file.path)) {
+      return candidates;
+    }
+
+    let currentContent: string;
+    try {
+      currentContent = readFileSync(file.path, 'utf-8');
+    } catch {
+      return candidates;
+    }
+
+    const baseline = await this.validatorManager.validateFile({
+      ...file,
+      content: currentContent,
+      size: currentContent.length,
+    });
+
+    const existing = new Map<string, number>();
+    for (const issue of this.collectDeniable(baseline)) {
+      const key = this.issueKey(issue);
+      existing.set(key, (existing.get(key) ?? 0) + 1);
+    }
+
+    return candidates.filter((issue) => {
+      const key = this.issueKey(issue);
+      const count = existing.get(key) ?? 0;
+      if (count > 0) {
+        existing.set(key, count - 1);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Position-independent identity of an issue
+   */
+  private issueKey(issue: ValidationIssue): string {
+    return `${issue.kind ?? 'lint'}:${issue.message}`;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Session tracker for claude-jsqualityhooks
+ *
+ * Records which files Claude Code touched during a session so the Stop gate
+ * can re-check them. Each hook invocation is a separate process, so the record
+ * lives on disk, keyed by `session_id`. Records are kept in the per-user
+ * directory, so other users can't add files to a session or read its record.
+ */
+
+import { appendFile, readdir, readFile, rm, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ensurePrivateDir, getUserDir } from '../utils/userDir.js';
+
+/**
+ * Age after which records of sessions that never passed the Stop gate are removed
+ */
+export const SESSION_RECORD_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Tracks files touched during a Claude Code session
+ *
+ * Files are appended one per line, which keeps concurrent hook
+ * invocations from overwriting each other's records.
+ */
+export class SessionTracker {
+  private readonly recordPath: string;
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly sessionDir: string = getUserDir()
+  ) {
+    const safeId = sessionId.replace(/[^A-Za-z0-9_-]/g, '_');
+    this.recordPath = join(this.sessionDir, `${safeId}.files`);
+  }
+
+  /**
+   * Record a file touched in this session
+   */
+  async recordFile(filePath: string): Promise<void> {
+    try {
+      ensurePrivateDir(this.sessionDir);
+      await appendFile(this.recordPath, `${filePath}\n`, 'utf-8');
+    } catch (error) {
+      // Warn but don't block - losing a record only weakens the Stop gate
+      console.warn(
+        `[SessionTracker] Failed to record ${filePath} for session ${this.sessionId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Get all files touched in this session, in first-touched order
+   */
+  async getFiles(): Promise<string[]> {
+    if (!this.checkSessionDir()) {
+      return [];
+    }
+    try {
+      const content = await readFile(this.recordPath, 'utf-8');
+      return [...new Set(content.split('\n').filter((line) => line.trim() !== ''))];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Forget all files recorded for this session
+   */
+  async clear(): Promise<void> {
+    await rm(this.recordPath, { force: true });
+  }
+
+  /**
+   * Remove the records of other sessions not touched for `maxAge` milliseconds,
+   * such as sessions that ended while the Stop gate was blocking
+   */
+  async removeStaleRecords(maxAge: number = SESSION_RECORD_MAX_AGE): Promise<void> {
+    if (!this.checkSessionDir()) {
+      return;
+    }
+    const entries = await readdir(this.sessionDir).catch(() => []);
+    const cutoff = Date.now() - maxAge;
+
+    for (const entry of entries) {
+      const recordPath = join(this.sessionDir, entry);
+      if (!entry.endsWith('.files') || recordPath === this.recordPath) {
+        continue;
+      }
+      try {
+        if ((await stat(recordPath)).mtimeMs < cutoff) {
+          await rm(recordPath, { force: true });
+        }
+      } catch {
+        // Removed by a concurrent hook process
+      }
+    }
+  }
+
+  /**
+   * Check that only the current user can access the session directory, so
+   * records planted by other users are never read
+   */
+  private checkSessionDir(): boolean {
+    try {
+      ensurePrivateDir(this.sessionDir);
+      return true;
+    } catch (error) {
+      console.warn(
+        `[SessionTracker] Ignoring records of session ${this.sessionId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return false;
+    }
+  }
+}
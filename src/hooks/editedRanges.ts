@@ -0,0 +1,207 @@
+/**
+ * Edited Line Ranges
+ *
+ * Works out which lines of a file a Write/Edit/MultiEdit changed, so issues
+ * can be split into those in Claude's change and pre-existing ones elsewhere
+ * in the file.
+ */
+
+import { z } from 'zod';
+import { type DiffHunk, diffLines } from '../utils/lineDiff.js';
+import type { ValidationIssue } from '../validators/biome/adapters/BiomeAdapter.js';
+import type { FileEdit, ToolHookInput } from './inputSchema.js';
+
+/**
+ * Inclusive range of 1-based line numbers
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Issues split by whether they fall on edited lines
+ */
+export interface PartitionedIssues {
+  inChange: ValidationIssue[];
+  elsewhere: ValidationIssue[];
+}
+
+/**
+ * Diff hunks Claude Code reports in the Write/Edit tool response
+ */
+const structuredPatchSchema = z.array(
+  z.looseObject({
+    newStart: z.number(),
+    lines: z.array(z.string()),
+  })
+);
+
+/**
+ * Get the 1-based line number of a character offset
+ */
+function lineAt(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+/**
+ * Sort ranges and merge those that overlap or touch
+ */
+export function mergeRanges(ranges: LineRange[]): LineRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: LineRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Get the lines changed by diff hunks
+ *
+ * Added lines are changed; a removal marks the line now at its position.
+ */
+export function rangesFromPatch(hunks: z.infer<typeof structuredPatchSchema>): LineRange[] {
+  const ranges: LineRange[] = [];
+
+  for (const hunk of hunks) {
+    let line = hunk.newStart;
+    for (const patchLine of hunk.lines) {
+      if (patchLine.startsWith('+')) {
+        ranges.push({ start: line, end: line });
+        line++;
+      } else if (patchLine.startsWith('-')) {
+        ranges.push({ start: line, end: line });
+      } else {
+        line++;
+      }
+    }
+  }
+
+  return mergeRanges(ranges);
+}
+
+/**
+ * Get the lines where the replacement text of edits appears in the new content
+ *
+ * Every occurrence counts, so an ambiguous replacement marks more lines rather
+ * than missing the edited one. Pure deletions leave nothing to locate.
+ */
+export function rangesFromEdits(content: string, edits: FileEdit[]): LineRange[] {
+  const ranges: LineRange[] = [];
+
+  for (const edit of edits) {
+    if (edit.new_string === '') {
+      continue;
+    }
+
+    let offset = content.indexOf(edit.new_string);
+    while (offset !== -1) {
+      const start = lineAt(content, offset);
+      const end = start + (edit.new_string.match(/\n/g)?.length ?? 0);
+      ranges.push({ start, end });
+      offset = content.indexOf(edit.new_string, offset + edit.new_string.length);
+    }
+  }
+
+  return mergeRanges(ranges);
+}
+
+/**
+ * Get the lines a tool call changed
+ *
+ * Uses the diff in the tool response when Claude Code provides one, otherwise
+ * locates the replacement text of Edit/MultiEdit in the written content.
+ *
+ * @returns Changed ranges, or null when they cannot be determined (e.g. a Write without a diff)
+ */
+export function getEditedRanges(input: ToolHookInput, content: string): LineRange[] | null {
+  const toolResponse = 'tool_response' in input ? input.tool_response : undefined;
+  if (typeof toolResponse === 'object' && toolResponse !== null) {
+    const patch = structuredPatchSchema.safeParse(
+      (toolResponse as Record<string, unknown>).structuredPatch
+    );
+    if (patch.success) {
+      return rangesFromPatch(patch.data);
+    }
+  }
+
+  const toolInput = input.tool_input;
+  if (input.tool_name === 'MultiEdit') {
+    return rangesFromEdits(content, toolInput.edits ?? []);
+  }
+  if (input.tool_name === 'Edit') {
+    return rangesFromEdits(content, [
+      { old_string: toolInput.old_string ?? '', new_string: toolInput.new_string ?? '' },
+    ]);
+  }
+
+  return null;
+}
+
+/**
+ * Move edited ranges from one version of a file to another, such as the
+ * content auto-fix wrote after the edit
+ *
+ * Lines a fix left alone keep their content and move with the lines added or
+ * removed above them. Edited lines a fix replaced map to the lines that
+ * replaced them.
+ */
+export function mapRanges(ranges: LineRange[], before: string, after: string): LineRange[] {
+  const hunks = diffLines(before, after);
+  if (hunks.length === 0) {
+    return ranges;
+  }
+
+  return mergeRanges(
+    ranges.map((range) => ({
+      start: mapLine(range.start, hunks).start,
+      end: mapLine(range.end, hunks).end,
+    }))
+  );
+}
+
+/**
+ * Get the lines a 1-based line of the old content became in the new content
+ */
+function mapLine(line: number, hunks: DiffHunk[]): LineRange {
+  let delta = 0;
+
+  for (const hunk of hunks) {
+    const index = line - 1;
+    if (index < hunk.oldStart) {
+      break;
+    }
+    if (index < hunk.oldStart + hunk.removed.length) {
+      // A removal without replacement marks the line now at its position
+      const start = hunk.newStart + 1;
+      return { start, end: start + Math.max(hunk.added.length, 1) - 1 };
+    }
+    delta = hunk.newStart + hunk.added.length - (hunk.oldStart + hunk.removed.length);
+  }
+
+  return { start: line + delta, end: line + delta };
+}
+
+/**
+ * Split issues into those overlapping edited lines and those elsewhere in the file
+ */
+export function partitionIssues(issues: ValidationIssue[], ranges: LineRange[]): PartitionedIssues {
+  const inChange: ValidationIssue[] = [];
+  const elsewhere: ValidationIssue[] = [];
+
+  for (const issue of issues) {
+    const endLine = issue.endLine ?? issue.line;
+    const edited = ranges.some((range) => issue.line <= range.end && endLine >= range.start);
+    (edited ? inChange : elsewhere).push(issue);
+  }
+
+  return { inChange, elsewhere };
+}
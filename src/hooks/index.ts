@@ -6,29 +6,44 @@
 
 // Re-export hook types for convenience
 export type {
-  ClaudeCodeInput,
+  FileEdit,
   FileInfo,
   Hook,
   HookExecutionOptions,
+  HookInput,
   HookResult,
   PatternMatchOptions,
+  StopHookInput,
+  ToolHookInput,
+  ToolInput,
 } from '../types/hooks.js';
 // Core hook system exports
 export { BaseHook } from './BaseHook.js';
 export { HookManager } from './HookManager.js';
 export {
+  applyEdits,
   createFileInfo,
   getOperationSummary,
   inputToFileInfo,
   parseStdin,
   parseString,
 } from './InputHandler.js';
+export {
+  FILE_TOOLS,
+  type HookInputParseResult,
+  hookInputSchema,
+  isStopHookInput,
+  isToolHookInput,
+  parseHookInput,
+  parseHookInputText,
+} from './inputSchema.js';
 export {
   DEFAULT_EXCLUDE_PATTERNS,
   DEFAULT_INCLUDE_PATTERNS,
   PatternMatcher,
 } from './PatternMatcher.js';
 export { PostWriteHook } from './PostWriteHook.js';
+export { PreWriteHook } from './PreWriteHook.js';
 
 import type { Config } from '../types/config.js';
 import { HookManager } from './HookManager.js';
@@ -107,11 +122,18 @@ export async function processClaudeInput(): Promise<unknown> {
 
     // Parse input from stdin
     const { parseStdin, getOperationSummary, inputToFileInfo } = await import('./InputHandler.js');
-    const input = await parseStdin();
+    const { isToolHookInput } = await import('./inputSchema.js');
+    const parsed = await parseStdin();
+
+    if (!parsed.success) {
+      console.warn(`[HookSystem] ${parsed.error}`);
+      return { success: false, error: parsed.error };
+    }
 
-    if (!input) {
-      console.warn('[HookSystem] No valid input received from stdin');
-      return { success: false, error: 'No valid input received' };
+    const input = parsed.input;
+    if (!isToolHookInput(input)) {
+      console.warn(`[HookSystem] Ignoring ${input.hook_event_name} input without a tool call`);
+      return { success: false, error: `Unsupported hook event: ${input.hook_event_name}` };
     }
 
     console.info(`[HookSystem] Processing Claude operation: ${getOperationSummary(input)}`);
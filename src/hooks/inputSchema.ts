@@ -0,0 +1,266 @@
+/**
+ * Zod schemas for Claude Code hook input
+ *
+ * Claude Code sends one JSON payload on stdin per hook invocation. These
+ * schemas validate every hook event so malformed payloads produce precise
+ * errors instead of failing deep inside the pipeline. Unknown fields are
+ * kept, since Claude Code adds fields over time.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Tools whose input targets a single file
+ */
+export const FILE_TOOLS = ['Write', 'Edit', 'MultiEdit'] as const;
+
+/**
+ * A single string replacement from Edit/MultiEdit
+ */
+export const fileEditSchema = z.looseObject({
+  old_string: z.string(),
+  new_string: z.string(),
+  replace_all: z.boolean().optional(),
+});
+
+/**
+ * Tool input for Write, Edit and MultiEdit
+ *
+ * Other tools pass arbitrary input, so these fields are only required for file
+ * tools (see `requireFileToolInput`).
+ */
+export const toolInputSchema = z.looseObject({
+  file_path: z.string().min(1).optional(),
+  content: z.string().optional(),
+  old_string: z.string().optional(),
+  new_string: z.string().optional(),
+  replace_all: z.boolean().optional(),
+  edits: z.array(fileEditSchema).optional(),
+});
+
+/**
+ * Fields common to every hook event
+ */
+const commonInputShape = {
+  session_id: z.string().optional(),
+  transcript_path: z.string().optional(),
+  cwd: z.string().optional(),
+};
+
+/**
+ * Require the fields each file tool needs to describe its change
+ */
+function requireFileToolInput(
+  input: { tool_name: string; tool_input: z.infer<typeof toolInputSchema> },
+  ctx: z.RefinementCtx
+): void {
+  const { tool_name: toolName, tool_input: toolInput } = input;
+  if (!(FILE_TOOLS as readonly string[]).includes(toolName)) {
+    return;
+  }
+
+  const require = (field: keyof typeof toolInput, expected: string): void => {
+    if (toolInput[field] === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['tool_input', field],
+        message: `${toolName} input requires ${expected}`,
+      });
+    }
+  };
+
+  require('file_path', 'a file path');
+  if (toolName === 'Write') {
+    require('content', 'content');
+  } else if (toolName === 'Edit') {
+    require('old_string', 'old_string');
+    require('new_string', 'new_string');
+  } else {
+    require('edits', 'an edits array');
+  }
+}
+
+/**
+ * PreToolUse input: the tool call Claude is about to make
+ */
+export const preToolUseInputSchema = z
+  .looseObject({
+    ...commonInputShape,
+    hook_event_name: z.literal('PreToolUse'),
+    tool_name: z.string(),
+    tool_input: toolInputSchema,
+  })
+  .superRefine(requireFileToolInput);
+
+/**
+ * PostToolUse input: the tool call Claude just made and its response
+ */
+export const postToolUseInputSchema = z
+  .looseObject({
+    ...commonInputShape,
+    hook_event_name: z.literal('PostToolUse'),
+    tool_name: z.string(),
+    tool_input: toolInputSchema,
+    tool_response: z.unknown().optional(),
+  })
+  .superRefine(requireFileToolInput);
+
+/**
+ * Stop/SubagentStop input: Claude finished responding
+ */
+export const stopInputSchema = z.looseObject({
+  ...commonInputShape,
+  session_id: z.string().min(1),
+  hook_event_name: z.enum(['Stop', 'SubagentStop']),
+  stop_hook_active: z.boolean().default(false),
+});
+
+/**
+ * Notification input
+ */
+export const notificationInputSchema = z.looseObject({
+  ...commonInputShape,
+  hook_event_name: z.literal('Notification'),
+  message: z.string(),
+});
+
+/**
+ * UserPromptSubmit input
+ */
+export const userPromptSubmitInputSchema = z.looseObject({
+  ...commonInputShape,
+  hook_event_name: z.literal('UserPromptSubmit'),
+  prompt: z.string(),
+});
+
+/**
+ * PreCompact input
+ */
+export const preCompactInputSchema = z.looseObject({
+  ...commonInputShape,
+  hook_event_name: z.literal('PreCompact'),
+  trigger: z.enum(['manual', 'auto']),
+  custom_instructions: z.string().optional(),
+});
+
+/**
+ * SessionStart input
+ */
+export const sessionStartInputSchema = z.looseObject({
+  ...commonInputShape,
+  hook_event_name: z.literal('SessionStart'),
+  source: z.string(),
+});
+
+/**
+ * Input for the hook events this version knows, discriminated by `hook_event_name`
+ */
+export const knownHookInputSchema = z.discriminatedUnion('hook_event_name', [
+  preToolUseInputSchema,
+  postToolUseInputSchema,
+  stopInputSchema,
+  notificationInputSchema,
+  userPromptSubmitInputSchema,
+  preCompactInputSchema,
+  sessionStartInputSchema,
+]);
+
+/**
+ * Names of the hook events this version knows
+ */
+const KNOWN_HOOK_EVENTS = new Set<unknown>(knownHookInputSchema._zod.propValues.hook_event_name);
+
+/**
+ * Input for events added to Claude Code after this version; they pass through
+ * as no-ops instead of failing the hook
+ */
+export const unknownHookInputSchema = z.looseObject({
+  ...commonInputShape,
+  hook_event_name: z
+    .string()
+    .min(1)
+    .refine((name) => !KNOWN_HOOK_EVENTS.has(name), { abort: true }),
+});
+
+/**
+ * Input for any hook event
+ */
+export const hookInputSchema = z.union([knownHookInputSchema, unknownHookInputSchema]);
+
+/**
+ * Type inference from schemas
+ */
+export type FileEdit = z.infer<typeof fileEditSchema>;
+export type ToolInput = z.infer<typeof toolInputSchema>;
+export type ToolHookInput =
+  | z.infer<typeof preToolUseInputSchema>
+  | z.infer<typeof postToolUseInputSchema>;
+export type StopHookInput = z.infer<typeof stopInputSchema>;
+export type UnknownHookInput = z.infer<typeof unknownHookInputSchema>;
+export type HookInput = z.infer<typeof hookInputSchema>;
+
+/**
+ * Result of parsing hook input
+ */
+export type HookInputParseResult =
+  | { success: true; input: HookInput }
+  | { success: false; error: string };
+
+/**
+ * Validate a parsed JSON payload as hook input
+ */
+export function parseHookInput(payload: unknown): HookInputParseResult {
+  const result = hookInputSchema.safeParse(payload);
+
+  if (result.success) {
+    return { success: true, input: result.data };
+  }
+
+  // Report why the input does not fit its known event rather than both branches
+  const [first] = result.error.issues;
+  const issues =
+    first?.code === 'invalid_union' && first.errors[0] ? first.errors[0] : result.error.issues;
+
+  const details = issues.map((issue) => {
+    const field = issue.path.join('.') || 'root';
+    return `${field}: ${issue.message}`;
+  });
+
+  return { success: false, error: `Invalid hook input: ${details.join('; ')}` };
+}
+
+/**
+ * Parse and validate raw hook input text
+ */
+export function parseHookInputText(text: string): HookInputParseResult {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { success: false, error: 'Invalid hook input: no JSON received on stdin' };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(trimmed);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid hook input: malformed JSON (${error instanceof Error ? error.message : String(error)})`,
+    };
+  }
+
+  return parseHookInput(payload);
+}
+
+/**
+ * Check whether hook input is a tool event (PreToolUse/PostToolUse)
+ */
+export function isToolHookInput(input: HookInput): input is ToolHookInput {
+  return input.hook_event_name === 'PreToolUse' || input.hook_event_name === 'PostToolUse';
+}
+
+/**
+ * Check whether hook input is a Stop or SubagentStop event
+ */
+export function isStopHookInput(input: HookInput): input is StopHookInput {
+  return input.hook_event_name === 'Stop' || input.hook_event_name === 'SubagentStop';
+}
@@ -22,12 +22,187 @@ export interface TypeScriptConfig {
   configPath?: string;
 }
 
+/**
+ * ESLint validator configuration
+ */
+export interface ESLintConfig {
+  enabled: boolean;
+  /** ESLint config file to use instead of the one ESLint finds */
+  configPath?: string;
+}
+
+/**
+ * Prettier validator configuration
+ */
+export interface PrettierConfig {
+  enabled: boolean;
+  /** Prettier config file to use instead of the one Prettier finds */
+  configPath?: string;
+}
+
+/**
+ * Import resolution validator configuration
+ */
+export interface ImportsConfig {
+  enabled: boolean;
+  /** Globs of files that may import devDependencies, relative to their package */
+  devFiles?: string[];
+}
+
+/**
+ * Circular dependency validator configuration
+ */
+export interface CyclesConfig {
+  enabled: boolean;
+  /**
+   * Known cycles that are not reported. Each entry lists globs of project
+   * files; a cycle is allowed when all of its modules match one entry.
+   */
+  allow?: string[][];
+}
+
+/**
+ * Custom secret pattern
+ */
+export interface SecretPatternConfig {
+  /** Rule id of the matches */
+  name: string;
+  /** Regular expression; its first capture group, if any, is the secret */
+  pattern: string;
+  flags?: string;
+  /** What the secret is, as shown in messages (default: the name) */
+  description?: string;
+}
+
+/**
+ * Secret detection configuration. Written content is always scanned unless
+ * disabled.
+ */
+export interface SecretsConfig {
+  enabled: boolean;
+  /** Patterns checked in addition to the built-in ones */
+  patterns?: SecretPatternConfig[];
+  /** Globs of files whose matches are reported as warnings, e.g. `.env.example` */
+  exclude?: string[];
+  /** Minimum Shannon entropy (bits per character) of values assigned to secret-like names */
+  entropyThreshold?: number;
+}
+
+/**
+ * Related tests validator configuration
+ */
+export interface TestsConfig {
+  enabled: boolean;
+  /** Test runner (default: the one in the project's dependencies) */
+  runner?: 'vitest' | 'jest';
+  /** Let the runner find related tests, or use imports and test file names (default: 'runner') */
+  related?: 'runner' | 'graph';
+  /** Globs of the project's test files, used by `related: 'graph'` */
+  testFiles?: string[];
+  /** Test file names of a source file, `{name}` being its name without extension */
+  testFileNames?: string[];
+  /** Time budget of a test run in milliseconds (default and maximum: 80% of the hook timeout) */
+  timeout?: number;
+}
+
+/**
+ * Fields of a JSON issue, as dotted paths into each issue object
+ */
+export interface CommandJsonFields {
+  file?: string;
+  line?: string;
+  column?: string;
+  endLine?: string;
+  endColumn?: string;
+  severity?: string;
+  message: string;
+  ruleId?: string;
+}
+
+/**
+ * Parser of a command validator's output
+ *
+ * - `regex`: each match is an issue; named groups `file`, `line`, `column`,
+ *   `endLine`, `endColumn`, `severity`, `message` and `ruleId` fill its fields
+ * - `json`: `path` selects the issue objects (`*` steps into every array
+ *   element) and `fields` maps them
+ * - `sarif`: SARIF 2.1 logs
+ * - `checkstyle`: checkstyle XML reports
+ * - `file-line-col`: `file:line:col: message` lines, the column being optional
+ */
+export type CommandParserConfig =
+  | { type: 'regex'; pattern: string; flags?: string }
+  | { type: 'json'; path?: string; fields: CommandJsonFields }
+  | { type: 'sarif' }
+  | { type: 'checkstyle' }
+  | { type: 'file-line-col' };
+
+/**
+ * Command validator configuration: an external CLI run on each file
+ */
+export interface CommandValidatorConfig {
+  /** Name shown in results and set as the issues' source */
+  name: string;
+  /** Command line; `{file}` is replaced by the absolute file path */
+  command: string;
+  parser: CommandParserConfig;
+  /** Exit codes of a run that found nothing to report (default: [0]) */
+  successExitCodes?: number[];
+  /** Exit codes of a run that found issues (default: every other exit code) */
+  issueExitCodes?: number[];
+  /** Severity of issues whose output does not rate them (default: 'error') */
+  severity?: 'error' | 'warning' | 'info';
+  /** Output stream to parse (default: 'stdout') */
+  stream?: 'stdout' | 'stderr';
+  /** Pipe the file content to the command's stdin, so unsaved content is checked */
+  stdin?: boolean;
+  /** Time limit of a run in milliseconds (default and maximum: 80% of the hook `timeout`) */
+  timeout?: number;
+}
+
+/**
+ * Project rule banning an import, identifier or call
+ */
+export interface RuleConfig {
+  /** Rule id shown with its issues */
+  name: string;
+  /**
+   * What `pattern` matches:
+   * - `import`: an import specifier and its subpaths (`lodash` also bans
+   *   `lodash/get`); `node:` prefixes are ignored
+   * - `identifier`: a reference to a variable or global, such as `process`
+   * - `call`: a call of a function or method, such as `console.log` or
+   *   `Date.now`, or `new Date` for constructor calls; `*` matches any name
+   *   (`console.*`)
+   */
+  type: 'import' | 'identifier' | 'call';
+  pattern: string;
+  /** Globs of the files the rule applies to (default: all validated files) */
+  files?: string[];
+  /** Globs of files the rule does not apply to */
+  exclude?: string[];
+  /** Severity of the issues (default: 'error') */
+  severity?: 'error' | 'warning' | 'info';
+  /** Message shown for each match, such as what to use instead */
+  message: string;
+}
+
 /**
  * Validators configuration section
  */
 export interface ValidatorsConfig {
   biome?: BiomeConfig;
   typescript?: TypeScriptConfig;
+  eslint?: ESLintConfig;
+  prettier?: PrettierConfig;
+  imports?: ImportsConfig;
+  cycles?: CyclesConfig;
+  secrets?: SecretsConfig;
+  tests?: TestsConfig;
+  /** External CLIs run as validators */
+  commands?: CommandValidatorConfig[];
+  /** Module paths (relative to the project root) or package names of custom validators */
+  custom?: string[];
 }
 
 /**
@@ -38,6 +213,28 @@ export interface AutoFixConfig {
   maxAttempts?: number;
 }
 
+/**
+ * Hook behaviour configuration
+ */
+export interface HooksConfig {
+  /** Lowest issue severity that blocks Claude (default: 'error') */
+  blockOn?: 'error' | 'warning' | 'never';
+  /** Error classes that deny a Write/Edit before it lands (default: syntax and new type errors) */
+  denyOn?: Array<'syntax' | 'type' | 'lint'>;
+  /** Issues reported after an edit: the whole file or only the edited lines (default: 'file') */
+  scope?: 'file' | 'changes';
+}
+
+/**
+ * Background daemon configuration
+ */
+export interface DaemonConfig {
+  /** Start the daemon automatically from hook mode (default: false) */
+  enabled?: boolean;
+  /** Shut the daemon down after this many milliseconds without requests (default: 600000) */
+  idleTimeout?: number;
+}
+
 /**
  * Main configuration interface
  *
@@ -59,12 +256,24 @@ export interface Config {
   include?: string[];
   exclude?: string[];
 
+  // Merge over the nearest parent config (monorepos)
+  inherit?: boolean;
+
   // Validators configuration
   validators: ValidatorsConfig;
 
   // Auto-fix configuration
   autoFix: AutoFixConfig;
 
+  // Hook behaviour configuration
+  hooks?: HooksConfig;
+
+  // Background daemon configuration
+  daemon?: DaemonConfig;
+
+  // Project rules banning imports, identifiers and calls
+  rules?: RuleConfig[];
+
   // Global timeout setting
   timeout?: number;
 }
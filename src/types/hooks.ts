@@ -22,6 +22,8 @@ export interface FileInfo {
   size: number;
   /** Last modified timestamp */
   lastModified?: number | undefined;
+  /** Aborted when the hook times out, so validators stop the processes they started */
+  signal?: AbortSignal | undefined;
 }
 
 /**
@@ -50,27 +52,20 @@ export interface Hook {
   name: string;
   /** Execute hook on file */
   execute(file: FileInfo): Promise<HookResult>;
+  /** Release the validators the hook keeps loaded */
+  dispose?(): Promise<void>;
 }
 
 /**
- * Claude Code input structure
+ * Claude Code hook input, validated at runtime by the schemas in hooks/inputSchema.ts
  */
-export interface ClaudeCodeInput {
-  /** Operation type */
-  operation: 'write' | 'edit' | 'multiedit';
-  /** File path being operated on */
-  file_path: string;
-  /** New file content */
-  content?: string;
-  /** Edit operations (for edit/multiedit) */
-  edits?: Array<{
-    old_string: string;
-    new_string: string;
-    replace_all?: boolean;
-  }>;
-  /** Additional metadata from Claude */
-  metadata?: Record<string, unknown>;
-}
+export type {
+  FileEdit,
+  HookInput,
+  StopHookInput,
+  ToolHookInput,
+  ToolInput,
+} from '../hooks/inputSchema.js';
 
 /**
  * File pattern matching options
@@ -0,0 +1,71 @@
+/**
+ * Per-Configuration Instance Cache
+ *
+ * A long-running process (the daemon) handles many hook events with the same
+ * configuration. Reusing hooks and validators per configuration and project
+ * root keeps their state warm between events. Configurations are compared by
+ * identity, so a reloaded configuration gets fresh instances.
+ */
+
+import type { Config } from '../types/config.js';
+
+/**
+ * Disposal of every cached instance that can still be in use. Instances are
+ * held weakly, so the ones of replaced configurations can still be collected.
+ */
+const disposals = new Set<() => Promise<void>>();
+
+/**
+ * Wrap a factory so it returns one instance per configuration and project root
+ *
+ * @param dispose - Releases an instance when `disposeCachedInstances()` runs
+ */
+export function cachePerConfig<T extends object>(
+  create: (config: Config, projectRoot: string) => T,
+  dispose?: (instance: T) => Promise<void>
+): (config: Config, projectRoot: string) => T {
+  const cache = new WeakMap<Config, Map<string, T>>();
+
+  return (config, projectRoot) => {
+    let instances = cache.get(config);
+    if (!instances) {
+      instances = new Map();
+      cache.set(config, instances);
+    }
+
+    let instance = instances.get(projectRoot);
+    if (instance === undefined) {
+      instance = create(config, projectRoot);
+      instances.set(projectRoot, instance);
+
+      if (dispose) {
+        const ref = new WeakRef(instance);
+        disposals.add(async () => {
+          const live = ref.deref();
+          if (live) {
+            await dispose(live);
+          }
+        });
+      }
+    }
+
+    return instance;
+  };
+}
+
+/**
+ * Dispose of the instances created by every cache, such as when the daemon
+ * shuts down
+ */
+export async function disposeCachedInstances(): Promise<void> {
+  const pending = [...disposals];
+  disposals.clear();
+
+  for (const disposal of pending) {
+    try {
+      await disposal();
+    } catch (error) {
+      console.warn(`[configCache] Failed to dispose cached instance: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Dependency Graph Utilities
+ *
+ * Lightweight import scanning for JS/TS sources. Finds which project files
+ * import a given file by parsing sources one at a time, without building a
+ * full TypeScript program.
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type ts from 'typescript';
+
+/**
+ * Extensions tried when resolving extensionless relative imports
+ */
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * JS extensions that TypeScript maps back to their TS sources
+ */
+const JS_TO_TS_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+/**
+ * Matches static imports/exports, side-effect imports, dynamic imports and
+ * require calls; only used when TypeScript is not installed
+ */
+const IMPORT_PATTERN =
+  /(?:import|export)\s[^'"]*?\sfrom\s*['"]([^'"\n]+)['"]|import\s*['"]([^'"\n]+)['"]|(?:import|require)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g;
+
+/**
+ * Import of a module specifier, located in the source
+ */
+export interface ImportReference {
+  specifier: string;
+  /** 1-based line of the specifier */
+  line: number;
+  /** 1-based column of the specifier, including its opening quote */
+  column: number;
+  /** `import type`, `export type` and `import()` types, which are erased at runtime */
+  typeOnly: boolean;
+  /** `import()`, which loads the module when called rather than with the importer */
+  dynamic: boolean;
+}
+
+let typescript: Promise<typeof ts | null> | null = null;
+
+/**
+ * Import the TypeScript parser once
+ */
+function loadTypeScript(): Promise<typeof ts | null> {
+  typescript ??= import('typescript').then(
+    (module) => (module.default ?? module) as typeof ts,
+    () => {
+      console.warn(
+        '[dependencyGraph] TypeScript not found. Imports are found by scanning the source text.'
+      );
+      return null;
+    }
+  );
+  return typescript;
+}
+
+/**
+ * Extract module specifiers imported by a source file
+ *
+ * @param filePath - Path of the file, whose extension selects the syntax (e.g. JSX)
+ */
+export async function extractImports(content: string, filePath: string): Promise<string[]> {
+  return (await findImports(content, filePath)).map((reference) => reference.specifier);
+}
+
+/**
+ * Find the imports of a source file with their positions
+ *
+ * The source is parsed with TypeScript, so imports in comments and strings
+ * are ignored.
+ *
+ * @param filePath - Path of the file, whose extension selects the syntax (e.g. JSX)
+ */
+export async function findImports(content: string, filePath: string): Promise<ImportReference[]> {
+  const parser = await loadTypeScript();
+  if (!parser) {
+    return scanImports(content);
+  }
+
+  const sourceFile = parser.createSourceFile(filePath, content, parser.ScriptTarget.Latest);
+  const references: ImportReference[] = [];
+
+  const visit = (node: ts.Node): void => {
+    const found = getImportSpecifier(parser, node);
+    if (found) {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+        found.specifier.getStart(sourceFile)
+      );
+      references.push({
+        specifier: found.specifier.text,
+        line: line + 1,
+        column: character + 1,
+        typeOnly: found.typeOnly,
+        dynamic: found.dynamic,
+      });
+    }
+
+    parser.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return references;
+}
+
+/**
+ * Module specifier of an import, export, `import()` or `require()` node
+ */
+function getImportSpecifier(
+  parser: typeof ts,
+  node: ts.Node
+): { specifier: ts.StringLiteralLike; typeOnly: boolean; dynamic: boolean } | null {
+  let specifier: ts.Node | undefined;
+  let typeOnly = false;
+  let dynamic = false;
+
+  if (parser.isImportDeclaration(node)) {
+    specifier = node.moduleSpecifier;
+    typeOnly = node.importClause?.isTypeOnly ?? false;
+  } else if (parser.isExportDeclaration(node)) {
+    specifier = node.moduleSpecifier;
+    typeOnly = node.isTypeOnly;
+  } else if (parser.isImportEqualsDeclaration(node)) {
+    if (parser.isExternalModuleReference(node.moduleReference)) {
+      specifier = node.moduleReference.expression;
+      typeOnly = node.isTypeOnly;
+    }
+  } else if (parser.isImportTypeNode(node)) {
+    const argument = node.argument;
+    specifier = parser.isLiteralTypeNode(argument) ? argument.literal : undefined;
+    typeOnly = true;
+  } else if (parser.isCallExpression(node)) {
+    if (node.expression.kind === parser.SyntaxKind.ImportKeyword) {
+      specifier = node.arguments[0];
+      dynamic = true;
+    } else if (parser.isIdentifier(node.expression) && node.expression.text === 'require') {
+      specifier = node.arguments[0];
+    }
+  }
+
+  return specifier && parser.isStringLiteralLike(specifier)
+    ? { specifier, typeOnly, dynamic }
+    : null;
+}
+
+/**
+ * Find imports by matching the source text, which also matches imports in
+ * comments and strings
+ */
+function scanImports(content: string): ImportReference[] {
+  const references: ImportReference[] = [];
+
+  for (const match of content.matchAll(IMPORT_PATTERN)) {
+    const specifier = match[1] ?? match[2] ?? match[3];
+    if (!specifier) {
+      continue;
+    }
+
+    const offset = match.index + match[0].lastIndexOf(specifier) - 1;
+    const before = content.slice(0, offset);
+    const lineStart = before.lastIndexOf('\n') + 1;
+
+    references.push({
+      specifier,
+      line: before.split('\n').length,
+      column: offset - lineStart + 1,
+      typeOnly: /^(?:import|export)\s+type\s/.test(match[0]),
+      dynamic: match[3] !== undefined && match[0].startsWith('import'),
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Check whether a path is an existing file
+ */
+function isFile(path: string): boolean {
+  try {
+    return existsSync(path) && statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a relative import specifier to an absolute file path
+ *
+ * Bare (package) specifiers are not resolved and return null.
+ */
+export function resolveImport(specifier: string, fromFile: string): string | null {
+  if (!specifier.startsWith('.') && !specifier.startsWith('/')) {
+    return null;
+  }
+
+  const base = resolve(dirname(fromFile), specifier);
+
+  if (isFile(base)) {
+    return base;
+  }
+
+  // `./foo.js` in TypeScript sources refers to `./foo.ts`
+  for (const [jsExtension, tsExtensions] of Object.entries(JS_TO_TS_EXTENSIONS)) {
+    if (base.endsWith(jsExtension)) {
+      const stem = base.slice(0, -jsExtension.length);
+      for (const tsExtension of tsExtensions) {
+        if (isFile(stem + tsExtension)) {
+          return stem + tsExtension;
+        }
+      }
+    }
+  }
+
+  for (const extension of SOURCE_EXTENSIONS) {
+    if (isFile(base + extension)) {
+      return base + extension;
+    }
+  }
+
+  for (const extension of SOURCE_EXTENSIONS) {
+    const indexFile = resolve(base, `index${extension}`);
+    if (isFile(indexFile)) {
+      return indexFile;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the project files a source file imports
+ */
+export async function getLocalDependencies(filePath: string): Promise<string[]> {
+  try {
+    const content = await readFile(filePath, 'utf-8');
+    const dependencies = (await extractImports(content, filePath))
+      .map((specifier) => resolveImport(specifier, filePath))
+      .filter((dependency): dependency is string => dependency !== null);
+
+    return [...new Set(dependencies)];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Find files that directly import any of the target files
+ *
+ * @param targets - Absolute paths of the files whose dependents are wanted
+ * @param candidates - Absolute paths of the files to scan
+ * @returns Dependents that are not targets themselves
+ */
+export async function findDependents(targets: string[], candidates: string[]): Promise<string[]> {
+  const targetSet = new Set(targets.map((target) => resolve(target)));
+  const dependents: string[] = [];
+
+  for (const candidate of candidates) {
+    const resolved = resolve(candidate);
+    if (targetSet.has(resolved)) {
+      continue;
+    }
+
+    const dependencies = await getLocalDependencies(resolved);
+    if (dependencies.some((dependency) => targetSet.has(dependency))) {
+      dependents.push(resolved);
+    }
+  }
+
+  return dependents;
+}
@@ -2,4 +2,10 @@
  * Utilities exports
  */
 
+export * from './configCache.js';
+export * from './dependencyGraph.js';
+export * from './lineDiff.js';
+export * from './processTimeout.js';
+export * from './projectModule.js';
+export * from './projectRoot.js';
 export * from './versionDetector.js';
@@ -0,0 +1,155 @@
+/**
+ * Line Diff
+ *
+ * Compares two versions of a file line by line, for showing what a formatter
+ * would change and turning that into text edits.
+ */
+
+/**
+ * Largest number of line comparisons before the changed lines are reported
+ * as a single hunk instead of being matched up
+ */
+const MAX_COMPARISONS = 4_000_000;
+
+/**
+ * Run of changed lines
+ */
+export interface DiffHunk {
+  /** 0-based index of the first removed line in the old content */
+  oldStart: number;
+  /** 0-based index of the first added line in the new content */
+  newStart: number;
+  /** Character offset of the first removed line in the old content */
+  offset: number;
+  removed: string[];
+  added: string[];
+}
+
+/**
+ * Split content into lines, keeping line endings so hunks can be joined back
+ */
+function splitLines(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Find the runs of lines that differ between two versions of a file
+ */
+export function diffLines(before: string, after: string): DiffHunk[] {
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+
+  // Unchanged lines at the start and end are skipped before matching
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  if (oldMiddle.length === 0 && newMiddle.length === 0) {
+    return [];
+  }
+
+  const hunks =
+    oldMiddle.length * newMiddle.length > MAX_COMPARISONS
+      ? [{ oldStart: 0, newStart: 0, offset: 0, removed: oldMiddle, added: newMiddle }]
+      : matchLines(oldMiddle, newMiddle);
+
+  const lineOffsets = [0];
+  for (const line of oldLines) {
+    lineOffsets.push((lineOffsets[lineOffsets.length - 1] ?? 0) + line.length);
+  }
+
+  return hunks.map((hunk) => ({
+    ...hunk,
+    oldStart: hunk.oldStart + prefix,
+    newStart: hunk.newStart + prefix,
+    offset: lineOffsets[hunk.oldStart + prefix] ?? before.length,
+  }));
+}
+
+/**
+ * Collect hunks from the longest common subsequence of two line lists
+ */
+function matchLines(oldLines: string[], newLines: string[]): DiffHunk[] {
+  const width = newLines.length + 1;
+  // common[i * width + j]: length of the common subsequence of oldLines[i..] and newLines[j..]
+  const common = new Uint32Array((oldLines.length + 1) * width);
+
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      common[i * width + j] =
+        oldLines[i] === newLines[j]
+          ? (common[(i + 1) * width + j + 1] ?? 0) + 1
+          : Math.max(common[(i + 1) * width + j] ?? 0, common[i * width + j + 1] ?? 0);
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let i = 0;
+  let j = 0;
+
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+
+    if (!current) {
+      current = { oldStart: i, newStart: j, offset: 0, removed: [], added: [] };
+      hunks.push(current);
+    }
+
+    const skipOld = common[(i + 1) * width + j] ?? 0;
+    const skipNew = common[i * width + j + 1] ?? 0;
+    if (j >= newLines.length || (i < oldLines.length && skipOld >= skipNew)) {
+      current.removed.push(oldLines[i++] ?? '');
+    } else {
+      current.added.push(newLines[j++] ?? '');
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Format hunks as a unified diff without context lines
+ */
+export function formatUnifiedDiff(hunks: DiffHunk[]): string {
+  const lines: string[] = [];
+
+  for (const hunk of hunks) {
+    lines.push(
+      `@@ -${formatRange(hunk.oldStart, hunk.removed.length)} +${formatRange(hunk.newStart, hunk.added.length)} @@`
+    );
+    lines.push(...hunk.removed.map((line) => `-${line.replace(/\r?\n$/, '')}`));
+    lines.push(...hunk.added.map((line) => `+${line.replace(/\r?\n$/, '')}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a hunk range; empty ranges point at the line before them
+ */
+function formatRange(start: number, count: number): string {
+  const line = count === 0 ? start : start + 1;
+  return count === 1 ? String(line) : `${line},${count}`;
+}
@@ -0,0 +1,30 @@
+/**
+ * Process Timeouts
+ *
+ * External processes run by validators, such as command validators and test
+ * runners, must finish before the hook gives up (`timeout`), or the hook
+ * reports its own timeout instead of their result while they keep running.
+ */
+
+/**
+ * Hook timeout when the configuration does not set one
+ */
+export const DEFAULT_HOOK_TIMEOUT = 5000;
+
+/**
+ * Share of the hook timeout one process may use; the rest is left to the
+ * other steps of the hook, such as reading files and formatting output
+ */
+const PROCESS_TIMEOUT_SHARE = 0.8;
+
+/**
+ * Get the timeout of a process run within a hook
+ *
+ * @param hookTimeout - The configuration's `timeout`
+ * @param requested - Timeout configured for the process, if any; it is
+ *   shortened to fit within the hook timeout
+ */
+export function getProcessTimeout(hookTimeout: number | undefined, requested?: number): number {
+  const limit = Math.floor((hookTimeout ?? DEFAULT_HOOK_TIMEOUT) * PROCESS_TIMEOUT_SHARE);
+  return Math.min(requested ?? limit, limit);
+}
@@ -0,0 +1,50 @@
+/**
+ * Project Module Loading
+ *
+ * Optional tools such as ESLint and Prettier are not dependencies of this
+ * package. They are imported from the project instead, so the project's own
+ * version runs with its config and plugins. Custom validators are imported
+ * the same way.
+ */
+
+import { createRequire } from 'node:module';
+import { isAbsolute, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+/**
+ * Resolve a module path or package name from the project to an importable URL
+ *
+ * Paths starting with `.` and absolute paths are resolved against the
+ * project root; anything else is resolved as a package installed in the
+ * project. Throws when the module cannot be found.
+ */
+export function resolveProjectModule(projectRoot: string, specifier: string): string {
+  if (specifier.startsWith('.') || isAbsolute(specifier)) {
+    return pathToFileURL(resolve(projectRoot, specifier)).href;
+  }
+
+  const require = createRequire(join(projectRoot, 'package.json'));
+  return pathToFileURL(require.resolve(specifier)).href;
+}
+
+/**
+ * Import a package installed in the project
+ *
+ * @param projectRoot - Directory the package is resolved from
+ * @param name - Package name
+ * @param exportName - An export the module must have; CommonJS entry points
+ *   may only expose their exports as the default export
+ * @returns The module, or null when the project does not have the package
+ */
+export async function importProjectModule<T>(
+  projectRoot: string,
+  name: string,
+  exportName: string
+): Promise<T | null> {
+  try {
+    const module = await import(resolveProjectModule(projectRoot, name));
+    return (exportName in module ? module : module.default) as T;
+  } catch {
+    return null;
+  }
+}
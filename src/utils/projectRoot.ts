@@ -0,0 +1,83 @@
+/**
+ * Project Root Resolution
+ *
+ * Hooks run with whatever working directory Claude Code gives them, which is
+ * not necessarily the repository root. This module decides which directory to
+ * treat as the project root, so config, package.json, biome.json and tsconfig
+ * are found in the right place.
+ */
+
+import { existsSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+
+/**
+ * Configuration file that marks a project root
+ */
+export const PROJECT_CONFIG_FILE = 'claude-jsqualityhooks.config.yaml';
+
+/**
+ * Fallback markers used when no configuration file is found
+ */
+const PROJECT_MARKERS = ['package.json', '.git'];
+
+export interface ProjectRootOptions {
+  /** Working directory reported in the hook payload */
+  cwd?: string | undefined;
+  /** File being edited */
+  filePath?: string | undefined;
+  /** Environment to read CLAUDE_PROJECT_DIR from (defaults to process.env) */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Walk up from a directory until one contains the given entry
+ *
+ * @returns The directory containing the entry, or null if none does
+ */
+export function findUp(startDir: string, entry: string): string | null {
+  let currentDir = resolve(startDir);
+
+  while (true) {
+    if (existsSync(join(currentDir, entry))) {
+      return currentDir;
+    }
+
+    const parentDir = dirname(currentDir);
+    if (parentDir === currentDir) {
+      return null;
+    }
+    currentDir = parentDir;
+  }
+}
+
+/**
+ * Resolve the project root for a hook invocation
+ *
+ * Starting points are tried in order: the payload `cwd`, `$CLAUDE_PROJECT_DIR`
+ * and the edited file's directory, with `process.cwd()` used only when none of
+ * these are known. From each we walk
+ * up to the nearest directory with a claude-jsqualityhooks config; failing
+ * that, to the nearest package.json or .git. If nothing is found, the first
+ * starting point is used as-is.
+ */
+export function resolveProjectRoot(options: ProjectRootOptions = {}): string {
+  const { cwd, filePath, env = process.env } = options;
+
+  const startDirs = [cwd, env.CLAUDE_PROJECT_DIR, filePath && dirname(resolve(filePath))]
+    .filter((dir): dir is string => typeof dir === 'string' && dir.length > 0)
+    .map((dir) => resolve(dir));
+  if (startDirs.length === 0) {
+    startDirs.push(process.cwd());
+  }
+
+  for (const marker of [PROJECT_CONFIG_FILE, ...PROJECT_MARKERS]) {
+    for (const startDir of startDirs) {
+      const root = findUp(startDir, marker);
+      if (root) {
+        return root;
+      }
+    }
+  }
+
+  return startDirs[0] as string;
+}
@@ -0,0 +1,53 @@
+/**
+ * Per-User Directory
+ *
+ * Daemon sockets, daemon logs and session records live in a directory only
+ * the current user can access, so other users can neither talk to the daemon,
+ * plant a socket in its place nor add files to a session's record.
+ */
+
+import { lstatSync, mkdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * Get the per-user directory
+ *
+ * Uses `$XDG_RUNTIME_DIR` when set, or a directory named after the user id in
+ * the system temp directory. Call `ensurePrivateDir()` before using it.
+ */
+export function getUserDir(): string {
+  const runtimeDir = process.env.XDG_RUNTIME_DIR;
+  return runtimeDir
+    ? join(runtimeDir, 'claude-jsqualityhooks')
+    : join(tmpdir(), `claude-jsqualityhooks-${process.getuid?.() ?? 0}`);
+}
+
+/**
+ * Create a directory if needed and check that only the current user can
+ * access it
+ *
+ * @throws If the directory is a symlink, belongs to another user or is
+ *   accessible to other users
+ */
+export function ensurePrivateDir(dir: string): void {
+  // The temp directory is already per user on Windows
+  if (process.platform === 'win32') {
+    return;
+  }
+
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+  const stats = lstatSync(dir);
+  if (!stats.isDirectory()) {
+    throw new Error(`Directory ${dir} is not a directory`);
+  }
+  if (stats.uid !== process.getuid?.()) {
+    throw new Error(`Directory ${dir} belongs to another user`);
+  }
+  if ((stats.mode & 0o077) !== 0) {
+    throw new Error(
+      `Directory ${dir} is accessible to other users (mode ${(stats.mode & 0o777).toString(8)})`
+    );
+  }
+}
@@ -29,6 +29,7 @@ let biomeVersionCache:
   | (VersionInfo & { source: 'package.json' | 'cli' | 'config' | 'default' })
   | null = null;
 let cacheTimestamp: number = 0;
+let cacheProjectRoot: string | null = null;
 const CACHE_DURATION = 60000; // 1 minute cache
 
 /**
@@ -75,9 +76,9 @@ function parseVersion(versionStr: string): VersionInfo {
 /**
  * Detect Biome version from package.json with enhanced error handling
  */
-async function getBiomeVersionFromPackage(): Promise<VersionInfo | null> {
+async function getBiomeVersionFromPackage(projectRoot: string): Promise<VersionInfo | null> {
   try {
-    const packagePath = join(process.cwd(), 'package.json');
+    const packagePath = join(projectRoot, 'package.json');
     const packageContent = await readFile(packagePath, 'utf-8');
     const packageJson = JSON.parse(packageContent);
 
@@ -113,7 +114,7 @@ async function getBiomeVersionFromPackage(): Promise<VersionInfo | null> {
 /**
  * Detect Biome version from CLI with enhanced error handling
  */
-async function getBiomeVersionFromCLI(): Promise<VersionInfo | null> {
+async function getBiomeVersionFromCLI(projectRoot: string): Promise<VersionInfo | null> {
   // Try multiple command patterns in order of preference
   const commands = [
     ['npx', ['@biomejs/biome', '--version']],
@@ -124,6 +125,7 @@ async function getBiomeVersionFromCLI(): Promise<VersionInfo | null> {
   for (const [command, args] of commands) {
     try {
       const result = await execa(command, args, {
+        cwd: projectRoot,
         timeout: 5000,
         stdio: 'pipe', // Capture output properly
       });
@@ -153,6 +155,7 @@ async function getBiomeVersionFromCLI(): Promise<VersionInfo | null> {
 export function clearBiomeVersionCache(): void {
   biomeVersionCache = null;
   cacheTimestamp = 0;
+  cacheProjectRoot = null;
 }
 
 /**
@@ -160,11 +163,16 @@ export function clearBiomeVersionCache(): void {
  * Returns the detected version or defaults to 2.x
  */
 export async function detectBiomeVersion(
-  config?: BiomeConfig
+  config?: BiomeConfig,
+  projectRoot: string = process.cwd()
 ): Promise<VersionInfo & { source: 'package.json' | 'cli' | 'config' | 'default' }> {
-  // Check cache first (if not expired)
+  // Check cache first (if not expired and for the same project)
   const now = Date.now();
-  if (biomeVersionCache && now - cacheTimestamp < CACHE_DURATION) {
+  if (
+    biomeVersionCache &&
+    cacheProjectRoot === projectRoot &&
+    now - cacheTimestamp < CACHE_DURATION
+  ) {
     return biomeVersionCache;
   }
 
@@ -176,12 +184,12 @@ export async function detectBiomeVersion(
     result = { ...parseVersion(version), source: 'config' };
   } else {
     // Strategy 1: Check package.json first (most reliable)
-    const packageVersion = await getBiomeVersionFromPackage();
+    const packageVersion = await getBiomeVersionFromPackage(projectRoot);
     if (packageVersion) {
       result = { ...packageVersion, source: 'package.json' };
     } else {
       // Strategy 2: Try CLI detection
-      const cliVersion = await getBiomeVersionFromCLI();
+      const cliVersion = await getBiomeVersionFromCLI(projectRoot);
       if (cliVersion) {
         result = { ...cliVersion, source: 'cli' };
       } else {
@@ -194,6 +202,7 @@ export async function detectBiomeVersion(
   // Cache the result
   biomeVersionCache = result;
   cacheTimestamp = now;
+  cacheProjectRoot = projectRoot;
 
   // Log detection method for debugging
   if (process.env.DEBUG) {
@@ -228,9 +237,9 @@ export function getVersionString(version: VersionInfo): '1.x' | '2.x' {
 /**
  * Detect TypeScript version from package.json
  */
-async function getTypeScriptVersionFromPackage(): Promise<VersionInfo | null> {
+async function getTypeScriptVersionFromPackage(projectRoot: string): Promise<VersionInfo | null> {
   try {
-    const packagePath = join(process.cwd(), 'package.json');
+    const packagePath = join(projectRoot, 'package.json');
     const packageContent = await readFile(packagePath, 'utf-8');
     const packageJson = JSON.parse(packageContent);
 
@@ -253,9 +262,10 @@ async function getTypeScriptVersionFromPackage(): Promise<VersionInfo | null> {
 /**
  * Detect TypeScript version from CLI
  */
-async function getTypeScriptVersionFromCLI(): Promise<VersionInfo | null> {
+async function getTypeScriptVersionFromCLI(projectRoot: string): Promise<VersionInfo | null> {
   try {
     const result = await execa('npx', ['typescript', '--version'], {
+      cwd: projectRoot,
       timeout: 5000,
     });
 
@@ -272,6 +282,7 @@ async function getTypeScriptVersionFromCLI(): Promise<VersionInfo | null> {
     // Try alternative
     try {
       const result = await execa('tsc', ['--version'], {
+        cwd: projectRoot,
         timeout: 5000,
       });
 
@@ -292,17 +303,17 @@ async function getTypeScriptVersionFromCLI(): Promise<VersionInfo | null> {
 /**
  * Detect TypeScript version
  */
-export async function detectTypeScriptVersion(): Promise<
-  (VersionInfo & { source: 'package.json' | 'cli' }) | null
-> {
+export async function detectTypeScriptVersion(
+  projectRoot: string = process.cwd()
+): Promise<(VersionInfo & { source: 'package.json' | 'cli' }) | null> {
   // Strategy 1: Check package.json first
-  const packageVersion = await getTypeScriptVersionFromPackage();
+  const packageVersion = await getTypeScriptVersionFromPackage(projectRoot);
   if (packageVersion) {
     return { ...packageVersion, source: 'package.json' };
   }
 
   // Strategy 2: Try CLI detection
-  const cliVersion = await getTypeScriptVersionFromCLI();
+  const cliVersion = await getTypeScriptVersionFromCLI(projectRoot);
   if (cliVersion) {
     return { ...cliVersion, source: 'cli' };
   }
@@ -0,0 +1,87 @@
+/**
+ * Validator Plugin API
+ *
+ * Every validator, built-in or custom, implements this interface. Custom
+ * validators are listed in `validators.custom` and run in parallel with the
+ * built-in ones, sharing their result caching, hook timeout and output.
+ */
+
+import type { Config } from '../types/config.js';
+import type { ValidationIssue } from './biome/adapters/BiomeAdapter.js';
+
+/**
+ * File passed to a validator
+ *
+ * `content` may differ from the file on disk, for example when a proposed
+ * edit is checked before it is written.
+ */
+export interface ValidatorFile {
+  /** Absolute path of the file */
+  path: string;
+  /** Path relative to the project root */
+  relativePath: string;
+  content: string;
+  /** Aborted when the hook times out; validators that run processes should stop them */
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * Context a validator is initialized with
+ */
+export interface ValidatorContext {
+  projectRoot: string;
+  config: Config;
+}
+
+/**
+ * Result of validating a file
+ */
+export interface ValidatorOutput {
+  issues: ValidationIssue[];
+  /** Overall status; derived from the issue severities when omitted */
+  status?: 'success' | 'warning' | 'error' | undefined;
+  /** Why the validator could not check the file */
+  error?: string | undefined;
+}
+
+/**
+ * Result of fixing a file
+ */
+export interface ValidatorFixOutput {
+  /** Fixed content; the validator must not write the file itself */
+  content: string;
+  /** Why the validator could not fix the file */
+  error?: string | undefined;
+}
+
+/**
+ * Validator plugin
+ *
+ * Issues should set `source` to the validator's name, so their fixes are
+ * routed back to it.
+ */
+export interface Validator {
+  /** Unique name, shown as the result's validator */
+  readonly name: string;
+  /** Prepare the validator; called once before the first file is validated */
+  init(context: ValidatorContext): Promise<void> | void;
+  /** Check a file */
+  validate(file: ValidatorFile): Promise<ValidatorOutput>;
+  /** Fix the validator's fixable issues in a file */
+  fix?(file: ValidatorFile): Promise<ValidatorFixOutput>;
+  /**
+   * Accept a written file as the new baseline; called once the hook is done
+   * with it, after fixes were applied and verified
+   */
+  commit?(file: ValidatorFile): Promise<void> | void;
+  /** Release resources held by the validator */
+  dispose(): Promise<void> | void;
+}
+
+/**
+ * Default export of a custom validator module: a validator, or a function
+ * that creates one
+ */
+export type ValidatorModuleExport =
+  | Validator
+  | ((context: ValidatorContext) => Validator | Promise<Validator>);
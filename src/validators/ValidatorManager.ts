@@ -3,17 +3,18 @@
  *
  * Orchestrates parallel execution of multiple validators (Biome, TypeScript, etc.)
  * with proper error handling, result aggregation, and performance monitoring.
+ * Built-in and custom validators all implement the Validator plugin interface.
  */
 
 import { createHash } from 'node:crypto';
-import type { BiomeConfig, Config, TypeScriptConfig } from '../types/config.js';
+import { relative } from 'node:path';
+import type { Config } from '../types/config.js';
 import type { FileInfo } from '../types/hooks.js';
 import type { ValidationIssue } from './biome/adapters/BiomeAdapter.js';
-import { type BiomeValidationResult, BiomeValidator } from './biome/BiomeValidator.js';
-import {
-  type ValidationResult as TSValidationResult,
-  TypeScriptValidator,
-} from './typescript/index.js';
+import { BUILTIN_VALIDATORS } from './builtinValidators.js';
+import { CommandValidator } from './command/index.js';
+import { loadCustomValidators } from './customValidators.js';
+import type { Validator, ValidatorOutput } from './Validator.js';
 
 /**
  * Unified validation result interface
@@ -48,13 +49,25 @@ export interface ValidationResponse {
   cached: boolean;
 }
 
+/**
+ * Options for validating a file
+ */
+export interface ValidateOptions {
+  /**
+   * Results to report instead of running their validators again, such as
+   * results of slow validators from an earlier run that the new content is
+   * not expected to change
+   */
+  reuse?: ValidationResult[];
+}
+
 /**
  * Internal validator interface
  */
 interface ValidatorInstance {
   name: string;
   enabled: boolean;
-  validator: BiomeValidator | TypeScriptValidator;
+  validator: Validator;
 }
 
 /**
@@ -75,13 +88,15 @@ export class ValidatorManager {
   private cache = new Map<string, CacheEntry>();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
   private initialized = false;
+  private projectRoot: string;
 
-  constructor(config: Config) {
+  constructor(config: Config, projectRoot: string = process.cwd()) {
     this.config = config;
+    this.projectRoot = projectRoot;
   }
 
   /**
-   * Initialize enabled validators
+   * Initialize enabled built-in validators, command validators and the custom validators
    */
   private async initialize(): Promise<void> {
     if (this.initialized) {
@@ -89,35 +104,40 @@ export class ValidatorManager {
     }
 
     this.validators = [];
+    const context = { projectRoot: this.projectRoot, config: this.config };
+    const candidates: Validator[] = [];
+
+    for (const builtin of BUILTIN_VALIDATORS) {
+      if (!builtin.isEnabled(this.config)) {
+        continue;
+      }
 
-    // Initialize Biome validator if enabled
-    if (this.config.validators.biome?.enabled) {
       try {
-        const biomeValidator = new BiomeValidator(this.config.validators.biome as BiomeConfig);
-        this.validators.push({
-          name: 'biome',
-          enabled: true,
-          validator: biomeValidator,
-        });
+        candidates.push(builtin.create(this.config, this.projectRoot));
       } catch (error) {
-        console.warn(`Failed to initialize Biome validator: ${error}`);
+        console.warn(`Failed to initialize ${builtin.name} validator: ${error}`);
       }
     }
 
-    // Initialize TypeScript validator if enabled
-    if (this.config.validators.typescript?.enabled) {
+    for (const command of this.config.validators.commands ?? []) {
+      candidates.push(new CommandValidator(command, this.projectRoot, this.config.timeout));
+    }
+
+    if (this.config.validators.custom?.length) {
+      candidates.push(...(await loadCustomValidators(this.config.validators.custom, context)));
+    }
+
+    for (const validator of candidates) {
+      if (this.validators.some((instance) => instance.name === validator.name)) {
+        console.warn(`[ValidatorManager] Skipping duplicate validator '${validator.name}'`);
+        continue;
+      }
+
       try {
-        const typescriptValidator = new TypeScriptValidator(
-          this.config.validators.typescript as TypeScriptConfig,
-          process.cwd()
-        );
-        this.validators.push({
-          name: 'typescript',
-          enabled: true,
-          validator: typescriptValidator,
-        });
+        await validator.init(context);
+        this.validators.push({ name: validator.name, enabled: true, validator });
       } catch (error) {
-        console.warn(`Failed to initialize TypeScript validator: ${error}`);
+        console.warn(`Failed to initialize ${validator.name} validator: ${error}`);
       }
     }
 
@@ -127,8 +147,9 @@ export class ValidatorManager {
   /**
    * Validate a file using all enabled validators in parallel
    */
-  async validateFile(file: FileInfo): Promise<ValidationResponse> {
+  async validateFile(file: FileInfo, options: ValidateOptions = {}): Promise<ValidationResponse> {
     const startTime = performance.now();
+    const reuse = options.reuse ?? [];
 
     await this.initialize();
 
@@ -146,6 +167,11 @@ export class ValidatorManager {
 
     // Create validation promises for all enabled validators
     const validationPromises = this.validators.map(async (validatorInstance) => {
+      const reused = reuse.find((result) => result.validator === validatorInstance.name);
+      if (reused) {
+        return reused;
+      }
+
       const validatorStartTime = performance.now();
 
       try {
@@ -177,8 +203,11 @@ export class ValidatorManager {
     const totalDuration = performance.now() - startTime;
     const response = this.aggregateResults(validationResults, totalDuration);
 
-    // Cache the result
-    this.addToCache(cacheKey, response);
+    // Cache the result, unless the hook gave up and validators were stopped or
+    // some results were not produced for this content
+    if (!file.signal?.aborted && reuse.length === 0) {
+      this.addToCache(cacheKey, response);
+    }
 
     return response;
   }
@@ -189,28 +218,21 @@ export class ValidatorManager {
   private async executeValidator(
     validatorInstance: ValidatorInstance,
     file: FileInfo
-  ): Promise<BiomeValidationResult | TSValidationResult> {
-    const { validator, name } = validatorInstance;
-
-    if (name === 'biome') {
-      return await (validator as BiomeValidator).validate(file.path, false);
-    } else if (name === 'typescript') {
-      return await (validator as TypeScriptValidator).validate({
-        path: file.path,
-        relativePath: file.path.replace(process.cwd(), '').replace(/^[/\\]/, ''),
-        content: file.content,
-      });
-    }
-
-    throw new Error(`Unknown validator type: ${name}`);
+  ): Promise<ValidatorOutput> {
+    return await validatorInstance.validator.validate({
+      path: file.path,
+      relativePath: relative(this.projectRoot, file.path),
+      content: file.content,
+      signal: file.signal,
+    });
   }
 
   /**
-   * Normalize different validator result formats to common interface
+   * Normalize a validator result to the common interface
    */
   private normalizeValidationResult(
     validatorName: string,
-    result: BiomeValidationResult | TSValidationResult,
+    result: ValidatorOutput,
     duration: number
   ): ValidationResult {
     const hasErrors = result.issues.some((issue) => issue.severity === 'error');
@@ -218,21 +240,16 @@ export class ValidatorManager {
 
     let status: 'success' | 'warning' | 'error';
 
-    // Handle different result structures
-    if ('success' in result) {
-      // BiomeValidationResult structure
-      if (!result.success || result.error) {
-        status = 'error';
-      } else if (hasErrors) {
-        status = 'error';
-      } else if (hasWarnings) {
-        status = 'warning';
-      } else {
-        status = 'success';
-      }
-    } else {
-      // TSValidationResult structure (has status property)
+    if (result.error) {
+      status = 'error';
+    } else if (result.status) {
       status = result.status;
+    } else if (hasErrors) {
+      status = 'error';
+    } else if (hasWarnings) {
+      status = 'warning';
+    } else {
+      status = 'success';
     }
 
     return {
@@ -240,7 +257,7 @@ export class ValidatorManager {
       status,
       issues: result.issues,
       duration,
-      error: 'error' in result ? result.error : undefined,
+      error: result.error,
     };
   }
 
@@ -424,6 +441,58 @@ export class ValidatorManager {
     };
   }
 
+  /**
+   * Tell validators the hook is done with a written file
+   *
+   * Validators that compare a file with its previous version keep that
+   * version as their baseline until then, so fixed content is checked against
+   * the same baseline as the edit.
+   */
+  async commitFile(file: FileInfo): Promise<void> {
+    for (const { name, validator } of this.validators) {
+      if (!validator.commit) {
+        continue;
+      }
+
+      try {
+        await validator.commit({
+          path: file.path,
+          relativePath: relative(this.projectRoot, file.path),
+          content: file.content,
+        });
+      } catch (error) {
+        console.warn(`Failed to commit ${name} validator: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Get the initialized validators, in the order they run
+   */
+  async getValidators(): Promise<Validator[]> {
+    await this.initialize();
+    return this.validators.map(({ validator }) => validator);
+  }
+
+  /**
+   * Dispose of all validators
+   *
+   * Validators are initialized again on the next validation.
+   */
+  async dispose(): Promise<void> {
+    for (const { name, validator } of this.validators) {
+      try {
+        await validator.dispose();
+      } catch (error) {
+        console.warn(`Failed to dispose ${name} validator: ${error}`);
+      }
+    }
+
+    this.validators = [];
+    this.initialized = false;
+    this.cache.clear();
+  }
+
   /**
    * Get enabled validators info
    */
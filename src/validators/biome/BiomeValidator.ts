@@ -5,25 +5,33 @@
  * differences between Biome 1.x and 2.x command structures.
  */
 
+import { randomBytes } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
 import { execa } from 'execa';
 import type { BiomeConfig } from '../../types/config.js';
 import { detectBiomeVersion } from '../../utils/versionDetector.js';
 import type { BiomeAdapter, ValidationIssue } from './adapters/BiomeAdapter.js';
-import { createAdapterFromDetection } from './adapters/BiomeAdapterFactory.js';
+import { createPreferredAdapter } from './adapters/BiomeAdapterFactory.js';
 
 export interface BiomeValidationResult {
   success: boolean;
   issues: ValidationIssue[];
   fixed: number;
   error?: string | undefined;
+  /** Content as Biome fixed and formatted it, for content checked with autoFix */
+  formatted?: string | undefined;
 }
 
 export class BiomeValidator {
   private adapter: BiomeAdapter | null = null;
   private config: BiomeConfig;
+  private projectRoot: string;
 
-  constructor(config: BiomeConfig) {
+  constructor(config: BiomeConfig, projectRoot: string = process.cwd()) {
     this.config = config;
+    this.projectRoot = projectRoot;
   }
 
   /**
@@ -35,8 +43,12 @@ export class BiomeValidator {
     }
 
     try {
-      const versionInfo = await detectBiomeVersion(this.config);
-      this.adapter = createAdapterFromDetection(versionInfo);
+      const versionInfo = await detectBiomeVersion(this.config, this.projectRoot);
+      this.adapter = await createPreferredAdapter(
+        versionInfo,
+        this.projectRoot,
+        this.config.configPath || undefined
+      );
     } catch (error) {
       throw new Error(`Failed to initialize Biome validator: ${error}`);
     }
@@ -58,6 +70,17 @@ export class BiomeValidator {
         };
       }
 
+      // Adapters backed by the JS API check in-process
+      if (this.adapter.checkContent) {
+        const content = await readFile(filePath, 'utf8');
+        const result = await this.adapter.checkContent(content, filePath, { autoFix });
+        if (autoFix && result.content !== content) {
+          await writeFile(filePath, result.content, 'utf8');
+        }
+
+        return { success: true, issues: result.issues, fixed: 0 };
+      }
+
       // Build command using adapter
       const command = this.adapter.buildCommand(filePath, {
         autoFix,
@@ -67,7 +90,7 @@ export class BiomeValidator {
 
       // Execute Biome command
       const result = await execa('npx', ['@biomejs/biome', ...command], {
-        cwd: process.cwd(),
+        cwd: this.projectRoot,
         timeout: 30000, // 30 second timeout
         stdio: 'pipe',
         reject: false, // Don't throw on non-zero exit codes
@@ -95,6 +118,81 @@ export class BiomeValidator {
     }
   }
 
+  /**
+   * Validate content that is not on disk yet
+   *
+   * Biome prints no diagnostics for content read from stdin, so the content
+   * is written to a temporary file next to the original, where the same
+   * configuration, overrides and ignore rules apply, and checked there. The
+   * original file is never written: with autoFix, the fixed and formatted
+   * content is returned as `formatted` instead.
+   */
+  async validateContent(
+    filePath: string,
+    content: string,
+    autoFix = false
+  ): Promise<BiomeValidationResult> {
+    try {
+      await this.initialize();
+
+      if (!this.adapter) {
+        return {
+          success: false,
+          issues: [],
+          fixed: 0,
+          error: 'Biome adapter not initialized',
+        };
+      }
+
+      if (this.adapter.checkContent) {
+        const result = await this.adapter.checkContent(content, filePath, { autoFix });
+        return {
+          success: true,
+          issues: result.issues,
+          fixed: 0,
+          formatted: autoFix ? result.content : undefined,
+        };
+      }
+
+      const tempPath = getTempPath(filePath, this.projectRoot);
+      await writeFile(tempPath, content, 'utf8');
+      try {
+        const command = this.adapter.buildCommand(tempPath, {
+          autoFix,
+          configPath: this.config.configPath || undefined,
+          unsafeFixes: false,
+        });
+
+        const result = await execa('npx', ['@biomejs/biome', ...command], {
+          cwd: this.projectRoot,
+          timeout: 30000,
+          stdio: 'pipe',
+          reject: false,
+        });
+
+        // Issues are reported against the original file
+        const issues = this.adapter.parseOutput(result.stdout || '', filePath);
+
+        return {
+          success: result.exitCode === 0,
+          issues,
+          fixed: 0,
+          error: result.exitCode !== 0 && result.stderr ? result.stderr : undefined,
+          formatted: autoFix ? await readFile(tempPath, 'utf8') : undefined,
+        };
+      } finally {
+        await rm(tempPath, { force: true });
+      }
+    } catch (error) {
+      return {
+        success: false,
+        issues: [],
+        fixed: 0,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   /**
    * Check if a file should be validated by Biome
    */
@@ -115,3 +213,16 @@ export class BiomeValidator {
     return this.adapter?.version || 'unknown';
   }
 }
+
+/**
+ * Path of a temporary copy of a file, in the same directory and with the same
+ * extension so Biome treats it like the file
+ *
+ * Files in directories that do not exist yet are copied to the project root.
+ */
+function getTempPath(filePath: string, projectRoot: string): string {
+  const directory = existsSync(dirname(filePath)) ? dirname(filePath) : projectRoot;
+  const extension = extname(filePath);
+  const name = basename(filePath, extension);
+  return join(directory, `${name}.jsqualityhooks-${randomBytes(4).toString('hex')}${extension}`);
+}
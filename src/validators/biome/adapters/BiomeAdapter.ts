@@ -5,14 +5,62 @@
  * between Biome 1.x (--apply) and 2.x (--write) command flags.
  */
 
+/**
+ * Replacement of a span of the file content, in character offsets
+ */
+export interface TextEdit {
+  start: number;
+  length: number;
+  newText: string;
+}
+
+/**
+ * Fix for an issue, as edits to the file the issue was found in
+ */
+export interface IssueFix {
+  /** Kind of fix, e.g. a TypeScript code fix name */
+  fixName: string;
+  description: string;
+  edits: TextEdit[];
+}
+
+/**
+ * Area of code quality an issue belongs to, used to order and group fixes
+ */
+export type IssueCategory = 'format' | 'lint' | 'import' | 'type';
+
 export interface ValidationIssue {
   file: string;
   line: number;
   column: number;
+  /** End of the reported range, when the validator provides one */
+  endLine?: number | undefined;
+  endColumn?: number | undefined;
   severity: 'error' | 'warning' | 'info';
   message: string;
   fixed: boolean;
   fixable: boolean;
+  /** Class of problem: parse errors, type errors or lint findings */
+  kind?: 'syntax' | 'type' | 'lint' | undefined;
+  /** Validator that reported the issue, e.g. `biome` or `typescript` */
+  source?: string | undefined;
+  /** Rule or diagnostic identifier, e.g. `lint/style/useConst` or `TS2322` */
+  ruleId?: string | undefined;
+  /** Numeric diagnostic code, for validators that use them */
+  code?: number | undefined;
+  category?: IssueCategory | undefined;
+  /** Documentation of the rule */
+  docsUrl?: string | undefined;
+  /** Explanations the validator attached to the issue */
+  notes?: string[] | undefined;
+  /** Numbered source lines the issue points at */
+  codeFrame?: string | undefined;
+  /** Readable summary of the fix edits, e.g. "replace `let` with `const`" */
+  suggestion?: string | undefined;
+  /** Unified diff of the expected change, e.g. what a formatter would print */
+  diff?: string | undefined;
+  /** Edits that fix the issue, when the validator can compute them */
+  fix?: IssueFix | undefined;
 }
 
 export interface BiomeCommandOptions {
@@ -21,6 +69,15 @@ export interface BiomeCommandOptions {
   unsafeFixes?: boolean;
 }
 
+/**
+ * Result of checking content in-process
+ */
+export interface BiomeContentResult {
+  issues: ValidationIssue[];
+  /** Checked content, fixed and formatted when autoFix was requested */
+  content: string;
+}
+
 /**
  * Base interface for Biome version adapters
  */
@@ -48,6 +105,21 @@ export interface BiomeAdapter {
    */
   getFixFlag(unsafe?: boolean): string;
 
+  /**
+   * Check content in-process instead of running the CLI
+   *
+   * Only adapters backed by the Biome JS API implement this.
+   * @param content - Content to check
+   * @param filePath - File path the content belongs to
+   * @param options - Command options; `configPath` is ignored
+   * @returns Issues and the checked content
+   */
+  checkContent?(
+    content: string,
+    filePath: string,
+    options?: BiomeCommandOptions
+  ): Promise<BiomeContentResult>;
+
   /**
    * Get the version identifier for this adapter
    */
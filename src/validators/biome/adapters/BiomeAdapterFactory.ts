@@ -7,6 +7,7 @@
 
 import type { VersionInfo } from '../../../utils/versionDetector.js';
 import type { BiomeAdapter } from './BiomeAdapter.js';
+import { loadBiomeJsApiAdapter } from './BiomeJsApiAdapter.js';
 import { BiomeV1Adapter } from './BiomeV1Adapter.js';
 import { BiomeV2Adapter } from './BiomeV2Adapter.js';
 
@@ -40,3 +41,24 @@ export function createAdapterFromDetection(
 ): BiomeAdapter {
   return createAdapterFromVersion(detectionResult);
 }
+
+/**
+ * Create the preferred adapter for a project
+ *
+ * Biome 2.x projects are checked in-process through the JS API when it is
+ * installed; otherwise the CLI adapter for the detected version is used.
+ */
+export async function createPreferredAdapter(
+  detectionResult: VersionInfo & { source: 'package.json' | 'cli' | 'config' | 'default' },
+  projectRoot: string = process.cwd(),
+  configPath?: string
+): Promise<BiomeAdapter> {
+  if (detectionResult.major >= 2) {
+    const jsApiAdapter = await loadBiomeJsApiAdapter(projectRoot, configPath);
+    if (jsApiAdapter) {
+      return jsApiAdapter;
+    }
+  }
+
+  return createAdapterFromDetection(detectionResult);
+}
@@ -0,0 +1,318 @@
+/**
+ * BiomeJsApiAdapter
+ *
+ * Adapter backed by the official Biome JS API (`@biomejs/js-api` with
+ * `@biomejs/wasm-nodejs`). Content is linted, fixed and formatted in-process
+ * instead of spawning the CLI. Both packages are optional peer dependencies,
+ * so the adapter is created through `loadBiomeJsApiAdapter`, which returns
+ * null when they are not installed.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { isAbsolute, join, relative, resolve } from 'node:path';
+import { parseAdvices, renderCodeFrame } from './advices.js';
+import type {
+  BiomeAdapter,
+  BiomeCommandOptions,
+  BiomeContentResult,
+  ValidationIssue,
+} from './BiomeAdapter.js';
+import { BiomeV2Adapter } from './BiomeV2Adapter.js';
+import { describeBiomeRule, offsetToPosition } from './diagnostics.js';
+
+/**
+ * Node.js entry point of the JS API
+ */
+const JS_API_MODULE = '@biomejs/js-api/nodejs';
+
+/**
+ * Project configuration files, in the order Biome looks for them
+ */
+const CONFIG_FILES = ['biome.json', 'biome.jsonc'];
+
+/**
+ * Message of the issue reported for unformatted content, as the CLI words it
+ */
+const FORMAT_MESSAGE = 'Formatter would have printed different content.';
+
+/**
+ * Diagnostic as returned by the JS API
+ */
+export interface JsApiDiagnostic {
+  category?: string | undefined;
+  severity?: string | undefined;
+  description?: string | undefined;
+  location?: { span?: [number, number] | null | undefined } | undefined;
+  advices?: unknown;
+}
+
+interface JsApiResult {
+  content: string;
+  diagnostics: JsApiDiagnostic[];
+}
+
+/**
+ * Subset of the JS API `Biome` class used by the adapter
+ */
+export interface JsApiBiome {
+  openProject(path?: string): { projectKey: number };
+  applyConfiguration(projectKey: number, configuration: unknown): void;
+  lintContent(
+    projectKey: number,
+    content: string,
+    options: { filePath: string; fixFileMode?: 'safeFixes' | 'safeAndUnsafeFixes' }
+  ): JsApiResult;
+  formatContent(projectKey: number, content: string, options: { filePath: string }): JsApiResult;
+}
+
+interface JsApiModule {
+  Biome: new () => JsApiBiome;
+}
+
+let jsApiModule: Promise<JsApiModule | null> | undefined;
+
+/**
+ * Import the JS API once per process, resolving to null when it is not installed
+ */
+function importJsApi(): Promise<JsApiModule | null> {
+  jsApiModule ??= import(JS_API_MODULE).then(
+    (module: JsApiModule) => module,
+    () => null
+  );
+  return jsApiModule;
+}
+
+/**
+ * Create an adapter backed by the JS API
+ *
+ * Returns null when the JS API is not installed or the project configuration
+ * cannot be applied in-process, so the caller falls back to the CLI.
+ */
+export async function loadBiomeJsApiAdapter(
+  projectRoot: string = process.cwd(),
+  configPath?: string
+): Promise<BiomeJsApiAdapter | null> {
+  const module = await importJsApi();
+  if (!module) {
+    return null;
+  }
+
+  const configuration = await readConfiguration(projectRoot, configPath);
+  if (configuration === null) {
+    return null;
+  }
+
+  try {
+    return new BiomeJsApiAdapter(new module.Biome(), projectRoot, configuration);
+  } catch (error) {
+    console.warn(`[BiomeJsApiAdapter] Failed to start Biome JS API: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Read the Biome configuration of the project
+ *
+ * Returns undefined when the project has no configuration and null when it
+ * cannot be used in-process: the JS API neither parses JSONC nor resolves
+ * `extends`.
+ */
+async function readConfiguration(
+  projectRoot: string,
+  configPath?: string
+): Promise<Record<string, unknown> | undefined | null> {
+  const candidates = configPath
+    ? [resolve(projectRoot, configPath)]
+    : CONFIG_FILES.map((name) => join(projectRoot, name));
+
+  for (const candidate of candidates) {
+    const text = await readFile(candidate, 'utf8').catch(() => null);
+    if (text === null) {
+      continue;
+    }
+
+    try {
+      const configuration = JSON.parse(text) as Record<string, unknown>;
+      return 'extends' in configuration ? null : configuration;
+    } catch {
+      return null;
+    }
+  }
+
+  return undefined;
+}
+
+export class BiomeJsApiAdapter implements BiomeAdapter {
+  readonly version = '2.x' as const;
+
+  private readonly biome: JsApiBiome;
+  private readonly projectRoot: string;
+  private readonly projectKey: number;
+  // CLI syntax for callers that still run the CLI, such as the fix commands
+  private readonly cli = new BiomeV2Adapter();
+
+  constructor(
+    biome: JsApiBiome,
+    projectRoot: string = process.cwd(),
+    configuration?: Record<string, unknown>
+  ) {
+    this.biome = biome;
+    this.projectRoot = projectRoot;
+    this.projectKey = biome.openProject(projectRoot).projectKey;
+
+    if (configuration) {
+      biome.applyConfiguration(this.projectKey, configuration);
+    }
+  }
+
+  /**
+   * Build command arguments for the Biome 2.x CLI
+   */
+  buildCommand(file: string, options: BiomeCommandOptions = {}): string[] {
+    return this.cli.buildCommand(file, options);
+  }
+
+  /**
+   * Get the fix flag for the Biome 2.x CLI
+   */
+  getFixFlag(unsafe = false): string {
+    return this.cli.getFixFlag(unsafe);
+  }
+
+  /**
+   * Parse Biome 2.x CLI JSON output
+   */
+  parseOutput(output: string, filePath: string): ValidationIssue[] {
+    return this.cli.parseOutput(output, filePath);
+  }
+
+  /**
+   * Lint, fix and format content in-process
+   *
+   * Without autoFix the content is returned unchanged; fixes are still
+   * computed to tell which issues Biome can fix.
+   */
+  async checkContent(
+    content: string,
+    filePath: string,
+    options: BiomeCommandOptions = {}
+  ): Promise<BiomeContentResult> {
+    const { autoFix = false, unsafeFixes = false } = options;
+    const path = this.toProjectPath(filePath);
+
+    const linted = this.biome.lintContent(this.projectKey, content, { filePath: path });
+    const fixed = this.biome.lintContent(this.projectKey, content, {
+      filePath: path,
+      fixFileMode: unsafeFixes ? 'safeAndUnsafeFixes' : 'safeFixes',
+    });
+
+    const fixableCategories = this.findFixedCategories(linted.diagnostics, fixed.diagnostics);
+    const remaining = autoFix ? fixed : linted;
+    const issues = remaining.diagnostics.map((diagnostic) =>
+      this.parseDiagnostic(diagnostic, remaining.content, filePath, fixableCategories)
+    );
+
+    // Unparsable content cannot be formatted, and the parse errors are already reported
+    if (linted.diagnostics.some((diagnostic) => diagnostic.category === 'parse')) {
+      return { issues, content: autoFix ? fixed.content : content };
+    }
+
+    if (autoFix) {
+      const formatted = this.biome.formatContent(this.projectKey, fixed.content, {
+        filePath: path,
+      });
+      return { issues, content: formatted.content };
+    }
+
+    const formatted = this.biome.formatContent(this.projectKey, content, { filePath: path });
+    if (formatted.content !== content) {
+      issues.push({
+        file: filePath,
+        line: 1,
+        column: 1,
+        severity: 'error',
+        message: FORMAT_MESSAGE,
+        fixed: false,
+        fixable: true,
+        ...describeBiomeRule('format'),
+      });
+    }
+
+    return { issues, content };
+  }
+
+  /**
+   * Path of the file relative to the project, for Biome's include and override patterns
+   */
+  private toProjectPath(filePath: string): string {
+    return isAbsolute(filePath) ? relative(this.projectRoot, filePath) : filePath;
+  }
+
+  /**
+   * Find categories that have fewer diagnostics once fixes are applied
+   */
+  private findFixedCategories(before: JsApiDiagnostic[], after: JsApiDiagnostic[]): Set<string> {
+    const remaining = new Map<string, number>();
+    for (const diagnostic of after) {
+      const category = diagnostic.category ?? '';
+      remaining.set(category, (remaining.get(category) ?? 0) + 1);
+    }
+
+    const fixedCategories = new Set<string>();
+    for (const diagnostic of before) {
+      const category = diagnostic.category ?? '';
+      const count = remaining.get(category) ?? 0;
+      if (count === 0) {
+        fixedCategories.add(category);
+      } else {
+        remaining.set(category, count - 1);
+      }
+    }
+
+    return fixedCategories;
+  }
+
+  /**
+   * Convert a JS API diagnostic into a ValidationIssue
+   */
+  private parseDiagnostic(
+    diagnostic: JsApiDiagnostic,
+    content: string,
+    filePath: string,
+    fixableCategories: Set<string>
+  ): ValidationIssue {
+    const category = diagnostic.category ?? '';
+    const [start = 0, end = start] = diagnostic.location?.span ?? [];
+    const startPosition = offsetToPosition(content, start);
+    const endPosition = offsetToPosition(content, end);
+
+    return {
+      file: filePath,
+      ...startPosition,
+      endLine: endPosition.line,
+      endColumn: endPosition.column,
+      severity: mapSeverity(diagnostic.severity),
+      message: diagnostic.description || 'Unknown issue',
+      fixed: false,
+      fixable: fixableCategories.has(category),
+      ...describeBiomeRule(diagnostic.category),
+      codeFrame: renderCodeFrame(content, diagnostic.location?.span),
+      ...parseAdvices(diagnostic.advices, content, diagnostic.category, diagnostic.location?.span),
+    };
+  }
+}
+
+/**
+ * Map Biome severity levels to our standard format
+ */
+function mapSeverity(severity: string | undefined): 'error' | 'warning' | 'info' {
+  switch (severity) {
+    case 'warning':
+      return 'warning';
+    case 'information':
+    case 'hint':
+      return 'info';
+    default:
+      return 'error';
+  }
+}
@@ -5,7 +5,9 @@
  * and different command structure.
  */
 
+import { parseAdvices, renderCodeFrame } from './advices.js';
 import type { BiomeAdapter, BiomeCommandOptions, ValidationIssue } from './BiomeAdapter.js';
+import { describeBiomeRule, resolveLocation } from './diagnostics.js';
 
 export class BiomeV1Adapter implements BiomeAdapter {
   readonly version = '1.x' as const;
@@ -91,8 +93,8 @@ export class BiomeV1Adapter implements BiomeAdapter {
 
     // Extract location information
     const location = (diagnosticObj.location as Record<string, unknown>) || {};
-    const span = (location.span as Record<string, unknown>) || {};
-    const start = (span.start as Record<string, unknown>) || { line: 1, column: 1 };
+    const range = resolveLocation(location);
+    const sourceCode = typeof location.sourceCode === 'string' ? location.sourceCode : undefined;
 
     // Map Biome severity to our format
     const severity = this.mapSeverity(String(diagnosticObj.severity || ''));
@@ -105,14 +107,19 @@ export class BiomeV1Adapter implements BiomeAdapter {
     const fixed = tags.includes('fixable') && diagnosticObj.fixed === true;
     const fixable = tags.includes('fixable');
 
+    const category =
+      typeof diagnosticObj.category === 'string' ? diagnosticObj.category : undefined;
+
     return {
       file: filePath,
-      line: typeof start.line === 'number' ? start.line : 1,
-      column: typeof start.column === 'number' ? start.column : 1,
+      ...range,
       severity,
       message: typeof message === 'string' ? message : String(message),
       fixed,
       fixable,
+      ...describeBiomeRule(category),
+      codeFrame: sourceCode ? renderCodeFrame(sourceCode, location.span) : undefined,
+      ...parseAdvices(diagnosticObj.advices, sourceCode, category, location.span),
     };
   }
 
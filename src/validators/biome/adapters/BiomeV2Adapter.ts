@@ -2,17 +2,19 @@
  * BiomeV2Adapter
  *
  * Adapter for Biome 2.x versions which use --write flag for fixes
- * and include --no-colors flag for clean output.
+ * and include --colors=off flag for clean output.
  */
 
+import { parseAdvices, renderCodeFrame } from './advices.js';
 import type { BiomeAdapter, BiomeCommandOptions, ValidationIssue } from './BiomeAdapter.js';
+import { describeBiomeRule, resolveLocation } from './diagnostics.js';
 
 export class BiomeV2Adapter implements BiomeAdapter {
   readonly version = '2.x' as const;
 
   /**
    * Build command arguments for Biome 2.x
-   * Uses 'check' command with --write for fixes and --no-colors
+   * Uses 'check' command with --write for fixes and --colors=off
    */
   buildCommand(file: string, options: BiomeCommandOptions = {}): string[] {
     const { autoFix = false, configPath, unsafeFixes = false } = options;
@@ -31,7 +33,7 @@ export class BiomeV2Adapter implements BiomeAdapter {
     command.push('--reporter=json');
 
     // Add no colors flag for clean output
-    command.push('--no-colors');
+    command.push('--colors=off');
 
     // Add config path if specified
     if (configPath) {
@@ -93,8 +95,8 @@ export class BiomeV2Adapter implements BiomeAdapter {
 
     // Extract location information
     const location = (diagnosticObj.location as Record<string, unknown>) || {};
-    const span = (location.span as Record<string, unknown>) || {};
-    const start = (span.start as Record<string, unknown>) || { line: 1, column: 1 };
+    const range = resolveLocation(location);
+    const sourceCode = typeof location.sourceCode === 'string' ? location.sourceCode : undefined;
 
     // Map Biome severity to our format
     const severity = this.mapSeverity(String(diagnosticObj.severity || ''));
@@ -107,14 +109,19 @@ export class BiomeV2Adapter implements BiomeAdapter {
     const fixed = tags.includes('fixable') && diagnosticObj.fixed === true;
     const fixable = tags.includes('fixable');
 
+    const category =
+      typeof diagnosticObj.category === 'string' ? diagnosticObj.category : undefined;
+
     return {
       file: filePath,
-      line: typeof start.line === 'number' ? start.line : 1,
-      column: typeof start.column === 'number' ? start.column : 1,
+      ...range,
       severity,
       message: typeof message === 'string' ? message : String(message),
       fixed,
       fixable,
+      ...describeBiomeRule(category),
+      codeFrame: sourceCode ? renderCodeFrame(sourceCode, location.span) : undefined,
+      ...parseAdvices(diagnosticObj.advices, sourceCode, category, location.span),
     };
   }
 
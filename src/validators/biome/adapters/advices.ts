@@ -0,0 +1,260 @@
+/**
+ * Biome Advice Parser
+ *
+ * Biome attaches advices to its diagnostics: explanatory notes, code frames
+ * and diffs of the suggested fix (or, for format diagnostics, of the
+ * formatted file). The JSON reporter and the JS API serialize them the same
+ * way for Biome 1.x and 2.x.
+ */
+
+import type { IssueFix, TextEdit, ValidationIssue } from './BiomeAdapter.js';
+import { offsetToPosition } from './diagnostics.js';
+
+/**
+ * Number of edits described one by one in a suggestion
+ */
+const MAX_DESCRIBED_EDITS = 3;
+
+/**
+ * Longest edited text quoted in a suggestion
+ */
+const MAX_QUOTED_LENGTH = 40;
+
+/**
+ * Edit with the text it removes, for describing it
+ */
+interface DiffEdit extends TextEdit {
+  removed: string;
+}
+
+/**
+ * Parse the advices of a Biome diagnostic
+ *
+ * @param advices - The diagnostic's `advices` object
+ * @param sourceCode - Content the diagnostic was reported for
+ * @param ruleId - Diagnostic category, used as the fix name
+ * @param span - Byte range the diagnostic points at
+ */
+export function parseAdvices(
+  advices: unknown,
+  sourceCode: string | undefined,
+  ruleId: string | undefined,
+  span?: unknown
+): Pick<ValidationIssue, 'notes' | 'suggestion' | 'fix'> {
+  const list = getAdviceList(advices);
+  const notes: string[] = [];
+  let fix: IssueFix | undefined;
+  let suggestion: string | undefined;
+
+  for (const advice of list) {
+    if ('log' in advice) {
+      const text = markupToText((advice.log as unknown[])?.[1]);
+      if (text) {
+        notes.push(text);
+      }
+    } else if ('list' in advice && Array.isArray(advice.list)) {
+      notes.push(...advice.list.map(markupToText).filter((text) => text.length > 0));
+    } else if ('frame' in advice) {
+      const frame = advice.frame as Record<string, unknown>;
+      const frameSource = typeof frame.sourceCode === 'string' ? frame.sourceCode : sourceCode;
+      const rendered = frameSource ? renderCodeFrame(frameSource, frame.span) : undefined;
+      if (rendered) {
+        notes.push(rendered);
+      }
+    } else if ('diff' in advice && !fix && sourceCode !== undefined) {
+      const edits = parseDiff(advice.diff, sourceCode);
+      if (edits && edits.length > 0) {
+        // The note right before a diff describes the fix, e.g. "Safe fix: Use const instead."
+        const description = ruleId === 'format' ? 'Format the file' : (notes.pop() ?? 'Apply fix');
+        fix = {
+          fixName: ruleId ?? 'biome',
+          description,
+          edits: edits.map(({ start, length, newText }) => ({ start, length, newText })),
+        };
+        suggestion = describeEdits(widenToSpan(edits, sourceCode, span));
+      }
+    }
+  }
+
+  return {
+    notes: notes.length > 0 ? notes : undefined,
+    suggestion,
+    fix,
+  };
+}
+
+/**
+ * Get the advice entries of an advices object
+ */
+function getAdviceList(advices: unknown): Record<string, unknown>[] {
+  if (!advices || typeof advices !== 'object') {
+    return [];
+  }
+
+  const list = (advices as Record<string, unknown>).advices;
+  return Array.isArray(list)
+    ? list.filter(
+        (advice): advice is Record<string, unknown> => !!advice && typeof advice === 'object'
+      )
+    : [];
+}
+
+/**
+ * Flatten Biome markup, a list of `{ elements, content }` nodes, to plain text
+ */
+function markupToText(markup: unknown): string {
+  if (!Array.isArray(markup)) {
+    return '';
+  }
+
+  return markup
+    .map((node) => (node && typeof node === 'object' ? String(node.content ?? '') : ''))
+    .join('')
+    .trim();
+}
+
+/**
+ * Render the lines covered by a span as a numbered code frame
+ */
+export function renderCodeFrame(sourceCode: string, span: unknown): string | undefined {
+  if (!Array.isArray(span)) {
+    return undefined;
+  }
+
+  const [start, end] = span as [number, number];
+  const startLine = offsetToPosition(sourceCode, start).line;
+  const endLine = offsetToPosition(sourceCode, end).line;
+  const lines = sourceCode.split('\n');
+  const width = String(endLine).length;
+
+  const frame: string[] = [];
+  for (let line = startLine; line <= endLine && line <= lines.length; line++) {
+    frame.push(`${String(line).padStart(width)} │ ${lines[line - 1] ?? ''}`);
+  }
+
+  return frame.length > 0 ? frame.join('\n') : undefined;
+}
+
+/**
+ * Convert a Biome diff into edits of the original content
+ *
+ * Diff operations hold byte ranges into a dictionary string. `equalLines`
+ * operations skip unchanged lines that the dictionary leaves out. Returns
+ * null when the diff cannot be read.
+ */
+function parseDiff(diff: unknown, sourceCode: string): DiffEdit[] | null {
+  if (!diff || typeof diff !== 'object') {
+    return null;
+  }
+
+  const { dictionary, ops } = diff as Record<string, unknown>;
+  if (typeof dictionary !== 'string' || !Array.isArray(ops)) {
+    return null;
+  }
+
+  const bytes = Buffer.from(dictionary);
+  const edits: DiffEdit[] = [];
+  let offset = 0;
+
+  const addEdit = (removed: string, newText: string) => {
+    const last = edits[edits.length - 1];
+    if (last && last.start + last.length === offset) {
+      last.length += removed.length;
+      last.removed += removed;
+      last.newText += newText;
+    } else {
+      edits.push({ start: offset, length: removed.length, newText, removed });
+    }
+  };
+
+  for (const op of ops as Record<string, Record<string, unknown>>[]) {
+    if (op.equalLines) {
+      for (let skipped = 0; skipped < Number(op.equalLines.line_count ?? 0); skipped++) {
+        const lineEnd = sourceCode.indexOf('\n', offset);
+        offset = lineEnd === -1 ? sourceCode.length : lineEnd + 1;
+      }
+      continue;
+    }
+
+    const [kind, value] = Object.entries(op.diffOp ?? {})[0] ?? [];
+    const range = (value as { range?: [number, number] } | undefined)?.range;
+    if (!kind || !range) {
+      return null;
+    }
+
+    const text = bytes.subarray(range[0], range[1]).toString();
+    switch (kind) {
+      case 'equal':
+        offset += text.length;
+        break;
+      case 'delete':
+        addEdit(text, '');
+        offset += text.length;
+        break;
+      case 'insert':
+        addEdit('', text);
+        break;
+      default:
+        return null;
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * Widen a single edit inside the diagnostic's span to the whole span
+ *
+ * Biome diffs are minimal, so replacing `==` with `===` is an insertion of
+ * `=`; describing the span reads better.
+ */
+function widenToSpan(edits: DiffEdit[], sourceCode: string, span: unknown): DiffEdit[] {
+  const edit = edits[0];
+  if (edits.length !== 1 || !edit || !Array.isArray(span)) {
+    return edits;
+  }
+
+  const [start, end] = (span as [number, number]).map(
+    (offset) => Buffer.from(sourceCode).subarray(0, offset).toString().length
+  );
+  if (
+    start === undefined ||
+    end === undefined ||
+    edit.start < start ||
+    edit.start + edit.length > end
+  ) {
+    return edits;
+  }
+
+  const removed = sourceCode.slice(start, end);
+  const relative = edit.start - start;
+  const newText = removed.slice(0, relative) + edit.newText + removed.slice(relative + edit.length);
+
+  return [{ start, length: removed.length, newText, removed }];
+}
+
+/**
+ * Describe edits in words, e.g. "replace `==` with `===`"
+ */
+function describeEdits(edits: DiffEdit[]): string {
+  if (edits.length > MAX_DESCRIBED_EDITS) {
+    return `apply ${edits.length} edits`;
+  }
+
+  return edits
+    .map(({ removed, newText }) => {
+      if (removed && newText) {
+        return `replace ${quote(removed)} with ${quote(newText)}`;
+      }
+      return removed ? `remove ${quote(removed)}` : `insert ${quote(newText)}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Quote edited text, shortening long text
+ */
+function quote(text: string): string {
+  const shown = text.length > MAX_QUOTED_LENGTH ? `${text.slice(0, MAX_QUOTED_LENGTH - 1)}…` : text;
+  return `\`${shown.replace(/\n/g, '\\n')}\``;
+}
@@ -0,0 +1,110 @@
+/**
+ * Biome Diagnostic Helpers
+ *
+ * Shared by the Biome adapters to describe diagnostics the same way across
+ * Biome versions and backends: rule identifiers, issue categories, rule
+ * documentation and positions from span offsets.
+ */
+
+import type { IssueCategory, ValidationIssue } from './BiomeAdapter.js';
+
+/**
+ * Rules that are about imports rather than general lint findings
+ */
+const IMPORT_RULES = new Set(['organizeImports', 'noUnusedImports', 'useImportType']);
+
+/**
+ * Base URL of Biome's lint rule documentation
+ */
+const RULES_DOCS_URL = 'https://biomejs.dev/linter/rules/';
+
+/**
+ * Describe the rule behind a Biome diagnostic category
+ *
+ * Categories look like `lint/suspicious/noExplicitAny`, `assist/source/organizeImports`,
+ * `format` or `parse`.
+ */
+export function describeBiomeRule(
+  category: string | undefined
+): Pick<ValidationIssue, 'source' | 'ruleId' | 'category' | 'docsUrl' | 'kind'> {
+  if (!category) {
+    return { source: 'biome' };
+  }
+
+  const rule = category.split('/').pop() ?? category;
+
+  return {
+    source: 'biome',
+    ruleId: category,
+    category: getIssueCategory(category, rule),
+    docsUrl: category.startsWith('lint/') ? `${RULES_DOCS_URL}${toKebabCase(rule)}/` : undefined,
+    kind: category === 'parse' ? 'syntax' : 'lint',
+  };
+}
+
+/**
+ * Map a Biome category to an issue category
+ */
+function getIssueCategory(category: string, rule: string): IssueCategory {
+  if (category === 'format') {
+    return 'format';
+  }
+  return IMPORT_RULES.has(rule) ? 'import' : 'lint';
+}
+
+/**
+ * Convert a rule name such as `noExplicitAny` to its documentation slug
+ */
+function toKebabCase(rule: string): string {
+  return rule.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+/**
+ * Convert a UTF-8 byte offset, as used in Biome spans, to a 1-based line and column
+ */
+export function offsetToPosition(source: string, offset: number): { line: number; column: number } {
+  const before = Buffer.from(source).subarray(0, offset).toString();
+  const lines = before.split('\n');
+
+  return {
+    line: lines.length,
+    column: (lines[lines.length - 1]?.length ?? 0) + 1,
+  };
+}
+
+/**
+ * Resolve the range of a Biome JSON diagnostic location
+ *
+ * Spans are `[start, end]` byte offsets into `sourceCode`. Locations without
+ * a span, such as format diagnostics, point at the start of the file.
+ */
+export function resolveLocation(
+  location: Record<string, unknown>
+): Pick<ValidationIssue, 'line' | 'column' | 'endLine' | 'endColumn'> {
+  const { span, sourceCode } = location;
+
+  if (Array.isArray(span) && typeof sourceCode === 'string') {
+    const [start, end] = span as [number, number];
+    const startPosition = offsetToPosition(sourceCode, start);
+    const endPosition = offsetToPosition(sourceCode, end);
+
+    return {
+      ...startPosition,
+      endLine: endPosition.line,
+      endColumn: endPosition.column,
+    };
+  }
+
+  // Older reporters nest line and column under span.start
+  const start =
+    span && typeof span === 'object' ? (span as Record<string, unknown>).start : undefined;
+  if (start && typeof start === 'object') {
+    const { line, column } = start as Record<string, unknown>;
+    return {
+      line: typeof line === 'number' ? line : 1,
+      column: typeof column === 'number' ? column : 1,
+    };
+  }
+
+  return { line: 1, column: 1 };
+}
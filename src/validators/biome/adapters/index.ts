@@ -4,11 +4,21 @@
  * Exports all Biome adapter types and implementations for clean imports.
  */
 
-export type { BiomeAdapter, BiomeCommandOptions, ValidationIssue } from './BiomeAdapter.js';
+export type {
+  BiomeAdapter,
+  BiomeCommandOptions,
+  BiomeContentResult,
+  IssueCategory,
+  IssueFix,
+  TextEdit,
+  ValidationIssue,
+} from './BiomeAdapter.js';
 export {
   createAdapter,
   createAdapterFromDetection,
   createAdapterFromVersion,
+  createPreferredAdapter,
 } from './BiomeAdapterFactory.js';
+export { BiomeJsApiAdapter, loadBiomeJsApiAdapter } from './BiomeJsApiAdapter.js';
 export { BiomeV1Adapter } from './BiomeV1Adapter.js';
 export { BiomeV2Adapter } from './BiomeV2Adapter.js';
@@ -0,0 +1,222 @@
+/**
+ * Built-in Validators
+ *
+ * Wraps the Biome, TypeScript, ESLint, Prettier, imports, cycles, related tests
+ * and project rules validators in the Validator plugin interface, so
+ * ValidatorManager runs them the same way as custom validators.
+ */
+
+import { readFile } from 'node:fs/promises';
+import type {
+  BiomeConfig,
+  Config,
+  CyclesConfig,
+  ESLintConfig,
+  ImportsConfig,
+  PrettierConfig,
+  TestsConfig,
+  TypeScriptConfig,
+} from '../types/config.js';
+import type { ValidationIssue } from './biome/adapters/BiomeAdapter.js';
+import { BiomeValidator } from './biome/BiomeValidator.js';
+import { CyclesValidator } from './cycles/index.js';
+import { ESLintValidator } from './eslint/index.js';
+import { ImportsValidator } from './imports/index.js';
+import { PrettierValidator } from './prettier/index.js';
+import { RulesValidator } from './rules/index.js';
+import { RelatedTestsValidator } from './tests/index.js';
+import { TypeScriptValidator } from './typescript/index.js';
+import type { Validator, ValidatorFile, ValidatorOutput } from './Validator.js';
+
+/**
+ * Built-in validator, created when its config section enables it
+ */
+interface BuiltinValidator {
+  name: string;
+  isEnabled(config: Config): boolean;
+  create(config: Config, projectRoot: string): Validator;
+}
+
+/**
+ * Result shape shared by the Biome, ESLint, Prettier, imports, cycles, related tests
+ * and project rules validators
+ */
+interface ToolResult {
+  success: boolean;
+  issues: ValidationIssue[];
+  error?: string | undefined;
+}
+
+/**
+ * Built-in validators, in the order they are created
+ */
+export const BUILTIN_VALIDATORS: readonly BuiltinValidator[] = [
+  {
+    name: 'biome',
+    isEnabled: (config) => config.validators.biome?.enabled === true,
+    create: createBiomeValidator,
+  },
+  {
+    name: 'typescript',
+    isEnabled: (config) => config.validators.typescript?.enabled === true,
+    create: createTypeScriptValidator,
+  },
+  {
+    name: 'eslint',
+    isEnabled: (config) => config.validators.eslint?.enabled === true,
+    create: createESLintValidator,
+  },
+  {
+    name: 'prettier',
+    isEnabled: (config) => config.validators.prettier?.enabled === true,
+    create: createPrettierValidator,
+  },
+  {
+    name: 'imports',
+    isEnabled: (config) => config.validators.imports?.enabled === true,
+    create: createImportsValidator,
+  },
+  {
+    name: 'cycles',
+    isEnabled: (config) => config.validators.cycles?.enabled === true,
+    create: createCyclesValidator,
+  },
+  {
+    name: 'tests',
+    isEnabled: (config) => config.validators.tests?.enabled === true,
+    create: createTestsValidator,
+  },
+  {
+    name: 'rules',
+    isEnabled: (config) => (config.rules?.length ?? 0) > 0,
+    create: createRulesValidator,
+  },
+];
+
+function createBiomeValidator(config: Config, projectRoot: string): Validator {
+  const biome = new BiomeValidator(config.validators.biome as BiomeConfig, projectRoot);
+
+  return {
+    name: 'biome',
+    init: () => {},
+    async validate(file) {
+      // Biome reads files from disk, so content that is not saved yet is checked as a copy
+      const result = (await isUnsaved(file))
+        ? await biome.validateContent(file.path, file.content, false)
+        : await biome.validate(file.path, false);
+      return fromToolResult(result);
+    },
+    dispose: () => {},
+  };
+}
+
+function createTypeScriptValidator(config: Config, projectRoot: string): Validator {
+  const typescript = new TypeScriptValidator(
+    config.validators.typescript as TypeScriptConfig,
+    projectRoot,
+    config.autoFix.enabled
+  );
+
+  return {
+    name: 'typescript',
+    init: () => {},
+    async validate(file) {
+      const result = await typescript.validate(file);
+      return { issues: result.issues, status: result.status };
+    },
+    dispose: () => typescript.dispose(),
+  };
+}
+
+function createESLintValidator(config: Config, projectRoot: string): Validator {
+  const eslint = new ESLintValidator(config.validators.eslint as ESLintConfig, projectRoot);
+
+  return {
+    name: 'eslint',
+    init: () => {},
+    validate: async ({ path, content }) => fromToolResult(await eslint.validate({ path, content })),
+    dispose: () => {},
+  };
+}
+
+function createPrettierValidator(config: Config, projectRoot: string): Validator {
+  const prettier = new PrettierValidator(config.validators.prettier as PrettierConfig, projectRoot);
+
+  return {
+    name: 'prettier',
+    init: () => {},
+    validate: async ({ path, content }) =>
+      fromToolResult(await prettier.validate({ path, content })),
+    dispose: () => {},
+  };
+}
+
+function createImportsValidator(config: Config, projectRoot: string): Validator {
+  const imports = new ImportsValidator(config.validators.imports as ImportsConfig, projectRoot);
+
+  return {
+    name: 'imports',
+    init: () => {},
+    validate: async ({ path, content }) =>
+      fromToolResult(await imports.validate({ path, content })),
+    dispose: () => {},
+  };
+}
+
+function createCyclesValidator(config: Config, projectRoot: string): Validator {
+  const cycles = new CyclesValidator(config.validators.cycles as CyclesConfig, projectRoot);
+
+  return {
+    name: 'cycles',
+    init: () => {},
+    validate: async ({ path, content }) => fromToolResult(await cycles.validate({ path, content })),
+    commit: ({ path }) => cycles.commit({ path }),
+    dispose: () => {},
+  };
+}
+
+function createTestsValidator(config: Config, projectRoot: string): Validator {
+  const tests = new RelatedTestsValidator(
+    config.validators.tests as TestsConfig,
+    projectRoot,
+    config.timeout
+  );
+
+  return {
+    name: 'tests',
+    init: () => {},
+    validate: async ({ path, content, signal }) =>
+      fromToolResult(await tests.validate({ path, content }, signal)),
+    dispose: () => {},
+  };
+}
+
+function createRulesValidator(config: Config, projectRoot: string): Validator {
+  const rules = new RulesValidator(config.rules ?? [], projectRoot);
+
+  return {
+    name: 'rules',
+    init: () => {},
+    validate: async ({ path, content }) => fromToolResult(await rules.validate({ path, content })),
+    dispose: () => {},
+  };
+}
+
+/**
+ * Check whether the file content differs from the file on disk
+ */
+async function isUnsaved(file: ValidatorFile): Promise<boolean> {
+  const diskContent = await readFile(file.path, 'utf8').catch(() => null);
+  return diskContent !== file.content;
+}
+
+/**
+ * Convert a tool result; unsuccessful runs are errors even without error issues
+ */
+function fromToolResult(result: ToolResult): ValidatorOutput {
+  return {
+    issues: result.issues,
+    status: result.success ? undefined : 'error',
+    error: result.error,
+  };
+}
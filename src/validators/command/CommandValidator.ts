@@ -0,0 +1,230 @@
+/**
+ * Command Validator
+ *
+ * Runs an external CLI, such as oxlint, knip or an in-house script, on each
+ * file and reads its issues from the output with the configured parser.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { execa } from 'execa';
+import type { CommandValidatorConfig } from '../../types/config.js';
+import { getProcessTimeout } from '../../utils/processTimeout.js';
+import type { ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
+import type { Validator, ValidatorFile, ValidatorOutput } from '../Validator.js';
+import { parseCommandOutput, type RawCommandIssue } from './outputParsers.js';
+
+/**
+ * Tool severities, lowercased, by issue severity
+ */
+const SEVERITY_NAMES: Record<ValidationIssue['severity'], string[]> = {
+  error: ['error', 'err', 'fatal', 'critical', 'high', 'blocker', '2'],
+  warning: ['warning', 'warn', 'medium', 'moderate', 'major', '1'],
+  info: ['info', 'information', 'note', 'notice', 'hint', 'low', 'minor', 'none', '0'],
+};
+
+/**
+ * Validator that runs a configured command
+ *
+ * A run is clean when the command exits with one of `successExitCodes`, and
+ * found issues when it exits with one of `issueExitCodes`. Any other exit
+ * code, a timeout or a command that cannot be started fails the validator.
+ */
+export class CommandValidator implements Validator {
+  readonly name: string;
+  private config: CommandValidatorConfig;
+  private projectRoot: string;
+  private timeout: number;
+
+  /**
+   * @param hookTimeout - The configuration's `timeout`, which runs must finish within
+   */
+  constructor(
+    config: CommandValidatorConfig,
+    projectRoot: string = process.cwd(),
+    hookTimeout?: number
+  ) {
+    this.name = config.name;
+    this.config = config;
+    this.projectRoot = projectRoot;
+    this.timeout = getProcessTimeout(hookTimeout, config.timeout);
+  }
+
+  init(): void {}
+
+  dispose(): void {}
+
+  /**
+   * Run the command on a file
+   *
+   * Commands read the file from disk unless `stdin` is set, so content that is
+   * not saved yet is not checked.
+   */
+  async validate(file: ValidatorFile): Promise<ValidatorOutput> {
+    if (!this.config.stdin) {
+      const diskContent = await readFile(file.path, 'utf8').catch(() => null);
+      if (diskContent !== file.content) {
+        return { issues: [] };
+      }
+    }
+
+    const [command, ...args] = splitCommand(this.config.command).map((part) =>
+      part.replaceAll('{file}', file.path)
+    );
+    if (!command) {
+      return { issues: [], error: `${this.name} has an empty command` };
+    }
+
+    const result = await execa(command, args, {
+      cwd: this.projectRoot,
+      timeout: this.timeout,
+      ...(file.signal ? { cancelSignal: file.signal } : {}),
+      stdio: 'pipe',
+      reject: false, // Exit codes are interpreted below
+      ...(this.config.stdin ? { input: file.content } : {}),
+    });
+
+    if (result.isCanceled) {
+      return { issues: [], error: `${this.name} was stopped with the hook` };
+    }
+    if (result.timedOut) {
+      return { issues: [], error: `${this.name} timed out after ${this.timeout}ms` };
+    }
+    if (result.exitCode === undefined) {
+      return { issues: [], error: `${this.name} could not be run: ${firstLine(result.message)}` };
+    }
+
+    const successExitCodes = this.config.successExitCodes ?? [0];
+    const isSuccess = successExitCodes.includes(result.exitCode);
+    const isIssues = this.config.issueExitCodes
+      ? this.config.issueExitCodes.includes(result.exitCode)
+      : !isSuccess;
+
+    if (!isSuccess && !isIssues) {
+      const detail = firstLine(result.stderr) ?? firstLine(result.stdout);
+      return {
+        issues: [],
+        error: `${this.name} failed with exit code ${result.exitCode}${detail ? `: ${detail}` : ''}`,
+      };
+    }
+
+    let rawIssues: RawCommandIssue[];
+    try {
+      const output = this.config.stream === 'stderr' ? result.stderr : result.stdout;
+      rawIssues = parseCommandOutput(output, this.config.parser);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { issues: [], error: `${this.name} output could not be parsed: ${message}` };
+    }
+
+    const issues = rawIssues
+      .filter((raw) => this.isForFile(raw, file))
+      .map((raw) => this.toValidationIssue(raw, file));
+
+    // The exit code reports issues the parser did not recognize
+    if (isIssues && issues.length === 0 && rawIssues.length === 0) {
+      const detail = firstLine(result.stdout) ?? firstLine(result.stderr);
+      issues.push(
+        this.toValidationIssue(
+          {
+            message: `${this.name} exited with code ${result.exitCode}${detail ? `: ${detail}` : ''}`,
+          },
+          file
+        )
+      );
+    }
+
+    return { issues };
+  }
+
+  /**
+   * Check whether an issue belongs to the validated file
+   *
+   * Issues without a file, and all issues of content piped to stdin, do.
+   */
+  private isForFile(raw: RawCommandIssue, file: ValidatorFile): boolean {
+    if (!raw.file || this.config.stdin) {
+      return true;
+    }
+    return resolve(this.projectRoot, raw.file) === resolve(file.path);
+  }
+
+  private toValidationIssue(raw: RawCommandIssue, file: ValidatorFile): ValidationIssue {
+    return {
+      file: file.path,
+      line: raw.line ?? 1,
+      column: raw.column ?? 1,
+      endLine: raw.endLine,
+      endColumn: raw.endColumn,
+      severity: toSeverity(raw.severity) ?? this.config.severity ?? 'error',
+      message: raw.message,
+      fixed: false,
+      fixable: false,
+      kind: 'lint',
+      source: this.name,
+      ruleId: raw.ruleId,
+      docsUrl: raw.docsUrl,
+    };
+  }
+}
+
+/**
+ * Split a command line into arguments, honouring single and double quotes
+ */
+export function splitCommand(commandLine: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let inPart = false;
+
+  for (const char of commandLine) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inPart = true;
+    } else if (/\s/.test(char)) {
+      if (inPart) {
+        parts.push(current);
+        current = '';
+        inPart = false;
+      }
+    } else {
+      current += char;
+      inPart = true;
+    }
+  }
+
+  if (inPart) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+/**
+ * Map a tool severity to an issue severity
+ */
+function toSeverity(severity: string | undefined): ValidationIssue['severity'] | undefined {
+  const name = severity?.trim().toLowerCase();
+  if (!name) {
+    return undefined;
+  }
+
+  for (const [issueSeverity, names] of Object.entries(SEVERITY_NAMES)) {
+    if (names.includes(name)) {
+      return issueSeverity as ValidationIssue['severity'];
+    }
+  }
+  return undefined;
+}
+
+function firstLine(text: string | undefined): string | undefined {
+  return text
+    ?.split(/\r?\n/)
+    .map((line) => line.trim())
+    .find((line) => line.length > 0);
+}
@@ -0,0 +1,14 @@
+/**
+ * Command validator exports
+ */
+
+export { CommandValidator, splitCommand } from './CommandValidator.js';
+export type { RawCommandIssue } from './outputParsers.js';
+export {
+  parseCheckstyleOutput,
+  parseCommandOutput,
+  parseFileLineColOutput,
+  parseJsonOutput,
+  parseRegexOutput,
+  parseSarifOutput,
+} from './outputParsers.js';
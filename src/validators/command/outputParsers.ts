@@ -0,0 +1,371 @@
+/**
+ * Command Output Parsers
+ *
+ * Read issues from the output of command validators: regex matches, JSON
+ * mapped by paths, SARIF logs, checkstyle XML and `file:line:col: message`
+ * lines. Issues are returned as read; CommandValidator normalizes them.
+ */
+
+import { fileURLToPath } from 'node:url';
+import type { CommandJsonFields, CommandParserConfig } from '../../types/config.js';
+
+/**
+ * Issue read from command output, before normalization
+ */
+export interface RawCommandIssue {
+  file?: string | undefined;
+  line?: number | undefined;
+  column?: number | undefined;
+  endLine?: number | undefined;
+  endColumn?: number | undefined;
+  /** Severity as the tool reports it, e.g. `warning`, `note` or `2` */
+  severity?: string | undefined;
+  message: string;
+  ruleId?: string | undefined;
+  docsUrl?: string | undefined;
+}
+
+/**
+ * Parse command output with the configured parser
+ *
+ * @throws Error when JSON or SARIF output is not valid JSON
+ */
+export function parseCommandOutput(output: string, parser: CommandParserConfig): RawCommandIssue[] {
+  switch (parser.type) {
+    case 'regex':
+      return parseRegexOutput(output, parser.pattern, parser.flags);
+    case 'json':
+      return parseJsonOutput(output, parser.fields, parser.path);
+    case 'sarif':
+      return parseSarifOutput(output);
+    case 'checkstyle':
+      return parseCheckstyleOutput(output);
+    case 'file-line-col':
+      return parseFileLineColOutput(output);
+  }
+}
+
+/**
+ * Read an issue from every match of a pattern with named groups
+ *
+ * The pattern always matches globally and line by line (`gm`).
+ */
+export function parseRegexOutput(output: string, pattern: string, flags = ''): RawCommandIssue[] {
+  const regex = new RegExp(pattern, [...new Set(`gm${flags}`)].join(''));
+  const issues: RawCommandIssue[] = [];
+
+  for (const match of output.matchAll(regex)) {
+    const groups = match.groups ?? {};
+    const message = groups.message ?? match[0];
+    if (!message.trim()) {
+      continue;
+    }
+
+    issues.push({
+      file: groups.file,
+      line: toNumber(groups.line),
+      column: toNumber(groups.column),
+      endLine: toNumber(groups.endLine),
+      endColumn: toNumber(groups.endColumn),
+      severity: groups.severity,
+      message: message.trim(),
+      ruleId: groups.ruleId,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Read issues from JSON output
+ *
+ * @param fields - Dotted paths of the issue fields, relative to each issue object
+ * @param path - Dotted path of the issue objects; `*` steps into every array
+ *   element or object value
+ */
+export function parseJsonOutput(
+  output: string,
+  fields: CommandJsonFields,
+  path?: string
+): RawCommandIssue[] {
+  if (!output.trim()) {
+    return [];
+  }
+
+  const issues: RawCommandIssue[] = [];
+  for (const item of selectPath(JSON.parse(output), path)) {
+    const message = toText(selectPath(item, fields.message)[0]);
+    if (!message) {
+      continue;
+    }
+
+    const field = (fieldPath: string | undefined) =>
+      fieldPath ? selectPath(item, fieldPath)[0] : undefined;
+
+    issues.push({
+      file: toText(field(fields.file)),
+      line: toNumber(field(fields.line)),
+      column: toNumber(field(fields.column)),
+      endLine: toNumber(field(fields.endLine)),
+      endColumn: toNumber(field(fields.endColumn)),
+      severity: toText(field(fields.severity)),
+      message,
+      ruleId: toText(field(fields.ruleId)),
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * SARIF 2.1 log, limited to the properties read here
+ */
+interface SarifLog {
+  runs?: Array<{
+    tool?: {
+      driver?: {
+        rules?: Array<{
+          id?: string;
+          helpUri?: string;
+          shortDescription?: { text?: string };
+          defaultConfiguration?: { level?: string };
+        }>;
+      };
+    };
+    results?: Array<{
+      ruleId?: string;
+      ruleIndex?: number;
+      level?: string;
+      message?: { text?: string; markdown?: string };
+      locations?: Array<{
+        physicalLocation?: {
+          artifactLocation?: { uri?: string };
+          region?: {
+            startLine?: number;
+            startColumn?: number;
+            endLine?: number;
+            endColumn?: number;
+          };
+        };
+      }>;
+    }>;
+  }>;
+}
+
+/**
+ * Read the results of a SARIF log
+ *
+ * Results without a level use the rule's default level, or `warning` as the
+ * SARIF specification does.
+ */
+export function parseSarifOutput(output: string): RawCommandIssue[] {
+  if (!output.trim()) {
+    return [];
+  }
+
+  const log = JSON.parse(output) as SarifLog;
+  const issues: RawCommandIssue[] = [];
+
+  for (const run of log.runs ?? []) {
+    const rules = run.tool?.driver?.rules ?? [];
+
+    for (const result of run.results ?? []) {
+      const rule =
+        (result.ruleIndex !== undefined ? rules[result.ruleIndex] : undefined) ??
+        rules.find((candidate) => candidate.id === result.ruleId);
+      const location = result.locations?.[0]?.physicalLocation;
+      const region = location?.region;
+      const message =
+        result.message?.text ?? result.message?.markdown ?? rule?.shortDescription?.text;
+      if (!message) {
+        continue;
+      }
+
+      issues.push({
+        file: location?.artifactLocation?.uri
+          ? uriToPath(location.artifactLocation.uri)
+          : undefined,
+        line: region?.startLine,
+        column: region?.startColumn,
+        endLine: region?.endLine,
+        endColumn: region?.endColumn,
+        severity: result.level ?? rule?.defaultConfiguration?.level ?? 'warning',
+        message,
+        ruleId: result.ruleId ?? rule?.id,
+        docsUrl: rule?.helpUri,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Read the errors of a checkstyle XML report
+ */
+export function parseCheckstyleOutput(output: string): RawCommandIssue[] {
+  const issues: RawCommandIssue[] = [];
+
+  for (const fileMatch of output.matchAll(/<file\b([^>]*?)(?:\/>|>([\s\S]*?)<\/file>)/g)) {
+    const file = readAttributes(fileMatch[1] ?? '').name;
+
+    for (const errorMatch of (fileMatch[2] ?? '').matchAll(/<error\b([^>]*?)\/?>/g)) {
+      const attributes = readAttributes(errorMatch[1] ?? '');
+      if (!attributes.message) {
+        continue;
+      }
+
+      issues.push({
+        file,
+        line: toNumber(attributes.line),
+        column: toNumber(attributes.column),
+        severity: attributes.severity,
+        message: attributes.message,
+        ruleId: attributes.source,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Line of `file:line:col: message` output; the column is optional and Windows
+ * drive letters are kept in the path
+ */
+const FILE_LINE_COL_PATTERN = /^((?:[A-Za-z]:)?[^:\n]+):(\d+)(?::(\d+))?:\s*(.+)$/;
+
+/**
+ * Leading severity of a message, e.g. `error: ...`
+ */
+const LEADING_SEVERITY_PATTERN = /^(error|warning|warn|info|note)\b:?\s*(.+)$/i;
+
+/**
+ * Trailing rule of a message, e.g. `[Error/no-unused-vars]` or `[no-debugger]`
+ */
+const TRAILING_RULE_PATTERN = /\s*\[(?:(error|warning|info)\/)?([^\]\s]+)\]$/i;
+
+/**
+ * Read `file:line:col: message` lines, as printed by compilers and by
+ * linters' unix formats; other lines are ignored
+ */
+export function parseFileLineColOutput(output: string): RawCommandIssue[] {
+  const issues: RawCommandIssue[] = [];
+
+  for (const text of output.split(/\r?\n/)) {
+    const match = FILE_LINE_COL_PATTERN.exec(text.trim());
+    if (!match) {
+      continue;
+    }
+
+    let message = match[4] ?? '';
+    let severity: string | undefined;
+    let ruleId: string | undefined;
+
+    const leading = LEADING_SEVERITY_PATTERN.exec(message);
+    if (leading) {
+      severity = leading[1];
+      message = leading[2] ?? '';
+    }
+
+    const trailing = TRAILING_RULE_PATTERN.exec(message);
+    if (trailing) {
+      severity ??= trailing[1];
+      ruleId = trailing[2];
+      message = message.slice(0, trailing.index);
+    }
+
+    issues.push({
+      file: match[1],
+      line: toNumber(match[2]),
+      column: toNumber(match[3]),
+      severity,
+      message: message.trim(),
+      ruleId,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Select the values at a dotted path, flattening arrays along the way
+ */
+function selectPath(value: unknown, path: string | undefined): unknown[] {
+  let current: unknown[] = [value];
+
+  for (const segment of path ? path.split('.') : []) {
+    current = current.flatMap((item) => {
+      if (segment === '*') {
+        return Array.isArray(item) ? item : isRecord(item) ? Object.values(item) : [];
+      }
+      return isRecord(item) && segment in item ? [item[segment]] : [];
+    });
+  }
+
+  return current.flatMap((item) => (Array.isArray(item) ? item : [item]));
+}
+
+/**
+ * Read the attributes of an XML tag
+ */
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1] as string] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Decode XML character and entity references
+ */
+function decodeEntities(text: string): string {
+  const entities: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+  };
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (reference, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) {
+      return String.fromCodePoint(Number.parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(Number.parseInt(name.slice(1), 10));
+    }
+    return entities[name] ?? reference;
+  });
+}
+
+/**
+ * Convert a SARIF artifact URI into a path
+ */
+function uriToPath(uri: string): string {
+  if (uri.startsWith('file:')) {
+    return fileURLToPath(uri);
+  }
+  try {
+    return decodeURIComponent(uri);
+  } catch {
+    return uri;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+}
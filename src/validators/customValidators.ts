@@ -0,0 +1,66 @@
+/**
+ * Custom Validator Loading
+ *
+ * Loads the validators listed in `validators.custom`. Each entry is a module
+ * path relative to the project root or a package name, whose default export
+ * is a validator or a function that creates one.
+ */
+
+import { resolveProjectModule } from '../utils/projectModule.js';
+import type { Validator, ValidatorContext, ValidatorModuleExport } from './Validator.js';
+
+/**
+ * Load custom validators
+ *
+ * Modules that cannot be loaded or do not export a validator are skipped
+ * with a warning. The validators are returned uninitialized.
+ *
+ * @param specifiers - Entries of `validators.custom`
+ * @param context - Passed to validator factories
+ */
+export async function loadCustomValidators(
+  specifiers: string[],
+  context: ValidatorContext
+): Promise<Validator[]> {
+  const validators: Validator[] = [];
+
+  for (const specifier of specifiers) {
+    try {
+      const module = await import(resolveProjectModule(context.projectRoot, specifier));
+      const exported = (module.default ?? module) as ValidatorModuleExport;
+      const validator = typeof exported === 'function' ? await exported(context) : exported;
+
+      if (!isValidator(validator)) {
+        console.warn(
+          `[ValidatorManager] Custom validator '${specifier}' does not export a validator`
+        );
+        continue;
+      }
+
+      validators.push(validator);
+    } catch (error) {
+      console.warn(`[ValidatorManager] Failed to load custom validator '${specifier}': ${error}`);
+    }
+  }
+
+  return validators;
+}
+
+/**
+ * Check that a value implements the Validator interface
+ */
+function isValidator(value: unknown): value is Validator {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.name === 'string' &&
+    candidate.name.length > 0 &&
+    typeof candidate.init === 'function' &&
+    typeof candidate.validate === 'function' &&
+    typeof candidate.dispose === 'function' &&
+    (candidate.fix === undefined || typeof candidate.fix === 'function')
+  );
+}
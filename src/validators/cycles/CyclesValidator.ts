@@ -0,0 +1,151 @@
+/**
+ * CyclesValidator
+ *
+ * Reports import cycles closed by an edit. Cycles let a module run before the
+ * modules it imports are initialized, which only shows at runtime as
+ * "Cannot access 'x' before initialization" (TDZ) errors. Cycles that already
+ * existed before the edit, and known cycles from the allowlist, are not
+ * reported.
+ */
+
+import { relative, resolve } from 'node:path';
+import { PatternMatcher } from '../../hooks/PatternMatcher.js';
+import type { CyclesConfig } from '../../types/config.js';
+import { findImports, resolveImport } from '../../utils/dependencyGraph.js';
+import type { ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
+import { ModuleGraph } from './moduleGraph.js';
+
+export interface CyclesValidationResult {
+  success: boolean;
+  issues: ValidationIssue[];
+  error?: string | undefined;
+}
+
+export class CyclesValidator {
+  public readonly name = 'cycles';
+  private projectRoot: string;
+  private graph: ModuleGraph;
+  /** Whether the whole project was scanned since the graph was loaded */
+  private scanned = false;
+  private allowlist: PatternMatcher[];
+
+  constructor(config: CyclesConfig, projectRoot: string = process.cwd()) {
+    this.projectRoot = projectRoot;
+    this.graph = new ModuleGraph(projectRoot);
+    this.allowlist = (config.allow ?? []).map(
+      (patterns) => new PatternMatcher(patterns, undefined, projectRoot)
+    );
+  }
+
+  /**
+   * Check whether the imports of a file close new cycles
+   *
+   * A cycle is new when the file imports the module that closes it and did
+   * not import it before the edit. The file's imports are only recorded by
+   * `commit`, so checking fixed content compares it with the same baseline.
+   * Files a persisted graph has never seen report all of their cycles; without
+   * a persisted graph, the file on disk is the baseline.
+   *
+   * The whole project is scanned on the first check only. Later checks look
+   * at the file's imports again, so modules changed since are followed along
+   * their current imports.
+   */
+  async validate(file: { path: string; content: string }): Promise<CyclesValidationResult> {
+    try {
+      const filePath = resolve(this.projectRoot, file.path);
+      const references = await findImports(file.content, filePath);
+
+      if (this.scanned) {
+        await this.graph.refreshFiles(
+          references
+            .map((reference) => resolveImport(reference.specifier, filePath))
+            .filter((imported): imported is string => imported !== null && imported !== filePath)
+        );
+      } else {
+        await this.graph.refresh(filePath);
+        this.scanned = true;
+      }
+      const previousImports = new Set(this.graph.getImports(filePath) ?? []);
+
+      const issues: ValidationIssue[] = [];
+      const checked = new Set<string>();
+
+      for (const reference of references) {
+        if (reference.typeOnly || reference.dynamic) {
+          continue;
+        }
+        const imported = resolveImport(reference.specifier, filePath);
+        if (!imported || checked.has(imported) || previousImports.has(imported)) {
+          continue;
+        }
+        checked.add(imported);
+
+        // The path back to the file does not depend on the file's own imports
+        const path = this.graph.findPath(imported, filePath);
+        if (!path) {
+          continue;
+        }
+
+        const cycle = [filePath, ...path];
+        if (this.isAllowed(cycle)) {
+          continue;
+        }
+
+        issues.push({
+          file: file.path,
+          line: reference.line,
+          column: reference.column,
+          endLine: reference.line,
+          endColumn: reference.column + reference.specifier.length + 2,
+          severity: 'error',
+          message: `Importing '${reference.specifier}' creates a circular dependency: ${cycle
+            .map((module) => this.describePath(module))
+            .join(' -> ')}`,
+          fixed: false,
+          fixable: false,
+          kind: 'lint',
+          source: 'cycles',
+          ruleId: 'circular-dependency',
+          category: 'import',
+          suggestion:
+            'Move the code both modules need into a separate module, or use `import type` when only types are imported',
+        });
+      }
+
+      // The graph holds the files on disk, never proposed content
+      await this.graph.save();
+
+      return { success: issues.length === 0, issues };
+    } catch (error) {
+      return {
+        success: false,
+        issues: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Record the imports of an edited file the hook is done with
+   */
+  async commit(file: { path: string }): Promise<void> {
+    await this.graph.refreshFiles([resolve(this.projectRoot, file.path)]);
+    await this.graph.save();
+  }
+
+  /**
+   * Check whether all modules of a cycle match one allowlist entry
+   */
+  private isAllowed(cycle: string[]): boolean {
+    return this.allowlist.some((matcher) =>
+      cycle.every((module) => matcher.shouldValidate(module))
+    );
+  }
+
+  /**
+   * Path relative to the project for messages
+   */
+  private describePath(path: string): string {
+    return relative(this.projectRoot, path).replace(/\\/g, '/');
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Cycles validator exports
+ */
+
+export type { CyclesValidationResult } from './CyclesValidator.js';
+export { CyclesValidator } from './CyclesValidator.js';
+export { getRuntimeImports, MODULE_GRAPH_CACHE, ModuleGraph } from './moduleGraph.js';
@@ -0,0 +1,261 @@
+/**
+ * Module Graph
+ *
+ * Runtime import graph of a project's source files, persisted in the cache
+ * directory so a fresh process only rescans files modified since the last
+ * run. Type-only and dynamic imports are left out: they cannot make a module
+ * run before the modules it depends on are initialized.
+ */
+
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, resolve } from 'node:path';
+import fg from 'fast-glob';
+import { DEFAULT_EXCLUDE_PATTERNS } from '../../hooks/PatternMatcher.js';
+import { findImports, resolveImport } from '../../utils/dependencyGraph.js';
+
+/**
+ * Location of the persisted graph, relative to the project root
+ */
+export const MODULE_GRAPH_CACHE = join(
+  'node_modules',
+  '.cache',
+  'claude-jsqualityhooks',
+  'module-graph.json'
+);
+
+/**
+ * Format of the persisted graph; caches of other versions are discarded
+ */
+const CACHE_VERSION = 1;
+
+const SOURCE_FILES = ['**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}'];
+
+/**
+ * Imports of a module as of its modification time
+ */
+interface ModuleEntry {
+  mtimeMs: number;
+  /** Absolute paths of the imported project files */
+  imports: string[];
+}
+
+/**
+ * Persisted graph, with paths relative to the project root
+ */
+interface ModuleGraphCache {
+  version: number;
+  modules: Record<string, ModuleEntry>;
+}
+
+export class ModuleGraph {
+  private projectRoot: string;
+  private modules = new Map<string, ModuleEntry>();
+  private loaded = false;
+  /** Whether the graph was loaded from a persisted cache */
+  private persisted = false;
+  private dirty = false;
+
+  constructor(projectRoot: string = process.cwd()) {
+    this.projectRoot = projectRoot;
+  }
+
+  /**
+   * Load the persisted graph, once
+   */
+  async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    try {
+      const cache = JSON.parse(
+        await readFile(join(this.projectRoot, MODULE_GRAPH_CACHE), 'utf8')
+      ) as ModuleGraphCache;
+      if (cache.version !== CACHE_VERSION) {
+        return;
+      }
+
+      for (const [path, entry] of Object.entries(cache.modules)) {
+        this.modules.set(resolve(this.projectRoot, path), {
+          mtimeMs: entry.mtimeMs,
+          imports: entry.imports.map((imported) => resolve(this.projectRoot, imported)),
+        });
+      }
+      this.persisted = true;
+    } catch {
+      // No cache yet: every file is scanned
+    }
+  }
+
+  /**
+   * Bring the graph up to date with the files on disk
+   *
+   * Files with an unchanged modification time keep their imports; new and
+   * modified files are scanned and deleted files are dropped.
+   *
+   * @param keep - File whose last recorded imports are kept as they are, even
+   *   if it changed since. Without a persisted graph there are none, so the
+   *   file is scanned like the others.
+   */
+  async refresh(keep?: string): Promise<void> {
+    await this.load();
+
+    const files = await fg(SOURCE_FILES, {
+      cwd: this.projectRoot,
+      ignore: ['**/node_modules/**', ...DEFAULT_EXCLUDE_PATTERNS],
+      absolute: true,
+      onlyFiles: true,
+    });
+    const modules = new Map<string, ModuleEntry>();
+    const kept = keep === undefined ? undefined : resolve(keep);
+
+    for (const file of files) {
+      const path = resolve(file);
+      const cached = this.modules.get(path);
+      if (path === kept && (cached || this.persisted)) {
+        if (cached) {
+          modules.set(path, cached);
+        }
+        continue;
+      }
+
+      const entry = await this.scanFile(path, cached);
+      if (entry) {
+        modules.set(path, entry);
+      }
+    }
+
+    if (modules.size !== this.modules.size) {
+      this.dirty = true;
+    }
+    this.modules = modules;
+  }
+
+  /**
+   * Bring some files up to date with the disk, without looking at the rest
+   * of the project
+   *
+   * Modified files are scanned again, deleted files are dropped and files the
+   * graph does not know yet are added.
+   */
+  async refreshFiles(paths: string[]): Promise<void> {
+    await this.load();
+
+    for (const file of new Set(paths.map((path) => resolve(path)))) {
+      const entry = await this.scanFile(file, this.modules.get(file));
+      if (entry) {
+        this.modules.set(file, entry);
+      } else if (this.modules.delete(file)) {
+        this.dirty = true;
+      }
+    }
+  }
+
+  /**
+   * Get the imports of a module as last scanned
+   */
+  getImports(path: string): string[] | undefined {
+    return this.modules.get(resolve(path))?.imports;
+  }
+
+  /**
+   * Find the shortest import path from one module to another
+   *
+   * @returns The modules on the path, both ends included, or null
+   */
+  findPath(from: string, to: string): string[] | null {
+    const target = resolve(to);
+    const previous = new Map<string, string | null>([[resolve(from), null]]);
+    const queue = [resolve(from)];
+
+    for (let index = 0; index < queue.length; index++) {
+      const current = queue[index] as string;
+      if (current === target) {
+        const path = [current];
+        for (let step = previous.get(current); step; step = previous.get(step)) {
+          path.unshift(step);
+        }
+        return path;
+      }
+
+      for (const imported of this.modules.get(current)?.imports ?? []) {
+        if (!previous.has(imported)) {
+          previous.set(imported, current);
+          queue.push(imported);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Persist the graph if it changed
+   *
+   * The cache only saves work, so failing to write it is not an error.
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    const cache: ModuleGraphCache = { version: CACHE_VERSION, modules: {} };
+    for (const [path, entry] of this.modules) {
+      cache.modules[this.toRelative(path)] = {
+        mtimeMs: entry.mtimeMs,
+        imports: entry.imports.map((imported) => this.toRelative(imported)),
+      };
+    }
+
+    try {
+      const cachePath = join(this.projectRoot, MODULE_GRAPH_CACHE);
+      await mkdir(dirname(cachePath), { recursive: true });
+      await writeFile(cachePath, JSON.stringify(cache));
+      this.dirty = false;
+    } catch {
+      // Read-only project or node_modules
+    }
+  }
+
+  /**
+   * Get the imports of a file on disk, scanning it only when it changed since
+   * its cached entry
+   *
+   * @returns The entry, or null if the file no longer exists
+   */
+  private async scanFile(path: string, cached?: ModuleEntry): Promise<ModuleEntry | null> {
+    try {
+      const { mtimeMs } = await stat(path);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached;
+      }
+
+      const entry = {
+        mtimeMs,
+        imports: await getRuntimeImports(await readFile(path, 'utf8'), path),
+      };
+      this.dirty = true;
+      return entry;
+    } catch {
+      // Deleted while scanning
+      return null;
+    }
+  }
+
+  private toRelative(path: string): string {
+    return relative(this.projectRoot, path).replace(/\\/g, '/');
+  }
+}
+
+/**
+ * Get the project files a module imports at runtime
+ */
+export async function getRuntimeImports(content: string, filePath: string): Promise<string[]> {
+  const imports = (await findImports(content, filePath))
+    .filter((reference) => !reference.typeOnly && !reference.dynamic)
+    .map((reference) => resolveImport(reference.specifier, filePath))
+    .filter((imported): imported is string => imported !== null);
+
+  return [...new Set(imports)];
+}
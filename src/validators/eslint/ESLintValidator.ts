@@ -0,0 +1,139 @@
+/**
+ * ESLintValidator
+ *
+ * Lints files with the project's own ESLint through its Node API, so the
+ * project's config and plugins apply. ESLint is not a dependency of this
+ * package: when the project does not have it installed, validation is
+ * skipped.
+ */
+
+import { resolve } from 'node:path';
+import type { ESLintConfig } from '../../types/config.js';
+import type { ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
+import { type ESLintInstance, type ESLintModule, loadESLintModule } from './loadESLint.js';
+import { parseLintResults } from './resultParser.js';
+
+export interface ESLintValidationResult {
+  success: boolean;
+  issues: ValidationIssue[];
+  fixed: number;
+  error?: string | undefined;
+  /** Content with ESLint's fixes applied, for content fixed with `fix` */
+  output?: string | undefined;
+}
+
+export class ESLintValidator {
+  public readonly name = 'eslint';
+  private config: ESLintConfig;
+  private projectRoot: string;
+  private module: ESLintModule | null = null;
+  private instances = new Map<boolean, ESLintInstance>();
+  private initialized = false;
+
+  constructor(config: ESLintConfig, projectRoot: string = process.cwd()) {
+    this.config = config;
+    this.projectRoot = projectRoot;
+  }
+
+  /**
+   * Load ESLint from the project
+   */
+  private async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    this.initialized = true;
+    this.module = await loadESLintModule(this.projectRoot);
+
+    if (!this.module) {
+      console.warn('[ESLintValidator] ESLint not found in the project. Linting will be skipped.');
+    }
+  }
+
+  /**
+   * Get an ESLint instance, with or without fixes enabled
+   */
+  private async getInstance(fix: boolean): Promise<ESLintInstance | null> {
+    await this.initialize();
+    if (!this.module) {
+      return null;
+    }
+
+    const existing = this.instances.get(fix);
+    if (existing) {
+      return existing;
+    }
+
+    const ESLint = this.module.loadESLint
+      ? await this.module.loadESLint({ cwd: this.projectRoot })
+      : this.module.ESLint;
+    const instance = new ESLint({
+      cwd: this.projectRoot,
+      fix,
+      ...(this.config.configPath
+        ? { overrideConfigFile: resolve(this.projectRoot, this.config.configPath) }
+        : {}),
+    });
+
+    this.instances.set(fix, instance);
+    return instance;
+  }
+
+  /**
+   * Lint file content
+   *
+   * Content is passed to ESLint directly, so it does not need to be saved.
+   * Files ignored by the ESLint config have no issues.
+   */
+  async validate(file: { path: string; content: string }): Promise<ESLintValidationResult> {
+    return this.lint(file, false);
+  }
+
+  /**
+   * Lint file content with ESLint's fixes applied
+   *
+   * The file is not written: the fixed content is returned as `output` and
+   * the issues are those that remain after fixing.
+   */
+  async fix(file: { path: string; content: string }): Promise<ESLintValidationResult> {
+    return this.lint(file, true);
+  }
+
+  /**
+   * Run ESLint on file content
+   */
+  private async lint(
+    file: { path: string; content: string },
+    fix: boolean
+  ): Promise<ESLintValidationResult> {
+    try {
+      const eslint = await this.getInstance(fix);
+      if (!eslint) {
+        return { success: true, issues: [], fixed: 0 };
+      }
+
+      const results = await eslint.lintText(file.content, {
+        filePath: resolve(this.projectRoot, file.path),
+        warnIgnored: false,
+      });
+      const rulesMeta = eslint.getRulesMetaForResults?.(results) ?? {};
+      const issues = parseLintResults(results, file.path, rulesMeta);
+      const output = results.find((result) => result.output !== undefined)?.output;
+
+      return {
+        success: !issues.some((issue) => issue.severity === 'error'),
+        issues,
+        fixed: 0,
+        output: fix ? (output ?? file.content) : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        issues: [],
+        fixed: 0,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
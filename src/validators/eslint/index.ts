@@ -0,0 +1,20 @@
+/**
+ * ESLint validator exports
+ */
+
+export type { ESLintValidationResult } from './ESLintValidator.js';
+export { ESLintValidator } from './ESLintValidator.js';
+export type {
+  ESLintConstructor,
+  ESLintInstance,
+  ESLintModule,
+  ESLintOptions,
+} from './loadESLint.js';
+export { loadESLintModule } from './loadESLint.js';
+export type {
+  ESLintFix,
+  ESLintLintResult,
+  ESLintMessage,
+  ESLintRulesMeta,
+} from './resultParser.js';
+export { parseLintMessage, parseLintResults } from './resultParser.js';
@@ -0,0 +1,49 @@
+/**
+ * ESLint Loader
+ *
+ * ESLint is not a dependency of this package. It is loaded from the project,
+ * so the project's ESLint version resolves its config and plugins.
+ */
+
+import { importProjectModule } from '../../utils/projectModule.js';
+import type { ESLintLintResult, ESLintRulesMeta } from './resultParser.js';
+
+/**
+ * Subset of the `ESLint` class used by the validator
+ */
+export interface ESLintInstance {
+  lintText(
+    code: string,
+    options: { filePath: string; warnIgnored?: boolean }
+  ): Promise<ESLintLintResult[]>;
+  getRulesMetaForResults?(results: ESLintLintResult[]): ESLintRulesMeta;
+}
+
+/**
+ * Options passed to the `ESLint` constructor
+ */
+export interface ESLintOptions {
+  cwd: string;
+  fix: boolean;
+  overrideConfigFile?: string;
+}
+
+export type ESLintConstructor = new (options: ESLintOptions) => ESLintInstance;
+
+/**
+ * Exports of the `eslint` package used by the validator
+ */
+export interface ESLintModule {
+  ESLint: ESLintConstructor;
+  /** Picks flat or legacy config the way the ESLint CLI does (ESLint 8.57+) */
+  loadESLint?(options: { cwd: string }): Promise<ESLintConstructor>;
+}
+
+/**
+ * Import the project's ESLint
+ *
+ * @returns The ESLint module, or null when the project does not have ESLint
+ */
+export async function loadESLintModule(projectRoot: string): Promise<ESLintModule | null> {
+  return importProjectModule<ESLintModule>(projectRoot, 'eslint', 'ESLint');
+}
@@ -0,0 +1,133 @@
+/**
+ * ESLint Result Parser
+ *
+ * Converts the lint results of the ESLint Node API into ValidationIssue
+ * objects, with the rule, its documentation and the rule's fix attached.
+ */
+
+import type { IssueCategory, ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
+
+/**
+ * Fix attached to an ESLint message: replace `range` with `text`
+ */
+export interface ESLintFix {
+  range: [number, number];
+  text: string;
+}
+
+/**
+ * Message of an ESLint lint result
+ */
+export interface ESLintMessage {
+  ruleId: string | null;
+  /** 1 for warnings, 2 for errors */
+  severity: number;
+  message: string;
+  line?: number | undefined;
+  column?: number | undefined;
+  endLine?: number | undefined;
+  endColumn?: number | undefined;
+  /** Set for parsing errors */
+  fatal?: boolean | undefined;
+  fix?: ESLintFix | undefined;
+  suggestions?: Array<{ desc: string; fix: ESLintFix }> | undefined;
+}
+
+/**
+ * Lint result of a single file
+ */
+export interface ESLintLintResult {
+  filePath: string;
+  messages: ESLintMessage[];
+  /** Fixed content, when fixes were requested and changed the file */
+  output?: string | undefined;
+}
+
+/**
+ * Rule metadata, as returned by `ESLint#getRulesMetaForResults`
+ */
+export type ESLintRulesMeta = Record<string, { docs?: { url?: string } } | undefined>;
+
+/**
+ * Rules about imports that live outside an import plugin
+ */
+const IMPORT_RULES = new Set([
+  'no-duplicate-imports',
+  'sort-imports',
+  '@typescript-eslint/consistent-type-imports',
+  '@typescript-eslint/no-import-type-side-effects',
+]);
+
+/**
+ * Import plugin prefixes, e.g. `import/order`
+ */
+const IMPORT_PLUGINS = ['import/', 'import-x/', 'simple-import-sort/'];
+
+/**
+ * Convert the messages of ESLint lint results into ValidationIssues
+ *
+ * @param results - Results of `ESLint#lintText` or `ESLint#lintFiles`
+ * @param filePath - Path reported on the issues
+ * @param rulesMeta - Metadata of the rules in the results, for documentation links
+ */
+export function parseLintResults(
+  results: ESLintLintResult[],
+  filePath: string,
+  rulesMeta: ESLintRulesMeta = {}
+): ValidationIssue[] {
+  return results.flatMap((result) =>
+    result.messages.map((message) => parseLintMessage(message, filePath, rulesMeta))
+  );
+}
+
+/**
+ * Convert a single ESLint message into a ValidationIssue
+ */
+export function parseLintMessage(
+  message: ESLintMessage,
+  filePath: string,
+  rulesMeta: ESLintRulesMeta = {}
+): ValidationIssue {
+  const ruleId = message.ruleId ?? undefined;
+
+  return {
+    file: filePath,
+    line: message.line ?? 1,
+    column: message.column ?? 1,
+    endLine: message.endLine,
+    endColumn: message.endColumn,
+    severity: message.severity >= 2 ? 'error' : 'warning',
+    message: message.message,
+    fixed: false,
+    fixable: message.fix !== undefined,
+    kind: message.fatal ? 'syntax' : 'lint',
+    source: 'eslint',
+    ruleId,
+    category: ruleId ? getIssueCategory(ruleId) : undefined,
+    docsUrl: ruleId ? rulesMeta[ruleId]?.docs?.url : undefined,
+    suggestion: message.suggestions?.[0]?.desc,
+    fix: message.fix
+      ? {
+          fixName: ruleId ?? 'eslint',
+          description: `Fix ${ruleId ?? 'issue'}`,
+          edits: [
+            {
+              start: message.fix.range[0],
+              length: message.fix.range[1] - message.fix.range[0],
+              newText: message.fix.text,
+            },
+          ],
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Map an ESLint rule id to an issue category
+ */
+function getIssueCategory(ruleId: string): IssueCategory {
+  if (IMPORT_RULES.has(ruleId) || IMPORT_PLUGINS.some((prefix) => ruleId.startsWith(prefix))) {
+    return 'import';
+  }
+  return 'lint';
+}
@@ -0,0 +1,489 @@
+/**
+ * ImportsValidator
+ *
+ * Checks the imports and requires of a file without a TypeScript program:
+ * relative paths must exist, tsconfig `paths` aliases must match a file, and
+ * packages must be declared in the owning package.json, installed or part of
+ * the workspace, and export the imported subpath. Works for plain JS too.
+ */
+
+import { existsSync, readdirSync } from 'node:fs';
+import { basename, dirname, extname, join, relative, resolve } from 'node:path';
+import { PatternMatcher } from '../../hooks/PatternMatcher.js';
+import type { ImportsConfig } from '../../types/config.js';
+import { findImports, type ImportReference, resolveImport } from '../../utils/dependencyGraph.js';
+import type { ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
+import { type LoadedTSConfig, loadTSConfigWithDiscovery } from '../typescript/tsconfigLoader.js';
+import {
+  findInstalledPackage,
+  findOwningPackage,
+  findWorkspace,
+  getDependencyKind,
+  isBuiltinModule,
+  isImportDefined,
+  isSubpathExported,
+  listExportedSubpaths,
+  type OwningPackage,
+  parsePackageSpecifier,
+  readManifest,
+  type Workspace,
+} from './packageResolution.js';
+
+/**
+ * Files that may import devDependencies, relative to their package
+ */
+export const DEFAULT_DEV_FILES = [
+  '**/*.{test,spec}.*',
+  '**/__tests__/**',
+  '**/__mocks__/**',
+  'test/**',
+  'tests/**',
+  'scripts/**',
+  '**/*.config.*',
+  '**/*.stories.*',
+  '.storybook/**',
+];
+
+/**
+ * Exported subpaths listed in a suggestion
+ */
+const MAX_SUGGESTED_SUBPATHS = 5;
+
+export interface ImportsValidationResult {
+  success: boolean;
+  issues: ValidationIssue[];
+  error?: string | undefined;
+}
+
+/**
+ * Outcome of matching a specifier against tsconfig `paths`
+ */
+type PathAliasMatch =
+  | { matched: false }
+  | { matched: true; resolved: string | null; pattern: string; target: string };
+
+/**
+ * What the checks of one file share
+ */
+interface ImportContext {
+  filePath: string;
+  owner: OwningPackage | null;
+  tsconfig: LoadedTSConfig | null;
+  /** Workspace of the owning package, looked up on first use */
+  getWorkspace(): Promise<Workspace | null>;
+}
+
+/**
+ * Finding about one import, before it is located in the file
+ */
+interface ImportFinding {
+  ruleId: string;
+  message: string;
+  suggestion: string;
+  severity?: 'error' | 'warning';
+}
+
+export class ImportsValidator {
+  public readonly name = 'imports';
+  private config: ImportsConfig;
+  private projectRoot: string;
+
+  constructor(config: ImportsConfig, projectRoot: string = process.cwd()) {
+    this.config = config;
+    this.projectRoot = projectRoot;
+  }
+
+  /**
+   * Check the imports of a file
+   */
+  async validate(file: { path: string; content: string }): Promise<ImportsValidationResult> {
+    try {
+      const filePath = resolve(this.projectRoot, file.path);
+      const references = await findImports(file.content, filePath);
+      if (references.length === 0) {
+        return { success: true, issues: [] };
+      }
+
+      const owner = await findOwningPackage(filePath);
+      let workspace: Promise<Workspace | null> | undefined;
+      const context: ImportContext = {
+        filePath,
+        owner,
+        tsconfig: await loadTSConfigWithDiscovery({ projectRoot: dirname(filePath) }),
+        getWorkspace: () => {
+          workspace ??= owner ? findWorkspace(owner.directory) : Promise.resolve(null);
+          return workspace;
+        },
+      };
+      const issues: ValidationIssue[] = [];
+
+      for (const reference of references) {
+        const finding = await this.checkImport(reference, context);
+        if (finding) {
+          issues.push({
+            file: file.path,
+            line: reference.line,
+            column: reference.column,
+            endLine: reference.line,
+            endColumn: reference.column + reference.specifier.length + 2,
+            severity: finding.severity ?? 'error',
+            message: finding.message,
+            fixed: false,
+            fixable: false,
+            kind: 'lint',
+            source: 'imports',
+            ruleId: finding.ruleId,
+            category: 'import',
+            suggestion: finding.suggestion,
+          });
+        }
+      }
+
+      return {
+        success: !issues.some((issue) => issue.severity === 'error'),
+        issues,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        issues: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Check one import, returning what is wrong with it or null
+   */
+  private async checkImport(
+    reference: ImportReference,
+    context: ImportContext
+  ): Promise<ImportFinding | null> {
+    const { specifier } = reference;
+    const { filePath, owner, tsconfig } = context;
+
+    // Builtins, URLs, `data:` and other schemes are left to the runtime
+    if (isBuiltinModule(specifier) || /^[a-z][a-z0-9+.-]+:/i.test(specifier)) {
+      return null;
+    }
+
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      if (resolveImport(specifier, filePath)) {
+        return null;
+      }
+      const missing = resolve(dirname(filePath), specifier);
+      return {
+        ruleId: 'unresolved-import',
+        message: `Cannot resolve '${specifier}': ${this.describePath(missing)} does not exist`,
+        suggestion: suggestPath(specifier, missing),
+      };
+    }
+
+    if (specifier.startsWith('#')) {
+      if (!owner || isImportDefined(owner.manifest.imports, specifier)) {
+        return null;
+      }
+      return {
+        ruleId: 'unresolved-import',
+        message: `Cannot resolve '${specifier}': it is not defined in the "imports" of ${this.describePath(join(owner.directory, 'package.json'))}`,
+        suggestion: `Add "${specifier}" to the "imports" field of package.json`,
+      };
+    }
+
+    const alias = matchPathAlias(specifier, tsconfig);
+    if (alias.matched) {
+      if (alias.resolved) {
+        return null;
+      }
+      const missing = alias.target;
+      return {
+        ruleId: 'unresolved-import',
+        message: `Cannot resolve '${specifier}': path alias '${alias.pattern}' points to ${this.describePath(missing)}, which does not exist`,
+        suggestion: suggestPath(specifier, missing),
+      };
+    }
+
+    if (tsconfig && resolveBaseUrl(specifier, tsconfig)) {
+      return null;
+    }
+
+    return owner ? await this.checkPackageImport(reference, owner, context) : null;
+  }
+
+  /**
+   * Check an import of a package: declared, installed, and exporting the subpath
+   */
+  private async checkPackageImport(
+    { specifier, typeOnly }: ImportReference,
+    owner: OwningPackage,
+    context: ImportContext
+  ): Promise<ImportFinding | null> {
+    const { name, subpath } = parsePackageSpecifier(specifier);
+    const manifestPath = this.describePath(join(owner.directory, 'package.json'));
+
+    // A package can import itself by name through its own exports
+    if (name === owner.manifest.name) {
+      return this.checkSubpath(specifier, name, subpath, owner.directory, owner.manifest.exports);
+    }
+
+    const isDevFile = this.isDevFile(context.filePath, owner.directory);
+    let kind = getDependencyKind(owner.manifest, name);
+
+    // Types of untyped packages come from `@types`, which is enough for type-only imports
+    if (typeOnly && kind === 'undeclared') {
+      kind = getDependencyKind(owner.manifest, getTypesPackageName(name));
+      if (kind !== 'undeclared') {
+        return null;
+      }
+    }
+
+    const workspace = await context.getWorkspace();
+    const workspacePackage = workspace?.packages.get(name);
+
+    // Tools shared by a workspace are declared once, in its root package.json
+    if (kind === 'undeclared' && isDevFile && workspace && workspace.root !== owner.directory) {
+      const rootManifest = await readManifest(workspace.root);
+      kind = rootManifest ? getDependencyKind(rootManifest, name) : 'undeclared';
+    }
+
+    const field = isDevFile ? 'devDependencies' : 'dependencies';
+
+    if (kind === 'undeclared') {
+      const installed = findInstalledPackage(owner.directory, name);
+      let version: string | null = null;
+      if (workspacePackage) {
+        version = workspace?.usesWorkspaceProtocol ? 'workspace:*' : '*';
+      } else if (installed) {
+        const installedVersion = (await readManifest(installed))?.version;
+        version = installedVersion ? `^${installedVersion}` : null;
+      }
+
+      return {
+        ruleId: 'undeclared-dependency',
+        message: workspacePackage
+          ? `'${name}' is a workspace package but is not declared in ${manifestPath}`
+          : `'${name}' is imported but not declared in ${manifestPath}`,
+        suggestion: version
+          ? `Add "${name}": "${version}" to "${field}" in ${manifestPath}`
+          : `Install '${name}' as a ${isDevFile ? 'devDependency' : 'dependency'} (e.g. \`npm install ${isDevFile ? '-D ' : ''}${name}\`)`,
+      };
+    }
+
+    if (kind === 'development' && !isDevFile && !typeOnly) {
+      return {
+        ruleId: 'dev-dependency',
+        message: `'${name}' is a devDependency but is imported from production code`,
+        suggestion: `Move '${name}' from "devDependencies" to "dependencies" in ${manifestPath}, or use \`import type\` if only its types are needed`,
+      };
+    }
+
+    const packageDirectory = workspacePackage ?? findInstalledPackage(owner.directory, name);
+    if (!packageDirectory) {
+      // Type-only imports may be served by `@types` alone
+      if (typeOnly || findInstalledPackage(owner.directory, getTypesPackageName(name))) {
+        return null;
+      }
+      return {
+        ruleId: 'not-installed',
+        severity: 'warning',
+        message: `'${name}' is declared in ${manifestPath} but is not installed`,
+        suggestion: 'Install the dependencies with the package manager',
+      };
+    }
+
+    const manifest = await readManifest(packageDirectory);
+    return this.checkSubpath(specifier, name, subpath, packageDirectory, manifest?.exports);
+  }
+
+  /**
+   * Check that a package exposes the imported subpath
+   *
+   * With `exports`, only exported subpaths can be imported. Without, the
+   * subpath must be a file or folder of the package.
+   */
+  private checkSubpath(
+    specifier: string,
+    name: string,
+    subpath: string,
+    packageDirectory: string,
+    exports: unknown
+  ): ImportFinding | null {
+    if (exports !== undefined) {
+      if (isSubpathExported(exports, subpath)) {
+        return null;
+      }
+
+      const exported = listExportedSubpaths(exports)
+        .filter((entry) => !entry.includes('*') && entry !== './package.json')
+        .slice(0, MAX_SUGGESTED_SUBPATHS)
+        .map((entry) => `'${entry === '.' ? name : `${name}/${entry.slice(2)}`}'`);
+      return {
+        ruleId: 'not-exported',
+        message: `'${specifier}' is not exported by '${name}': its "exports" have no '${subpath}' entry`,
+        suggestion:
+          exported.length > 0
+            ? `Import one of the exported entry points: ${exported.join(', ')}`
+            : `Import '${name}' through an entry point listed in its "exports"`,
+      };
+    }
+
+    if (subpath === '.') {
+      return null;
+    }
+    const target = resolve(packageDirectory, subpath);
+    if (existsSync(target) || resolveImport(subpath, join(packageDirectory, 'package.json'))) {
+      return null;
+    }
+    return {
+      ruleId: 'unresolved-import',
+      message: `Cannot resolve '${specifier}': '${name}' has no file '${subpath.slice(2)}'`,
+      suggestion: suggestPath(specifier, target),
+    };
+  }
+
+  /**
+   * Check whether a file may import devDependencies
+   */
+  private isDevFile(filePath: string, packageDirectory: string): boolean {
+    return new PatternMatcher(
+      this.config.devFiles ?? DEFAULT_DEV_FILES,
+      undefined,
+      packageDirectory
+    ).shouldValidate(filePath);
+  }
+
+  /**
+   * Path relative to the project for messages
+   */
+  private describePath(path: string): string {
+    return relative(this.projectRoot, path).replace(/\\/g, '/') || '.';
+  }
+}
+
+/**
+ * Match a specifier against tsconfig `paths`, preferring the longest prefix
+ * like TypeScript does
+ */
+function matchPathAlias(specifier: string, tsconfig: LoadedTSConfig | null): PathAliasMatch {
+  const options = tsconfig?.config.compilerOptions;
+  const paths = options?.paths as Record<string, string[]> | undefined;
+  if (!tsconfig || !paths) {
+    return { matched: false };
+  }
+
+  const base = resolve(dirname(tsconfig.configPath), (options?.baseUrl as string) ?? '.');
+  let best: { pattern: string; captured: string; prefixLength: number } | null = null;
+
+  for (const pattern of Object.keys(paths)) {
+    const star = pattern.indexOf('*');
+    if (star === -1) {
+      if (pattern === specifier) {
+        best = { pattern, captured: '', prefixLength: Number.POSITIVE_INFINITY };
+      }
+      continue;
+    }
+
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix) &&
+      specifier.length >= prefix.length + suffix.length &&
+      (!best || prefix.length > best.prefixLength)
+    ) {
+      best = {
+        pattern,
+        captured: specifier.slice(prefix.length, specifier.length - suffix.length),
+        prefixLength: prefix.length,
+      };
+    }
+  }
+
+  if (!best) {
+    return { matched: false };
+  }
+
+  const targets = (paths[best.pattern] ?? []).map((target) =>
+    resolve(base, target.replace('*', best.captured))
+  );
+  const resolved = targets.map(resolveAbsolute).find((path) => path !== null) ?? null;
+  return { matched: true, resolved, pattern: best.pattern, target: targets[0] ?? base };
+}
+
+/**
+ * Resolve a non-relative specifier against tsconfig `baseUrl`
+ */
+function resolveBaseUrl(specifier: string, tsconfig: LoadedTSConfig): string | null {
+  const baseUrl = tsconfig.config.compilerOptions?.baseUrl as string | undefined;
+  if (baseUrl === undefined) {
+    return null;
+  }
+  return resolveAbsolute(resolve(dirname(tsconfig.configPath), baseUrl, specifier));
+}
+
+/**
+ * Resolve an absolute module path with the usual extensions and index files
+ */
+function resolveAbsolute(path: string): string | null {
+  return resolveImport(`./${basename(path)}`, path);
+}
+
+/**
+ * Name of the `@types` package of a package, e.g. `@types/scope__pkg` for `@scope/pkg`
+ */
+function getTypesPackageName(name: string): string {
+  return `@types/${name.startsWith('@') ? name.slice(1).replace('/', '__') : name}`;
+}
+
+/**
+ * Suggest a fix for a missing file: a file with a similar name in the same
+ * folder, or creating the file
+ */
+function suggestPath(specifier: string, missing: string): string {
+  const directory = dirname(missing);
+  if (!existsSync(directory)) {
+    return `Fix the import path: the folder '${basename(directory)}' does not exist`;
+  }
+
+  const wanted = stripExtension(basename(missing)).toLowerCase();
+  let best: { name: string; distance: number } | null = null;
+  for (const entry of readdirSync(directory)) {
+    const distance = levenshtein(wanted, stripExtension(entry).toLowerCase());
+    if (distance <= 2 && (!best || distance < best.distance)) {
+      best = { name: stripExtension(entry), distance };
+    }
+  }
+
+  if (!best) {
+    return `Create '${basename(missing)}' or fix the import path`;
+  }
+
+  const slash = specifier.lastIndexOf('/');
+  const extension = extname(specifier);
+  return `Did you mean '${specifier.slice(0, slash + 1)}${best.name}${extension}'?`;
+}
+
+function stripExtension(fileName: string): string {
+  return fileName.slice(0, fileName.length - extname(fileName).length);
+}
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        (previous[j] as number) + 1,
+        (current[j - 1] as number) + 1,
+        (previous[j - 1] as number) + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] as number;
+}
@@ -0,0 +1,19 @@
+/**
+ * Imports validator exports
+ */
+
+export type { ImportsValidationResult } from './ImportsValidator.js';
+export { DEFAULT_DEV_FILES, ImportsValidator } from './ImportsValidator.js';
+export type {
+  DependencyKind,
+  OwningPackage,
+  PackageManifest,
+  Workspace,
+} from './packageResolution.js';
+export {
+  findOwningPackage,
+  findWorkspace,
+  getDependencyKind,
+  isSubpathExported,
+  parsePackageSpecifier,
+} from './packageResolution.js';
@@ -0,0 +1,265 @@
+/**
+ * Package Resolution
+ *
+ * Reads package manifests and resolves bare specifiers the way Node does:
+ * declared dependencies, installed and workspace packages, `exports` and
+ * `imports` maps.
+ */
+
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { builtinModules } from 'node:module';
+import { dirname, join } from 'node:path';
+import fg from 'fast-glob';
+import { parse as parseYaml } from 'yaml';
+import { findUp } from '../../utils/projectRoot.js';
+
+/**
+ * Fields of package.json read here
+ */
+export interface PackageManifest {
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  exports?: unknown;
+  imports?: Record<string, unknown>;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+/**
+ * Manifest of the package a file belongs to
+ */
+export interface OwningPackage {
+  /** Directory containing the package.json */
+  directory: string;
+  manifest: PackageManifest;
+}
+
+/**
+ * How a package is declared: in dependencies (including peer and optional
+ * dependencies), only in devDependencies, or not at all
+ */
+export type DependencyKind = 'production' | 'development' | 'undeclared';
+
+/**
+ * Packages of a workspace, by name
+ */
+export interface Workspace {
+  root: string;
+  /** Whether workspace packages are referenced with the `workspace:` protocol */
+  usesWorkspaceProtocol: boolean;
+  packages: Map<string, string>;
+}
+
+const BUILTIN_MODULES = new Set(builtinModules);
+
+/**
+ * Check whether a specifier names a Node builtin module
+ */
+export function isBuiltinModule(specifier: string): boolean {
+  if (specifier.startsWith('node:')) {
+    return true;
+  }
+  return BUILTIN_MODULES.has(specifier.split('/')[0] as string) || BUILTIN_MODULES.has(specifier);
+}
+
+/**
+ * Split a bare specifier into the package name and the subpath, e.g.
+ * `@scope/pkg/utils` into `@scope/pkg` and `./utils`
+ */
+export function parsePackageSpecifier(specifier: string): { name: string; subpath: string } {
+  const parts = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  const rest = parts.slice(nameLength).join('/');
+
+  return {
+    name: parts.slice(0, nameLength).join('/'),
+    subpath: rest ? `./${rest}` : '.',
+  };
+}
+
+/**
+ * Read a package.json, or null when it is missing or invalid
+ */
+export async function readManifest(directory: string): Promise<PackageManifest | null> {
+  try {
+    return JSON.parse(await readFile(join(directory, 'package.json'), 'utf8')) as PackageManifest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the package a file belongs to: the nearest directory with a package.json
+ */
+export async function findOwningPackage(filePath: string): Promise<OwningPackage | null> {
+  const directory = findUp(dirname(filePath), 'package.json');
+  if (!directory) {
+    return null;
+  }
+
+  const manifest = await readManifest(directory);
+  return manifest ? { directory, manifest } : null;
+}
+
+/**
+ * Get how a package is declared in a manifest
+ */
+export function getDependencyKind(manifest: PackageManifest, name: string): DependencyKind {
+  if (
+    manifest.dependencies?.[name] !== undefined ||
+    manifest.peerDependencies?.[name] !== undefined ||
+    manifest.optionalDependencies?.[name] !== undefined
+  ) {
+    return 'production';
+  }
+  return manifest.devDependencies?.[name] !== undefined ? 'development' : 'undeclared';
+}
+
+/**
+ * Find the directory of an installed package, walking up the node_modules folders
+ */
+export function findInstalledPackage(fromDirectory: string, name: string): string | null {
+  const directory = findUp(fromDirectory, join('node_modules', name, 'package.json'));
+  return directory ? join(directory, 'node_modules', name) : null;
+}
+
+/**
+ * Find the workspace a directory belongs to, from `pnpm-workspace.yaml` or
+ * the `workspaces` of a package.json up the tree
+ */
+export async function findWorkspace(fromDirectory: string): Promise<Workspace | null> {
+  let directory: string | null = fromDirectory;
+
+  while (directory) {
+    const patterns = await readWorkspacePatterns(directory);
+    if (patterns) {
+      const manifests = await fg(
+        patterns.map((pattern) => `${pattern.replace(/\/$/, '')}/package.json`),
+        { cwd: directory, ignore: ['**/node_modules/**'], absolute: true, onlyFiles: true }
+      );
+      const packages = new Map<string, string>();
+
+      for (const manifestPath of manifests) {
+        const manifest = await readManifest(dirname(manifestPath));
+        if (manifest?.name) {
+          packages.set(manifest.name, dirname(manifestPath));
+        }
+      }
+
+      return {
+        root: directory,
+        usesWorkspaceProtocol: existsSync(join(directory, 'pnpm-workspace.yaml')),
+        packages,
+      };
+    }
+
+    const parent = dirname(directory);
+    directory = parent === directory ? null : parent;
+  }
+
+  return null;
+}
+
+/**
+ * Read the workspace package globs of a directory, or null if it is not a workspace root
+ */
+async function readWorkspacePatterns(directory: string): Promise<string[] | null> {
+  const pnpmWorkspace = join(directory, 'pnpm-workspace.yaml');
+  if (existsSync(pnpmWorkspace)) {
+    try {
+      const parsed = parseYaml(await readFile(pnpmWorkspace, 'utf8')) as { packages?: string[] };
+      return (parsed?.packages ?? []).filter((pattern) => !pattern.startsWith('!'));
+    } catch {
+      return [];
+    }
+  }
+
+  const manifest = existsSync(join(directory, 'package.json'))
+    ? await readManifest(directory)
+    : null;
+  const workspaces = Array.isArray(manifest?.workspaces)
+    ? manifest.workspaces
+    : manifest?.workspaces?.packages;
+  return workspaces ?? null;
+}
+
+/**
+ * Check whether an `exports` map exposes a subpath (`.` or `./name`)
+ *
+ * Conditions are not evaluated: a subpath is exported when any key matches
+ * it and its target is not `null`.
+ */
+export function isSubpathExported(exports: unknown, subpath: string): boolean {
+  if (typeof exports === 'string' || Array.isArray(exports)) {
+    return subpath === '.';
+  }
+  if (!isRecord(exports)) {
+    return false;
+  }
+
+  // An object of conditions only describes the main entry
+  if (!Object.keys(exports).some((key) => key.startsWith('.'))) {
+    return subpath === '.';
+  }
+
+  return matchesSubpathMap(exports, subpath);
+}
+
+/**
+ * Check whether an `imports` map defines a `#` specifier
+ */
+export function isImportDefined(
+  imports: Record<string, unknown> | undefined,
+  specifier: string
+): boolean {
+  return imports ? matchesSubpathMap(imports, specifier) : false;
+}
+
+/**
+ * List the subpaths of an `exports` map, for suggestions
+ */
+export function listExportedSubpaths(exports: unknown): string[] {
+  if (!isRecord(exports) || !Object.keys(exports).some((key) => key.startsWith('.'))) {
+    return exports === undefined ? [] : ['.'];
+  }
+  return Object.entries(exports)
+    .filter(([, target]) => target !== null)
+    .map(([key]) => key);
+}
+
+/**
+ * Match a key of an `exports` or `imports` map, preferring exact keys, then
+ * the pattern with the longest prefix
+ */
+function matchesSubpathMap(map: Record<string, unknown>, key: string): boolean {
+  if (key in map) {
+    return map[key] !== null;
+  }
+
+  let best: { prefixLength: number; target: unknown } | null = null;
+  for (const [pattern, target] of Object.entries(map)) {
+    const star = pattern.indexOf('*');
+    const prefix = star === -1 ? pattern : pattern.slice(0, star);
+    const suffix = star === -1 ? '' : pattern.slice(star + 1);
+    const matches =
+      star === -1
+        ? pattern.endsWith('/') && key.startsWith(pattern)
+        : key.startsWith(prefix) &&
+          key.endsWith(suffix) &&
+          key.length >= prefix.length + suffix.length;
+
+    if (matches && (!best || prefix.length > best.prefixLength)) {
+      best = { prefixLength: prefix.length, target };
+    }
+  }
+
+  return best !== null && best.target !== null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,7 +1,7 @@
 /**
  * Validation engines for claude-jsqualityhooks
  *
- * This module exports all validators (Biome, TypeScript, etc.)
+ * This module exports all validators (Biome, TypeScript, ESLint, Prettier, imports, cycles, tests, rules, etc.)
  */
 
 import type { BiomeConfig, TypeScriptConfig } from '../types/config.js';
@@ -10,21 +10,62 @@ import type { BiomeConfig, TypeScriptConfig } from '../types/config.js';
 export type {
   BiomeAdapter,
   BiomeCommandOptions,
+  BiomeContentResult,
+  IssueCategory,
+  IssueFix,
+  TextEdit,
   ValidationIssue,
 } from './biome/adapters/BiomeAdapter.js';
 export {
   createAdapter,
   createAdapterFromDetection,
   createAdapterFromVersion,
+  createPreferredAdapter,
 } from './biome/adapters/BiomeAdapterFactory.js';
+export { BiomeJsApiAdapter, loadBiomeJsApiAdapter } from './biome/adapters/BiomeJsApiAdapter.js';
 export { BiomeV1Adapter } from './biome/adapters/BiomeV1Adapter.js';
 export { BiomeV2Adapter } from './biome/adapters/BiomeV2Adapter.js';
 export type { BiomeValidationResult } from './biome/BiomeValidator.js';
 // Biome validator exports
 export { BiomeValidator } from './biome/BiomeValidator.js';
+// Validator plugin exports
+export { BUILTIN_VALIDATORS } from './builtinValidators.js';
+export type { RawCommandIssue } from './command/index.js';
+// Command validator exports
+export { CommandValidator, parseCommandOutput } from './command/index.js';
+export { loadCustomValidators } from './customValidators.js';
+export type { CyclesValidationResult } from './cycles/index.js';
+// Cycles validator exports
+export { CyclesValidator, ModuleGraph } from './cycles/index.js';
+export type { ESLintValidationResult } from './eslint/index.js';
+// ESLint validator exports
+export { ESLintValidator, parseLintResults } from './eslint/index.js';
+export type { ImportsValidationResult } from './imports/index.js';
+// Imports validator exports
+export { ImportsValidator } from './imports/index.js';
+export type { PrettierValidationResult } from './prettier/index.js';
+// Prettier validator exports
+export { PrettierValidator } from './prettier/index.js';
+export type { RulesValidationResult } from './rules/index.js';
+// Project rules validator exports
+export { RulesValidator } from './rules/index.js';
+export type { SecretPattern } from './secrets/index.js';
+// Secret detection exports
+export { KNOWN_SECRET_PATTERNS, SecretsScanner } from './secrets/index.js';
+export type { RelatedTestsResult, TestRunner } from './tests/index.js';
+// Related tests validator exports
+export { findRelatedTestFiles, parseTestReport, RelatedTestsValidator } from './tests/index.js';
 export type { TypeScriptValidationResult } from './typescript/index.js';
 // TypeScript validator exports
-export { TypeScriptValidator } from './typescript/index.js';
+export { isSafeQuickFix, SAFE_QUICK_FIXES, TypeScriptValidator } from './typescript/index.js';
+export type {
+  Validator,
+  ValidatorContext,
+  ValidatorFile,
+  ValidatorFixOutput,
+  ValidatorModuleExport,
+  ValidatorOutput,
+} from './Validator.js';
 export type {
   ValidationResponse,
   ValidationResult as ValidatorResult,
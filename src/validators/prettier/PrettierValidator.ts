@@ -0,0 +1,189 @@
+/**
+ * PrettierValidator
+ *
+ * Checks formatting with the project's own Prettier, using the project's
+ * Prettier config and ignore files. Unformatted files are reported as a
+ * single issue with a diff of what Prettier would print. Prettier is not a
+ * dependency of this package: when the project does not have it installed,
+ * validation is skipped.
+ */
+
+import { join, resolve } from 'node:path';
+import type { PrettierConfig } from '../../types/config.js';
+import { diffLines, formatUnifiedDiff } from '../../utils/lineDiff.js';
+import type { ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
+import { loadPrettierModule, type PrettierModule, type PrettierOptions } from './loadPrettier.js';
+
+/**
+ * Ignore files Prettier's CLI reads by default, relative to the project root
+ */
+const IGNORE_FILES = ['.gitignore', '.prettierignore'];
+
+/**
+ * Message of the issue reported for unformatted content
+ */
+const FORMAT_MESSAGE = 'File is not formatted. Prettier would print different content.';
+
+export interface PrettierValidationResult {
+  success: boolean;
+  issues: ValidationIssue[];
+  fixed: number;
+  error?: string | undefined;
+  /** Content as Prettier formats it, for content formatted with `format` */
+  output?: string | undefined;
+}
+
+export class PrettierValidator {
+  public readonly name = 'prettier';
+  private config: PrettierConfig;
+  private projectRoot: string;
+  private prettier: PrettierModule | null = null;
+  private initialized = false;
+
+  constructor(config: PrettierConfig, projectRoot: string = process.cwd()) {
+    this.config = config;
+    this.projectRoot = projectRoot;
+  }
+
+  /**
+   * Load Prettier from the project
+   */
+  private async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    this.initialized = true;
+    this.prettier = await loadPrettierModule(this.projectRoot);
+
+    if (!this.prettier) {
+      console.warn(
+        '[PrettierValidator] Prettier not found in the project. Format checks will be skipped.'
+      );
+    }
+  }
+
+  /**
+   * Check whether file content is formatted
+   *
+   * Content is passed to Prettier directly, so it does not need to be saved.
+   */
+  async validate(file: { path: string; content: string }): Promise<PrettierValidationResult> {
+    try {
+      const output = await this.formatContent(file);
+      if (output === null || output === file.content) {
+        return { success: true, issues: [], fixed: 0 };
+      }
+
+      return {
+        success: false,
+        issues: [this.createFormatIssue(file, output)],
+        fixed: 0,
+      };
+    } catch (error) {
+      return this.createErrorResult(error);
+    }
+  }
+
+  /**
+   * Format file content
+   *
+   * The file is not written: the formatted content is returned as `output`.
+   */
+  async format(file: { path: string; content: string }): Promise<PrettierValidationResult> {
+    try {
+      const output = await this.formatContent(file);
+      return { success: true, issues: [], fixed: 0, output: output ?? file.content };
+    } catch (error) {
+      return this.createErrorResult(error);
+    }
+  }
+
+  /**
+   * Format content with the options Prettier resolves for the file
+   *
+   * Returns null when the file is ignored, has no Prettier parser, does not
+   * parse (other validators report syntax errors) or Prettier is missing.
+   */
+  private async formatContent(file: { path: string; content: string }): Promise<string | null> {
+    await this.initialize();
+    if (!this.prettier) {
+      return null;
+    }
+
+    const filePath = resolve(this.projectRoot, file.path);
+    const fileInfo = await this.prettier.getFileInfo(filePath, {
+      ignorePath: IGNORE_FILES.map((name) => join(this.projectRoot, name)),
+    });
+    if (fileInfo.ignored || !fileInfo.inferredParser) {
+      return null;
+    }
+
+    const options: PrettierOptions = {
+      ...(await this.prettier.resolveConfig(filePath, {
+        editorconfig: true,
+        ...(this.config.configPath
+          ? { config: resolve(this.projectRoot, this.config.configPath) }
+          : {}),
+      })),
+      filepath: filePath,
+    };
+
+    try {
+      return await this.prettier.format(file.content, options);
+    } catch (error) {
+      if (error instanceof SyntaxError || (error as { loc?: unknown } | null)?.loc) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create the issue reported for unformatted content
+   */
+  private createFormatIssue(
+    file: { path: string; content: string },
+    output: string
+  ): ValidationIssue {
+    const hunks = diffLines(file.content, output);
+    const first = hunks[0];
+    const last = hunks[hunks.length - 1];
+
+    return {
+      file: file.path,
+      line: (first?.oldStart ?? 0) + 1,
+      column: 1,
+      endLine: last ? last.oldStart + Math.max(last.removed.length, 1) : undefined,
+      severity: 'error',
+      message: FORMAT_MESSAGE,
+      fixed: false,
+      fixable: true,
+      kind: 'lint',
+      source: 'prettier',
+      category: 'format',
+      diff: formatUnifiedDiff(hunks),
+      fix: {
+        fixName: 'prettier',
+        description: 'Format the file with Prettier',
+        edits: hunks.map((hunk) => ({
+          start: hunk.offset,
+          length: hunk.removed.join('').length,
+          newText: hunk.added.join(''),
+        })),
+      },
+    };
+  }
+
+  /**
+   * Create the result of a failed Prettier run
+   */
+  private createErrorResult(error: unknown): PrettierValidationResult {
+    return {
+      success: false,
+      issues: [],
+      fixed: 0,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
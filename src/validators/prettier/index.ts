@@ -0,0 +1,8 @@
+/**
+ * Prettier validator exports
+ */
+
+export type { PrettierModule, PrettierOptions } from './loadPrettier.js';
+export { loadPrettierModule } from './loadPrettier.js';
+export type { PrettierValidationResult } from './PrettierValidator.js';
+export { PrettierValidator } from './PrettierValidator.js';
@@ -0,0 +1,38 @@
+/**
+ * Prettier Loader
+ *
+ * Prettier is not a dependency of this package. It is loaded from the
+ * project, so the project's Prettier version and plugins format the code.
+ */
+
+import { importProjectModule } from '../../utils/projectModule.js';
+
+/**
+ * Options passed to Prettier, as resolved from the project's config
+ */
+export type PrettierOptions = Record<string, unknown> & { filepath?: string };
+
+/**
+ * Exports of the `prettier` package used by the validator (Prettier 3)
+ */
+export interface PrettierModule {
+  format(source: string, options: PrettierOptions): Promise<string>;
+  check(source: string, options: PrettierOptions): Promise<boolean>;
+  resolveConfig(
+    filePath: string,
+    options?: { config?: string; editorconfig?: boolean }
+  ): Promise<PrettierOptions | null>;
+  getFileInfo(
+    filePath: string,
+    options?: { ignorePath?: string | string[]; resolveConfig?: boolean }
+  ): Promise<{ ignored: boolean; inferredParser: string | null }>;
+}
+
+/**
+ * Import the project's Prettier
+ *
+ * @returns The Prettier module, or null when the project does not have Prettier
+ */
+export async function loadPrettierModule(projectRoot: string): Promise<PrettierModule | null> {
+  return importProjectModule<PrettierModule>(projectRoot, 'prettier', 'format');
+}
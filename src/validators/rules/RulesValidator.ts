@@ -0,0 +1,307 @@
+/**
+ * RulesValidator
+ *
+ * Enforces project conventions Biome cannot express, such as "never import
+ * lodash" or "no `Date.now()` in domain code". Each rule bans an import
+ * specifier, an identifier or a call within a set of files. Files are only
+ * parsed, with the TypeScript parser, so checks take a few milliseconds and
+ * work for plain JS too.
+ */
+
+import { extname } from 'node:path';
+import type ts from 'typescript';
+import { PatternMatcher } from '../../hooks/PatternMatcher.js';
+import type { RuleConfig } from '../../types/config.js';
+import type { ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
+
+export interface RulesValidationResult {
+  success: boolean;
+  issues: ValidationIssue[];
+  error?: string | undefined;
+}
+
+/**
+ * Rule with its file scope and compiled pattern
+ */
+interface CompiledRule {
+  config: RuleConfig;
+  scope: PatternMatcher;
+  pattern: RegExp;
+}
+
+/**
+ * Import, identifier or call found in a file
+ */
+interface Reference {
+  type: RuleConfig['type'];
+  /** Specifier, identifier or callee name that rules are matched against */
+  name: string;
+  /** Node to report, such as the specifier or the callee */
+  node: ts.Node;
+}
+
+const SCRIPT_KINDS: Record<string, keyof typeof ts.ScriptKind> = {
+  '.ts': 'TS',
+  '.mts': 'TS',
+  '.cts': 'TS',
+  '.tsx': 'TSX',
+  '.js': 'JS',
+  '.mjs': 'JS',
+  '.cjs': 'JS',
+  '.jsx': 'JSX',
+};
+
+export class RulesValidator {
+  public readonly name = 'rules';
+  private rules: CompiledRule[];
+  private typescript: Promise<typeof ts | null> | null = null;
+
+  constructor(rules: RuleConfig[], projectRoot: string = process.cwd()) {
+    this.rules = rules.map((config) => ({
+      config,
+      scope: new PatternMatcher(config.files, config.exclude, projectRoot),
+      pattern: compilePattern(config),
+    }));
+  }
+
+  /**
+   * Check a file against the rules that apply to it
+   */
+  async validate(file: { path: string; content: string }): Promise<RulesValidationResult> {
+    try {
+      const scriptKind = SCRIPT_KINDS[extname(file.path).toLowerCase()];
+      const rules = this.rules.filter((rule) => rule.scope.shouldValidate(file.path));
+      if (!scriptKind || rules.length === 0) {
+        return { success: true, issues: [] };
+      }
+
+      const typescript = await this.loadTypeScript();
+      if (!typescript) {
+        return { success: true, issues: [] };
+      }
+
+      const sourceFile = typescript.createSourceFile(
+        file.path,
+        file.content,
+        typescript.ScriptTarget.Latest,
+        true,
+        typescript.ScriptKind[scriptKind]
+      );
+      const issues: ValidationIssue[] = [];
+
+      for (const reference of findReferences(typescript, sourceFile)) {
+        for (const { config, pattern } of rules) {
+          if (config.type !== reference.type || !pattern.test(reference.name)) {
+            continue;
+          }
+
+          const start = sourceFile.getLineAndCharacterOfPosition(
+            reference.node.getStart(sourceFile)
+          );
+          const end = sourceFile.getLineAndCharacterOfPosition(reference.node.getEnd());
+          issues.push({
+            file: file.path,
+            line: start.line + 1,
+            column: start.character + 1,
+            endLine: end.line + 1,
+            endColumn: end.character + 1,
+            severity: config.severity ?? 'error',
+            message: `${describeReference(reference)} is not allowed: ${config.message}`,
+            fixed: false,
+            fixable: false,
+            kind: 'lint',
+            source: 'rules',
+            ruleId: config.name,
+            category: config.type === 'import' ? 'import' : 'lint',
+          });
+        }
+      }
+
+      return {
+        success: !issues.some((issue) => issue.severity === 'error'),
+        issues: issues.sort((a, b) => a.line - b.line || a.column - b.column),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        issues: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Import the TypeScript parser once; rules are skipped without it
+   */
+  private loadTypeScript(): Promise<typeof ts | null> {
+    this.typescript ??= import('typescript').then(
+      (module) => (module.default ?? module) as typeof ts,
+      () => {
+        console.warn('[RulesValidator] TypeScript not found. Project rules will be skipped.');
+        return null;
+      }
+    );
+    return this.typescript;
+  }
+}
+
+/**
+ * Compile a rule pattern, `*` matching any name
+ *
+ * Import patterns also match subpaths, and `node:` prefixes are ignored on
+ * both sides.
+ */
+function compilePattern(rule: RuleConfig): RegExp {
+  const pattern = rule.type === 'import' ? rule.pattern.replace(/^node:/, '') : rule.pattern;
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join(rule.type === 'import' ? '[^/]*' : '[\\w$]*');
+
+  return rule.type === 'import'
+    ? new RegExp(`^(?:node:)?${source}(?:/.*)?$`)
+    : new RegExp(`^${source}$`);
+}
+
+/**
+ * Collect the imports, identifier references and calls of a file
+ */
+function findReferences(typescript: typeof ts, sourceFile: ts.SourceFile): Reference[] {
+  const references: Reference[] = [];
+
+  const visit = (node: ts.Node): void => {
+    const specifier = getModuleSpecifier(typescript, node);
+    if (specifier) {
+      references.push({ type: 'import', name: specifier.text, node: specifier });
+    }
+
+    if (typescript.isCallExpression(node) || typescript.isNewExpression(node)) {
+      const callee = getCalleeName(typescript, node.expression);
+      if (callee) {
+        const name = typescript.isNewExpression(node) ? `new ${callee}` : callee;
+        references.push({ type: 'call', name, node: node.expression });
+      }
+    }
+
+    if (typescript.isIdentifier(node) && isReference(typescript, node)) {
+      references.push({ type: 'identifier', name: node.text, node });
+    }
+
+    typescript.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return references;
+}
+
+/**
+ * Module specifier of an import, export, `require()` or `import()`
+ */
+function getModuleSpecifier(typescript: typeof ts, node: ts.Node): ts.StringLiteral | null {
+  let specifier: ts.Node | undefined;
+
+  if (typescript.isImportDeclaration(node) || typescript.isExportDeclaration(node)) {
+    specifier = node.moduleSpecifier;
+  } else if (typescript.isExternalModuleReference(node)) {
+    specifier = node.expression;
+  } else if (
+    typescript.isCallExpression(node) &&
+    (node.expression.kind === typescript.SyntaxKind.ImportKeyword ||
+      (typescript.isIdentifier(node.expression) && node.expression.text === 'require'))
+  ) {
+    specifier = node.arguments[0];
+  }
+
+  return specifier && typescript.isStringLiteral(specifier) ? specifier : null;
+}
+
+/**
+ * Dotted name of a callee, such as `console.log`, or null for computed callees
+ */
+function getCalleeName(typescript: typeof ts, expression: ts.Expression): string | null {
+  if (typescript.isIdentifier(expression)) {
+    return expression.text;
+  }
+  if (expression.kind === typescript.SyntaxKind.ThisKeyword) {
+    return 'this';
+  }
+  if (
+    typescript.isParenthesizedExpression(expression) ||
+    typescript.isNonNullExpression(expression)
+  ) {
+    return getCalleeName(typescript, expression.expression);
+  }
+  if (typescript.isPropertyAccessExpression(expression)) {
+    const object = getCalleeName(typescript, expression.expression);
+    return object && `${object}.${expression.name.text}`;
+  }
+  if (
+    typescript.isElementAccessExpression(expression) &&
+    typescript.isStringLiteralLike(expression.argumentExpression)
+  ) {
+    const object = getCalleeName(typescript, expression.expression);
+    return object && `${object}.${expression.argumentExpression.text}`;
+  }
+  return null;
+}
+
+/**
+ * Check whether an identifier refers to a value, rather than naming a
+ * declaration, a property, an imported binding or a type
+ */
+function isReference(typescript: typeof ts, node: ts.Identifier): boolean {
+  const parent = node.parent;
+
+  if (isInTypePosition(typescript, node)) {
+    return false;
+  }
+  if (typescript.isPropertyAccessExpression(parent)) {
+    return parent.expression === node;
+  }
+  if (typescript.isQualifiedName(parent)) {
+    return parent.left === node;
+  }
+  if (typescript.isShorthandPropertyAssignment(parent)) {
+    return true;
+  }
+  if ('propertyName' in parent && parent.propertyName === node) {
+    return false;
+  }
+  return !('name' in parent && parent.name === node);
+}
+
+/**
+ * Check whether a node is part of a type, such as an annotation, a type
+ * argument or `typeof x`, none of which exist at runtime
+ */
+function isInTypePosition(typescript: typeof ts, node: ts.Node): boolean {
+  for (let current = node; current.parent; current = current.parent) {
+    const parent = current.parent;
+
+    if (typescript.isExpressionWithTypeArguments(current) && typescript.isHeritageClause(parent)) {
+      // Classes extend values; interfaces and `implements` clauses name types
+      return !(
+        parent.token === typescript.SyntaxKind.ExtendsKeyword &&
+        typescript.isClassLike(parent.parent)
+      );
+    }
+    if (typescript.isTypeNode(current)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * What a reference is, as shown in messages
+ */
+function describeReference(reference: Reference): string {
+  switch (reference.type) {
+    case 'import':
+      return `Importing '${reference.name}'`;
+    case 'call':
+      return `\`${reference.name}()\``;
+    default:
+      return `\`${reference.name}\``;
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Project rules validator exports
+ */
+
+export type { RulesValidationResult } from './RulesValidator.js';
+export { RulesValidator } from './RulesValidator.js';
@@ -0,0 +1,137 @@
+/**
+ * SecretsScanner
+ *
+ * Finds API keys, tokens, private keys and passwords in written content, in
+ * any kind of file. Findings block the write whatever the other settings,
+ * except in excluded files (such as `.env.example`), where they are
+ * downgraded to warnings.
+ */
+
+import { PatternMatcher } from '../../hooks/PatternMatcher.js';
+import type { SecretsConfig } from '../../types/config.js';
+import type { ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
+import {
+  DEFAULT_ENTROPY_THRESHOLD,
+  getAssignmentPatterns,
+  isPlaceholder,
+  KNOWN_SECRET_PATTERNS,
+  type SecretPattern,
+  shannonEntropy,
+} from './patterns.js';
+
+/**
+ * Files whose secrets are examples, relative to the project root
+ */
+export const DEFAULT_SECRETS_EXCLUDE = [
+  '**/.env.example',
+  '**/.env.sample',
+  '**/.env.template',
+  '**/*.example',
+  '**/*.sample',
+];
+
+const SOURCE_FILE = /\.[cm]?[jt]sx?$/i;
+
+/**
+ * Characters of a secret shown in messages
+ */
+const VISIBLE_PREFIX = 4;
+
+export class SecretsScanner {
+  private readonly patterns: SecretPattern[];
+  private readonly excluded: PatternMatcher;
+
+  constructor(config: SecretsConfig = { enabled: true }, projectRoot: string = process.cwd()) {
+    this.patterns = [
+      ...KNOWN_SECRET_PATTERNS,
+      ...(config.patterns ?? []).flatMap((custom): SecretPattern[] => {
+        try {
+          const flags = new Set(`g${custom.flags ?? ''}`);
+          return [
+            {
+              id: custom.name,
+              description: custom.description ?? custom.name,
+              pattern: new RegExp(custom.pattern, [...flags].join('')),
+            },
+          ];
+        } catch (error) {
+          console.warn(`[SecretsScanner] Ignoring invalid pattern '${custom.name}': ${error}`);
+          return [];
+        }
+      }),
+      ...getAssignmentPatterns(config.entropyThreshold ?? DEFAULT_ENTROPY_THRESHOLD),
+    ];
+    this.excluded = new PatternMatcher(
+      config.exclude ?? DEFAULT_SECRETS_EXCLUDE,
+      undefined,
+      projectRoot
+    );
+  }
+
+  /**
+   * Find the secrets in a file
+   *
+   * @param written - Text the tool call wrote; when given, only secrets that
+   *   appear in it are reported, so secrets already in the file do not block
+   *   unrelated edits
+   */
+  scan(file: { path: string; content: string }, written?: string[]): ValidationIssue[] {
+    const severity = this.excluded.shouldValidate(file.path) ? 'warning' : 'error';
+    const isSource = SOURCE_FILE.test(file.path);
+    const issues: ValidationIssue[] = [];
+    const reported = new Set<number>();
+
+    for (const { id, description, pattern, minEntropy, skipInSources } of this.patterns) {
+      if (skipInSources && isSource) {
+        continue;
+      }
+      for (const match of file.content.matchAll(pattern)) {
+        const value = match[1] ?? match[0];
+        const offset = match.index + match[0].indexOf(value);
+
+        if (
+          value.length === 0 ||
+          reported.has(offset) ||
+          isPlaceholder(value) ||
+          (minEntropy !== undefined && shannonEntropy(value) < minEntropy) ||
+          (written && !written.some((text) => text.includes(value)))
+        ) {
+          continue;
+        }
+        reported.add(offset);
+
+        const before = file.content.slice(0, offset);
+        const line = before.split('\n').length;
+        const column = offset - before.lastIndexOf('\n');
+        issues.push({
+          file: file.path,
+          line,
+          column,
+          endLine: line,
+          endColumn: column + value.length,
+          severity,
+          message: `${description} found: ${mask(value)}`,
+          fixed: false,
+          fixable: false,
+          kind: 'lint',
+          source: 'secrets',
+          ruleId: id,
+          suggestion:
+            'Remove it and read it from an environment variable or a secret manager; rotate it if it is real',
+        });
+      }
+    }
+
+    return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+}
+
+/**
+ * Show only the start and the length of a secret
+ */
+function mask(value: string): string {
+  if (value.startsWith('-----')) {
+    return value;
+  }
+  return `${value.slice(0, VISIBLE_PREFIX)}${'*'.repeat(8)} (${value.length} characters)`;
+}
@@ -0,0 +1,12 @@
+/**
+ * Secret detection exports
+ */
+
+export type { SecretPattern } from './patterns.js';
+export {
+  DEFAULT_ENTROPY_THRESHOLD,
+  isPlaceholder,
+  KNOWN_SECRET_PATTERNS,
+  shannonEntropy,
+} from './patterns.js';
+export { DEFAULT_SECRETS_EXCLUDE, SecretsScanner } from './SecretsScanner.js';
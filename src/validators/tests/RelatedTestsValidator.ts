@@ -0,0 +1,225 @@
+/**
+ * RelatedTestsValidator
+ *
+ * Runs the tests related to an edited file with the project's Vitest or Jest
+ * and reports failing tests, so behavior changes are caught along with type
+ * and lint errors. The test runner is not a dependency of this package: when
+ * the project has neither, tests are skipped.
+ */
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { execa } from 'execa';
+import type { TestsConfig } from '../../types/config.js';
+import { getProcessTimeout } from '../../utils/processTimeout.js';
+import type { ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
+import { findRelatedTestFiles } from './findRelatedTests.js';
+import { parseTestReport, type TestReport } from './testReport.js';
+
+export type TestRunner = 'vitest' | 'jest';
+
+export interface RelatedTestsResult {
+  success: boolean;
+  issues: ValidationIssue[];
+  error?: string | undefined;
+}
+
+export class RelatedTestsValidator {
+  public readonly name = 'tests';
+  private config: TestsConfig;
+  private projectRoot: string;
+  private timeout: number;
+  private runner: TestRunner | null | undefined;
+
+  /**
+   * @param hookTimeout - The configuration's `timeout`, which test runs must finish within
+   */
+  constructor(config: TestsConfig, projectRoot: string = process.cwd(), hookTimeout?: number) {
+    this.config = config;
+    this.projectRoot = projectRoot;
+    this.timeout = getProcessTimeout(hookTimeout, config.timeout);
+  }
+
+  /**
+   * Get the configured test runner, or the one the project depends on
+   */
+  private async getRunner(): Promise<TestRunner | null> {
+    if (this.runner !== undefined) {
+      return this.runner;
+    }
+
+    this.runner = this.config.runner ?? (await detectTestRunner(this.projectRoot));
+    if (!this.runner) {
+      console.warn(
+        '[RelatedTestsValidator] Neither Vitest nor Jest found in the project. Tests will be skipped.'
+      );
+    }
+    return this.runner;
+  }
+
+  /**
+   * Run the tests related to a file
+   *
+   * Tests import the files on disk, so content that is not saved yet is not
+   * tested. A run that exceeds the time budget is stopped and reported as a
+   * warning.
+   *
+   * @param signal - Aborted when the hook times out, which stops the run
+   */
+  async validate(
+    file: { path: string; content: string },
+    signal?: AbortSignal
+  ): Promise<RelatedTestsResult> {
+    try {
+      const diskContent = await readFile(file.path, 'utf8').catch(() => null);
+      if (diskContent !== file.content) {
+        return { success: true, issues: [] };
+      }
+
+      const runner = await this.getRunner();
+      if (!runner) {
+        return { success: true, issues: [] };
+      }
+
+      let testFiles: string[] | null = null;
+      if (this.config.related === 'graph') {
+        testFiles = await findRelatedTestFiles(file.path, {
+          projectRoot: this.projectRoot,
+          testFiles: this.config.testFiles,
+          testFileNames: this.config.testFileNames,
+        });
+        if (testFiles.length === 0) {
+          return { success: true, issues: [] };
+        }
+      }
+
+      return await this.runTests(runner, file.path, testFiles, signal);
+    } catch (error) {
+      return {
+        success: false,
+        issues: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Run the runner with a JSON report written to a temporary directory
+   *
+   * @param testFiles - Test files to run, or null to let the runner find the
+   *   tests related to the file
+   */
+  private async runTests(
+    runner: TestRunner,
+    filePath: string,
+    testFiles: string[] | null,
+    signal: AbortSignal | undefined
+  ): Promise<RelatedTestsResult> {
+    const reportDirectory = await mkdtemp(join(tmpdir(), 'jsqualityhooks-tests-'));
+    const reportPath = join(reportDirectory, 'report.json');
+    const timeout = this.timeout;
+
+    try {
+      const result = await execa(
+        'npx',
+        [runner, ...buildArgs(runner, filePath, testFiles, reportPath)],
+        {
+          cwd: this.projectRoot,
+          timeout,
+          ...(signal ? { cancelSignal: signal } : {}),
+          stdio: 'pipe',
+          reject: false, // Failing tests exit with a non-zero code
+        }
+      );
+
+      if (result.isCanceled) {
+        return { success: true, issues: [], error: 'Related tests were stopped with the hook' };
+      }
+
+      if (result.timedOut) {
+        return {
+          success: true,
+          issues: [
+            {
+              file: filePath,
+              line: 1,
+              column: 1,
+              severity: 'warning',
+              message: `Related tests did not finish within ${timeout}ms and were stopped`,
+              fixed: false,
+              fixable: false,
+              source: 'tests',
+            },
+          ],
+        };
+      }
+
+      const report = await readFile(reportPath, 'utf8')
+        .then((text) => JSON.parse(text) as TestReport)
+        .catch(() => null);
+      if (!report) {
+        const detail = result.stderr.trim().split('\n')[0];
+        return {
+          success: false,
+          issues: [],
+          error: `${runner} did not write a test report${detail ? `: ${detail}` : ''}`,
+        };
+      }
+
+      const issues = parseTestReport(report);
+      return { success: issues.length === 0, issues };
+    } finally {
+      await rm(reportDirectory, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Build the runner arguments for a run with a JSON report
+ */
+function buildArgs(
+  runner: TestRunner,
+  filePath: string,
+  testFiles: string[] | null,
+  reportPath: string
+): string[] {
+  if (runner === 'vitest') {
+    return [
+      ...(testFiles ? ['run', ...testFiles] : ['related', filePath, '--run']),
+      '--passWithNoTests',
+      '--reporter=json',
+      `--outputFile=${reportPath}`,
+      '--includeTaskLocation',
+    ];
+  }
+
+  return [
+    '--ci',
+    ...(testFiles ? ['--runTestsByPath', ...testFiles] : ['--findRelatedTests', filePath]),
+    '--passWithNoTests',
+    '--json',
+    `--outputFile=${reportPath}`,
+    '--testLocationInResults',
+  ];
+}
+
+/**
+ * Find the test runner in the project's dependencies, preferring Vitest
+ */
+async function detectTestRunner(projectRoot: string): Promise<TestRunner | null> {
+  try {
+    const packageJson = JSON.parse(await readFile(join(projectRoot, 'package.json'), 'utf8')) as {
+      dependencies?: Record<string, string>;
+      devDependencies?: Record<string, string>;
+    };
+    const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+
+    if (dependencies.vitest) {
+      return 'vitest';
+    }
+    return dependencies.jest ? 'jest' : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Related Test Lookup
+ *
+ * Finds the test files related to a source file without asking the test
+ * runner: test files named after the source, and test files importing it.
+ */
+
+import { basename, extname, resolve } from 'node:path';
+import fg from 'fast-glob';
+import { findDependents } from '../../utils/dependencyGraph.js';
+
+/**
+ * Test files of a project, by the common conventions
+ */
+export const DEFAULT_TEST_FILES = ['**/*.{test,spec}.{ts,tsx,mts,cts,js,jsx,mjs,cjs}'];
+
+/**
+ * Test file names of a source file, `{name}` being its name without extension
+ */
+export const DEFAULT_TEST_FILE_NAMES = ['{name}.test', '{name}.spec'];
+
+/**
+ * Options of the related test lookup
+ */
+export interface RelatedTestOptions {
+  projectRoot: string;
+  /** Globs of the project's test files */
+  testFiles?: string[] | undefined;
+  /** Test file names of a source file */
+  testFileNames?: string[] | undefined;
+}
+
+/**
+ * Find the test files related to a source file
+ *
+ * A test file is its own related test. Otherwise, test files whose name
+ * (without extension) matches one of the test file names, and test files
+ * that import the source directly, are related.
+ *
+ * @returns Absolute paths of the related test files
+ */
+export async function findRelatedTestFiles(
+  filePath: string,
+  { projectRoot, testFiles, testFileNames }: RelatedTestOptions
+): Promise<string[]> {
+  const source = resolve(filePath);
+  const candidates = await fg(testFiles ?? DEFAULT_TEST_FILES, {
+    cwd: projectRoot,
+    ignore: ['**/node_modules/**'],
+    absolute: true,
+    onlyFiles: true,
+  }).then((files) => files.map((file) => resolve(file)));
+
+  if (candidates.includes(source)) {
+    return [source];
+  }
+
+  const name = stripExtension(basename(source));
+  const names = new Set(
+    (testFileNames ?? DEFAULT_TEST_FILE_NAMES).map((template) =>
+      template.replaceAll('{name}', name)
+    )
+  );
+  const named = candidates.filter((candidate) => names.has(stripExtension(basename(candidate))));
+  const importing = await findDependents([source], candidates);
+
+  return [...new Set([...named, ...importing])].sort();
+}
+
+function stripExtension(fileName: string): string {
+  return fileName.slice(0, fileName.length - extname(fileName).length);
+}
@@ -0,0 +1,14 @@
+/**
+ * Related tests validator exports
+ */
+
+export type { RelatedTestOptions } from './findRelatedTests.js';
+export {
+  DEFAULT_TEST_FILE_NAMES,
+  DEFAULT_TEST_FILES,
+  findRelatedTestFiles,
+} from './findRelatedTests.js';
+export type { RelatedTestsResult, TestRunner } from './RelatedTestsValidator.js';
+export { RelatedTestsValidator } from './RelatedTestsValidator.js';
+export type { TestAssertionResult, TestFileResult, TestReport } from './testReport.js';
+export { parseTestReport } from './testReport.js';
@@ -0,0 +1,132 @@
+/**
+ * Test Report Parser
+ *
+ * Converts the JSON report that Vitest and Jest both write (Jest's format)
+ * into ValidationIssue objects: one per failing test, located in its test
+ * file, plus one per test file that failed without running its tests.
+ */
+
+import type { ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
+
+/**
+ * Most lines of a failure message kept as notes
+ */
+const MAX_NOTE_LINES = 10;
+
+/**
+ * Terminal color codes in failure messages
+ */
+// biome-ignore lint/suspicious/noControlCharactersInRegex: Color codes start with an escape character
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+/**
+ * Result of a single test
+ */
+export interface TestAssertionResult {
+  ancestorTitles?: string[] | undefined;
+  title: string;
+  fullName?: string | undefined;
+  status: string;
+  failureMessages?: string[] | null | undefined;
+  location?: { line: number; column: number } | null | undefined;
+}
+
+/**
+ * Results of a test file
+ */
+export interface TestFileResult {
+  /** Absolute path of the test file */
+  name: string;
+  status?: string | undefined;
+  /** Why the file failed, e.g. an import error */
+  message?: string | undefined;
+  assertionResults?: TestAssertionResult[] | undefined;
+}
+
+/**
+ * JSON report of a test run
+ */
+export interface TestReport {
+  numFailedTests?: number | undefined;
+  testResults?: TestFileResult[] | undefined;
+}
+
+/**
+ * Convert the failures of a test report into ValidationIssues
+ */
+export function parseTestReport(report: TestReport): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const fileResult of report.testResults ?? []) {
+    const failed = (fileResult.assertionResults ?? []).filter(
+      (assertion) => assertion.status === 'failed'
+    );
+
+    for (const assertion of failed) {
+      const name =
+        assertion.fullName ?? [...(assertion.ancestorTitles ?? []), assertion.title].join(' > ');
+      const failure = readFailure(assertion.failureMessages?.[0]);
+
+      issues.push(
+        createTestIssue(
+          fileResult.name,
+          `Test "${name}" failed${failure.summary ? `: ${failure.summary}` : ''}`,
+          failure.notes,
+          assertion.location ?? undefined
+        )
+      );
+    }
+
+    // The file failed before its tests could run, e.g. on an import error
+    if (failed.length === 0 && fileResult.status === 'failed') {
+      const failure = readFailure(fileResult.message);
+      issues.push(
+        createTestIssue(
+          fileResult.name,
+          `Test file failed${failure.summary ? `: ${failure.summary}` : ''}`,
+          failure.notes
+        )
+      );
+    }
+  }
+
+  return issues;
+}
+
+function createTestIssue(
+  file: string,
+  message: string,
+  notes: string[],
+  location?: { line: number; column: number }
+): ValidationIssue {
+  return {
+    file,
+    line: location?.line ?? 1,
+    column: location?.column ?? 1,
+    severity: 'error',
+    message,
+    fixed: false,
+    fixable: false,
+    source: 'tests',
+    notes: notes.length > 0 ? notes : undefined,
+  };
+}
+
+/**
+ * Split a failure message into its first line and the lines before the stack trace
+ */
+function readFailure(message: string | undefined): { summary: string; notes: string[] } {
+  const lines = (message ?? '')
+    .replace(ANSI_PATTERN, '')
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd());
+  const stackStart = lines.findIndex((line) => /^\s+at /.test(line));
+  const relevant = (stackStart === -1 ? lines : lines.slice(0, stackStart)).filter(
+    (line) => line.trim().length > 0
+  );
+
+  return {
+    summary: relevant[0]?.trim() ?? '',
+    notes: relevant.slice(1, MAX_NOTE_LINES + 1),
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Overlay Language Service Host
+ *
+ * LanguageService host backed by a virtual file system: files with in-memory
+ * content are served from an overlay, everything else is read from disk.
+ * This lets content that has not been written yet (proposed edits, fixed
+ * content being verified) be checked against the rest of the project.
+ */
+
+import { statSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type ts from 'typescript';
+
+/**
+ * LanguageService host with an in-memory overlay over the file system
+ */
+export class OverlayLanguageServiceHost implements ts.LanguageServiceHost {
+  private readonly overlay = new Map<string, { content: string; version: number }>();
+  private readonly rootFiles = new Set<string>();
+  private overlayVersion = 0;
+
+  /**
+   * @param projectFiles - Files of the project (from tsconfig), e.g. so missing imports can be found
+   */
+  constructor(
+    private readonly typescript: typeof ts,
+    private readonly options: ts.CompilerOptions,
+    private readonly projectRoot: string = process.cwd(),
+    projectFiles: readonly string[] = []
+  ) {
+    for (const file of projectFiles) {
+      this.rootFiles.add(resolve(file));
+    }
+  }
+
+  /**
+   * Serve content for a path instead of the copy on disk
+   */
+  setOverlay(filePath: string, content: string): void {
+    const path = resolve(filePath);
+    const current = this.overlay.get(path);
+    if (current?.content !== content) {
+      this.overlayVersion += 1;
+      this.overlay.set(path, { content, version: this.overlayVersion });
+    }
+    this.rootFiles.add(path);
+  }
+
+  /**
+   * Read a path from disk again
+   */
+  clearOverlay(filePath: string): void {
+    this.overlay.delete(resolve(filePath));
+  }
+
+  getCompilationSettings(): ts.CompilerOptions {
+    return this.options;
+  }
+
+  getScriptFileNames(): string[] {
+    return [...this.rootFiles];
+  }
+
+  getScriptVersion(fileName: string): string {
+    const overlay = this.overlay.get(resolve(fileName));
+    if (overlay) {
+      return `overlay-${overlay.version}`;
+    }
+
+    try {
+      return String(statSync(fileName).mtimeMs);
+    } catch {
+      return '';
+    }
+  }
+
+  getScriptSnapshot(fileName: string): ts.IScriptSnapshot | undefined {
+    const content = this.readFile(fileName);
+    return content === undefined ? undefined : this.typescript.ScriptSnapshot.fromString(content);
+  }
+
+  getCurrentDirectory(): string {
+    return this.projectRoot;
+  }
+
+  getDefaultLibFileName(options: ts.CompilerOptions): string {
+    return this.typescript.getDefaultLibFilePath(options);
+  }
+
+  fileExists(fileName: string): boolean {
+    return this.overlay.has(resolve(fileName)) || this.typescript.sys.fileExists(fileName);
+  }
+
+  readFile(fileName: string, encoding?: string): string | undefined {
+    return (
+      this.overlay.get(resolve(fileName))?.content ??
+      this.typescript.sys.readFile(fileName, encoding)
+    );
+  }
+
+  readDirectory(
+    path: string,
+    extensions?: readonly string[],
+    exclude?: readonly string[],
+    include?: readonly string[],
+    depth?: number
+  ): string[] {
+    return this.typescript.sys.readDirectory(path, extensions, exclude, include, depth);
+  }
+
+  directoryExists(directoryName: string): boolean {
+    return this.typescript.sys.directoryExists(directoryName);
+  }
+
+  getDirectories(directoryName: string): string[] {
+    return this.typescript.sys.getDirectories(directoryName);
+  }
+
+  useCaseSensitiveFileNames(): boolean {
+    return this.typescript.sys.useCaseSensitiveFileNames;
+  }
+}
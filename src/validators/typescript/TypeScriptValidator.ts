@@ -3,16 +3,36 @@
  *
  * Provides TypeScript type checking using the TypeScript Compiler API.
  * Handles tsconfig discovery, program creation, and diagnostic parsing.
+ *
+ * Checking is incremental: the builder program and parsed source files are
+ * kept between validations, and the builder state is persisted to a
+ * .tsbuildinfo file so a new process only rechecks files that changed since
+ * the last run and the files that depend on them. Content that differs from
+ * the file on disk is checked through a LanguageService whose host overlays
+ * it on the project, which also supplies quick fixes for diagnostics when
+ * auto-fix is enabled. The LanguageService reuses the source files the builder
+ * parsed, so files are not parsed twice.
  */
 
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
 import type { TypeScriptConfig } from '../../types/config.js';
-import type { ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
+import type { IssueFix, ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
 import { filterDiagnosticsForFile, parseDiagnostics } from './diagnosticParser.js';
+import { OverlayLanguageServiceHost } from './OverlayLanguageServiceHost.js';
+import { getQuickFixes } from './quickFixes.js';
+import { createSharedDocumentRegistry } from './sharedDocumentRegistry.js';
 import { getDefaultCompilerOptions, loadTSConfigWithDiscovery } from './tsconfigLoader.js';
 
 // TypeScript is imported dynamically to handle cases where it's not available
 let ts: typeof import('typescript') | null = null;
 
+/**
+ * Directory, relative to the project root, where builder state is persisted
+ */
+const CACHE_DIR = join('node_modules', '.cache', 'claude-jsqualityhooks');
+
 export interface TypeScriptValidationResult {
   success: boolean;
   issues: ValidationIssue[];
@@ -34,14 +54,33 @@ export interface ValidationResult {
 export class TypeScriptValidator {
   public readonly name = 'typescript';
   private config: TypeScriptConfig;
-  private program: import('typescript').Program | null = null;
+  private builder: import('typescript').SemanticDiagnosticsBuilderProgram | null = null;
+  private sourceFiles = new Map<
+    string,
+    { text: string; sourceFile: import('typescript').SourceFile }
+  >();
+  private languageService: {
+    service: import('typescript').LanguageService;
+    host: OverlayLanguageServiceHost;
+  } | null = null;
+  private optionsKey: string | null = null;
+  private projectFiles: string[] = [];
   private projectRoot: string;
   private initialized = false;
   private tsAvailable = false;
+  private quickFixes: boolean;
 
-  constructor(config: TypeScriptConfig, projectRoot: string = process.cwd()) {
+  /**
+   * @param quickFixes - Attach quick fixes to issues, for auto-fix to apply
+   */
+  constructor(
+    config: TypeScriptConfig,
+    projectRoot: string = process.cwd(),
+    quickFixes: boolean = false
+  ) {
     this.config = config;
     this.projectRoot = projectRoot;
+    this.quickFixes = quickFixes;
   }
 
   /**
@@ -67,9 +106,12 @@ export class TypeScriptValidator {
   }
 
   /**
-   * Create or update TypeScript program
+   * Load compiler options from tsconfig (or defaults) for type checking only
+   *
+   * Parsed files, the old program and the language service are dropped when
+   * the options change.
    */
-  private async createProgram(filePaths: string[]): Promise<import('typescript').Program | null> {
+  private async loadCompilerOptions(): Promise<import('typescript').CompilerOptions | null> {
     if (!ts || !this.tsAvailable) {
       return null;
     }
@@ -87,6 +129,7 @@ export class TypeScriptValidator {
       const tsConfigResult = await loadTSConfigWithDiscovery(tsConfigOptions);
 
       let compilerOptions: import('typescript').CompilerOptions;
+      let projectFiles: string[] = [];
 
       if (tsConfigResult) {
         // Parse compiler options using TypeScript's API
@@ -104,6 +147,7 @@ export class TypeScriptValidator {
         }
 
         compilerOptions = parsed.options;
+        projectFiles = parsed.fileNames;
       } else {
         // Use default compiler options if no config found
         compilerOptions = ts.convertCompilerOptionsFromJson(
@@ -115,28 +159,161 @@ export class TypeScriptValidator {
       // Ensure noEmit is true (we only want type checking)
       compilerOptions.noEmit = true;
 
+      // Persist builder state per tsconfig in the cache directory
+      const configId = createHash('sha1')
+        .update(tsConfigResult?.configPath ?? 'default')
+        .digest('hex')
+        .slice(0, 12);
+      compilerOptions.incremental = true;
+      compilerOptions.tsBuildInfoFile = join(
+        this.projectRoot,
+        CACHE_DIR,
+        `typescript-${configId}.tsbuildinfo`
+      );
+
+      const optionsKey = JSON.stringify(compilerOptions);
+      if (optionsKey !== this.optionsKey) {
+        this.optionsKey = optionsKey;
+        this.builder = null;
+        this.sourceFiles.clear();
+        this.languageService?.service.dispose();
+        this.languageService = null;
+      }
+      this.projectFiles = projectFiles;
+
+      return compilerOptions;
+    } catch (error) {
+      console.warn(`Failed to load TypeScript configuration: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Create or update TypeScript program
+   *
+   * The previous builder program is reused, or restored from the persisted
+   * .tsbuildinfo in a fresh process, so unchanged files are not rechecked.
+   *
+   * @param filePaths - Root files of the program
+   */
+  private createProgram(
+    filePaths: string[],
+    compilerOptions: import('typescript').CompilerOptions
+  ): import('typescript').SemanticDiagnosticsBuilderProgram | null {
+    if (!ts) {
+      return null;
+    }
+
+    try {
       // Create compiler host
-      const host = ts.createCompilerHost(compilerOptions);
+      const host = ts.createIncrementalCompilerHost(compilerOptions);
+      this.reuseSourceFiles(host);
 
-      // Create program with the provided files
-      this.program = ts.createProgram({
-        rootNames: filePaths,
-        options: compilerOptions,
+      // Create program with the provided files, reusing the previous state
+      this.builder = ts.createSemanticDiagnosticsBuilderProgram(
+        filePaths,
+        compilerOptions,
         host,
-      });
+        this.builder ?? ts.readBuilderProgram(compilerOptions, host)
+      );
 
-      return this.program;
+      return this.builder;
     } catch (error) {
       console.warn(`Failed to create TypeScript program: ${error}`);
       return null;
     }
   }
 
+  /**
+   * Get the root files of the program for checking a file
+   *
+   * Like the language service, the program holds the files of the tsconfig,
+   * so both see the same global declarations, and the .tsbuildinfo persisted
+   * after one file covers the next file checked too. Files the tsconfig does
+   * not include are added.
+   */
+  private getRootNames(filePath: string): string[] {
+    const path = resolve(filePath);
+    const rootNames = this.projectFiles.map((file) => resolve(file));
+    return rootNames.includes(path) ? rootNames : [...rootNames, path];
+  }
+
+  /**
+   * Get the language service used to check content that is not on disk
+   */
+  private getLanguageService(compilerOptions: import('typescript').CompilerOptions): {
+    service: import('typescript').LanguageService;
+    host: OverlayLanguageServiceHost;
+  } | null {
+    if (!ts) {
+      return null;
+    }
+
+    if (!this.languageService) {
+      const host = new OverlayLanguageServiceHost(
+        ts,
+        compilerOptions,
+        this.projectRoot,
+        this.projectFiles
+      );
+      this.languageService = {
+        service: ts.createLanguageService(host, createSharedDocumentRegistry(ts, this.sourceFiles)),
+        host,
+      };
+    }
+
+    return this.languageService;
+  }
+
+  /**
+   * Parse source files through the host's readFile and reuse them while their text is unchanged
+   *
+   * Versions are content hashes, which lets the builder tell which files changed.
+   */
+  private reuseSourceFiles(host: import('typescript').CompilerHost): void {
+    host.getSourceFile = (fileName, languageVersion, onError) => {
+      const text = host.readFile(fileName);
+      if (text === undefined) {
+        onError?.(`File not found: ${fileName}`);
+        return undefined;
+      }
+
+      const cached = this.sourceFiles.get(fileName);
+      if (cached && cached.text === text) {
+        return cached.sourceFile;
+      }
+
+      if (!ts) {
+        return undefined;
+      }
+      const sourceFile = ts.createSourceFile(fileName, text, languageVersion);
+      Object.assign(sourceFile, { version: host.createHash?.(text) ?? text });
+      this.sourceFiles.set(fileName, { text, sourceFile });
+      return sourceFile;
+    };
+  }
+
+  /**
+   * Persist the builder state so the next process can start incrementally
+   */
+  private saveBuildInfo(builder: import('typescript').SemanticDiagnosticsBuilderProgram): void {
+    try {
+      // With noEmit, emitting only writes the .tsbuildinfo file
+      builder.emit();
+    } catch (error) {
+      console.warn(`Failed to write TypeScript build info: ${error}`);
+    }
+  }
+
   /**
    * Get diagnostics for a specific file
+   *
+   * Files affected by changes since the last check are walked first, so the
+   * file's cached diagnostics are dropped when a file it depends on changed.
+   * Only the requested file is actually rechecked.
    */
   private getDiagnosticsForFile(
-    program: import('typescript').Program,
+    builder: import('typescript').SemanticDiagnosticsBuilderProgram,
     filePath: string
   ): import('typescript').Diagnostic[] {
     if (!ts) {
@@ -144,20 +321,94 @@ export class TypeScriptValidator {
     }
 
     try {
-      // Get all diagnostics
-      const allDiagnostics = [
-        ...program.getSyntacticDiagnostics(),
-        ...program.getSemanticDiagnostics(),
+      const sourceFile = builder.getSourceFile(resolve(filePath));
+      if (!sourceFile) {
+        return [];
+      }
+
+      let affected: ReturnType<typeof builder.getSemanticDiagnosticsOfNextAffectedFile>;
+      do {
+        affected = builder.getSemanticDiagnosticsOfNextAffectedFile(
+          undefined,
+          (file) => file !== sourceFile
+        );
+      } while (affected);
+
+      const diagnostics = [
+        ...builder.getSyntacticDiagnostics(sourceFile),
+        ...builder.getSemanticDiagnostics(sourceFile),
       ];
 
       // Filter for the specific file
-      return filterDiagnosticsForFile(allDiagnostics, filePath);
+      return filterDiagnosticsForFile(diagnostics, filePath);
     } catch (error) {
       console.warn(`Failed to get TypeScript diagnostics: ${error}`);
       return [];
     }
   }
 
+  /**
+   * Get diagnostics for in-memory content of a file
+   *
+   * The content is overlaid on the project for the duration of the check;
+   * all other files are read from disk.
+   */
+  private getDiagnosticsForContent(
+    file: FileInfo,
+    compilerOptions: import('typescript').CompilerOptions
+  ): import('typescript').Diagnostic[] {
+    const languageService = this.getLanguageService(compilerOptions);
+    if (!languageService) {
+      return [];
+    }
+
+    const { service, host } = languageService;
+    const fileName = resolve(file.path);
+    host.setOverlay(fileName, file.content);
+
+    try {
+      const diagnostics = [
+        ...service.getSyntacticDiagnostics(fileName),
+        ...service.getSemanticDiagnostics(fileName),
+      ];
+
+      return filterDiagnosticsForFile(diagnostics, fileName);
+    } finally {
+      host.clearOverlay(fileName);
+    }
+  }
+
+  /**
+   * Find safe quick fixes for diagnostics of a file
+   */
+  private findQuickFixes(
+    file: FileInfo,
+    diagnostics: import('typescript').Diagnostic[],
+    compilerOptions: import('typescript').CompilerOptions
+  ): Map<import('typescript').Diagnostic, IssueFix> {
+    if (!this.quickFixes || diagnostics.length === 0) {
+      return new Map();
+    }
+
+    const languageService = this.getLanguageService(compilerOptions);
+    if (!ts || !languageService) {
+      return new Map();
+    }
+
+    const { service, host } = languageService;
+    const fileName = resolve(file.path);
+    host.setOverlay(fileName, file.content);
+
+    try {
+      return getQuickFixes(ts, service, fileName, diagnostics);
+    } catch (error) {
+      console.warn(`Failed to get TypeScript quick fixes: ${error}`);
+      return new Map();
+    } finally {
+      host.clearOverlay(fileName);
+    }
+  }
+
   /**
    * Validate a single file using TypeScript
    */
@@ -174,10 +425,9 @@ export class TypeScriptValidator {
         };
       }
 
-      // Create program with the file
-      const program = await this.createProgram([file.path]);
+      const compilerOptions = await this.loadCompilerOptions();
 
-      if (!program) {
+      if (!compilerOptions) {
         return {
           validator: this.name,
           status: 'error',
@@ -185,12 +435,32 @@ export class TypeScriptValidator {
         };
       }
 
-      // Get diagnostics for the file
-      const diagnostics = this.getDiagnosticsForFile(program, file.path);
+      // Content that matches the file on disk is checked incrementally,
+      // anything else (proposed or fixed content) through the overlay
+      const diskContent = await readFile(file.path, 'utf8').catch(() => null);
+      let diagnostics: import('typescript').Diagnostic[];
+
+      if (diskContent === file.content) {
+        const program = this.createProgram(this.getRootNames(file.path), compilerOptions);
+
+        if (!program) {
+          return {
+            validator: this.name,
+            status: 'error',
+            issues: [],
+          };
+        }
+
+        diagnostics = this.getDiagnosticsForFile(program, file.path);
+        this.saveBuildInfo(program);
+      } else {
+        diagnostics = this.getDiagnosticsForContent(file, compilerOptions);
+      }
 
       // Parse diagnostics to ValidationIssue format
       const issues = parseDiagnostics(diagnostics, {
         projectRoot: this.projectRoot,
+        fixes: this.findQuickFixes(file, diagnostics, compilerOptions),
       });
 
       // Determine status based on issues
@@ -252,7 +522,11 @@ export class TypeScriptValidator {
    * Dispose of resources
    */
   dispose(): void {
-    this.program = null;
+    this.builder = null;
+    this.sourceFiles.clear();
+    this.languageService?.service.dispose();
+    this.languageService = null;
+    this.optionsKey = null;
     // TypeScript doesn't require explicit cleanup in most cases
   }
 
@@ -6,11 +6,13 @@
  */
 
 import type ts from 'typescript';
-import type { ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
+import type { IssueFix, ValidationIssue } from '../biome/adapters/BiomeAdapter.js';
 
 export interface DiagnosticParserOptions {
   /** Project root for relative path calculation */
   projectRoot?: string;
+  /** Quick fixes found for diagnostics, attached to their issues */
+  fixes?: Map<ts.Diagnostic, IssueFix>;
 }
 
 /**
@@ -32,19 +34,35 @@ function mapDiagnosticSeverity(category: ts.DiagnosticCategory): ValidationIssue
 }
 
 /**
- * Get line and column numbers from TypeScript diagnostic
+ * Classify diagnostic as a syntax or type error
+ *
+ * TypeScript reports parse and grammar errors in the 1xxx code range.
+ */
+function classifyDiagnostic(diagnostic: ts.Diagnostic): ValidationIssue['kind'] {
+  return diagnostic.code >= 1000 && diagnostic.code < 2000 ? 'syntax' : 'type';
+}
+
+/**
+ * Get the range of a TypeScript diagnostic as 1-based lines and columns
  */
-function getPositionFromDiagnostic(diagnostic: ts.Diagnostic): { line: number; column: number } {
+function getRangeFromDiagnostic(
+  diagnostic: ts.Diagnostic
+): Pick<ValidationIssue, 'line' | 'column' | 'endLine' | 'endColumn'> {
   if (!diagnostic.file || diagnostic.start === undefined) {
     return { line: 0, column: 0 };
   }
 
-  const lineAndChar = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  const start = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  const end = diagnostic.file.getLineAndCharacterOfPosition(
+    diagnostic.start + (diagnostic.length ?? 0)
+  );
 
   // Convert to 1-based indexing to match other validators
   return {
-    line: lineAndChar.line + 1,
-    column: lineAndChar.character + 1,
+    line: start.line + 1,
+    column: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1,
   };
 }
 
@@ -91,18 +109,24 @@ export function parseDiagnostic(
   diagnostic: ts.Diagnostic,
   options: DiagnosticParserOptions = {}
 ): ValidationIssue {
-  const { projectRoot = process.cwd() } = options;
-  const position = getPositionFromDiagnostic(diagnostic);
+  const { projectRoot = process.cwd(), fixes } = options;
+  const range = getRangeFromDiagnostic(diagnostic);
   const filePath = diagnostic.file?.fileName;
+  const fix = fixes?.get(diagnostic);
 
   return {
     file: getRelativeFilePath(filePath, projectRoot),
-    line: position.line,
-    column: position.column,
+    ...range,
     severity: mapDiagnosticSeverity(diagnostic.category),
     message: formatDiagnosticMessage(diagnostic.messageText),
     fixed: false, // TypeScript validation doesn't auto-fix
-    fixable: false, // We don't implement TypeScript quick fixes in v1
+    fixable: fix !== undefined,
+    kind: classifyDiagnostic(diagnostic),
+    source: 'typescript',
+    ruleId: `TS${diagnostic.code}`,
+    code: diagnostic.code,
+    category: 'type',
+    ...(fix && { fix }),
   };
 }
 
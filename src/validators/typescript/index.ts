@@ -9,6 +9,7 @@ export {
   parseDiagnostic,
   parseDiagnostics,
 } from './diagnosticParser.js';
+export { getQuickFixes, isSafeQuickFix, SAFE_QUICK_FIXES } from './quickFixes.js';
 export type {
   FileInfo,
   TypeScriptValidationResult,
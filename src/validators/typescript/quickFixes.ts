@@ -0,0 +1,89 @@
+/**
+ * TypeScript Quick Fixes
+ *
+ * Asks the LanguageService for code fixes at each diagnostic and keeps those
+ * safe to apply without review: they only touch the diagnosed file and do not
+ * change what working code does.
+ */
+
+import { resolve } from 'node:path';
+import type ts from 'typescript';
+import type { IssueFix } from '../biome/adapters/BiomeAdapter.js';
+
+/**
+ * Code fix names that are safe to apply automatically
+ */
+export const SAFE_QUICK_FIXES: readonly string[] = [
+  'import', // Add a missing import
+  'addMissingAwait', // Add a missing `await`
+  'unusedIdentifier', // Remove an unused declaration or import
+  'spelling', // Correct a misspelled name
+];
+
+/**
+ * Check whether a fix may be applied automatically
+ */
+export function isSafeQuickFix(fix: IssueFix): boolean {
+  return SAFE_QUICK_FIXES.includes(fix.fixName);
+}
+
+/**
+ * Find a safe quick fix for each diagnostic in a file
+ *
+ * @param service - Language service that has the file's content
+ * @param fileName - Absolute path of the diagnosed file
+ * @returns The first safe fix for each diagnostic that has one
+ */
+export function getQuickFixes(
+  typescript: typeof ts,
+  service: ts.LanguageService,
+  fileName: string,
+  diagnostics: readonly ts.Diagnostic[]
+): Map<ts.Diagnostic, IssueFix> {
+  const fixes = new Map<ts.Diagnostic, IssueFix>();
+  const supportedCodes = new Set(typescript.getSupportedCodeFixes());
+
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.start === undefined || !supportedCodes.has(String(diagnostic.code))) {
+      continue;
+    }
+
+    const actions = service.getCodeFixesAtPosition(
+      fileName,
+      diagnostic.start,
+      diagnostic.start + (diagnostic.length ?? 0),
+      [diagnostic.code],
+      {},
+      {}
+    );
+
+    for (const action of actions) {
+      // Fixes that edit other files or need follow-up commands are left to the author
+      const onlyThisFile = action.changes.every(
+        (change) => resolve(change.fileName) === resolve(fileName)
+      );
+      if (!onlyThisFile || action.commands) {
+        continue;
+      }
+
+      const fix: IssueFix = {
+        fixName: action.fixName,
+        description: action.description,
+        edits: action.changes.flatMap((change) =>
+          change.textChanges.map((textChange) => ({
+            start: textChange.span.start,
+            length: textChange.span.length,
+            newText: textChange.newText,
+          }))
+        ),
+      };
+
+      if (isSafeQuickFix(fix)) {
+        fixes.set(diagnostic, fix);
+        break;
+      }
+    }
+  }
+
+  return fixes;
+}
@@ -0,0 +1,108 @@
+/**
+ * Shared Document Registry
+ *
+ * DocumentRegistry that hands the LanguageService the source files the
+ * builder program already parsed, as long as their text is unchanged. Only
+ * content the builder has not seen, such as overlaid edits, is parsed again.
+ * Sharing source files between programs is what document registries are
+ * for; the builder's files are simply not owned by the registry, so they are
+ * never updated or released through it.
+ */
+
+import type ts from 'typescript';
+
+/**
+ * Parsed source files by file name, with the text they were parsed from
+ */
+export type SourceFileCache = ReadonlyMap<string, { text: string; sourceFile: ts.SourceFile }>;
+
+/**
+ * Create a document registry that reuses the cached source files
+ */
+export function createSharedDocumentRegistry(
+  typescript: typeof ts,
+  sourceFiles: SourceFileCache
+): ts.DocumentRegistry {
+  const registry = typescript.createDocumentRegistry();
+  // Documents currently served from the cache, by bucket key and path
+  const shared = new Set<string>();
+
+  const findCached = (fileName: string, snapshot: ts.IScriptSnapshot) => {
+    const cached = sourceFiles.get(fileName);
+    return cached && cached.text === snapshot.getText(0, snapshot.getLength())
+      ? cached.sourceFile
+      : undefined;
+  };
+
+  return {
+    ...registry,
+
+    acquireDocumentWithKey(fileName, path, settings, key, snapshot, version, kind, options) {
+      const cached = findCached(fileName, snapshot);
+      if (cached) {
+        shared.add(`${key}|${path}`);
+        return cached;
+      }
+      return registry.acquireDocumentWithKey(
+        fileName,
+        path,
+        settings,
+        key,
+        snapshot,
+        version,
+        kind,
+        options
+      );
+    },
+
+    updateDocumentWithKey(fileName, path, settings, key, snapshot, version, kind, options) {
+      const id = `${key}|${path}`;
+      const cached = findCached(fileName, snapshot);
+
+      if (shared.has(id)) {
+        if (cached) {
+          return cached;
+        }
+        // The registry never saw the cached document, so it parses a new one
+        shared.delete(id);
+        return registry.acquireDocumentWithKey(
+          fileName,
+          path,
+          settings,
+          key,
+          snapshot,
+          version,
+          kind,
+          options
+        );
+      }
+
+      if (cached) {
+        registry.releaseDocumentWithKey(path, key, kind as ts.ScriptKind, cached.impliedNodeFormat);
+        shared.add(id);
+        return cached;
+      }
+      return registry.updateDocumentWithKey(
+        fileName,
+        path,
+        settings,
+        key,
+        snapshot,
+        version,
+        kind,
+        options
+      );
+    },
+
+    releaseDocumentWithKey(
+      path: ts.Path,
+      key: ts.DocumentRegistryBucketKey,
+      kind?: ts.ScriptKind,
+      format?: ts.ResolutionMode
+    ) {
+      if (!shared.delete(`${key}|${path}`)) {
+        registry.releaseDocumentWithKey(path, key, kind as ts.ScriptKind, format);
+      }
+    },
+  };
+}
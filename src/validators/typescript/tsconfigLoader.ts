@@ -66,6 +66,25 @@ export function findTSConfigFile(options: TSConfigOptions = {}): string | null {
   return null;
 }
 
+/**
+ * Remove comments and trailing commas from JSONC
+ *
+ * Strings are skipped, so URLs and path patterns such as `@/*` are kept.
+ */
+export function stripJsonComments(content: string): string {
+  const pattern = /("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\/|,(\s*[}\]])/g;
+  const strip = (text: string) =>
+    text.replace(pattern, (_match, string?: string, closing?: string) => {
+      if (string !== undefined) {
+        return string;
+      }
+      return closing ?? '';
+    });
+
+  // A comment between a trailing comma and the bracket hides the comma until it is removed
+  return strip(strip(content));
+}
+
 /**
  * Load and parse TypeScript configuration file
  */
@@ -73,12 +92,7 @@ export async function loadTSConfig(configPath: string): Promise<TSConfig> {
   try {
     const content = await readFile(configPath, 'utf-8');
 
-    // Remove JSON comments (basic implementation for // and /* */)
-    const cleanContent = content
-      .replace(/\/\*[\s\S]*?\*\//g, '') // Remove /* */ comments
-      .replace(/\/\/.*$/gm, ''); // Remove // comments
-
-    const config = JSON.parse(cleanContent) as TSConfig;
+    const config = JSON.parse(stripJsonComments(content)) as TSConfig;
 
     // Handle extends property (basic implementation)
     if (config.extends) {
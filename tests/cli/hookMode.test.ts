@@ -0,0 +1,539 @@
+/**
+ * Tests for Hook Mode
+ *
+ * These tests verify that hook input is routed through the validation
+ * pipeline and that results are mapped into hook output.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleHookInput, processHookInput } from '../../src/cli/hookMode.js';
+import { hasConfig, loadConfig, loadConfigForFile } from '../../src/config/index.js';
+import { HookManager } from '../../src/hooks/HookManager.js';
+import { createFileInfo } from '../../src/hooks/InputHandler.js';
+import { parseHookInput, type ToolHookInput } from '../../src/hooks/inputSchema.js';
+import { PreWriteHook } from '../../src/hooks/PreWriteHook.js';
+import { SessionTracker } from '../../src/hooks/SessionTracker.js';
+import type { Config } from '../../src/types/config.js';
+
+vi.mock('../../src/config/index.js', () => ({
+  hasConfig: vi.fn(),
+  loadConfig: vi.fn(),
+  loadConfigForFile: vi.fn(),
+}));
+
+const mockExecutePostWrite = vi.fn();
+
+vi.mock('../../src/hooks/HookManager.js', () => ({
+  HookManager: vi.fn().mockImplementation(() => ({
+    executePostWrite: mockExecutePostWrite,
+  })),
+}));
+
+vi.mock('../../src/hooks/InputHandler.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/hooks/InputHandler.js')>()),
+  createFileInfo: vi.fn(),
+}));
+
+const mockPreWriteExecute = vi.fn();
+const mockRecordFile = vi.fn();
+
+vi.mock('../../src/hooks/SessionTracker.js', () => ({
+  SessionTracker: vi.fn().mockImplementation(() => ({
+    recordFile: mockRecordFile,
+  })),
+}));
+
+vi.mock('../../src/hooks/PreWriteHook.js', () => ({
+  PreWriteHook: vi.fn().mockImplementation(() => ({
+    execute: mockPreWriteExecute,
+  })),
+}));
+
+const mockHasConfig = vi.mocked(hasConfig);
+const mockLoadConfig = vi.mocked(loadConfig);
+const mockLoadConfigForFile = vi.mocked(loadConfigForFile);
+const MockHookManager = vi.mocked(HookManager);
+const mockCreateFileInfo = vi.mocked(createFileInfo);
+const MockPreWriteHook = vi.mocked(PreWriteHook);
+const MockSessionTracker = vi.mocked(SessionTracker);
+
+// Assembled at runtime so the test file itself holds no secret
+const GITHUB_TOKEN = `ghp_${'a1B2c3D4e5'.repeat(3)}F6g7H8`;
+
+// Mock console methods to prevent noisy test output
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+describe('hookMode', () => {
+  let config: Config;
+  let input: ToolHookInput;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    config = {
+      enabled: true,
+      include: ['**/*.ts'],
+      exclude: ['node_modules/**'],
+      validators: {
+        biome: { enabled: true, version: 'auto' },
+        typescript: { enabled: true },
+      },
+      autoFix: { enabled: true, maxAttempts: 3 },
+      timeout: 5000,
+    };
+
+    input = {
+      hook_event_name: 'PostToolUse',
+      tool_name: 'Write',
+      tool_input: {
+        file_path: '/project/src/file.ts',
+        content: 'const x = 1;',
+      },
+    };
+
+    mockHasConfig.mockReturnValue(true);
+    mockLoadConfig.mockResolvedValue(config);
+    // Resolve the nearest config to whatever loadConfig returns for the workspace
+    mockLoadConfigForFile.mockImplementation(async (_filePath, workspaceRoot = '/project') => ({
+      config: await mockLoadConfig(workspaceRoot),
+      projectRoot: workspaceRoot,
+      configPaths: [],
+    }));
+    mockCreateFileInfo.mockResolvedValue({
+      path: '/project/src/file.ts',
+      content: 'const x = 1;',
+      extension: '.ts',
+      exists: true,
+      size: 12,
+    });
+    mockExecutePostWrite.mockResolvedValue({
+      success: true,
+      modified: false,
+      duration: 10,
+      validation: { results: [] },
+      metadata: { fixesApplied: [] },
+    });
+  });
+
+  describe('processHookInput()', () => {
+    it('should run the post-write hook on the written file', async () => {
+      const output = await processHookInput(input);
+
+      expect(MockHookManager).toHaveBeenCalledWith(config, expect.any(String));
+      expect(mockCreateFileInfo).toHaveBeenCalledWith('/project/src/file.ts', 'const x = 1;');
+      expect(mockExecutePostWrite).toHaveBeenCalledWith(
+        expect.objectContaining({ path: '/project/src/file.ts' })
+      );
+      expect(output.success).toBe(true);
+      expect(output.errors).toEqual([]);
+      expect(output.warnings).toEqual([]);
+    });
+
+    it('should record the file for the session', async () => {
+      await processHookInput({ ...input, session_id: 'abc123' });
+
+      expect(MockSessionTracker).toHaveBeenCalledWith('abc123');
+      expect(mockRecordFile).toHaveBeenCalledWith('/project/src/file.ts');
+    });
+
+    it('should load configuration from the project root in the payload cwd', async () => {
+      const projectRoot = mkdtempSync(join(tmpdir(), 'hook-mode-'));
+      writeFileSync(join(projectRoot, 'claude-jsqualityhooks.config.yaml'), 'enabled: true\n');
+
+      try {
+        await processHookInput({ ...input, cwd: projectRoot });
+
+        expect(mockLoadConfigForFile).toHaveBeenCalledWith('/project/src/file.ts', projectRoot);
+        expect(MockHookManager).toHaveBeenCalledWith(config, projectRoot);
+      } finally {
+        rmSync(projectRoot, { recursive: true, force: true });
+      }
+    });
+
+    it('should run the hook with the configuration nearest to the file', async () => {
+      const packageConfig = { ...config, timeout: 10000 };
+      mockLoadConfigForFile.mockResolvedValue({
+        config: packageConfig,
+        projectRoot: '/project/packages/app',
+        configPaths: ['/project/packages/app/claude-jsqualityhooks.config.yaml'],
+      });
+
+      await processHookInput(input);
+
+      expect(MockHookManager).toHaveBeenCalledWith(packageConfig, '/project/packages/app');
+    });
+
+    it('should not require a workspace configuration when the file has one', async () => {
+      mockHasConfig.mockImplementation((_workspaceRoot, filePath) => filePath !== undefined);
+      mockLoadConfigForFile.mockResolvedValue({ config, projectRoot: '/project', configPaths: [] });
+
+      await processHookInput(input);
+
+      expect(mockHasConfig).toHaveBeenCalledWith(expect.any(String), '/project/src/file.ts');
+      expect(mockLoadConfig).not.toHaveBeenCalled();
+      expect(mockExecutePostWrite).toHaveBeenCalled();
+    });
+
+    it('should explain how to configure files without a configuration', async () => {
+      mockHasConfig.mockReturnValue(false);
+
+      const output = await processHookInput(input);
+
+      expect(output.success).toBe(false);
+      expect(output.message).toContain('Configuration file not found');
+      expect(mockLoadConfigForFile).not.toHaveBeenCalled();
+    });
+
+    it('should report issues and applied fixes', async () => {
+      mockExecutePostWrite.mockResolvedValue({
+        success: true,
+        modified: true,
+        duration: 10,
+        validation: {
+          results: [
+            {
+              validator: 'typescript',
+              status: 'error',
+              duration: 5,
+              issues: [
+                {
+                  file: 'src/file.ts',
+                  line: 3,
+                  column: 7,
+                  severity: 'error',
+                  message: "Type 'string' is not assignable to type 'number'.",
+                  fixed: false,
+                  fixable: false,
+                },
+                {
+                  file: 'src/file.ts',
+                  line: 5,
+                  column: 1,
+                  severity: 'warning',
+                  message: 'Unused variable',
+                  fixed: false,
+                  fixable: false,
+                },
+              ],
+            },
+          ],
+        },
+        metadata: { fixesApplied: ['Fixed 2 formatting issue(s)'] },
+      });
+
+      const output = await processHookInput(input);
+
+      expect(output.success).toBe(false);
+      expect(output.blocking).toBe(true);
+      expect(output.errors).toEqual([
+        "src/file.ts:3:7 - Type 'string' is not assignable to type 'number'.",
+      ]);
+      expect(output.warnings).toEqual(['src/file.ts:5:1 - Unused variable']);
+      expect(output.fixes_applied).toEqual(['Fixed 2 formatting issue(s)']);
+    });
+
+    it('should only report issues on edited lines when scope is changes', async () => {
+      mockLoadConfig.mockResolvedValue({ ...config, hooks: { scope: 'changes' } });
+      mockCreateFileInfo.mockResolvedValue({
+        path: '/project/src/file.ts',
+        content: 'const a = 1;\nconst b: number = "x";\nconst c: number = "y";\n',
+        extension: '.ts',
+        exists: true,
+        size: 48,
+      });
+      const issueAt = (line: number) => ({
+        file: 'src/file.ts',
+        line,
+        column: 7,
+        severity: 'error' as const,
+        message: 'Type error',
+        fixed: false,
+        fixable: false,
+      });
+      mockExecutePostWrite.mockResolvedValue({
+        success: true,
+        modified: false,
+        duration: 10,
+        validation: {
+          results: [
+            {
+              validator: 'typescript',
+              status: 'error',
+              duration: 5,
+              issues: [issueAt(2), issueAt(3)],
+            },
+          ],
+        },
+        metadata: { fixesApplied: [] },
+      });
+
+      const editInput: ToolHookInput = {
+        hook_event_name: 'PostToolUse',
+        tool_name: 'Edit',
+        tool_input: {
+          file_path: '/project/src/file.ts',
+          old_string: 'const c = 1;',
+          new_string: 'const c: number = "y";',
+        },
+      };
+
+      const output = await processHookInput(editInput);
+
+      expect(output.errors).toEqual(['src/file.ts:3:7 - Type error']);
+      expect(output.elsewhere).toEqual({ errors: ['src/file.ts:2:7 - Type error'], warnings: [] });
+      expect(output.blocking).toBe(true);
+    });
+
+    it('should not block on issues outside the edited lines', async () => {
+      mockLoadConfig.mockResolvedValue({ ...config, hooks: { scope: 'changes' } });
+      mockExecutePostWrite.mockResolvedValue({
+        success: true,
+        modified: false,
+        duration: 10,
+        validation: {
+          results: [
+            {
+              validator: 'typescript',
+              status: 'error',
+              duration: 5,
+              issues: [
+                {
+                  file: 'src/file.ts',
+                  line: 40,
+                  column: 1,
+                  severity: 'error',
+                  message: 'Old type error',
+                  fixed: false,
+                  fixable: false,
+                },
+              ],
+            },
+          ],
+        },
+        metadata: { fixesApplied: [] },
+      });
+
+      const output = await processHookInput({
+        ...input,
+        tool_response: { structuredPatch: [{ newStart: 1, lines: ['+const x = 1;'] }] },
+      } as ToolHookInput);
+
+      expect(output.errors).toEqual([]);
+      expect(output.elsewhere?.errors).toHaveLength(1);
+      expect(output.blocking).toBe(false);
+    });
+
+    it('should not block when blockOn is never', async () => {
+      mockLoadConfig.mockResolvedValue({ ...config, hooks: { blockOn: 'never' } });
+      mockExecutePostWrite.mockResolvedValue({
+        success: true,
+        modified: false,
+        duration: 10,
+        validation: {
+          results: [
+            {
+              validator: 'biome',
+              status: 'error',
+              duration: 5,
+              issues: [
+                {
+                  file: 'src/file.ts',
+                  line: 1,
+                  column: 1,
+                  severity: 'error',
+                  message: 'Parse error',
+                  fixed: false,
+                  fixable: false,
+                },
+              ],
+            },
+          ],
+        },
+        metadata: { fixesApplied: [] },
+      });
+
+      const output = await processHookInput(input);
+
+      expect(output.blocking).toBe(false);
+      expect(output.errors).toHaveLength(1);
+    });
+
+    it('should report hook failures', async () => {
+      mockExecutePostWrite.mockResolvedValue({
+        success: false,
+        modified: false,
+        duration: 10,
+        error: "Hook 'postWrite' timed out after 5000ms",
+      });
+
+      const output = await processHookInput(input);
+
+      expect(output.success).toBe(false);
+      expect(output.message).toContain('timed out');
+    });
+
+    it('should block on secrets in any written file, whatever blockOn is', async () => {
+      mockLoadConfig.mockResolvedValue({ ...config, hooks: { blockOn: 'never' } });
+      const content = `GITHUB_TOKEN=${GITHUB_TOKEN}\n`;
+      mockCreateFileInfo.mockResolvedValue({
+        path: '/project/.env',
+        content,
+        extension: '',
+        exists: true,
+        size: content.length,
+      });
+
+      const output = await processHookInput({
+        ...input,
+        tool_input: { file_path: '/project/.env', content },
+      });
+
+      expect(output.blocking).toBe(true);
+      expect(output.errors).toEqual([
+        expect.stringMatching(/^\.env:1:14 - GitHub token found: ghp_\*+ \(40 characters\)/),
+      ]);
+      expect(mockExecutePostWrite).not.toHaveBeenCalled();
+    });
+
+    it('should report secrets in excluded files as warnings and keep validating', async () => {
+      const content = `export const token = '${GITHUB_TOKEN}';`;
+      mockLoadConfig.mockResolvedValue({
+        ...config,
+        validators: {
+          ...config.validators,
+          secrets: { enabled: true, exclude: ['src/fixtures/**'] },
+        },
+      });
+      mockCreateFileInfo.mockResolvedValue({
+        path: '/project/src/fixtures/auth.ts',
+        content,
+        extension: '.ts',
+        exists: true,
+        size: content.length,
+      });
+
+      const output = await processHookInput({
+        ...input,
+        cwd: '/project',
+        tool_input: { file_path: '/project/src/fixtures/auth.ts', content },
+      });
+
+      expect(output.blocking).toBe(false);
+      expect(output.warnings).toEqual([expect.stringContaining('GitHub token found')]);
+      expect(mockExecutePostWrite).toHaveBeenCalled();
+    });
+
+    it('should skip unsupported tools', async () => {
+      const output = await processHookInput({ ...input, tool_name: 'Read' });
+
+      expect(output.success).toBe(true);
+      expect(mockExecutePostWrite).not.toHaveBeenCalled();
+    });
+
+    it('should skip when hooks are disabled', async () => {
+      mockLoadConfig.mockResolvedValue({ ...config, enabled: false });
+
+      const output = await processHookInput(input);
+
+      expect(output.message).toBe('Hooks disabled in configuration');
+      expect(mockExecutePostWrite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processHookInput() for PreToolUse', () => {
+    beforeEach(() => {
+      input = { ...input, hook_event_name: 'PreToolUse' };
+      mockPreWriteExecute.mockResolvedValue({
+        success: true,
+        modified: false,
+        duration: 10,
+        metadata: { denied: [] },
+      });
+    });
+
+    it('should validate the proposed content instead of running post-write', async () => {
+      const output = await processHookInput(input);
+
+      expect(MockPreWriteHook).toHaveBeenCalledWith(config, expect.any(String));
+      expect(mockPreWriteExecute).toHaveBeenCalledWith(
+        expect.objectContaining({ content: 'const x = 1;' })
+      );
+      expect(mockExecutePostWrite).not.toHaveBeenCalled();
+      expect(output.success).toBe(true);
+      expect(output.blocking).toBe(false);
+    });
+
+    it('should block when the change introduces denied errors', async () => {
+      mockPreWriteExecute.mockResolvedValue({
+        success: true,
+        modified: false,
+        duration: 10,
+        metadata: {
+          denied: [
+            {
+              file: 'src/file.ts',
+              line: 1,
+              column: 13,
+              severity: 'error',
+              message: "';' expected.",
+              fixed: false,
+              fixable: false,
+              kind: 'syntax',
+            },
+          ],
+        },
+      });
+
+      const output = await processHookInput(input);
+
+      expect(output.blocking).toBe(true);
+      expect(output.errors).toEqual(["src/file.ts:1:13 - ';' expected."]);
+    });
+
+    it('should deny proposed edits that add a secret', async () => {
+      const output = await processHookInput({
+        ...input,
+        tool_input: {
+          file_path: '/project/src/file.ts',
+          content: `const token = '${GITHUB_TOKEN}';`,
+        },
+      });
+
+      expect(output.blocking).toBe(true);
+      expect(output.errors).toHaveLength(1);
+      expect(mockPreWriteExecute).not.toHaveBeenCalled();
+    });
+
+    it('should skip edits that do not apply to the current file', async () => {
+      const output = await processHookInput({
+        ...input,
+        tool_name: 'Edit',
+        tool_input: {
+          file_path: '/nonexistent/src/file.ts',
+          old_string: 'missing',
+          new_string: 'x',
+        },
+      });
+
+      expect(output.success).toBe(true);
+      expect(mockPreWriteExecute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleHookInput()', () => {
+    it('should ignore hook events it does not know', async () => {
+      const parsed = parseHookInput({ session_id: 'abc123', hook_event_name: 'PostCompact' });
+      if (!parsed.success) {
+        throw new Error(parsed.error);
+      }
+
+      const response = await handleHookInput(parsed.input);
+
+      expect(response).toEqual({ exitCode: 0, stdout: { suppressOutput: true } });
+      expect(mockLoadConfig).not.toHaveBeenCalled();
+    });
+  });
+});
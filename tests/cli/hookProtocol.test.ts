@@ -0,0 +1,279 @@
+/**
+ * Tests for Claude Code Hook Protocol
+ *
+ * These tests verify how hook output is mapped onto Claude Code's
+ * decision, additionalContext and exit code conventions.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  formatIssue,
+  shouldBlock,
+  toPostToolUseResponse,
+  toPreToolUseResponse,
+  toStopResponse,
+} from '../../src/cli/hookProtocol.js';
+
+describe('hookProtocol', () => {
+  describe('shouldBlock()', () => {
+    it('should block on errors by default', () => {
+      expect(shouldBlock(['error'], [])).toBe(true);
+      expect(shouldBlock([], ['warning'])).toBe(false);
+    });
+
+    it('should block on warnings when configured', () => {
+      expect(shouldBlock([], ['warning'], 'warning')).toBe(true);
+      expect(shouldBlock([], [], 'warning')).toBe(false);
+    });
+
+    it('should never block when configured', () => {
+      expect(shouldBlock(['error'], ['warning'], 'never')).toBe(false);
+    });
+  });
+
+  describe('formatIssue()', () => {
+    it('should include the rule and the suggested fix', () => {
+      const line = formatIssue(
+        {
+          file: '/project/src/a.ts',
+          line: 2,
+          column: 20,
+          severity: 'error',
+          message: 'Using == may be unsafe if you are relying on type coercion.',
+          fixed: false,
+          fixable: true,
+          source: 'biome',
+          ruleId: 'lint/suspicious/noDoubleEquals',
+          suggestion: 'replace `==` with `===`',
+        },
+        '/project'
+      );
+
+      expect(line).toBe(
+        'src/a.ts:2:20 - Using == may be unsafe if you are relying on type coercion. ' +
+          '(lint/suspicious/noDoubleEquals) Biome suggests: replace `==` with `===`'
+      );
+    });
+
+    it('should show the expected diff under the issue', () => {
+      const line = formatIssue({
+        file: 'src/a.ts',
+        line: 1,
+        column: 1,
+        severity: 'error',
+        message: 'File is not formatted. Prettier would print different content.',
+        fixed: false,
+        fixable: true,
+        source: 'prettier',
+        diff: '@@ -1 +1 @@\n-const a = "x";\n+const a = \'x\'',
+      });
+
+      expect(line).toBe(
+        [
+          'src/a.ts:1:1 - File is not formatted. Prettier would print different content.',
+          '  @@ -1 +1 @@',
+          '  -const a = "x";',
+          "  +const a = 'x'",
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('toPostToolUseResponse()', () => {
+    it('should suppress output for clean runs', () => {
+      const response = toPostToolUseResponse({
+        success: true,
+        file: 'src/file.ts',
+        errors: [],
+        warnings: [],
+        fixes_applied: [],
+      });
+
+      expect(response).toEqual({ exitCode: 0, stdout: { suppressOutput: true } });
+    });
+
+    it('should block with a reason when blocking issues remain', () => {
+      const response = toPostToolUseResponse({
+        success: false,
+        file: 'src/file.ts',
+        blocking: true,
+        errors: ['src/file.ts:3:7 - Type error'],
+        warnings: [],
+        fixes_applied: ['Fixed 1 formatting issue(s)'],
+      });
+
+      expect(response.exitCode).toBe(0);
+      expect(response.stdout?.decision).toBe('block');
+      expect(response.stdout?.reason).toContain('Code quality issues remain in src/file.ts');
+      expect(response.stdout?.reason).toContain('- src/file.ts:3:7 - Type error');
+      expect(response.stdout?.reason).toContain('Fixed 1 formatting issue(s)');
+    });
+
+    it('should add warnings as additional context', () => {
+      const response = toPostToolUseResponse({
+        success: true,
+        file: 'src/file.ts',
+        blocking: false,
+        errors: [],
+        warnings: ['src/file.ts:1:1 - Unused variable'],
+      });
+
+      expect(response.exitCode).toBe(0);
+      expect(response.stdout?.decision).toBeUndefined();
+      expect(response.stdout?.hookSpecificOutput).toEqual({
+        hookEventName: 'PostToolUse',
+        additionalContext:
+          'Code quality warnings in src/file.ts:\n- src/file.ts:1:1 - Unused variable',
+      });
+    });
+
+    it('should report applied fixes as additional context', () => {
+      const response = toPostToolUseResponse({
+        success: true,
+        file: 'src/file.ts',
+        fixes_applied: ['Fixed 2 import issue(s)'],
+      });
+
+      expect(response.stdout?.hookSpecificOutput?.additionalContext).toContain(
+        'Auto-fixes were applied to src/file.ts'
+      );
+    });
+
+    it('should mention issues outside the change without listing them', () => {
+      const response = toPostToolUseResponse({
+        success: false,
+        file: 'src/file.ts',
+        blocking: true,
+        errors: ['src/file.ts:3:7 - Type error'],
+        warnings: [],
+        elsewhere: {
+          errors: ['src/file.ts:900:1 - Old type error'],
+          warnings: ['src/file.ts:950:1 - Old warning'],
+        },
+      });
+
+      expect(response.stdout?.reason).toContain(
+        '2 other issue(s) in src/file.ts are outside your change and not listed.'
+      );
+      expect(response.stdout?.reason).not.toContain('Old type error');
+    });
+
+    it('should suppress output when only issues outside the change remain', () => {
+      const response = toPostToolUseResponse({
+        success: true,
+        file: 'src/file.ts',
+        blocking: false,
+        errors: [],
+        warnings: [],
+        elsewhere: { errors: ['src/file.ts:900:1 - Old type error'], warnings: [] },
+      });
+
+      expect(response).toEqual({ exitCode: 0, stdout: { suppressOutput: true } });
+    });
+
+    it('should truncate long issue lists', () => {
+      const errors = Array.from({ length: 25 }, (_, i) => `src/file.ts:${i + 1}:1 - Error`);
+      const response = toPostToolUseResponse({
+        success: false,
+        file: 'src/file.ts',
+        blocking: true,
+        errors,
+      });
+
+      expect(response.stdout?.reason).toContain('- ... and 5 more');
+      expect(response.stdout?.reason).not.toContain('src/file.ts:21:1');
+    });
+
+    it('should report internal failures on stderr without blocking', () => {
+      const response = toPostToolUseResponse({
+        success: false,
+        message: 'Hook processing failed: boom',
+      });
+
+      expect(response).toEqual({ exitCode: 1, stderr: 'Hook processing failed: boom' });
+    });
+  });
+
+  describe('toPreToolUseResponse()', () => {
+    it('should deny blocking issues with the diagnostics as reason', () => {
+      const response = toPreToolUseResponse({
+        success: false,
+        file: 'src/file.ts',
+        blocking: true,
+        errors: ["src/file.ts:2:5 - ';' expected."],
+        warnings: [],
+      });
+
+      expect(response.exitCode).toBe(0);
+      expect(response.stdout?.hookSpecificOutput?.hookEventName).toBe('PreToolUse');
+      expect(response.stdout?.hookSpecificOutput?.permissionDecision).toBe('deny');
+      expect(response.stdout?.hookSpecificOutput?.permissionDecisionReason).toContain(
+        "- src/file.ts:2:5 - ';' expected."
+      );
+    });
+
+    it('should not make a decision for clean changes', () => {
+      const response = toPreToolUseResponse({ success: true, file: 'src/file.ts', errors: [] });
+
+      expect(response).toEqual({ exitCode: 0, stdout: { suppressOutput: true } });
+    });
+
+    it('should report internal failures on stderr without denying', () => {
+      const response = toPreToolUseResponse({ success: false, message: 'boom' });
+
+      expect(response).toEqual({ exitCode: 1, stderr: 'boom' });
+    });
+  });
+
+  describe('toStopResponse()', () => {
+    it('should block stopping with the consolidated report', () => {
+      const response = toStopResponse({
+        success: false,
+        message: 'Quality gate: 2 file(s) checked',
+        blocking: true,
+        errors: ['src/app.ts:4:2 - Type error'],
+        warnings: ['src/util.ts:1:1 - Unused variable'],
+      });
+
+      expect(response.exitCode).toBe(0);
+      expect(response.stdout).toEqual({
+        decision: 'block',
+        reason: [
+          'Quality gate: 2 file(s) checked',
+          'Errors:\n- src/app.ts:4:2 - Type error',
+          'Warnings:\n- src/util.ts:1:1 - Unused variable',
+          'Fix these issues before finishing.',
+        ].join('\n\n'),
+      });
+    });
+
+    it('should print non-blocking reports as plain text', () => {
+      const response = toStopResponse({
+        success: true,
+        message: 'Quality gate: 1 file(s) checked',
+        blocking: false,
+        errors: [],
+        warnings: ['src/util.ts:1:1 - Unused variable'],
+      });
+
+      expect(response.stdout).toBe(
+        'Quality gate: 1 file(s) checked\n\nWarnings:\n- src/util.ts:1:1 - Unused variable'
+      );
+    });
+
+    it('should suppress output when nothing remains', () => {
+      const response = toStopResponse({
+        success: true,
+        message: 'No files touched in this session',
+      });
+
+      expect(response).toEqual({ exitCode: 0, stdout: { suppressOutput: true } });
+    });
+
+    it('should report internal failures on stderr without blocking', () => {
+      const response = toStopResponse({ success: false, message: 'Stop gate failed: boom' });
+
+      expect(response).toEqual({ exitCode: 1, stderr: 'Stop gate failed: boom' });
+    });
+  });
+});
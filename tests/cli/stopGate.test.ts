@@ -0,0 +1,246 @@
+/**
+ * Tests for Stop Gate
+ *
+ * These tests verify that files touched in a session and their dependents
+ * are re-checked and that remaining errors block stopping.
+ */
+
+import { existsSync } from 'node:fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { processStopHook } from '../../src/cli/stopGate.js';
+import { hasConfig, loadConfig, loadConfigForFile } from '../../src/config/index.js';
+import { createFileInfo } from '../../src/hooks/InputHandler.js';
+import type { StopHookInput } from '../../src/hooks/inputSchema.js';
+import { PatternMatcher } from '../../src/hooks/PatternMatcher.js';
+import { SessionTracker } from '../../src/hooks/SessionTracker.js';
+import type { Config } from '../../src/types/config.js';
+import { findDependents } from '../../src/utils/dependencyGraph.js';
+import { ValidatorManager } from '../../src/validators/ValidatorManager.js';
+
+vi.mock('node:fs', () => ({
+  existsSync: vi.fn(),
+}));
+
+vi.mock('../../src/config/index.js', () => ({
+  hasConfig: vi.fn(),
+  loadConfig: vi.fn(),
+  loadConfigForFile: vi.fn(),
+}));
+
+const mockGetFiles = vi.fn();
+const mockClear = vi.fn();
+
+vi.mock('../../src/hooks/SessionTracker.js', () => ({
+  SessionTracker: vi.fn().mockImplementation(() => ({
+    getFiles: mockGetFiles,
+    clear: mockClear,
+    removeStaleRecords: vi.fn(),
+  })),
+}));
+
+vi.mock('../../src/hooks/PatternMatcher.js', () => ({
+  PatternMatcher: vi.fn().mockImplementation(() => ({
+    shouldValidate: vi.fn().mockReturnValue(true),
+    getMatchingFiles: vi.fn().mockResolvedValue([]),
+  })),
+}));
+
+vi.mock('../../src/hooks/InputHandler.js', () => ({
+  createFileInfo: vi.fn(),
+}));
+
+vi.mock('../../src/utils/dependencyGraph.js', () => ({
+  findDependents: vi.fn(),
+}));
+
+const mockValidateFile = vi.fn();
+
+vi.mock('../../src/validators/ValidatorManager.js', () => ({
+  ValidatorManager: vi.fn().mockImplementation(() => ({
+    validateFile: mockValidateFile,
+    clearCache: vi.fn(),
+  })),
+}));
+
+const mockExistsSync = vi.mocked(existsSync);
+const mockHasConfig = vi.mocked(hasConfig);
+const mockLoadConfig = vi.mocked(loadConfig);
+const mockLoadConfigForFile = vi.mocked(loadConfigForFile);
+const MockPatternMatcher = vi.mocked(PatternMatcher);
+const MockValidatorManager = vi.mocked(ValidatorManager);
+const MockSessionTracker = vi.mocked(SessionTracker);
+const mockCreateFileInfo = vi.mocked(createFileInfo);
+const mockFindDependents = vi.mocked(findDependents);
+
+// Mock console methods to prevent noisy test output
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+describe('stopGate', () => {
+  let config: Config;
+  let input: StopHookInput;
+
+  const typeError = {
+    file: 'src/app.ts',
+    line: 4,
+    column: 2,
+    severity: 'error' as const,
+    message: "Property 'x' does not exist.",
+    fixed: false,
+    fixable: false,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    config = {
+      enabled: true,
+      include: ['**/*.ts'],
+      exclude: ['node_modules/**'],
+      validators: { typescript: { enabled: true } },
+      autoFix: { enabled: true, maxAttempts: 3 },
+    };
+
+    input = { session_id: 'abc123', hook_event_name: 'Stop', stop_hook_active: false };
+
+    mockHasConfig.mockReturnValue(true);
+    mockLoadConfig.mockResolvedValue(config);
+    mockLoadConfigForFile.mockResolvedValue({ config, projectRoot: '/project', configPaths: [] });
+    mockExistsSync.mockReturnValue(true);
+    mockGetFiles.mockResolvedValue(['/project/src/util.ts']);
+    mockFindDependents.mockResolvedValue(['/project/src/app.ts']);
+    mockCreateFileInfo.mockImplementation(async (path) => ({
+      path,
+      content: '',
+      extension: '.ts',
+      exists: true,
+      size: 0,
+    }));
+    mockValidateFile.mockResolvedValue({ results: [] });
+  });
+
+  it('should re-check touched files and their dependents', async () => {
+    const output = await processStopHook(input);
+
+    expect(MockSessionTracker).toHaveBeenCalledWith('abc123');
+    expect(mockFindDependents).toHaveBeenCalledWith(['/project/src/util.ts'], []);
+    expect(mockCreateFileInfo).toHaveBeenCalledWith('/project/src/util.ts');
+    expect(mockCreateFileInfo).toHaveBeenCalledWith('/project/src/app.ts');
+    expect(output.success).toBe(true);
+    expect(output.blocking).toBe(false);
+    expect(output.message).toContain('2 file(s) checked (1 touched, 1 dependent)');
+    expect(mockClear).toHaveBeenCalled();
+  });
+
+  it('should block when errors remain', async () => {
+    mockValidateFile
+      .mockResolvedValueOnce({ results: [] })
+      .mockResolvedValueOnce({ results: [{ issues: [typeError] }] });
+
+    const output = await processStopHook(input);
+
+    expect(output.success).toBe(false);
+    expect(output.blocking).toBe(true);
+    expect(output.errors).toEqual(["src/app.ts:4:2 - Property 'x' does not exist."]);
+    expect(mockClear).not.toHaveBeenCalled();
+  });
+
+  it('should not block again when already continuing from the gate', async () => {
+    mockValidateFile.mockResolvedValue({ results: [{ issues: [typeError] }] });
+
+    const output = await processStopHook({ ...input, stop_hook_active: true });
+
+    expect(output.blocking).toBe(false);
+    expect(output.errors).toHaveLength(2);
+    expect(mockClear).not.toHaveBeenCalled();
+  });
+
+  it('should check each file with the configuration nearest to it', async () => {
+    const appConfig = { ...config, timeout: 10000 };
+    mockLoadConfigForFile.mockImplementation(async (file) =>
+      file === '/project/src/app.ts'
+        ? { config: appConfig, projectRoot: '/project/packages/app', configPaths: [] }
+        : { config, projectRoot: '/project', configPaths: [] }
+    );
+
+    await processStopHook(input);
+
+    expect(MockValidatorManager).toHaveBeenCalledTimes(2);
+    expect(MockValidatorManager).toHaveBeenCalledWith(config, '/project');
+    expect(MockValidatorManager).toHaveBeenCalledWith(appConfig, '/project/packages/app');
+  });
+
+  it('should check packages configured without a workspace configuration', async () => {
+    mockHasConfig.mockImplementation((_workspaceRoot, file) => file !== undefined);
+    mockLoadConfigForFile.mockResolvedValue({
+      config,
+      projectRoot: '/project/packages/app',
+      configPaths: [],
+    });
+
+    const output = await processStopHook(input);
+
+    expect(mockLoadConfig).not.toHaveBeenCalled();
+    expect(MockPatternMatcher).toHaveBeenCalledWith(
+      config.include,
+      config.exclude,
+      '/project/packages/app'
+    );
+    expect(mockValidateFile).toHaveBeenCalledTimes(2);
+    expect(output.success).toBe(true);
+  });
+
+  it('should block according to the configuration of the failing file', async () => {
+    mockLoadConfigForFile.mockImplementation(async (file) => ({
+      config: file === '/project/src/app.ts' ? { ...config, hooks: { blockOn: 'never' } } : config,
+      projectRoot: '/project',
+      configPaths: [],
+    }));
+    mockValidateFile
+      .mockResolvedValueOnce({ results: [] })
+      .mockResolvedValueOnce({ results: [{ issues: [typeError] }] });
+
+    const output = await processStopHook(input);
+
+    expect(output.errors).toHaveLength(1);
+    expect(output.blocking).toBe(false);
+    expect(mockClear).toHaveBeenCalled();
+  });
+
+  it('should skip touched files without a configuration', async () => {
+    mockHasConfig.mockReturnValue(false);
+
+    const output = await processStopHook(input);
+
+    expect(output.message).toBe('No files touched in this session');
+    expect(mockLoadConfigForFile).not.toHaveBeenCalled();
+  });
+
+  it('should skip files disabled by their nearest configuration', async () => {
+    mockLoadConfigForFile.mockResolvedValue({
+      config: { ...config, enabled: false },
+      projectRoot: '/project/packages/app',
+      configPaths: [],
+    });
+
+    const output = await processStopHook(input);
+
+    expect(output.message).toBe('No files touched in this session');
+  });
+
+  it('should skip sessions without touched files', async () => {
+    mockGetFiles.mockResolvedValue([]);
+
+    const output = await processStopHook(input);
+
+    expect(output).toEqual({ success: true, message: 'No files touched in this session' });
+    expect(mockValidateFile).not.toHaveBeenCalled();
+  });
+
+  it('should ignore touched files that were deleted', async () => {
+    mockExistsSync.mockReturnValue(false);
+
+    const output = await processStopHook(input);
+
+    expect(output.message).toBe('No files touched in this session');
+  });
+});
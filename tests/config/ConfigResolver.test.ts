@@ -0,0 +1,146 @@
+/**
+ * Tests for ConfigResolver
+ *
+ * These tests verify nearest-config lookup, inheritance up to the workspace
+ * root and per-directory caching against a temporary monorepo on disk.
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigResolver, mergeRawConfig } from '../../src/config/ConfigResolver.js';
+
+const CONFIG_FILE = 'claude-jsqualityhooks.config.yaml';
+
+describe('ConfigResolver', () => {
+  let root: string;
+  let resolver: ConfigResolver;
+
+  const write = (path: string, content: string): string => {
+    const fullPath = join(root, path);
+    mkdirSync(join(fullPath, '..'), { recursive: true });
+    writeFileSync(fullPath, content);
+    return fullPath;
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'config-resolver-'));
+    resolver = new ConfigResolver(root);
+
+    write(
+      CONFIG_FILE,
+      ['timeout: 10000', 'validators:', '  biome:', '    enabled: true', '    version: "2.x"'].join(
+        '\n'
+      )
+    );
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('resolveForFile()', () => {
+    it('should use the workspace config when no package config exists', async () => {
+      const file = write('packages/lib/src/index.ts', '');
+
+      const resolved = await resolver.resolveForFile(file);
+
+      expect(resolved.projectRoot).toBe(root);
+      expect(resolved.config.timeout).toBe(10000);
+    });
+
+    it('should use the nearest package config without inheriting by default', async () => {
+      write(`packages/app/${CONFIG_FILE}`, 'include:\n  - "src/**/*.ts"\n');
+      const file = write('packages/app/src/index.ts', '');
+
+      const resolved = await resolver.resolveForFile(file);
+
+      expect(resolved.projectRoot).toBe(join(root, 'packages/app'));
+      expect(resolved.config.include).toEqual(['src/**/*.ts']);
+      expect(resolved.config.timeout).toBe(5000); // Default value
+      expect(resolved.configPaths).toEqual([join(root, 'packages/app', CONFIG_FILE)]);
+    });
+
+    it('should merge over parent configs when inheriting', async () => {
+      write(
+        `packages/app/${CONFIG_FILE}`,
+        ['inherit: true', 'validators:', '  typescript:', '    enabled: false'].join('\n')
+      );
+      const file = write('packages/app/src/index.ts', '');
+
+      const resolved = await resolver.resolveForFile(file);
+
+      expect(resolved.config.timeout).toBe(10000);
+      expect(resolved.config.validators.biome?.version).toBe('2.x');
+      expect(resolved.config.validators.typescript?.enabled).toBe(false);
+      expect(resolved.configPaths).toEqual([
+        join(root, CONFIG_FILE),
+        join(root, 'packages/app', CONFIG_FILE),
+      ]);
+    });
+
+    it('should not inherit from configs above the workspace root', async () => {
+      write(`packages/app/${CONFIG_FILE}`, 'inherit: true\n');
+      const file = write('packages/app/src/index.ts', '');
+
+      const packageResolver = new ConfigResolver(join(root, 'packages/app'));
+      const resolved = await packageResolver.resolveForFile(file);
+
+      expect(resolved.config.timeout).toBe(5000);
+      expect(resolved.configPaths).toEqual([join(root, 'packages/app', CONFIG_FILE)]);
+    });
+  });
+
+  describe('hasConfig()', () => {
+    it('should find package configs when the workspace root has none', () => {
+      rmSync(join(root, CONFIG_FILE));
+      write(`packages/app/${CONFIG_FILE}`, 'enabled: true');
+
+      expect(resolver.hasConfig(join(root, 'packages/app/src/index.ts'))).toBe(true);
+      expect(resolver.hasConfig(join(root, 'packages/lib/src/index.ts'))).toBe(false);
+      expect(resolver.hasConfig()).toBe(false);
+    });
+
+    it('should find the workspace config without a file', () => {
+      expect(resolver.hasConfig()).toBe(true);
+    });
+  });
+
+  describe('caching', () => {
+    it('should reuse the resolved config for the same directory', async () => {
+      const first = await resolver.resolveForFile(write('src/a.ts', ''));
+      const second = await resolver.resolveForFile(write('src/b.ts', ''));
+
+      expect(second).toBe(first);
+    });
+
+    it('should reload when a config file changes', async () => {
+      const file = write('src/a.ts', '');
+      const first = await resolver.resolveForFile(file);
+
+      const configPath = write(CONFIG_FILE, 'timeout: 20000\n');
+      const later = new Date(Date.now() + 10_000);
+      utimesSync(configPath, later, later);
+
+      const second = await resolver.resolveForFile(file);
+
+      expect(second).not.toBe(first);
+      expect(second.config.timeout).toBe(20000);
+    });
+  });
+
+  describe('mergeRawConfig()', () => {
+    it('should merge objects and replace arrays', () => {
+      const merged = mergeRawConfig(
+        { include: ['a/**'], validators: { biome: { enabled: true }, typescript: {} } },
+        { include: ['b/**'], validators: { biome: { version: '1.x' } } }
+      );
+
+      expect(merged).toEqual({
+        include: ['b/**'],
+        validators: { biome: { enabled: true, version: '1.x' }, typescript: {} },
+      });
+    });
+  });
+});
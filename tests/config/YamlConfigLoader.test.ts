@@ -189,6 +189,23 @@ validators:
       expect(mockConsoleError).toHaveBeenCalledWith('❌ Configuration file has invalid values');
     });
 
+    it('should throw instead of exiting when exitOnError is off', async () => {
+      YamlConfigLoader.exitOnError = false;
+      try {
+        mockAccess.mockRejectedValueOnce(new Error('ENOENT: no such file'));
+        await expect(loader.load()).rejects.toThrow(
+          'Configuration file not found: claude-jsqualityhooks.config.yaml'
+        );
+
+        expect(() => loader.validate({ enabled: true, timeout: 500 })).toThrow(
+          'Configuration file claude-jsqualityhooks.config.yaml has invalid values: timeout:'
+        );
+        expect(mockExit).not.toHaveBeenCalled();
+      } finally {
+        YamlConfigLoader.exitOnError = true;
+      }
+    });
+
     it('should provide helpful error messages', () => {
       const invalidConfig = {
         enabled: 'not-a-boolean',
@@ -0,0 +1,183 @@
+/**
+ * Tests for DaemonServer
+ *
+ * These tests run a daemon on a real socket for a temporary project and talk
+ * to it through the client, with hook processing mocked.
+ */
+
+import { chmodSync, mkdtempSync, rmSync } from 'node:fs';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleHookInput } from '../../src/cli/hookMode.js';
+import {
+  getDaemonStatus,
+  requestHookFromDaemon,
+  sendDaemonRequest,
+  stopDaemon,
+} from '../../src/daemon/client.js';
+import { DaemonServer } from '../../src/daemon/DaemonServer.js';
+import { getDaemonPaths } from '../../src/daemon/paths.js';
+import type { HookInput } from '../../src/hooks/inputSchema.js';
+import { ensurePrivateDir } from '../../src/utils/userDir.js';
+
+vi.mock('../../src/cli/hookMode.js', () => ({
+  handleHookInput: vi.fn(),
+}));
+
+const mockHandleHookInput = vi.mocked(handleHookInput);
+
+const input: HookInput = {
+  hook_event_name: 'PostToolUse',
+  tool_name: 'Write',
+  tool_input: { file_path: '/project/src/file.ts', content: 'const a = 1;\n' },
+  cwd: '/project',
+};
+
+describe('DaemonServer', () => {
+  let root: string;
+  let server: DaemonServer;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    root = mkdtempSync(join(tmpdir(), 'daemon-'));
+    vi.stubEnv('XDG_RUNTIME_DIR', root);
+    server = new DaemonServer(root);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    vi.unstubAllEnvs();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should process hook events sent by the client', async () => {
+    mockHandleHookInput.mockResolvedValue({ exitCode: 0, stdout: { suppressOutput: true } });
+    await server.start();
+
+    const response = await requestHookFromDaemon(root, input);
+
+    expect(response).toEqual({ exitCode: 0, stdout: { suppressOutput: true } });
+    expect(mockHandleHookInput).toHaveBeenCalledWith(input);
+  });
+
+  it('should process hook events one at a time', async () => {
+    const order: string[] = [];
+    mockHandleHookInput.mockImplementation(async (hookInput) => {
+      const file = 'tool_input' in hookInput ? hookInput.tool_input.file_path : '';
+      order.push(`start ${file}`);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      order.push(`end ${file}`);
+      return { exitCode: 0 };
+    });
+    await server.start();
+
+    const second = { ...input, tool_input: { file_path: '/project/src/other.ts', content: '' } };
+    await Promise.all([
+      requestHookFromDaemon(root, input),
+      requestHookFromDaemon(root, second as HookInput),
+    ]);
+
+    expect(order).toEqual([
+      'start /project/src/file.ts',
+      'end /project/src/file.ts',
+      'start /project/src/other.ts',
+      'end /project/src/other.ts',
+    ]);
+  });
+
+  it('should answer hook events that fail with an error response', async () => {
+    mockHandleHookInput.mockRejectedValue(new Error('boom'));
+    await server.start();
+
+    const response = await requestHookFromDaemon(root, input);
+
+    expect(response).toEqual({ exitCode: 1, stderr: 'Hook failed: boom' });
+  });
+
+  it('should report status and count hook events', async () => {
+    mockHandleHookInput.mockResolvedValue({ exitCode: 0 });
+    await server.start();
+    await requestHookFromDaemon(root, input);
+
+    const status = await getDaemonStatus(root);
+
+    expect(status).toMatchObject({ pid: process.pid, projectRoot: root, requests: 1 });
+  });
+
+  it('should reject requests from an incompatible client', async () => {
+    await server.start();
+
+    const response = await sendDaemonRequest(getDaemonPaths(root).socketPath, {
+      type: 'status',
+      protocol: 999,
+    });
+
+    expect(response?.type).toBe('error');
+  });
+
+  it('should shut down on request', async () => {
+    await server.start();
+
+    expect(await stopDaemon(root)).toBe(true);
+    await server.waitUntilStopped();
+
+    expect(await getDaemonStatus(root)).toBeNull();
+  });
+
+  it('should shut down when idle', async () => {
+    server = new DaemonServer(root, 50);
+    await server.start();
+
+    await server.waitUntilStopped();
+
+    expect(await getDaemonStatus(root)).toBeNull();
+  });
+
+  it('should not start a second daemon for the same project', async () => {
+    await server.start();
+    const second = new DaemonServer(root);
+
+    expect(await second.start()).toBe(false);
+  });
+
+  describe('client fallback', () => {
+    it('should return null when no daemon is running', async () => {
+      expect(await requestHookFromDaemon(root, input)).toBeNull();
+      expect(await getDaemonStatus(root)).toBeNull();
+      expect(await stopDaemon(root)).toBe(false);
+    });
+
+    it('should not use a daemon directory other users can access', async () => {
+      mockHandleHookInput.mockResolvedValue({ exitCode: 0 });
+      await server.start();
+      chmodSync(getDaemonPaths(root).dir, 0o777);
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await requestHookFromDaemon(root, input)).toBeNull();
+      expect(mockHandleHookInput).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('accessible to other users'));
+      warn.mockRestore();
+    });
+
+    it('should not fall back once the daemon took the event', async () => {
+      // A daemon that receives the event and goes away without answering
+      const { dir, socketPath } = getDaemonPaths(root);
+      ensurePrivateDir(dir);
+      const listener = createServer((socket) => socket.once('data', () => socket.destroy()));
+      await new Promise<void>((resolve) => listener.listen(socketPath, resolve));
+
+      try {
+        const response = await requestHookFromDaemon(root, input);
+
+        expect(response).toMatchObject({
+          exitCode: 1,
+          stderr: expect.stringContaining('daemon stopped before answering'),
+        });
+      } finally {
+        await new Promise((resolve) => listener.close(resolve));
+      }
+    });
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Tests for daemon paths
+ *
+ * Tests where each project's daemon socket and log live.
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDaemonPaths } from '../../src/daemon/paths.js';
+
+describe.skipIf(process.platform === 'win32')('daemon paths', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'daemon-paths-'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should keep sockets and logs in the runtime directory', () => {
+    vi.stubEnv('XDG_RUNTIME_DIR', root);
+
+    const paths = getDaemonPaths('/project');
+
+    expect(paths.dir).toBe(join(root, 'claude-jsqualityhooks'));
+    expect(paths.socketPath).toMatch(/claude-jsqualityhooks\/[0-9a-f]{12}\.sock$/);
+    expect(paths.logPath).toBe(paths.socketPath.replace(/\.sock$/, '.log'));
+    expect(getDaemonPaths('/other').socketPath).not.toBe(paths.socketPath);
+  });
+
+  it('should fall back to a directory per user in the temp directory', () => {
+    vi.stubEnv('XDG_RUNTIME_DIR', '');
+
+    expect(getDaemonPaths('/project').dir).toBe(
+      join(tmpdir(), `claude-jsqualityhooks-${process.getuid?.()}`)
+    );
+  });
+});
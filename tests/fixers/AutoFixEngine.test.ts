@@ -20,27 +20,35 @@ vi.mock('node:fs/promises');
 vi.mock('execa');
 vi.mock('../../src/utils/versionDetector.js');
 vi.mock('../../src/validators/biome/adapters/BiomeAdapterFactory.js');
+vi.mock('../../src/validators/eslint/loadESLint.js');
+vi.mock('../../src/validators/prettier/loadPrettier.js');
 
 // Import mocked modules
 const { readFile, writeFile } = await import('node:fs/promises');
 const { execa } = await import('execa');
 const { detectBiomeVersion } = await import('../../src/utils/versionDetector.js');
-const { createAdapterFromDetection } = await import(
+const { createPreferredAdapter } = await import(
   '../../src/validators/biome/adapters/BiomeAdapterFactory.js'
 );
+const { loadESLintModule } = await import('../../src/validators/eslint/loadESLint.js');
+const { loadPrettierModule } = await import('../../src/validators/prettier/loadPrettier.js');
 
 // Create mock functions
 const mockReadFile = vi.mocked(readFile);
 const mockWriteFile = vi.mocked(writeFile);
 const mockExeca = vi.mocked(execa);
 const mockDetectBiomeVersion = vi.mocked(detectBiomeVersion);
-const mockCreateAdapterFromDetection = vi.mocked(createAdapterFromDetection);
+const mockCreatePreferredAdapter = vi.mocked(createPreferredAdapter);
+const mockLoadESLintModule = vi.mocked(loadESLintModule);
+const mockLoadPrettierModule = vi.mocked(loadPrettierModule);
 
 // Mock adapter
 const mockAdapter = {
   version: '2.x' as const,
   getFixFlag: vi.fn().mockReturnValue('--write'),
-  buildCommand: vi.fn().mockReturnValue(['biome', 'check', '--write']),
+  buildCommand: vi
+    .fn()
+    .mockReturnValue(['check', '/test/file.ts', '--write', '--reporter=json', '--colors=off']),
   parseOutput: vi.fn().mockReturnValue([]),
 };
 
@@ -110,10 +118,16 @@ describe('AutoFixEngine', () => {
 
     // Reset the mock adapter methods before each test
     mockAdapter.getFixFlag.mockReturnValue('--write');
-    mockAdapter.buildCommand.mockReturnValue(['biome', 'check', '--write']);
+    mockAdapter.buildCommand.mockReturnValue([
+      'check',
+      '/test/file.ts',
+      '--write',
+      '--reporter=json',
+      '--colors=off',
+    ]);
     mockAdapter.parseOutput.mockReturnValue([]);
 
-    mockCreateAdapterFromDetection.mockReturnValue(mockAdapter);
+    mockCreatePreferredAdapter.mockResolvedValue(mockAdapter);
 
     // Mock file operations - default to successful read of fixed content
     mockReadFile.mockResolvedValue("const x = 1;\nconst y = 'hello';");
@@ -189,22 +203,21 @@ describe('AutoFixEngine', () => {
 
       // Should have detected Biome version
       expect(mockDetectBiomeVersion).toHaveBeenCalled();
-      expect(mockCreateAdapterFromDetection).toHaveBeenCalled();
+      expect(mockCreatePreferredAdapter).toHaveBeenCalled();
     });
 
     it('should handle Biome execution correctly', async () => {
       await autoFixEngine.applyFixes(mockFile);
 
-      // Should execute Biome with correct parameters
+      // Should execute the project's Biome with safe fixes
+      expect(mockAdapter.buildCommand).toHaveBeenCalledWith('/test/file.ts', {
+        autoFix: true,
+        configPath: undefined,
+        unsafeFixes: false,
+      });
       expect(mockExeca).toHaveBeenCalledWith(
-        'biome',
-        expect.arrayContaining([
-          'check',
-          '/test/file.ts',
-          '--write',
-          '--reporter=json',
-          '--no-colors',
-        ]),
+        'npx',
+        ['@biomejs/biome', 'check', '/test/file.ts', '--write', '--reporter=json', '--colors=off'],
         expect.objectContaining({
           timeout: 5000,
           cwd: process.cwd(),
@@ -213,6 +226,246 @@ describe('AutoFixEngine', () => {
     });
   });
 
+  describe('Prettier formatting', () => {
+    it('should format with Prettier before applying ESLint fixes', async () => {
+      const format = vi.fn().mockResolvedValue('let x = 1\n');
+      const lintText = vi
+        .fn()
+        .mockResolvedValue([{ filePath: '/test/file.ts', messages: [], output: 'const x = 1\n' }]);
+      mockLoadPrettierModule.mockResolvedValue({
+        format,
+        check: vi.fn(),
+        resolveConfig: vi.fn().mockResolvedValue({ semi: false }),
+        getFileInfo: vi.fn().mockResolvedValue({ ignored: false, inferredParser: 'typescript' }),
+      });
+      mockLoadESLintModule.mockResolvedValue({
+        ESLint: vi.fn().mockImplementation(() => ({ lintText })),
+      });
+      mockFile.content = 'let x = 1;\n';
+      mockFile.issues = [
+        {
+          file: '/test/file.ts',
+          line: 1,
+          column: 1,
+          severity: 'error',
+          message: "'x' is never reassigned. Use 'const' instead.",
+          fixed: false,
+          fixable: true,
+          source: 'eslint',
+          ruleId: 'prefer-const',
+        },
+        {
+          file: '/test/file.ts',
+          line: 1,
+          column: 1,
+          severity: 'error',
+          message: 'File is not formatted. Prettier would print different content.',
+          fixed: false,
+          fixable: true,
+          source: 'prettier',
+          category: 'format',
+        },
+      ];
+
+      const result = await autoFixEngine.applyFixes(mockFile);
+
+      expect(format).toHaveBeenCalledWith('let x = 1;\n', expect.anything());
+      expect(lintText).toHaveBeenCalledWith('let x = 1\n', expect.anything());
+      expect(mockWriteFile).toHaveBeenCalledWith('/test/file.ts', 'const x = 1\n', 'utf-8');
+      expect(mockExeca).not.toHaveBeenCalled();
+      expect(result.fixesApplied).toEqual([
+        'Formatted the file with Prettier',
+        'Fixed 1 ESLint issue(s)',
+      ]);
+    });
+  });
+
+  describe('ESLint fixes', () => {
+    it('should write ESLint fix output before running Biome', async () => {
+      const lintText = vi
+        .fn()
+        .mockResolvedValue([{ filePath: '/test/file.ts', messages: [], output: 'const x = 1;\n' }]);
+      mockLoadESLintModule.mockResolvedValue({
+        ESLint: vi.fn().mockImplementation(() => ({ lintText })),
+      });
+      mockFile.content = 'let x = 1;\n';
+      mockFile.issues = [
+        {
+          file: '/test/file.ts',
+          line: 1,
+          column: 5,
+          severity: 'error',
+          message: "'x' is never reassigned. Use 'const' instead.",
+          fixed: false,
+          fixable: true,
+          source: 'eslint',
+          ruleId: 'prefer-const',
+          fix: {
+            fixName: 'prefer-const',
+            description: 'Fix prefer-const',
+            edits: [{ start: 0, length: 10, newText: 'const x = 1;' }],
+          },
+        },
+      ];
+
+      const result = await autoFixEngine.applyFixes(mockFile);
+
+      expect(lintText).toHaveBeenCalledWith('let x = 1;\n', expect.anything());
+      expect(mockWriteFile).toHaveBeenCalledWith('/test/file.ts', 'const x = 1;\n', 'utf-8');
+      expect(mockExeca).not.toHaveBeenCalled();
+      expect(result.fixesApplied).toContain('Fixed 1 ESLint issue(s)');
+    });
+  });
+
+  describe('custom validator fixes', () => {
+    it('should let the reporting custom validator fix its issues', async () => {
+      const init = vi.fn();
+      const fix = vi.fn().mockResolvedValue({ content: 'const x = 1; // reviewed\n' });
+      const dispose = vi.fn();
+      const validatorManager = {
+        getValidators: vi
+          .fn()
+          .mockResolvedValue([{ name: 'todo-comments', init, validate: vi.fn(), fix, dispose }]),
+      };
+      config.validators.custom = ['./validators/todo-comments.js'];
+      autoFixEngine = new AutoFixEngine(config, '/test', validatorManager as never);
+      mockFile.content = 'const x = 1; // TODO\n';
+      mockFile.issues = [
+        {
+          file: '/test/file.ts',
+          line: 1,
+          column: 14,
+          severity: 'warning',
+          message: 'Resolve the TODO comment',
+          fixed: false,
+          fixable: true,
+          source: 'todo-comments',
+        },
+      ];
+
+      const result = await autoFixEngine.applyFixes(mockFile);
+
+      // The manager initialized the validator and disposes of it
+      expect(init).not.toHaveBeenCalled();
+      expect(fix).toHaveBeenCalledWith(
+        expect.objectContaining({ path: '/test/file.ts', content: 'const x = 1; // TODO\n' })
+      );
+      expect(dispose).not.toHaveBeenCalled();
+      expect(mockWriteFile).toHaveBeenCalledWith(
+        '/test/file.ts',
+        'const x = 1; // reviewed\n',
+        'utf-8'
+      );
+      expect(mockExeca).not.toHaveBeenCalled();
+      expect(result.fixesApplied).toContain('Applied todo-comments fixes');
+    });
+  });
+
+  describe('Biome suggested fixes', () => {
+    it('should leave Biome issues with suggested edits to Biome', async () => {
+      mockFile.issues = [
+        {
+          file: '/test/file.ts',
+          line: 1,
+          column: 1,
+          severity: 'error',
+          message: 'This let declares a variable that is only assigned once.',
+          fixed: false,
+          fixable: true,
+          source: 'biome',
+          ruleId: 'lint/style/useConst',
+          category: 'lint',
+          fix: {
+            fixName: 'lint/style/useConst',
+            description: 'Safe fix: Use const instead.',
+            edits: [{ start: 0, length: 3, newText: 'const' }],
+          },
+        },
+      ];
+
+      await autoFixEngine.applyFixes(mockFile);
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'npx',
+        expect.arrayContaining(['@biomejs/biome', 'check', '/test/file.ts', '--write']),
+        expect.anything()
+      );
+      expect(mockWriteFile).not.toHaveBeenCalledWith('/test/file.ts', expect.anything(), 'utf-8');
+    });
+  });
+
+  describe('in-process Biome fixes', () => {
+    it('should fix content through the JS API without running the CLI', async () => {
+      const checkContent = vi.fn().mockResolvedValue({ issues: [], content: 'const x = 1;\n' });
+      mockCreatePreferredAdapter.mockResolvedValue({ ...mockAdapter, checkContent });
+      mockReadFile.mockResolvedValue('let  x = 1');
+
+      const result = await autoFixEngine.applyFixes(mockFile);
+
+      expect(checkContent).toHaveBeenCalledWith('let  x = 1', '/test/file.ts', { autoFix: true });
+      expect(mockWriteFile).toHaveBeenCalledWith('/test/file.ts', 'const x = 1;\n', 'utf-8');
+      expect(mockExeca).not.toHaveBeenCalled();
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('TypeScript quick fixes', () => {
+    const quickFixIssue = (
+      fixName: string,
+      edits: { start: number; length: number; newText: string }[]
+    ): ValidationIssue => ({
+      file: 'file.ts',
+      line: 1,
+      column: 1,
+      severity: 'error',
+      message: "Cannot find name 'helper'.",
+      fixed: false,
+      fixable: true,
+      kind: 'type',
+      fix: { fixName, description: 'Fix it', edits },
+    });
+
+    beforeEach(() => {
+      mockFile.content = 'helper();\n';
+      mockReadFile.mockImplementation(
+        async () => mockWriteFile.mock.calls.at(-1)?.[1] as unknown as string
+      );
+    });
+
+    it('should apply attached edits without running Biome', async () => {
+      const importEdit = { start: 0, length: 0, newText: "import { helper } from './helper';\n\n" };
+      mockFile.issues = [
+        quickFixIssue('import', [importEdit]),
+        // The same import suggested for a second usage is only added once
+        quickFixIssue('import', [importEdit]),
+      ];
+
+      const result = await autoFixEngine.applyFixes(mockFile);
+
+      expect(mockWriteFile).toHaveBeenCalledWith(
+        '/test/file.ts',
+        "import { helper } from './helper';\n\nhelper();\n",
+        'utf-8'
+      );
+      expect(result.modified).toBe(true);
+      expect(result.fixesApplied).toEqual(['Applied 2 TypeScript quick fix(es)']);
+      expect(mockExeca).not.toHaveBeenCalled();
+    });
+
+    it('should skip fixes outside the allowlist and fixes that overlap', async () => {
+      mockFile.issues = [
+        quickFixIssue('spelling', [{ start: 0, length: 6, newText: 'helpers' }]),
+        quickFixIssue('spelling', [{ start: 2, length: 2, newText: 'xx' }]),
+        quickFixIssue('fixMissingProperties', [{ start: 9, length: 0, newText: '// added' }]),
+      ];
+
+      const result = await autoFixEngine.applyFixes(mockFile);
+
+      expect(mockWriteFile).toHaveBeenCalledWith('/test/file.ts', 'helpers();\n', 'utf-8');
+      expect(result.fixesApplied).toContain('Applied 1 TypeScript quick fix(es)');
+    });
+  });
+
   describe('issue categorization', () => {
     it('should categorize issues by type', async () => {
       const mixedIssues: ValidationIssue[] = [
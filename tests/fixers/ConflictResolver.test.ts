@@ -186,6 +186,17 @@ describe('utility functions', () => {
       expect(priority).toBe(FixPriority.SAFE_LINT);
     });
 
+    it('should prefer the issue category over message keywords', () => {
+      const issue = createMockIssue('test-rule', 1, 1, 'Missing semicolon');
+
+      expect(classifyFixPriority({ ...issue, category: 'format' })).toBe(FixPriority.FORMATTING);
+      expect(classifyFixPriority({ ...issue, category: 'import' })).toBe(FixPriority.IMPORTS);
+      expect(classifyFixPriority({ ...issue, category: 'type' })).toBe(FixPriority.OTHER);
+      expect(classifyFixPriority({ ...issue, category: 'lint', fixable: false })).toBe(
+        FixPriority.OTHER
+      );
+    });
+
     it('should default to OTHER for unknown rules', () => {
       const issue = createMockIssue('test-rule', 1, 1, 'Some unknown issue');
       const priority = classifyFixPriority(issue);
@@ -201,6 +212,11 @@ describe('utility functions', () => {
       expect(endLine).toBe(5); // Single line since ValidationIssue doesn't have endLine
     });
 
+    it('should use the end line of multi-line issues', () => {
+      const issue = { ...createMockIssue('test-rule', 5), endLine: 8 };
+      expect(getFixLineRange(issue)).toEqual([5, 8]);
+    });
+
     it('should default to line 1 when no line specified', () => {
       const issue: ValidationIssue = {
         file: 'test.ts',
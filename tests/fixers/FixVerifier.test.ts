@@ -51,6 +51,40 @@ describe('FixVerifier', () => {
   });
 
   describe('verifyFixes', () => {
+    it('should not run related tests again on fixed content', async () => {
+      const testsResult = {
+        validator: 'tests',
+        status: 'success' as const,
+        issues: [],
+        duration: 4000,
+      };
+      const validation: ValidationResponse = {
+        success: true,
+        results: [testsResult, { validator: 'biome', status: 'success', issues: [], duration: 10 }],
+        summary: {
+          totalValidators: 2,
+          successfulValidators: 2,
+          failedValidators: 0,
+          totalIssues: 0,
+          errorCount: 0,
+          warningCount: 0,
+          infoCount: 0,
+        },
+        performance: { totalDuration: 4000, parallelEfficiency: 1.0 },
+        cached: false,
+      };
+      const { stat } = await import('node:fs/promises');
+      vi.mocked(stat).mockResolvedValue({ size: 100 } as never);
+      mockValidatorManager.validateFile.mockResolvedValue(validation);
+
+      await fixVerifier.verifyFixes('/test/file.ts', 'const a = 1', 'const a = 1;', validation);
+
+      expect(mockValidatorManager.validateFile).toHaveBeenCalledWith(
+        expect.objectContaining({ content: 'const a = 1;' }),
+        { reuse: [testsResult] }
+      );
+    });
+
     it('should successfully verify when fixes resolve issues', async () => {
       // Setup - original validation with issues
       const originalValidation: ValidationResponse = {
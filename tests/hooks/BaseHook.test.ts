@@ -98,7 +98,10 @@ describe('BaseHook', () => {
 
       const result = await hook.execute(fileInfo);
 
-      expect(mockExecuteHook).toHaveBeenCalledWith(fileInfo);
+      expect(mockExecuteHook).toHaveBeenCalledWith({
+        ...fileInfo,
+        signal: expect.any(AbortSignal),
+      });
       expect(result.success).toBe(true);
       expect(result.modified).toBe(true);
       expect(result.metadata).toEqual({ test: 'data' });
@@ -408,6 +408,27 @@ describe('HookManager', () => {
     });
   });
 
+  describe('dispose()', () => {
+    it('should dispose of registered hooks and keep going after failures', async () => {
+      const failing = Object.assign(new TestHook('failing'), {
+        dispose: vi.fn().mockRejectedValue(new Error('busy')),
+      });
+      const disposable = Object.assign(new TestHook('disposable'), {
+        dispose: vi.fn().mockResolvedValue(undefined),
+      });
+      manager.registerHook(failing);
+      manager.registerHook(disposable);
+      manager.registerHook(new TestHook('plain'));
+
+      await manager.dispose();
+
+      expect(failing.dispose).toHaveBeenCalledOnce();
+      expect(disposable.dispose).toHaveBeenCalledOnce();
+      expect(manager.getRegisteredHooks()).toEqual([]);
+      expect(manager.isInitialized()).toBe(false);
+    });
+  });
+
   describe('getStats()', () => {
     it('should return correct statistics', () => {
       const hook1 = new TestHook('hook1');
@@ -0,0 +1,46 @@
+/**
+ * Tests for InputHandler
+ *
+ * These tests verify how Edit/MultiEdit replacements are applied in memory.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { applyEdits } from '../../src/hooks/InputHandler.js';
+
+describe('InputHandler', () => {
+  describe('applyEdits()', () => {
+    it('should replace a unique match', () => {
+      expect(
+        applyEdits('const a = 1;\nconst b = 2;', [{ old_string: 'b = 2', new_string: 'b = 3' }])
+      ).toBe('const a = 1;\nconst b = 3;');
+    });
+
+    it('should apply edits in order', () => {
+      const result = applyEdits('foo();', [
+        { old_string: 'foo', new_string: 'bar' },
+        { old_string: 'bar()', new_string: 'bar(1)' },
+      ]);
+
+      expect(result).toBe('bar(1);');
+    });
+
+    it('should replace every match with replace_all', () => {
+      expect(
+        applyEdits('a + a + a', [{ old_string: 'a', new_string: 'b', replace_all: true }])
+      ).toBe('b + b + b');
+    });
+
+    it('should reject ambiguous matches without replace_all', () => {
+      expect(applyEdits('a + a', [{ old_string: 'a', new_string: 'b' }])).toBeNull();
+    });
+
+    it('should reject missing matches', () => {
+      expect(applyEdits('const a = 1;', [{ old_string: 'missing', new_string: 'x' }])).toBeNull();
+    });
+
+    it('should create new files from an empty old_string', () => {
+      expect(applyEdits('', [{ old_string: '', new_string: 'export {};' }])).toBe('export {};');
+      expect(applyEdits('existing', [{ old_string: '', new_string: 'x' }])).toBeNull();
+    });
+  });
+});
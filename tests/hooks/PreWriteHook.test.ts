@@ -0,0 +1,178 @@
+/**
+ * Tests for PreWriteHook
+ *
+ * These tests verify that proposed content is validated in memory and that
+ * only configured error classes introduced by the change are denied.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PreWriteHook } from '../../src/hooks/PreWriteHook.js';
+import type { Config } from '../../src/types/config.js';
+import type { FileInfo } from '../../src/types/hooks.js';
+import type { ValidationIssue } from '../../src/validators/biome/adapters/BiomeAdapter.js';
+import { ValidatorManager } from '../../src/validators/ValidatorManager.js';
+
+vi.mock('node:fs', () => ({
+  existsSync: vi.fn(),
+  readFileSync: vi.fn(),
+}));
+
+const mockValidateFile = vi.fn();
+const mockClearCache = vi.fn();
+
+vi.mock('../../src/validators/ValidatorManager.js', () => ({
+  ValidatorManager: vi.fn().mockImplementation(() => ({
+    validateFile: mockValidateFile,
+    clearCache: mockClearCache,
+  })),
+}));
+
+const mockExistsSync = vi.mocked(existsSync);
+const mockReadFileSync = vi.mocked(readFileSync);
+const MockValidatorManager = vi.mocked(ValidatorManager);
+
+// Mock console methods to prevent noisy test output
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+vi.spyOn(console, 'info').mockImplementation(() => {});
+
+function issue(overrides: Partial<ValidationIssue>): ValidationIssue {
+  return {
+    file: 'src/file.ts',
+    line: 1,
+    column: 1,
+    severity: 'error',
+    message: 'Problem',
+    fixed: false,
+    fixable: false,
+    ...overrides,
+  };
+}
+
+function response(issues: ValidationIssue[]) {
+  return { results: [{ validator: 'typescript', status: 'error', issues, duration: 1 }] };
+}
+
+describe('PreWriteHook', () => {
+  let config: Config;
+  let fileInfo: FileInfo;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    config = {
+      enabled: true,
+      timeout: 5000,
+      include: ['**/*.ts'],
+      exclude: ['node_modules/**'],
+      validators: {
+        biome: { enabled: true, version: 'auto' },
+        typescript: { enabled: true },
+      },
+      autoFix: { enabled: true, maxAttempts: 3 },
+    };
+
+    fileInfo = {
+      path: '/project/src/file.ts',
+      content: 'const x: number = "a";',
+      extension: '.ts',
+      exists: true,
+      size: 22,
+    };
+
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue('const x: number = 1;');
+    mockValidateFile.mockResolvedValue(response([]));
+  });
+
+  it('should validate proposed content with all validators', async () => {
+    const hook = new PreWriteHook(config);
+    const result = await hook.execute(fileInfo);
+
+    expect(MockValidatorManager).toHaveBeenCalledWith(config, process.cwd());
+    expect(mockValidateFile).toHaveBeenCalledWith({
+      ...fileInfo,
+      signal: expect.any(AbortSignal),
+    });
+    expect(result.success).toBe(true);
+    expect(result.metadata?.denied).toEqual([]);
+  });
+
+  it('should not reuse results cached by earlier events', async () => {
+    await new PreWriteHook(config).execute(fileInfo);
+
+    expect(mockClearCache).toHaveBeenCalled();
+    expect(mockClearCache.mock.invocationCallOrder[0]).toBeLessThan(
+      mockValidateFile.mock.invocationCallOrder[0] as number
+    );
+  });
+
+  it('should deny new type errors', async () => {
+    const typeError = issue({ kind: 'type', message: "Type 'string' is not assignable" });
+    mockValidateFile
+      .mockResolvedValueOnce(response([typeError]))
+      .mockResolvedValueOnce(response([]));
+
+    const result = await new PreWriteHook(config).execute(fileInfo);
+
+    expect(mockValidateFile).toHaveBeenLastCalledWith(
+      expect.objectContaining({ content: 'const x: number = 1;' })
+    );
+    expect(result.metadata?.denied).toEqual([typeError]);
+  });
+
+  it('should not deny errors already present on disk', async () => {
+    const existing = issue({ kind: 'type', line: 10, message: 'Cannot find name' });
+    mockValidateFile
+      .mockResolvedValueOnce(response([{ ...existing, line: 12 }]))
+      .mockResolvedValueOnce(response([existing]));
+
+    const result = await new PreWriteHook(config).execute(fileInfo);
+
+    expect(result.metadata?.denied).toEqual([]);
+  });
+
+  it('should deny new files without comparing against disk', async () => {
+    const syntaxError = issue({ kind: 'syntax', message: "';' expected." });
+    mockExistsSync.mockReturnValue(false);
+    mockValidateFile.mockResolvedValue(response([syntaxError]));
+
+    const result = await new PreWriteHook(config).execute(fileInfo);
+
+    expect(mockValidateFile).toHaveBeenCalledTimes(1);
+    expect(result.metadata?.denied).toEqual([syntaxError]);
+  });
+
+  it('should only deny configured error classes', async () => {
+    config.hooks = { denyOn: ['syntax'] };
+    mockValidateFile.mockResolvedValue(
+      response([issue({ kind: 'type' }), issue({ kind: 'syntax', severity: 'warning' })])
+    );
+
+    const result = await new PreWriteHook(config).execute(fileInfo);
+
+    expect(result.metadata?.denied).toEqual([]);
+  });
+
+  it('should deny new lint errors when configured', async () => {
+    config.hooks = { denyOn: ['lint'] };
+    const lintError = issue({ kind: 'lint', message: 'Using == may be unsafe' });
+    mockValidateFile
+      .mockResolvedValueOnce(response([lintError]))
+      .mockResolvedValueOnce(response([]));
+
+    const result = await new PreWriteHook(config).execute(fileInfo);
+
+    expect(result.metadata?.denied).toEqual([lintError]);
+  });
+
+  it('should skip files that do not match patterns', async () => {
+    const result = await new PreWriteHook(config).execute({
+      ...fileInfo,
+      path: '/project/README.md',
+    });
+
+    expect(mockValidateFile).not.toHaveBeenCalled();
+    expect(result.metadata?.reason).toBe('skipped_pattern_mismatch');
+  });
+});
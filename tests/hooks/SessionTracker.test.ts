@@ -0,0 +1,96 @@
+/**
+ * Tests for SessionTracker
+ *
+ * These tests verify that touched files are recorded per session on disk.
+ */
+
+import { chmodSync, existsSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionTracker } from '../../src/hooks/SessionTracker.js';
+
+describe('SessionTracker', () => {
+  let sessionDir: string;
+
+  beforeEach(() => {
+    sessionDir = mkdtempSync(join(tmpdir(), 'session-tracker-'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(sessionDir, { recursive: true, force: true });
+  });
+
+  it('should return no files for an unknown session', async () => {
+    const tracker = new SessionTracker('unknown', sessionDir);
+
+    expect(await tracker.getFiles()).toEqual([]);
+  });
+
+  it('should record files once in first-touched order', async () => {
+    const tracker = new SessionTracker('abc123', sessionDir);
+
+    await tracker.recordFile('/project/src/b.ts');
+    await tracker.recordFile('/project/src/a.ts');
+    await tracker.recordFile('/project/src/b.ts');
+
+    expect(await tracker.getFiles()).toEqual(['/project/src/b.ts', '/project/src/a.ts']);
+  });
+
+  it('should keep sessions separate', async () => {
+    await new SessionTracker('first', sessionDir).recordFile('/project/src/a.ts');
+
+    expect(await new SessionTracker('second', sessionDir).getFiles()).toEqual([]);
+  });
+
+  it('should keep unsafe session ids inside the session directory', async () => {
+    const tracker = new SessionTracker('../../escape', sessionDir);
+
+    await tracker.recordFile('/project/src/a.ts');
+
+    expect(await new SessionTracker('.._.._escape', sessionDir).getFiles()).toEqual([
+      '/project/src/a.ts',
+    ]);
+  });
+
+  it('should clear recorded files', async () => {
+    const tracker = new SessionTracker('abc123', sessionDir);
+    await tracker.recordFile('/project/src/a.ts');
+
+    await tracker.clear();
+
+    expect(await tracker.getFiles()).toEqual([]);
+  });
+
+  it('should remove stale records of other sessions', async () => {
+    const tracker = new SessionTracker('current', sessionDir);
+    await tracker.recordFile('/project/src/a.ts');
+    await new SessionTracker('recent', sessionDir).recordFile('/project/src/a.ts');
+    await new SessionTracker('abandoned', sessionDir).recordFile('/project/src/a.ts');
+    const weekAgo = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000);
+    utimesSync(join(sessionDir, 'abandoned.files'), weekAgo, weekAgo);
+    utimesSync(join(sessionDir, 'current.files'), weekAgo, weekAgo);
+
+    await tracker.removeStaleRecords();
+
+    expect(existsSync(join(sessionDir, 'abandoned.files'))).toBe(false);
+    expect(existsSync(join(sessionDir, 'recent.files'))).toBe(true);
+    expect(await tracker.getFiles()).toEqual(['/project/src/a.ts']);
+  });
+
+  it.skipIf(process.platform === 'win32')(
+    'should ignore records in a directory other users can access',
+    async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      writeFileSync(join(sessionDir, 'abc123.files'), '/project/src/planted.ts\n');
+      chmodSync(sessionDir, 0o777);
+      const tracker = new SessionTracker('abc123', sessionDir);
+
+      await tracker.recordFile('/project/src/a.ts');
+
+      expect(await tracker.getFiles()).toEqual([]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('accessible to other users'));
+    }
+  );
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for edited line ranges
+ *
+ * These tests verify how changed lines are derived from tool input and diffs,
+ * and how issues are split into those in the change and elsewhere.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  getEditedRanges,
+  mapRanges,
+  mergeRanges,
+  partitionIssues,
+  rangesFromEdits,
+  rangesFromPatch,
+} from '../../src/hooks/editedRanges.js';
+import type { ToolHookInput } from '../../src/hooks/inputSchema.js';
+
+const issueAt = (line: number) => ({
+  file: 'src/file.ts',
+  line,
+  column: 1,
+  severity: 'error' as const,
+  message: `Issue on line ${line}`,
+  fixed: false,
+  fixable: false,
+});
+
+describe('editedRanges', () => {
+  const content = ['const a = 1;', 'const b = 2;', 'function f() {', '  return a;', '}', ''].join(
+    '\n'
+  );
+
+  describe('mergeRanges', () => {
+    it('should sort and merge overlapping and adjacent ranges', () => {
+      expect(
+        mergeRanges([
+          { start: 7, end: 8 },
+          { start: 1, end: 2 },
+          { start: 3, end: 3 },
+          { start: 8, end: 10 },
+        ])
+      ).toEqual([
+        { start: 1, end: 3 },
+        { start: 7, end: 10 },
+      ]);
+    });
+  });
+
+  describe('rangesFromEdits', () => {
+    it('should locate single and multi-line replacements', () => {
+      const edits = [
+        { old_string: 'const b = 1;', new_string: 'const b = 2;' },
+        { old_string: 'return b;', new_string: 'function f() {\n  return a;' },
+      ];
+
+      expect(rangesFromEdits(content, edits)).toEqual([{ start: 2, end: 4 }]);
+    });
+
+    it('should mark every occurrence of an ambiguous replacement', () => {
+      expect(rangesFromEdits(content, [{ old_string: 'x', new_string: 'const' }])).toEqual([
+        { start: 1, end: 2 },
+      ]);
+    });
+
+    it('should ignore deletions', () => {
+      expect(rangesFromEdits(content, [{ old_string: 'x', new_string: '' }])).toEqual([]);
+    });
+  });
+
+  describe('rangesFromPatch', () => {
+    it('should mark added lines and the position of removed lines', () => {
+      const hunks = [
+        { newStart: 1, lines: [' const a = 1;', '-const b = 1;', '+const b = 2;', ' function'] },
+        { newStart: 10, lines: [' x', '-removed', ' y'] },
+      ];
+
+      expect(rangesFromPatch(hunks)).toEqual([
+        { start: 2, end: 2 },
+        { start: 11, end: 11 },
+      ]);
+    });
+  });
+
+  describe('mapRanges', () => {
+    it('should follow lines that fixes added, removed or replaced', () => {
+      const before = ['a();', 'let x = 1', 'f(x);;', 'g(x);', ''].join('\n');
+      const after = ["'use strict';", 'a();', 'const x = 1;', '', 'f(x);', 'g(x);', ''].join('\n');
+
+      expect(mapRanges([{ start: 2, end: 2 }], before, after)).toEqual([{ start: 3, end: 5 }]);
+      expect(mapRanges([{ start: 4, end: 4 }], before, after)).toEqual([{ start: 6, end: 6 }]);
+    });
+
+    it('should keep ranges when fixes changed nothing', () => {
+      expect(mapRanges([{ start: 2, end: 4 }], content, content)).toEqual([{ start: 2, end: 4 }]);
+    });
+  });
+
+  describe('getEditedRanges', () => {
+    const edit: ToolHookInput = {
+      hook_event_name: 'PostToolUse',
+      tool_name: 'Edit',
+      tool_input: {
+        file_path: '/project/src/file.ts',
+        old_string: 'return b;',
+        new_string: 'return a;',
+      },
+    };
+
+    it('should prefer the diff from the tool response', () => {
+      const input = {
+        ...edit,
+        tool_response: { structuredPatch: [{ newStart: 5, lines: ['+}'] }] },
+      } as ToolHookInput;
+
+      expect(getEditedRanges(input, content)).toEqual([{ start: 5, end: 5 }]);
+    });
+
+    it('should locate Edit replacements without a diff', () => {
+      expect(getEditedRanges(edit, content)).toEqual([{ start: 4, end: 4 }]);
+    });
+
+    it('should return null for a Write without a diff', () => {
+      const write: ToolHookInput = {
+        hook_event_name: 'PostToolUse',
+        tool_name: 'Write',
+        tool_input: { file_path: '/project/src/file.ts', content },
+      };
+
+      expect(getEditedRanges(write, content)).toBeNull();
+    });
+  });
+
+  describe('partitionIssues', () => {
+    it('should split issues by edited lines', () => {
+      const result = partitionIssues([issueAt(1), issueAt(4), issueAt(9)], [{ start: 3, end: 5 }]);
+
+      expect(result.inChange.map((issue) => issue.line)).toEqual([4]);
+      expect(result.elsewhere.map((issue) => issue.line)).toEqual([1, 9]);
+    });
+  });
+});
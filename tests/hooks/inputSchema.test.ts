@@ -0,0 +1,163 @@
+/**
+ * Tests for hook input schemas
+ *
+ * These tests verify that every hook event is validated and that malformed
+ * payloads produce precise error messages.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  isStopHookInput,
+  isToolHookInput,
+  parseHookInput,
+  parseHookInputText,
+} from '../../src/hooks/inputSchema.js';
+
+const common = {
+  session_id: 'abc123',
+  transcript_path: '/home/user/.claude/projects/p/abc123.jsonl',
+  cwd: '/project',
+};
+
+describe('inputSchema', () => {
+  describe('parseHookInput()', () => {
+    it('should accept PostToolUse input with tool_response', () => {
+      const result = parseHookInput({
+        ...common,
+        hook_event_name: 'PostToolUse',
+        tool_name: 'Write',
+        tool_input: { file_path: '/project/src/a.ts', content: 'export {};' },
+        tool_response: { filePath: '/project/src/a.ts', success: true },
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(isToolHookInput(result.input)).toBe(true);
+        expect(result.input).toMatchObject({ cwd: '/project', tool_name: 'Write' });
+      }
+    });
+
+    it('should accept MultiEdit input with replace_all edits', () => {
+      const result = parseHookInput({
+        ...common,
+        hook_event_name: 'PreToolUse',
+        tool_name: 'MultiEdit',
+        tool_input: {
+          file_path: '/project/src/a.ts',
+          edits: [{ old_string: 'a', new_string: 'b', replace_all: true }],
+        },
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should accept arbitrary input for non-file tools', () => {
+      const result = parseHookInput({
+        ...common,
+        hook_event_name: 'PreToolUse',
+        tool_name: 'Bash',
+        tool_input: { command: 'ls' },
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should default stop_hook_active for Stop input', () => {
+      const result = parseHookInput({ ...common, hook_event_name: 'SubagentStop' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(isStopHookInput(result.input)).toBe(true);
+        expect(result.input).toMatchObject({ stop_hook_active: false });
+      }
+    });
+
+    it('should accept other hook events', () => {
+      expect(
+        parseHookInput({ ...common, hook_event_name: 'UserPromptSubmit', prompt: 'hi' }).success
+      ).toBe(true);
+      expect(
+        parseHookInput({ ...common, hook_event_name: 'PreCompact', trigger: 'auto' }).success
+      ).toBe(true);
+    });
+
+    it('should keep unknown fields', () => {
+      const result = parseHookInput({ ...common, hook_event_name: 'Stop', future_field: 1 });
+
+      expect(result.success && (result.input as Record<string, unknown>).future_field).toBe(1);
+    });
+
+    it('should report missing file tool fields precisely', () => {
+      const result = parseHookInput({
+        ...common,
+        hook_event_name: 'PostToolUse',
+        tool_name: 'Edit',
+        tool_input: { file_path: '/project/src/a.ts', old_string: 'a' },
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid hook input: tool_input.new_string: Edit input requires new_string',
+      });
+    });
+
+    it('should report wrongly typed fields with their path', () => {
+      const result = parseHookInput({
+        ...common,
+        hook_event_name: 'PreToolUse',
+        tool_name: 'Write',
+        tool_input: { file_path: 42, content: '' },
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('tool_input.file_path:');
+      }
+    });
+
+    it('should pass unknown hook events through', () => {
+      const result = parseHookInput({ ...common, hook_event_name: 'PostCompact', extra: 1 });
+
+      expect(result).toEqual({
+        success: true,
+        input: { ...common, hook_event_name: 'PostCompact', extra: 1 },
+      });
+    });
+
+    it('should reject input without a hook event name', () => {
+      const result = parseHookInput({ ...common });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('hook_event_name:');
+      }
+    });
+
+    it('should require session_id for Stop input', () => {
+      const result = parseHookInput({ hook_event_name: 'Stop' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('session_id:');
+      }
+    });
+  });
+
+  describe('parseHookInputText()', () => {
+    it('should report empty input', () => {
+      expect(parseHookInputText('  ')).toEqual({
+        success: false,
+        error: 'Invalid hook input: no JSON received on stdin',
+      });
+    });
+
+    it('should report malformed JSON', () => {
+      const result = parseHookInputText('{"hook_event_name":');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toMatch(/^Invalid hook input: malformed JSON/);
+      }
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for the per-configuration instance cache
+ *
+ * Tests instance reuse per configuration and project root, and disposal of
+ * cached instances.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { Config } from '../../src/types/config.js';
+import { cachePerConfig, disposeCachedInstances } from '../../src/utils/configCache.js';
+
+describe('cachePerConfig', () => {
+  it('should create one instance per configuration and project root', () => {
+    const get = cachePerConfig((config, projectRoot) => ({ config, projectRoot }));
+    const config = {} as Config;
+
+    expect(get(config, '/a')).toBe(get(config, '/a'));
+    expect(get(config, '/a')).not.toBe(get(config, '/b'));
+    expect(get(config, '/a')).not.toBe(get({} as Config, '/a'));
+  });
+
+  it('should dispose of cached instances once', async () => {
+    const dispose = vi.fn().mockResolvedValue(undefined);
+    const get = cachePerConfig((_config, projectRoot) => ({ projectRoot }), dispose);
+    const config = {} as Config;
+    const first = get(config, '/a');
+    const second = get(config, '/b');
+
+    await disposeCachedInstances();
+    await disposeCachedInstances();
+
+    expect(dispose.mock.calls).toEqual([[first], [second]]);
+  });
+
+  it('should keep disposing after a failure', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing = cachePerConfig(
+      () => ({}),
+      () => Promise.reject(new Error('busy'))
+    );
+    const dispose = vi.fn().mockResolvedValue(undefined);
+    const get = cachePerConfig(() => ({}), dispose);
+    failing({} as Config, '/a');
+    get({} as Config, '/a');
+
+    await disposeCachedInstances();
+
+    expect(dispose).toHaveBeenCalledOnce();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('busy'));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for dependency graph utilities
+ *
+ * Tests import extraction, relative import resolution and dependent lookup
+ * against a temporary project on disk.
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  extractImports,
+  findDependents,
+  findImports,
+  resolveImport,
+} from '../../src/utils/dependencyGraph.js';
+
+describe('dependencyGraph', () => {
+  let root: string;
+
+  const write = (path: string, content: string): string => {
+    const fullPath = join(root, path);
+    mkdirSync(join(fullPath, '..'), { recursive: true });
+    writeFileSync(fullPath, content);
+    return fullPath;
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'dependency-graph-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('extractImports', () => {
+    it('should extract static, dynamic and require imports', async () => {
+      const content = [
+        "import { a } from './a.js';",
+        "import type { B } from '../b';",
+        "export * from './c.js';",
+        "import './side-effect.js';",
+        "const d = await import('./d.js');",
+        "const e = require('e');",
+      ].join('\n');
+
+      expect(await extractImports(content, 'index.ts')).toEqual([
+        './a.js',
+        '../b',
+        './c.js',
+        './side-effect.js',
+        './d.js',
+        'e',
+      ]);
+    });
+
+    it('should handle multi-line import lists', async () => {
+      const content = "import {\n  a,\n  b,\n} from './module.js';";
+
+      expect(await extractImports(content, 'index.ts')).toEqual(['./module.js']);
+    });
+
+    it('should ignore imports in comments and strings', async () => {
+      const content = [
+        "// import { old } from './old.js';",
+        "/* require('./commented.js') */",
+        'const example = "import x from \'./example.js\'";',
+        "const template = `export * from './template.js'`;",
+        "import { real } from './real.js';",
+      ].join('\n');
+
+      expect(await extractImports(content, 'index.ts')).toEqual(['./real.js']);
+    });
+
+    it('should parse JSX by the file extension', async () => {
+      const content = "import { Button } from './Button.js';\nexport const App = () => <Button />;";
+
+      expect(await extractImports(content, 'App.tsx')).toEqual(['./Button.js']);
+    });
+  });
+
+  describe('findImports', () => {
+    it('should locate specifiers and flag type-only and dynamic imports', async () => {
+      const content =
+        "import { a } from './a.js';\n  import type {\n  B,\n} from 'b';\nawait import('./c.js');";
+
+      expect(await findImports(content, 'index.ts')).toEqual([
+        { specifier: './a.js', line: 1, column: 19, typeOnly: false, dynamic: false },
+        { specifier: 'b', line: 4, column: 8, typeOnly: true, dynamic: false },
+        { specifier: './c.js', line: 5, column: 14, typeOnly: false, dynamic: true },
+      ]);
+    });
+
+    it('should flag import types as type-only', async () => {
+      const content = "type Config = typeof import('./config.js');";
+
+      expect(await findImports(content, 'index.ts')).toEqual([
+        { specifier: './config.js', line: 1, column: 29, typeOnly: true, dynamic: false },
+      ]);
+    });
+  });
+
+  describe('resolveImport', () => {
+    it('should map .js specifiers to TypeScript sources', () => {
+      const from = write('src/index.ts', '');
+      const target = write('src/util.ts', '');
+
+      expect(resolveImport('./util.js', from)).toBe(target);
+    });
+
+    it('should resolve extensionless and index imports', () => {
+      const from = write('src/index.ts', '');
+      const file = write('src/file.tsx', '');
+      const index = write('src/dir/index.ts', '');
+
+      expect(resolveImport('./file', from)).toBe(file);
+      expect(resolveImport('./dir', from)).toBe(index);
+    });
+
+    it('should not resolve package or missing imports', () => {
+      const from = write('src/index.ts', '');
+
+      expect(resolveImport('zod', from)).toBeNull();
+      expect(resolveImport('./missing.js', from)).toBeNull();
+    });
+  });
+
+  describe('findDependents', () => {
+    it('should find files that import the targets', async () => {
+      const target = write('src/util.ts', 'export const x = 1;');
+      const importer = write('src/app.ts', "import { x } from './util.js';");
+      const unrelated = write('src/other.ts', "import { y } from './y.js';");
+
+      const dependents = await findDependents([target], [target, importer, unrelated]);
+
+      expect(dependents).toEqual([importer]);
+    });
+  });
+});
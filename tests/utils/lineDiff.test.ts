@@ -0,0 +1,39 @@
+/**
+ * Tests for line diff utilities
+ */
+
+import { describe, expect, it } from 'vitest';
+import { diffLines, formatUnifiedDiff } from '../../src/utils/lineDiff.js';
+
+describe('lineDiff', () => {
+  it('should find separate runs of changed lines', () => {
+    const before = 'a\nb\nc\nd\ne\n';
+    const after = 'a\nB\nc\nd\ne\nf\n';
+
+    const hunks = diffLines(before, after);
+
+    expect(hunks).toEqual([
+      { oldStart: 1, newStart: 1, offset: 2, removed: ['b\n'], added: ['B\n'] },
+      { oldStart: 5, newStart: 5, offset: 10, removed: [], added: ['f\n'] },
+    ]);
+    expect(formatUnifiedDiff(hunks)).toBe('@@ -2 +2 @@\n-b\n+B\n@@ -5,0 +6 @@\n+f');
+  });
+
+  it('should report no hunks for identical content', () => {
+    expect(diffLines('a\nb\n', 'a\nb\n')).toEqual([]);
+  });
+
+  it('should give hunk offsets that turn the old content into the new', () => {
+    const before = 'const a = "x"\nif (a) { b() }\nexport {}\n';
+    const after = "const a = 'x'\nif (a) {\n  b()\n}\nexport {}\n";
+
+    let result = before;
+    for (const hunk of [...diffLines(before, after)].reverse()) {
+      const length = hunk.removed.join('').length;
+      result =
+        result.slice(0, hunk.offset) + hunk.added.join('') + result.slice(hunk.offset + length);
+    }
+
+    expect(result).toBe(after);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for project root resolution
+ *
+ * Tests root lookup from the hook payload cwd, CLAUDE_PROJECT_DIR and the
+ * edited file against a temporary project on disk.
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findUp, PROJECT_CONFIG_FILE, resolveProjectRoot } from '../../src/utils/projectRoot.js';
+
+describe('projectRoot', () => {
+  let root: string;
+
+  const write = (path: string, content = ''): string => {
+    const fullPath = join(root, path);
+    mkdirSync(join(fullPath, '..'), { recursive: true });
+    writeFileSync(fullPath, content);
+    return fullPath;
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'project-root-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('findUp', () => {
+    it('should find the nearest directory containing the entry', () => {
+      write('package.json', '{}');
+      write('packages/app/package.json', '{}');
+      mkdirSync(join(root, 'packages/app/src'), { recursive: true });
+
+      expect(findUp(join(root, 'packages/app/src'), 'package.json')).toBe(
+        join(root, 'packages/app')
+      );
+    });
+
+    it('should return null when no directory contains the entry', () => {
+      expect(findUp(root, 'no-such-marker.json')).toBeNull();
+    });
+  });
+
+  describe('resolveProjectRoot', () => {
+    it('should walk up from the payload cwd to the configuration file', () => {
+      write(PROJECT_CONFIG_FILE, 'enabled: true');
+      mkdirSync(join(root, 'src/nested'), { recursive: true });
+
+      expect(resolveProjectRoot({ cwd: join(root, 'src/nested'), env: {} })).toBe(root);
+    });
+
+    it('should prefer the configuration file over closer package.json files', () => {
+      write(PROJECT_CONFIG_FILE, 'enabled: true');
+      write('packages/app/package.json', '{}');
+
+      expect(resolveProjectRoot({ cwd: join(root, 'packages/app'), env: {} })).toBe(root);
+    });
+
+    it('should use CLAUDE_PROJECT_DIR when no cwd is given', () => {
+      write(PROJECT_CONFIG_FILE, 'enabled: true');
+
+      expect(resolveProjectRoot({ env: { CLAUDE_PROJECT_DIR: root } })).toBe(root);
+    });
+
+    it('should walk up from the edited file', () => {
+      write(PROJECT_CONFIG_FILE, 'enabled: true');
+      const file = write('src/index.ts', 'export {};');
+
+      expect(resolveProjectRoot({ filePath: file, env: {} })).toBe(root);
+    });
+
+    it('should fall back to the nearest package.json', () => {
+      write('package.json', '{}');
+      mkdirSync(join(root, 'src'), { recursive: true });
+
+      expect(resolveProjectRoot({ cwd: join(root, 'src'), env: {} })).toBe(root);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for the per-user directory
+ *
+ * Tests the checks made before keeping sockets or session records in a
+ * directory.
+ */
+
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, statSync, symlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ensurePrivateDir } from '../../src/utils/userDir.js';
+
+describe.skipIf(process.platform === 'win32')('ensurePrivateDir', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'user-dir-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should create the directory accessible to the current user only', () => {
+    const dir = join(root, 'private');
+
+    ensurePrivateDir(dir);
+
+    expect(statSync(dir).mode & 0o777).toBe(0o700);
+  });
+
+  it('should refuse a directory other users can access', () => {
+    const dir = join(root, 'private');
+    mkdirSync(dir);
+    chmodSync(dir, 0o777);
+
+    expect(() => ensurePrivateDir(dir)).toThrow('accessible to other users');
+  });
+
+  it('should refuse a symlink in place of the directory', () => {
+    const target = join(root, 'target');
+    mkdirSync(target, { mode: 0o700 });
+    symlinkSync(target, join(root, 'private'));
+
+    expect(() => ensurePrivateDir(join(root, 'private'))).toThrow('is not a directory');
+  });
+});
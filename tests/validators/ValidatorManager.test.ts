@@ -16,6 +16,12 @@ const mockBiomeValidate = vi.fn().mockResolvedValue({
   fixed: 0,
 });
 
+const mockBiomeValidateContent = vi.fn().mockResolvedValue({
+  success: true,
+  issues: [],
+  fixed: 0,
+});
+
 const mockTypeScriptValidate = vi.fn().mockResolvedValue({
   validator: 'typescript',
   status: 'success',
@@ -25,6 +31,37 @@ const mockTypeScriptValidate = vi.fn().mockResolvedValue({
 vi.mock('../../src/validators/biome/BiomeValidator.js', () => ({
   BiomeValidator: vi.fn().mockImplementation(() => ({
     validate: mockBiomeValidate,
+    validateContent: mockBiomeValidateContent,
+  })),
+}));
+
+// Files on disk hold the content being validated unless a test says otherwise
+const mockReadFile = vi.fn();
+vi.mock('node:fs/promises', () => ({
+  readFile: (...args: unknown[]) => mockReadFile(...args),
+}));
+
+const mockESLintValidate = vi.fn().mockResolvedValue({
+  success: true,
+  issues: [],
+  fixed: 0,
+});
+
+vi.mock('../../src/validators/eslint/index.js', () => ({
+  ESLintValidator: vi.fn().mockImplementation(() => ({
+    validate: mockESLintValidate,
+  })),
+}));
+
+const mockPrettierValidate = vi.fn().mockResolvedValue({
+  success: true,
+  issues: [],
+  fixed: 0,
+});
+
+vi.mock('../../src/validators/prettier/index.js', () => ({
+  PrettierValidator: vi.fn().mockImplementation(() => ({
+    validate: mockPrettierValidate,
   })),
 }));
 
@@ -101,6 +138,7 @@ describe('ValidatorManager', () => {
       exists: true,
       size: 12,
     };
+    mockReadFile.mockResolvedValue(mockFile.content);
 
     validatorManager = new ValidatorManager(mockConfig);
   });
@@ -117,6 +155,48 @@ describe('ValidatorManager', () => {
       expect(result.cached).toBe(false);
     });
 
+    it('should check the file on disk with Biome when content is saved', async () => {
+      await validatorManager.validateFile(mockFile);
+
+      expect(mockBiomeValidate).toHaveBeenCalledWith('/test/file.ts', false);
+      expect(mockBiomeValidateContent).not.toHaveBeenCalled();
+    });
+
+    it('should pipe unsaved content to Biome', async () => {
+      mockReadFile.mockResolvedValue('const x = 0;');
+
+      await validatorManager.validateFile(mockFile);
+
+      expect(mockBiomeValidateContent).toHaveBeenCalledWith('/test/file.ts', 'const x = 1;', false);
+      expect(mockBiomeValidate).not.toHaveBeenCalled();
+    });
+
+    it('should lint the content with ESLint when enabled', async () => {
+      mockConfig.validators.eslint = { enabled: true };
+      validatorManager = new ValidatorManager(mockConfig);
+
+      const result = await validatorManager.validateFile(mockFile);
+
+      expect(mockESLintValidate).toHaveBeenCalledWith({
+        path: '/test/file.ts',
+        content: 'const x = 1;',
+      });
+      expect(result.results.map((r) => r.validator)).toEqual(['biome', 'eslint', 'typescript']);
+    });
+
+    it('should check formatting with Prettier when enabled', async () => {
+      mockConfig.validators.prettier = { enabled: true };
+      validatorManager = new ValidatorManager(mockConfig);
+
+      const result = await validatorManager.validateFile(mockFile);
+
+      expect(mockPrettierValidate).toHaveBeenCalledWith({
+        path: '/test/file.ts',
+        content: 'const x = 1;',
+      });
+      expect(result.results.map((r) => r.validator)).toEqual(['biome', 'prettier', 'typescript']);
+    });
+
     it('should return empty result when no validators are enabled', async () => {
       const disabledConfig = {
         ...mockConfig,
@@ -156,6 +236,32 @@ describe('ValidatorManager', () => {
       expect(result2.cached).toBe(true);
     });
 
+    it('should report reused results instead of running their validators', async () => {
+      const typeError = {
+        file: 'file.ts',
+        line: 1,
+        column: 1,
+        severity: 'error' as const,
+        message: 'Type error',
+        fixed: false,
+        fixable: false,
+      };
+      const reused = {
+        validator: 'typescript',
+        status: 'error' as const,
+        issues: [typeError],
+        duration: 100,
+      };
+
+      const result = await validatorManager.validateFile(mockFile, { reuse: [reused] });
+
+      expect(mockTypeScriptValidate).not.toHaveBeenCalled();
+      expect(mockBiomeValidate).toHaveBeenCalled();
+      expect(result.results).toContainEqual(reused);
+      expect(result.summary.errorCount).toBe(1);
+      expect((await validatorManager.validateFile(mockFile)).cached).toBe(false);
+    });
+
     it('should aggregate statistics correctly', async () => {
       // Update mock implementations for this test
       mockBiomeValidate.mockResolvedValue({
@@ -0,0 +1,56 @@
+/**
+ * Tests for BiomeValidator
+ *
+ * Runs the Biome CLI installed in this repository on a temporary project, so
+ * the parsed issues come from real Biome output.
+ */
+
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BiomeValidator } from '../../../src/validators/biome/BiomeValidator.js';
+
+const CONTENT = 'let a = 1;\nif (a == 2) { debugger }\n';
+
+describe('BiomeValidator', () => {
+  let root: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'biome-validator-'));
+    mkdirSync(join(root, 'src'));
+    writeFileSync(join(root, 'biome.json'), '{}');
+    symlinkSync(resolve('node_modules'), join(root, 'node_modules'), 'dir');
+    filePath = join(root, 'src/a.ts');
+    writeFileSync(filePath, 'export const a = 1;\n');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should report issues in unsaved content without touching the file', async () => {
+    const validator = new BiomeValidator({ enabled: true, version: '2.x' }, root);
+
+    const result = await validator.validateContent(filePath, CONTENT);
+
+    expect(result.success).toBe(false);
+    expect(result.issues).toMatchObject([
+      { file: filePath, line: 1, column: 1, ruleId: 'lint/style/useConst' },
+      { file: filePath, line: 2, column: 7, ruleId: 'lint/suspicious/noDoubleEquals' },
+      { file: filePath, line: 2, column: 15, ruleId: 'lint/suspicious/noDebugger' },
+      { file: filePath, ruleId: 'format' },
+    ]);
+    expect(readdirSync(join(root, 'src'))).toEqual(['a.ts']);
+  }, 30000);
+
+  it('should return fixed and formatted content with autoFix', async () => {
+    const validator = new BiomeValidator({ enabled: true, version: '2.x' }, root);
+
+    const result = await validator.validateContent(filePath, 'let b = 1;;\nexport { b }\n', true);
+
+    expect(result.formatted).toBe('const b = 1;\nexport { b };\n');
+    expect(readdirSync(join(root, 'src'))).toEqual(['a.ts']);
+  }, 30000);
+});
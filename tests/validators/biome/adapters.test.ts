@@ -4,6 +4,7 @@
  * Validates that adapter pattern works correctly for both Biome 1.x and 2.x
  */
 
+import { readFileSync } from 'node:fs';
 import { describe, expect, it } from 'vitest';
 import {
   BiomeV1Adapter,
@@ -11,6 +12,85 @@ import {
   createAdapter,
 } from '../../../src/validators/biome/adapters/index.js';
 
+const markup = (...parts: string[]) => parts.map((content) => ({ elements: [], content }));
+
+// JSON reporter output for `let  q = 1` followed by `export const y = q == 2;`
+const sourceCode = 'let  q = 1\nexport const y = q == 2;\n';
+const adviceOutput = JSON.stringify({
+  diagnostics: [
+    {
+      category: 'lint/style/useConst',
+      severity: 'error',
+      description: 'This let declares a variable that is only assigned once.',
+      advices: {
+        advices: [
+          { log: ['info', markup("'q' is never reassigned.")] },
+          { frame: { path: null, span: [5, 6], sourceCode } },
+          { log: ['info', markup('Safe fix: Use ', 'const', ' instead.')] },
+          {
+            diff: {
+              dictionary: `letconst${sourceCode.slice(3)}`,
+              ops: [
+                { diffOp: { delete: { range: [0, 3] } } },
+                { diffOp: { insert: { range: [3, 8] } } },
+                { diffOp: { equal: { range: [8, 41] } } },
+              ],
+            },
+          },
+        ],
+      },
+      location: { path: { file: 'src/test.ts' }, span: [0, 3], sourceCode },
+      tags: ['fixable'],
+    },
+    {
+      category: 'lint/suspicious/noDoubleEquals',
+      severity: 'error',
+      description: 'Using == may be unsafe if you are relying on type coercion.',
+      advices: {
+        advices: [
+          { log: ['info', markup('Unsafe fix: Use ', '===', ' instead.')] },
+          {
+            diff: {
+              dictionary: sourceCode,
+              ops: [
+                { diffOp: { equal: { range: [0, 32] } } },
+                { diffOp: { insert: { range: [30, 31] } } },
+                { diffOp: { equal: { range: [32, 36] } } },
+              ],
+            },
+          },
+        ],
+      },
+      location: { path: { file: 'src/test.ts' }, span: [30, 32], sourceCode },
+      tags: ['fixable'],
+    },
+    {
+      category: 'format',
+      severity: 'error',
+      description: 'Formatter would have printed the following content:',
+      advices: {
+        advices: [
+          {
+            diff: {
+              dictionary: 'let  q = 1;\n',
+              ops: [
+                { diffOp: { equal: { range: [0, 3] } } },
+                { diffOp: { delete: { range: [3, 5] } } },
+                { diffOp: { insert: { range: [3, 4] } } },
+                { diffOp: { equal: { range: [5, 10] } } },
+                { diffOp: { insert: { range: [10, 11] } } },
+                { equalLines: { line_count: 1 } },
+              ],
+            },
+          },
+        ],
+      },
+      location: { path: { file: 'src/test.ts' }, span: null, sourceCode },
+      tags: [],
+    },
+  ],
+});
+
 describe('Biome Adapters', () => {
   describe('BiomeV1Adapter', () => {
     const adapter = new BiomeV1Adapter();
@@ -50,6 +130,12 @@ describe('Biome Adapters', () => {
       expect(adapter.getFixFlag(true)).toBe('--apply-unsafe');
     });
 
+    it('should parse advices the same way as Biome 2.x', () => {
+      expect(adapter.parseOutput(adviceOutput, 'src/test.ts')).toEqual(
+        new BiomeV2Adapter().parseOutput(adviceOutput, 'src/test.ts')
+      );
+    });
+
     it('should parse empty output', () => {
       const issues = adapter.parseOutput('', 'test.ts');
       expect(issues).toEqual([]);
@@ -70,12 +156,12 @@ describe('Biome Adapters', () => {
 
     it('should build command without autofix', () => {
       const command = adapter.buildCommand('test.ts');
-      expect(command).toEqual(['check', 'test.ts', '--reporter=json', '--no-colors']);
+      expect(command).toEqual(['check', 'test.ts', '--reporter=json', '--colors=off']);
     });
 
     it('should build command with autofix', () => {
       const command = adapter.buildCommand('test.ts', { autoFix: true });
-      expect(command).toEqual(['check', 'test.ts', '--write', '--reporter=json', '--no-colors']);
+      expect(command).toEqual(['check', 'test.ts', '--write', '--reporter=json', '--colors=off']);
     });
 
     it('should build command with unsafe fixes', () => {
@@ -86,7 +172,7 @@ describe('Biome Adapters', () => {
         '--write',
         '--unsafe',
         '--reporter=json',
-        '--no-colors',
+        '--colors=off',
       ]);
     });
 
@@ -96,7 +182,7 @@ describe('Biome Adapters', () => {
         'check',
         'test.ts',
         '--reporter=json',
-        '--no-colors',
+        '--colors=off',
         '--config-path',
         './biome.json',
       ]);
@@ -107,6 +193,117 @@ describe('Biome Adapters', () => {
       expect(adapter.getFixFlag(true)).toBe('--write --unsafe');
     });
 
+    it('should parse rule, range and category from JSON output', () => {
+      const sourceCode = 'let  q = 1\nexport const y = q == 2;\n';
+      const output = JSON.stringify({
+        diagnostics: [
+          {
+            category: 'lint/style/useConst',
+            severity: 'error',
+            description: 'This let declares a variable that is only assigned once.',
+            location: { path: { file: 'src/test.ts' }, span: [0, 3], sourceCode },
+            tags: ['fixable'],
+          },
+          {
+            category: 'lint/suspicious/noDoubleEquals',
+            severity: 'error',
+            description: 'Using == may be unsafe if you are relying on type coercion.',
+            location: { path: { file: 'src/test.ts' }, span: [30, 32], sourceCode },
+            tags: ['fixable'],
+          },
+          {
+            category: 'format',
+            severity: 'error',
+            description: 'Formatter would have printed the following content:',
+            location: { path: { file: 'src/test.ts' }, span: null, sourceCode },
+            tags: [],
+          },
+          {
+            category: 'assist/source/organizeImports',
+            severity: 'info',
+            description: 'The imports and exports are not sorted.',
+            location: { path: { file: 'src/test.ts' }, span: [0, 3], sourceCode },
+            tags: ['fixable'],
+          },
+        ],
+      });
+
+      const issues = adapter.parseOutput(output, 'src/test.ts');
+
+      expect(issues[0]).toMatchObject({
+        line: 1,
+        column: 1,
+        endLine: 1,
+        endColumn: 4,
+        source: 'biome',
+        ruleId: 'lint/style/useConst',
+        category: 'lint',
+        docsUrl: 'https://biomejs.dev/linter/rules/use-const/',
+      });
+      expect(issues[1]).toMatchObject({ line: 2, column: 20, endLine: 2, endColumn: 22 });
+      expect(issues[2]).toMatchObject({ line: 1, column: 1, ruleId: 'format', category: 'format' });
+      expect(issues[3]).toMatchObject({ category: 'import', docsUrl: undefined });
+    });
+
+    it('should parse notes, code frames and suggested fixes from advices', () => {
+      const [useConst, noDoubleEquals, format] = adapter.parseOutput(adviceOutput, 'src/test.ts');
+
+      expect(useConst).toMatchObject({
+        codeFrame: '1 │ let  q = 1',
+        notes: ["'q' is never reassigned.", '1 │ let  q = 1'],
+        suggestion: 'replace `let` with `const`',
+        fix: {
+          fixName: 'lint/style/useConst',
+          description: 'Safe fix: Use const instead.',
+          edits: [{ start: 0, length: 3, newText: 'const' }],
+        },
+      });
+      expect(noDoubleEquals).toMatchObject({
+        suggestion: 'replace `==` with `===`',
+        fix: {
+          description: 'Unsafe fix: Use === instead.',
+          edits: [{ start: 32, length: 0, newText: '=' }],
+        },
+      });
+      expect(noDoubleEquals?.notes).toBeUndefined();
+      expect(format?.fix?.edits).toEqual([
+        { start: 3, length: 2, newText: ' ' },
+        { start: 10, length: 0, newText: ';' },
+      ]);
+    });
+
+    it('should parse the report Biome 2.1 prints for a file', () => {
+      // `biome check test.ts --reporter=json` on `let a = 1;\nif (a == 2) { debugger }\n`
+      const report = readFileSync(
+        new URL('../../fixtures/biome-2.1-check-report.json', import.meta.url),
+        'utf8'
+      );
+
+      const issues = adapter.parseOutput(report, '/project/src/test.ts');
+
+      expect(issues).toMatchObject([
+        {
+          file: '/project/src/test.ts',
+          line: 1,
+          column: 1,
+          endColumn: 4,
+          severity: 'warning',
+          message: 'This let declares a variable that is only assigned once.',
+          fixable: true,
+          ruleId: 'lint/style/useConst',
+          suggestion: 'replace `let` with `const`',
+        },
+        {
+          line: 2,
+          column: 7,
+          severity: 'error',
+          ruleId: 'lint/suspicious/noDoubleEquals',
+        },
+        { line: 2, column: 15, ruleId: 'lint/suspicious/noDebugger' },
+        { line: 1, column: 1, ruleId: 'format', category: 'format' },
+      ]);
+    });
+
     it('should parse empty output', () => {
       const issues = adapter.parseOutput('', 'test.ts');
       expect(issues).toEqual([]);
@@ -0,0 +1,128 @@
+/**
+ * Tests for the Biome JS API adapter
+ *
+ * The JS API is an optional peer dependency, so these tests drive the adapter
+ * with a stand-in for its `Biome` class.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  BiomeJsApiAdapter,
+  type JsApiBiome,
+  type JsApiDiagnostic,
+} from '../../../src/validators/biome/adapters/BiomeJsApiAdapter.js';
+
+const useConst: JsApiDiagnostic = {
+  category: 'lint/style/useConst',
+  severity: 'warning',
+  description: 'This let declares a variable that is only assigned once.',
+  location: { span: [0, 3] },
+};
+
+const noDoubleEquals: JsApiDiagnostic = {
+  category: 'lint/suspicious/noDoubleEquals',
+  severity: 'error',
+  description: 'Using == may be unsafe if you are relying on type coercion.',
+  location: { span: [33, 35] },
+};
+
+const source = "let  x = 'é'\nexport const y = x == 2;\n";
+
+function createBiome(overrides: Partial<JsApiBiome> = {}): JsApiBiome {
+  return {
+    openProject: vi.fn().mockReturnValue({ projectKey: 7 }),
+    applyConfiguration: vi.fn(),
+    lintContent: vi.fn((_key, content, options) =>
+      options.fixFileMode
+        ? {
+            content: content.replace('let', 'const'),
+            diagnostics: [{ ...noDoubleEquals, location: { span: [35, 37] } }],
+          }
+        : { content, diagnostics: [useConst, noDoubleEquals] }
+    ),
+    formatContent: vi.fn((_key, content) => ({
+      content: content.replace('  ', ' ').replace(/'\n/, "';\n"),
+      diagnostics: [],
+    })),
+    ...overrides,
+  };
+}
+
+describe('BiomeJsApiAdapter', () => {
+  it('should open the project and apply its configuration', () => {
+    const biome = createBiome();
+    const configuration = { formatter: { indentStyle: 'space' } };
+
+    new BiomeJsApiAdapter(biome, '/project', configuration);
+
+    expect(biome.openProject).toHaveBeenCalledWith('/project');
+    expect(biome.applyConfiguration).toHaveBeenCalledWith(7, configuration);
+  });
+
+  it('should report lint and format issues without changing the content', async () => {
+    const biome = createBiome();
+    const adapter = new BiomeJsApiAdapter(biome, '/project');
+
+    const result = await adapter.checkContent(source, '/project/src/file.ts');
+
+    expect(biome.lintContent).toHaveBeenCalledWith(7, source, { filePath: 'src/file.ts' });
+    expect(result.content).toBe(source);
+    expect(result.issues).toEqual([
+      expect.objectContaining({ line: 1, column: 1, severity: 'warning', fixable: true }),
+      // Byte offsets past a multi-byte character map to the right column
+      expect.objectContaining({ line: 2, column: 20, severity: 'error', fixable: false }),
+      expect.objectContaining({
+        message: 'Formatter would have printed different content.',
+        fixable: true,
+      }),
+    ]);
+  });
+
+  it('should return fixed and formatted content with the remaining issues', async () => {
+    const adapter = new BiomeJsApiAdapter(createBiome(), '/project');
+
+    const result = await adapter.checkContent(source, '/project/src/file.ts', { autoFix: true });
+
+    expect(result.content).toBe("const x = 'é';\nexport const y = x == 2;\n");
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        line: 2,
+        column: 20,
+        message: 'Using == may be unsafe if you are relying on type coercion.',
+      }),
+    ]);
+  });
+
+  it('should not format content that does not parse', async () => {
+    const parseError: JsApiDiagnostic = {
+      category: 'parse',
+      severity: 'error',
+      description: "Expected an expression but instead found ';'.",
+      location: { span: [17, 18] },
+    };
+    const biome = createBiome({
+      lintContent: vi.fn((_key, content) => ({ content, diagnostics: [parseError] })),
+    });
+    const adapter = new BiomeJsApiAdapter(biome, '/project');
+
+    const result = await adapter.checkContent('export const a = ;\n', 'src/file.ts');
+
+    expect(biome.formatContent).not.toHaveBeenCalled();
+    expect(result.issues).toEqual([
+      expect.objectContaining({ line: 1, column: 18, kind: 'syntax', fixable: false }),
+    ]);
+  });
+
+  it('should build CLI commands with Biome 2.x syntax', () => {
+    const adapter = new BiomeJsApiAdapter(createBiome(), '/project');
+
+    expect(adapter.version).toBe('2.x');
+    expect(adapter.getFixFlag()).toBe('--write');
+    expect(adapter.buildCommand('test.ts')).toEqual([
+      'check',
+      'test.ts',
+      '--reporter=json',
+      '--colors=off',
+    ]);
+  });
+});
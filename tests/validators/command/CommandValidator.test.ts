@@ -0,0 +1,223 @@
+/**
+ * Tests for CommandValidator
+ *
+ * Tests command templating, exit code semantics, issue normalization and
+ * aggregation of command validators by ValidatorManager.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CommandValidatorConfig, Config } from '../../../src/types/config.js';
+import { CommandValidator, splitCommand } from '../../../src/validators/command/index.js';
+import { ValidatorManager } from '../../../src/validators/ValidatorManager.js';
+
+vi.mock('execa');
+vi.mock('node:fs/promises');
+
+const { execa } = await import('execa');
+const { readFile } = await import('node:fs/promises');
+
+const mockExeca = vi.mocked(execa);
+const mockReadFile = vi.mocked(readFile);
+
+const file = {
+  path: '/project/src/index.ts',
+  relativePath: 'src/index.ts',
+  content: 'debugger;\n',
+};
+
+/**
+ * Resolve execa with a finished command
+ */
+function mockRun(exitCode: number | undefined, stdout = '', stderr = '', extra = {}): void {
+  mockExeca.mockResolvedValue({
+    exitCode,
+    stdout,
+    stderr,
+    timedOut: false,
+    message: '',
+    ...extra,
+  } as never);
+}
+
+describe('CommandValidator', () => {
+  let config: CommandValidatorConfig;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockReadFile.mockResolvedValue(file.content);
+    config = {
+      name: 'oxlint',
+      command: 'npx oxlint --format=unix {file}',
+      parser: { type: 'file-line-col' },
+    };
+  });
+
+  it('should run the command on the file and normalize its issues', async () => {
+    mockRun(
+      1,
+      [
+        '/project/src/index.ts:1:1: Unexpected debugger statement [Warning/eslint(no-debugger)]',
+        '/project/src/other.ts:4:2: Unused variable [Error/eslint(no-unused-vars)]',
+      ].join('\n')
+    );
+
+    const result = await new CommandValidator(config, '/project').validate(file);
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      'npx',
+      ['oxlint', '--format=unix', '/project/src/index.ts'],
+      expect.objectContaining({ cwd: '/project', reject: false })
+    );
+    expect(result.error).toBeUndefined();
+    expect(result.issues).toEqual([
+      {
+        file: '/project/src/index.ts',
+        line: 1,
+        column: 1,
+        endLine: undefined,
+        endColumn: undefined,
+        severity: 'warning',
+        message: 'Unexpected debugger statement',
+        fixed: false,
+        fixable: false,
+        kind: 'lint',
+        source: 'oxlint',
+        ruleId: 'eslint(no-debugger)',
+        docsUrl: undefined,
+      },
+    ]);
+  });
+
+  it('should resolve relative paths and use the configured severity', async () => {
+    config.severity = 'warning';
+    mockRun(1, 'src/index.ts:1:1: Unexpected debugger statement');
+
+    const result = await new CommandValidator(config, '/project').validate(file);
+
+    expect(result.issues).toMatchObject([{ severity: 'warning', line: 1 }]);
+  });
+
+  it('should report an issue when the exit code signals problems the parser missed', async () => {
+    mockRun(3, 'Found 1 unlisted dependency');
+    config.successExitCodes = [0];
+    config.issueExitCodes = [3];
+
+    const result = await new CommandValidator(config, '/project').validate(file);
+
+    expect(result.issues).toMatchObject([
+      { message: 'oxlint exited with code 3: Found 1 unlisted dependency', severity: 'error' },
+    ]);
+  });
+
+  it('should fail on exit codes that are neither success nor issues', async () => {
+    mockRun(2, '', 'Configuration file is invalid\nat line 4');
+    config.issueExitCodes = [1];
+
+    const result = await new CommandValidator(config, '/project').validate(file);
+
+    expect(result).toEqual({
+      issues: [],
+      error: 'oxlint failed with exit code 2: Configuration file is invalid',
+    });
+  });
+
+  it('should fail when the command cannot be run', async () => {
+    mockRun(undefined, '', '', { message: 'spawn missing-tool ENOENT' });
+
+    const result = await new CommandValidator(config, '/project').validate(file);
+
+    expect(result.error).toBe('oxlint could not be run: spawn missing-tool ENOENT');
+  });
+
+  it('should fail when the output cannot be parsed', async () => {
+    config.parser = { type: 'sarif' };
+    mockRun(1, 'Error: no files');
+
+    const result = await new CommandValidator(config, '/project').validate(file);
+
+    expect(result.error).toMatch(/^oxlint output could not be parsed: /);
+  });
+
+  it('should skip unsaved content unless it is piped to stdin', async () => {
+    mockReadFile.mockResolvedValue('');
+    mockRun(1, '<stdin>:1:1: Unexpected debugger statement');
+
+    const skipped = await new CommandValidator(config, '/project').validate(file);
+    expect(skipped).toEqual({ issues: [] });
+    expect(mockExeca).not.toHaveBeenCalled();
+
+    config.stdin = true;
+    const piped = await new CommandValidator(config, '/project').validate(file);
+    expect(mockExeca).toHaveBeenCalledWith(
+      'npx',
+      expect.any(Array),
+      expect.objectContaining({ input: file.content })
+    );
+    expect(piped.issues).toMatchObject([{ file: '/project/src/index.ts', line: 1 }]);
+  });
+
+  it('should stop runs before the hook times out', async () => {
+    mockRun(undefined, '', '', { timedOut: true });
+
+    const result = await new CommandValidator(config, '/project', 10000).validate(file);
+    await new CommandValidator({ ...config, timeout: 2000 }, '/project', 10000).validate(file);
+    await new CommandValidator({ ...config, timeout: 60000 }, '/project').validate(file);
+
+    expect(result.error).toBe('oxlint timed out after 8000ms');
+    expect(mockExeca.mock.calls.map(([, , options]) => options?.timeout)).toEqual([
+      8000, 2000, 4000,
+    ]);
+  });
+
+  describe('splitCommand', () => {
+    it('should split on whitespace and keep quoted arguments together', () => {
+      expect(splitCommand(`node "scripts/check licenses.js" --allow 'MIT, ISC' {file}`)).toEqual([
+        'node',
+        'scripts/check licenses.js',
+        '--allow',
+        'MIT, ISC',
+        '{file}',
+      ]);
+      expect(splitCommand('tool ""')).toEqual(['tool', '']);
+    });
+  });
+
+  describe('with ValidatorManager', () => {
+    it('should aggregate command validators with the other validators', async () => {
+      const managerConfig: Config = {
+        enabled: true,
+        validators: {
+          biome: { enabled: false },
+          commands: [
+            config,
+            {
+              name: 'licenses',
+              command: 'node scripts/licenses.js {file}',
+              parser: { type: 'json', fields: { message: 'text' } },
+            },
+          ],
+        },
+        autoFix: { enabled: false },
+      };
+      mockExeca.mockImplementation((async (command: string) => ({
+        exitCode: command === 'npx' ? 1 : 0,
+        stdout:
+          command === 'npx'
+            ? '/project/src/index.ts:1:1: Unexpected debugger statement [Error/no-debugger]'
+            : '[]',
+        stderr: '',
+        timedOut: false,
+      })) as never);
+
+      const manager = new ValidatorManager(managerConfig, '/project');
+      const response = await manager.validateFile({ path: file.path, content: file.content });
+
+      expect(response.success).toBe(false);
+      expect(response.results.map((result) => [result.validator, result.status])).toEqual([
+        ['licenses', 'success'],
+        ['oxlint', 'error'],
+      ]);
+      expect(response.summary.errorCount).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Tests for command output parsers
+ *
+ * Tests reading issues from regex matches, JSON, SARIF, checkstyle XML and
+ * `file:line:col: message` output.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  parseCheckstyleOutput,
+  parseCommandOutput,
+  parseFileLineColOutput,
+  parseJsonOutput,
+  parseRegexOutput,
+  parseSarifOutput,
+} from '../../../src/validators/command/index.js';
+
+describe('outputParsers', () => {
+  describe('parseRegexOutput', () => {
+    it('should read issues from named groups', () => {
+      const output = [
+        'src/a.ts(3,7) WARN unused-export: foo is never imported',
+        'Summary: 1 problem',
+      ].join('\n');
+
+      const issues = parseRegexOutput(
+        output,
+        '^(?<file>\\S+)\\((?<line>\\d+),(?<column>\\d+)\\) (?<severity>\\w+) (?<ruleId>[\\w-]+): (?<message>.+)$'
+      );
+
+      expect(issues).toEqual([
+        {
+          file: 'src/a.ts',
+          line: 3,
+          column: 7,
+          endLine: undefined,
+          endColumn: undefined,
+          severity: 'WARN',
+          message: 'foo is never imported',
+          ruleId: 'unused-export',
+        },
+      ]);
+    });
+
+    it('should use the whole match without a message group', () => {
+      const issues = parseRegexOutput(
+        'license MIT ok\nlicense GPL-3.0 denied\n',
+        'license \\S+ denied'
+      );
+
+      expect(issues.map((issue) => issue.message)).toEqual(['license GPL-3.0 denied']);
+    });
+  });
+
+  describe('parseJsonOutput', () => {
+    it('should map issue objects selected by a path with wildcards', () => {
+      const output = JSON.stringify({
+        files: [
+          {
+            problems: [
+              { loc: { line: 2, col: 5 }, level: 'error', text: 'Unused file', rule: 'files' },
+              { loc: { line: 9 }, level: 'warning', text: 'Unused export', rule: 'exports' },
+            ],
+          },
+        ],
+      });
+
+      const issues = parseJsonOutput(
+        output,
+        {
+          line: 'loc.line',
+          column: 'loc.col',
+          severity: 'level',
+          message: 'text',
+          ruleId: 'rule',
+        },
+        'files.*.problems'
+      );
+
+      expect(issues).toMatchObject([
+        { line: 2, column: 5, severity: 'error', message: 'Unused file', ruleId: 'files' },
+        { line: 9, column: undefined, severity: 'warning', message: 'Unused export' },
+      ]);
+    });
+
+    it('should treat a top-level array as the issues and skip empty output', () => {
+      const output = JSON.stringify([{ msg: 'Denied license', severity: 2 }]);
+
+      expect(parseJsonOutput(output, { message: 'msg', severity: 'severity' })).toMatchObject([
+        { message: 'Denied license', severity: '2' },
+      ]);
+      expect(parseJsonOutput('  \n', { message: 'msg' })).toEqual([]);
+    });
+
+    it('should throw on invalid JSON', () => {
+      expect(() => parseJsonOutput('not json', { message: 'msg' })).toThrow();
+    });
+  });
+
+  describe('parseSarifOutput', () => {
+    it('should read results with their rule documentation', () => {
+      const output = JSON.stringify({
+        version: '2.1.0',
+        runs: [
+          {
+            tool: {
+              driver: {
+                name: 'scanner',
+                rules: [
+                  {
+                    id: 'no-eval',
+                    helpUri: 'https://example.com/rules/no-eval',
+                    defaultConfiguration: { level: 'error' },
+                  },
+                ],
+              },
+            },
+            results: [
+              {
+                ruleId: 'no-eval',
+                message: { text: 'eval can be harmful' },
+                locations: [
+                  {
+                    physicalLocation: {
+                      artifactLocation: { uri: 'src/my%20file.ts' },
+                      region: { startLine: 4, startColumn: 1, endLine: 4, endColumn: 12 },
+                    },
+                  },
+                ],
+              },
+              { ruleId: 'other', level: 'note', message: { text: 'Consider a constant' } },
+            ],
+          },
+        ],
+      });
+
+      expect(parseSarifOutput(output)).toEqual([
+        {
+          file: 'src/my file.ts',
+          line: 4,
+          column: 1,
+          endLine: 4,
+          endColumn: 12,
+          severity: 'error',
+          message: 'eval can be harmful',
+          ruleId: 'no-eval',
+          docsUrl: 'https://example.com/rules/no-eval',
+        },
+        {
+          file: undefined,
+          line: undefined,
+          column: undefined,
+          endLine: undefined,
+          endColumn: undefined,
+          severity: 'note',
+          message: 'Consider a constant',
+          ruleId: 'other',
+          docsUrl: undefined,
+        },
+      ]);
+    });
+  });
+
+  describe('parseCheckstyleOutput', () => {
+    it('should read errors per file and decode entities', () => {
+      const output = `<?xml version="1.0" encoding="utf-8"?>
+<checkstyle version="4.3">
+  <file name="/project/src/a.ts">
+    <error line="1" column="10" severity="warning" message="Unexpected &quot;any&quot; &amp; more" source="eslint.rules.no-explicit-any" />
+    <error line="3" severity="error" message="Missing semicolon"/>
+  </file>
+  <file name="/project/src/clean.ts"/>
+</checkstyle>`;
+
+      expect(parseCheckstyleOutput(output)).toEqual([
+        {
+          file: '/project/src/a.ts',
+          line: 1,
+          column: 10,
+          severity: 'warning',
+          message: 'Unexpected "any" & more',
+          ruleId: 'eslint.rules.no-explicit-any',
+        },
+        {
+          file: '/project/src/a.ts',
+          line: 3,
+          column: undefined,
+          severity: 'error',
+          message: 'Missing semicolon',
+          ruleId: undefined,
+        },
+      ]);
+    });
+  });
+
+  describe('parseFileLineColOutput', () => {
+    it('should read severities and rules from common line formats', () => {
+      const output = [
+        'src/a.ts:3:7: Unexpected debugger statement [Warning/eslint(no-debugger)]',
+        'src/b.ts:12: error: undefined reference to foo',
+        'C:\\project\\src\\c.ts:1:1: note: file is generated',
+        '',
+        '2 problems found',
+      ].join('\n');
+
+      expect(parseFileLineColOutput(output)).toEqual([
+        {
+          file: 'src/a.ts',
+          line: 3,
+          column: 7,
+          severity: 'Warning',
+          message: 'Unexpected debugger statement',
+          ruleId: 'eslint(no-debugger)',
+        },
+        {
+          file: 'src/b.ts',
+          line: 12,
+          column: undefined,
+          severity: 'error',
+          message: 'undefined reference to foo',
+          ruleId: undefined,
+        },
+        {
+          file: 'C:\\project\\src\\c.ts',
+          line: 1,
+          column: 1,
+          severity: 'note',
+          message: 'file is generated',
+          ruleId: undefined,
+        },
+      ]);
+    });
+  });
+
+  describe('parseCommandOutput', () => {
+    it('should dispatch on the parser type', () => {
+      expect(parseCommandOutput('a.ts:1:2: Bad thing', { type: 'file-line-col' })).toHaveLength(1);
+      expect(parseCommandOutput('', { type: 'sarif' })).toEqual([]);
+    });
+  });
+});
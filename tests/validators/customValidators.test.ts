@@ -0,0 +1,164 @@
+/**
+ * Tests for custom validators
+ *
+ * Tests loading validator modules listed in `validators.custom` and running
+ * them through ValidatorManager, against a temporary project on disk.
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Config } from '../../src/types/config.js';
+import { loadCustomValidators } from '../../src/validators/customValidators.js';
+import { ValidatorManager } from '../../src/validators/ValidatorManager.js';
+
+const TODO_VALIDATOR = `
+export default {
+  name: 'todo-comments',
+  init(context) {
+    this.root = context.projectRoot;
+    globalThis.customValidatorEvents.push('init');
+  },
+  async validate(file) {
+    const line = file.content.split('\\n').findIndex((text) => text.includes('TODO'));
+    if (line === -1) {
+      return { issues: [] };
+    }
+    return {
+      issues: [
+        {
+          file: file.path,
+          line: line + 1,
+          column: 1,
+          severity: 'warning',
+          message: 'Resolve the TODO comment in ' + file.relativePath,
+          fixed: false,
+          fixable: false,
+          source: 'todo-comments',
+        },
+      ],
+    };
+  },
+  dispose() {
+    globalThis.customValidatorEvents.push('dispose');
+  },
+};
+`;
+
+describe('custom validators', () => {
+  let root: string;
+  let config: Config;
+
+  const write = (path: string, content: string): string => {
+    const fullPath = join(root, path);
+    mkdirSync(join(fullPath, '..'), { recursive: true });
+    writeFileSync(fullPath, content);
+    return fullPath;
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'custom-validators-'));
+    config = {
+      enabled: true,
+      include: ['**/*.ts'],
+      exclude: [],
+      validators: { custom: [] },
+      autoFix: { enabled: false },
+      timeout: 5000,
+    };
+    (globalThis as { customValidatorEvents?: string[] }).customValidatorEvents = [];
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe('loadCustomValidators', () => {
+    it('should load a validator exported from a module path', async () => {
+      write('validators/todo.mjs', TODO_VALIDATOR);
+
+      const validators = await loadCustomValidators(['./validators/todo.mjs'], {
+        projectRoot: root,
+        config,
+      });
+
+      expect(validators.map((validator) => validator.name)).toEqual(['todo-comments']);
+    });
+
+    it('should call a factory export with the context', async () => {
+      write(
+        'node_modules/validator-package/package.json',
+        JSON.stringify({ name: 'validator-package', main: 'index.js' })
+      );
+      write(
+        'node_modules/validator-package/index.js',
+        `module.exports = (context) => ({
+          name: 'factory:' + context.config.timeout,
+          init() {},
+          async validate() { return { issues: [] }; },
+          dispose() {},
+        });`
+      );
+
+      const validators = await loadCustomValidators(['validator-package'], {
+        projectRoot: root,
+        config,
+      });
+
+      expect(validators.map((validator) => validator.name)).toEqual(['factory:5000']);
+    });
+
+    it('should skip modules that cannot be loaded or do not export a validator', async () => {
+      write('validators/invalid.mjs', "export default { name: 'invalid' };");
+
+      const validators = await loadCustomValidators(
+        ['./validators/invalid.mjs', './validators/missing.mjs'],
+        { projectRoot: root, config }
+      );
+
+      expect(validators).toEqual([]);
+      expect(console.warn).toHaveBeenCalledWith(
+        "[ValidatorManager] Custom validator './validators/invalid.mjs' does not export a validator"
+      );
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "[ValidatorManager] Failed to load custom validator './validators/missing.mjs'"
+        )
+      );
+    });
+  });
+
+  describe('ValidatorManager', () => {
+    it('should initialize, run and dispose custom validators', async () => {
+      write('validators/todo.mjs', TODO_VALIDATOR);
+      config.validators.custom = ['./validators/todo.mjs'];
+      const manager = new ValidatorManager(config, root);
+
+      const response = await manager.validateFile({
+        path: join(root, 'src/index.ts'),
+        content: 'const x = 1;\n// TODO: remove\n',
+      });
+      await manager.dispose();
+
+      expect(response.success).toBe(true);
+      expect(response.results).toHaveLength(1);
+      expect(response.results[0]).toMatchObject({
+        validator: 'todo-comments',
+        status: 'warning',
+        issues: [
+          {
+            line: 2,
+            message: `Resolve the TODO comment in ${join('src', 'index.ts')}`,
+          },
+        ],
+      });
+      expect((globalThis as { customValidatorEvents?: string[] }).customValidatorEvents).toEqual([
+        'init',
+        'dispose',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for CyclesValidator
+ *
+ * Tests cycle detection on edited files, the allowlist and the persisted
+ * module graph against a temporary project on disk.
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CyclesValidator,
+  MODULE_GRAPH_CACHE,
+  ModuleGraph,
+} from '../../../src/validators/cycles/index.js';
+
+describe('CyclesValidator', () => {
+  let root: string;
+
+  const write = (path: string, content = ''): string => {
+    const fullPath = join(root, path);
+    mkdirSync(join(fullPath, '..'), { recursive: true });
+    writeFileSync(fullPath, content);
+    return fullPath;
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'cycles-validator-'));
+    write('src/a.ts', "import { b } from './b.js';\nexport const a = 1;");
+    write('src/b.ts', "import { c } from './c.js';\nexport const b = 2;");
+    write('src/c.ts', 'export const c = 3;');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should report a cycle closed by the edit with its full path', async () => {
+    const validator = new CyclesValidator({ enabled: true }, root);
+    await validator.validate({ path: 'src/c.ts', content: 'export const c = 3;' });
+
+    const content = "import { a } from './a.js';\nexport const c = 3;";
+    write('src/c.ts', content);
+    const result = await validator.validate({ path: 'src/c.ts', content });
+
+    expect(result.success).toBe(false);
+    expect(result.issues).toEqual([
+      {
+        file: 'src/c.ts',
+        line: 1,
+        column: 19,
+        endLine: 1,
+        endColumn: 27,
+        severity: 'error',
+        message:
+          "Importing './a.js' creates a circular dependency: src/c.ts -> src/a.ts -> src/b.ts -> src/c.ts",
+        fixed: false,
+        fixable: false,
+        kind: 'lint',
+        source: 'cycles',
+        ruleId: 'circular-dependency',
+        category: 'import',
+        suggestion:
+          'Move the code both modules need into a separate module, or use `import type` when only types are imported',
+      },
+    ]);
+  });
+
+  it('should check proposed content before it is written', async () => {
+    const result = await new CyclesValidator({ enabled: true }, root).validate({
+      path: join(root, 'src/c.ts'),
+      content: "import { a } from './a.js';\nexport const c = 3;",
+    });
+
+    expect(result.issues).toHaveLength(1);
+  });
+
+  it('should not report cycles that existed before the edit', async () => {
+    write('src/c.ts', "import { a } from './a.js';\nexport const c = 3;");
+    const validator = new CyclesValidator({ enabled: true }, root);
+    await validator.validate({
+      path: 'src/a.ts',
+      content: readFileSync(join(root, 'src/a.ts'), 'utf8'),
+    });
+
+    const content = "import { a } from './a.js';\nexport const c = 4;";
+    write('src/c.ts', content);
+    const result = await validator.validate({ path: 'src/c.ts', content });
+
+    expect(result).toEqual({ success: true, issues: [] });
+  });
+
+  it('should not report cycles on disk without a persisted graph', async () => {
+    write('src/c.ts', "import { a } from './a.js';\nexport const c = 3;");
+
+    const result = await new CyclesValidator({ enabled: true }, root).validate({
+      path: 'src/c.ts',
+      content: "import { a } from './a.js';\nexport const c = 4;",
+    });
+
+    expect(result).toEqual({ success: true, issues: [] });
+  });
+
+  it('should follow imported modules changed since the project was scanned', async () => {
+    const validator = new CyclesValidator({ enabled: true }, root);
+    await validator.validate({ path: 'src/c.ts', content: 'export const c = 3;' });
+
+    write('src/a.ts', 'export const a = 1;');
+    const result = await validator.validate({
+      path: 'src/c.ts',
+      content: "import { a } from './a.js';\nexport const c = 3;",
+    });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should keep reporting a new cycle until the edit is committed', async () => {
+    const validator = new CyclesValidator({ enabled: true }, root);
+    await validator.validate({
+      path: 'src/a.ts',
+      content: readFileSync(join(root, 'src/a.ts'), 'utf8'),
+    });
+
+    const content = "import { a } from './a.js';\nexport const c = 3;";
+    write('src/c.ts', content);
+    const edit = await validator.validate({ path: 'src/c.ts', content });
+    // Fixed content is checked again, also by validators of other processes
+    const fixed = await validator.validate({ path: 'src/c.ts', content: `${content}\n` });
+    const otherProcess = await new CyclesValidator({ enabled: true }, root).validate({
+      path: 'src/c.ts',
+      content,
+    });
+    await validator.commit({ path: 'src/c.ts' });
+    const afterCommit = await new CyclesValidator({ enabled: true }, root).validate({
+      path: 'src/c.ts',
+      content,
+    });
+
+    expect(edit.issues).toHaveLength(1);
+    expect(fixed.issues).toHaveLength(1);
+    expect(otherProcess.issues).toHaveLength(1);
+    expect(afterCommit.issues).toEqual([]);
+  });
+
+  it('should ignore type-only and dynamic imports and allowed cycles', async () => {
+    const validator = new CyclesValidator({ enabled: true, allow: [['src/*.ts']] }, root);
+    const typeOnly = await new CyclesValidator({ enabled: true }, root).validate({
+      path: 'src/c.ts',
+      content: "import type { A } from './a.js';\nconst a = await import('./a.js');",
+    });
+    const allowed = await validator.validate({
+      path: 'src/c.ts',
+      content: "import { a } from './a.js';",
+    });
+
+    expect(typeOnly.issues).toEqual([]);
+    expect(allowed.issues).toEqual([]);
+  });
+
+  it('should persist the module graph between processes', async () => {
+    await new CyclesValidator({ enabled: true }, root).validate({
+      path: 'src/c.ts',
+      content: 'export const c = 3;',
+    });
+    expect(existsSync(join(root, MODULE_GRAPH_CACHE))).toBe(true);
+
+    const graph = new ModuleGraph(root);
+    await graph.load();
+
+    expect(graph.getImports(join(root, 'src/a.ts'))).toEqual([join(root, 'src/b.ts')]);
+    expect(graph.findPath(join(root, 'src/a.ts'), join(root, 'src/c.ts'))).toEqual([
+      join(root, 'src/a.ts'),
+      join(root, 'src/b.ts'),
+      join(root, 'src/c.ts'),
+    ]);
+  });
+});
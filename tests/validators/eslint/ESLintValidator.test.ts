@@ -0,0 +1,178 @@
+/**
+ * Tests for the ESLint validator
+ *
+ * ESLint is loaded from the project, so these tests replace the loader with
+ * a stand-in for the `ESLint` class.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ESLintValidator } from '../../../src/validators/eslint/ESLintValidator.js';
+import { loadESLintModule } from '../../../src/validators/eslint/loadESLint.js';
+import type { ESLintLintResult } from '../../../src/validators/eslint/resultParser.js';
+
+vi.mock('../../../src/validators/eslint/loadESLint.js');
+
+const mockLoadESLintModule = vi.mocked(loadESLintModule);
+
+const source = 'let x = 1\nexport const y = x == 2;\n';
+
+const lintResult: ESLintLintResult = {
+  filePath: '/project/src/a.js',
+  messages: [
+    {
+      ruleId: 'prefer-const',
+      severity: 2,
+      message: "'x' is never reassigned. Use 'const' instead.",
+      line: 1,
+      column: 5,
+      endLine: 1,
+      endColumn: 6,
+      fix: { range: [0, 9], text: 'const x = 1' },
+    },
+    {
+      ruleId: 'eqeqeq',
+      severity: 1,
+      message: "Expected '===' and instead saw '=='.",
+      line: 2,
+      column: 20,
+      endLine: 2,
+      endColumn: 22,
+      suggestions: [{ desc: "Use '===' instead of '=='.", fix: { range: [29, 31], text: '===' } }],
+    },
+  ],
+};
+
+const rulesMeta = {
+  'prefer-const': { docs: { url: 'https://eslint.org/docs/latest/rules/prefer-const' } },
+};
+
+describe('ESLintValidator', () => {
+  const lintText = vi.fn();
+  const ESLint = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    lintText.mockImplementation(async () => [lintResult]);
+    ESLint.mockImplementation(() => ({
+      lintText,
+      getRulesMetaForResults: () => rulesMeta,
+    }));
+    mockLoadESLintModule.mockResolvedValue({ ESLint });
+  });
+
+  it('should map lint messages to issues with rule ids and fixes', async () => {
+    const validator = new ESLintValidator({ enabled: true }, '/project');
+
+    const result = await validator.validate({ path: 'src/a.js', content: source });
+
+    expect(lintText).toHaveBeenCalledWith(source, {
+      filePath: '/project/src/a.js',
+      warnIgnored: false,
+    });
+    expect(result.success).toBe(false);
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        line: 1,
+        column: 5,
+        endColumn: 6,
+        severity: 'error',
+        source: 'eslint',
+        ruleId: 'prefer-const',
+        category: 'lint',
+        docsUrl: 'https://eslint.org/docs/latest/rules/prefer-const',
+        fixable: true,
+        fix: {
+          fixName: 'prefer-const',
+          description: 'Fix prefer-const',
+          edits: [{ start: 0, length: 9, newText: 'const x = 1' }],
+        },
+      }),
+      expect.objectContaining({
+        severity: 'warning',
+        ruleId: 'eqeqeq',
+        fixable: false,
+        suggestion: "Use '===' instead of '=='.",
+      }),
+    ]);
+  });
+
+  it('should report parsing errors as syntax issues', async () => {
+    lintText.mockResolvedValue([
+      {
+        filePath: '/project/src/a.js',
+        messages: [
+          {
+            ruleId: null,
+            fatal: true,
+            severity: 2,
+            message: "Parsing error: The keyword 'let' is reserved",
+            line: 1,
+            column: 1,
+          },
+        ],
+      },
+    ]);
+    const validator = new ESLintValidator({ enabled: true }, '/project');
+
+    const result = await validator.validate({ path: 'src/a.js', content: 'let = ;' });
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ kind: 'syntax', severity: 'error', ruleId: undefined }),
+    ]);
+  });
+
+  it('should return fixed output without writing the file', async () => {
+    lintText.mockResolvedValue([
+      { filePath: '/project/src/a.js', messages: [], output: 'const x = 1\n' },
+    ]);
+    const validator = new ESLintValidator(
+      { enabled: true, configPath: 'config/eslint.config.js' },
+      '/project'
+    );
+
+    const result = await validator.fix({ path: 'src/a.js', content: 'let x = 1\n' });
+
+    expect(ESLint).toHaveBeenCalledWith({
+      cwd: '/project',
+      fix: true,
+      overrideConfigFile: '/project/config/eslint.config.js',
+    });
+    expect(result).toMatchObject({ success: true, issues: [], output: 'const x = 1\n' });
+  });
+
+  it('should use the ESLint class that loadESLint picks for the project', async () => {
+    const FlatESLint = vi.fn().mockImplementation(() => ({ lintText }));
+    mockLoadESLintModule.mockResolvedValue({
+      ESLint,
+      loadESLint: vi.fn().mockResolvedValue(FlatESLint),
+    });
+    const validator = new ESLintValidator({ enabled: true }, '/project');
+
+    await validator.validate({ path: 'src/a.js', content: source });
+
+    expect(FlatESLint).toHaveBeenCalledWith({ cwd: '/project', fix: false });
+    expect(ESLint).not.toHaveBeenCalled();
+  });
+
+  it('should skip linting when the project does not have ESLint', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockLoadESLintModule.mockResolvedValue(null);
+    const validator = new ESLintValidator({ enabled: true }, '/project');
+
+    const result = await validator.validate({ path: 'src/a.js', content: source });
+
+    expect(result).toEqual({ success: true, issues: [], fixed: 0 });
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('ESLint not found'));
+    warnSpy.mockRestore();
+  });
+
+  it('should report ESLint failures as errors', async () => {
+    lintText.mockRejectedValue(new Error('Could not find config file.'));
+    const validator = new ESLintValidator({ enabled: true }, '/project');
+
+    const result = await validator.validate({ path: 'src/a.js', content: source });
+
+    expect(result).toMatchObject({ success: false, error: 'Could not find config file.' });
+  });
+});
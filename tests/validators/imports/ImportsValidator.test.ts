@@ -0,0 +1,188 @@
+/**
+ * Tests for ImportsValidator
+ *
+ * Tests missing files, tsconfig path aliases, undeclared and dev
+ * dependencies, package exports and workspace packages against a temporary
+ * project on disk.
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ImportsValidator } from '../../../src/validators/imports/index.js';
+
+describe('ImportsValidator', () => {
+  let root: string;
+
+  const write = (path: string, content = ''): string => {
+    const fullPath = join(root, path);
+    mkdirSync(join(fullPath, '..'), { recursive: true });
+    writeFileSync(fullPath, content);
+    return fullPath;
+  };
+
+  const writeJson = (path: string, content: unknown) => write(path, JSON.stringify(content));
+
+  const validate = (path: string, content: string) =>
+    new ImportsValidator({ enabled: true }, root).validate({ path: join(root, path), content });
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'imports-validator-'));
+    writeJson('package.json', {
+      name: 'app',
+      dependencies: { lodash: '^4.17.21', zod: '^4.0.0' },
+      devDependencies: { vitest: '^3.0.0', '@types/express': '^5.0.0' },
+    });
+    writeJson('node_modules/lodash/package.json', { name: 'lodash', version: '4.17.21' });
+    write('node_modules/lodash/fp.js');
+    writeJson('node_modules/vitest/package.json', { name: 'vitest', version: '3.2.4' });
+    writeJson('node_modules/chalk/package.json', { name: 'chalk', version: '5.3.0' });
+    writeJson('node_modules/zod/package.json', {
+      name: 'zod',
+      exports: { '.': './index.js', './mini': './mini.js', './package.json': './package.json' },
+    });
+    write('src/utils.ts', 'export const x = 1;');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should accept resolvable files, builtins and declared packages', async () => {
+    const result = await validate(
+      'src/index.ts',
+      [
+        "import { x } from './utils.js';",
+        "import { readFile } from 'node:fs/promises';",
+        "import path from 'path';",
+        "import map from 'lodash/fp';",
+        "import { z } from 'zod/mini';",
+        "import type { Request } from 'express';",
+      ].join('\n')
+    );
+
+    expect(result).toEqual({ success: true, issues: [] });
+  });
+
+  it('should report missing files with a similar file as suggestion', async () => {
+    const result = await validate('src/index.ts', "\nimport { x } from './utlis.js';");
+
+    expect(result.success).toBe(false);
+    expect(result.issues).toEqual([
+      {
+        file: join(root, 'src/index.ts'),
+        line: 2,
+        column: 19,
+        endLine: 2,
+        endColumn: 31,
+        severity: 'error',
+        message: "Cannot resolve './utlis.js': src/utlis.js does not exist",
+        fixed: false,
+        fixable: false,
+        kind: 'lint',
+        source: 'imports',
+        ruleId: 'unresolved-import',
+        category: 'import',
+        suggestion: "Did you mean './utils.js'?",
+      },
+    ]);
+  });
+
+  it('should report undeclared packages with the installed version to add', async () => {
+    const result = await validate('src/index.ts', "const chalk = require('chalk');");
+
+    expect(result.issues).toMatchObject([
+      {
+        ruleId: 'undeclared-dependency',
+        message: "'chalk' is imported but not declared in package.json",
+        suggestion: 'Add "chalk": "^5.3.0" to "dependencies" in package.json',
+      },
+    ]);
+  });
+
+  it('should report devDependencies imported from production code only', async () => {
+    const production = await validate('src/index.ts', "import { vi } from 'vitest';");
+    const test = await validate('src/index.test.ts', "import { vi } from 'vitest';");
+    const typeOnly = await validate('src/index.ts', "import type { Mock } from 'vitest';");
+
+    expect(production.issues).toMatchObject([
+      {
+        ruleId: 'dev-dependency',
+        message: "'vitest' is a devDependency but is imported from production code",
+      },
+    ]);
+    expect(test.issues).toEqual([]);
+    expect(typeOnly.issues).toEqual([]);
+  });
+
+  it('should report subpaths missing from the package exports', async () => {
+    const result = await validate('src/index.ts', "import { z } from 'zod/v3';");
+
+    expect(result.issues).toMatchObject([
+      {
+        ruleId: 'not-exported',
+        message: "'zod/v3' is not exported by 'zod': its \"exports\" have no './v3' entry",
+        suggestion: "Import one of the exported entry points: 'zod', 'zod/mini'",
+      },
+    ]);
+  });
+
+  it('should warn about declared packages that are not installed', async () => {
+    rmSync(join(root, 'node_modules/lodash'), { recursive: true });
+
+    const result = await validate('src/index.ts', "import map from 'lodash';");
+
+    expect(result.success).toBe(true);
+    expect(result.issues).toMatchObject([{ ruleId: 'not-installed', severity: 'warning' }]);
+  });
+
+  it('should resolve tsconfig path aliases', async () => {
+    write(
+      'tsconfig.json',
+      [
+        '{',
+        '  "$schema": "https://json.schemastore.org/tsconfig",',
+        '  // Aliases',
+        '  "compilerOptions": { "paths": { "@/*": ["./src/*"] } },',
+        '}',
+      ].join('\n')
+    );
+
+    const result = await validate(
+      'src/index.ts',
+      "import { x } from '@/utils';\nimport { y } from '@/helpers';"
+    );
+
+    expect(result.issues).toMatchObject([
+      {
+        line: 2,
+        ruleId: 'unresolved-import',
+        message:
+          "Cannot resolve '@/helpers': path alias '@/*' points to src/helpers, which does not exist",
+        suggestion: "Create 'helpers' or fix the import path",
+      },
+    ]);
+  });
+
+  it('should suggest declaring workspace packages with the workspace protocol', async () => {
+    write('pnpm-workspace.yaml', 'packages:\n  - packages/*\n');
+    writeJson('packages/core/package.json', { name: '@acme/core', exports: './index.js' });
+    writeJson('packages/web/package.json', { name: '@acme/web' });
+
+    const result = await validate(
+      'packages/web/src/index.ts',
+      "import { core } from '@acme/core';"
+    );
+
+    expect(result.issues).toMatchObject([
+      {
+        ruleId: 'undeclared-dependency',
+        message:
+          "'@acme/core' is a workspace package but is not declared in packages/web/package.json",
+        suggestion:
+          'Add "@acme/core": "workspace:*" to "dependencies" in packages/web/package.json',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for the Prettier validator
+ *
+ * Prettier is loaded from the project, so these tests replace the loader with
+ * a stand-in for the Prettier API.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadPrettierModule } from '../../../src/validators/prettier/loadPrettier.js';
+import { PrettierValidator } from '../../../src/validators/prettier/PrettierValidator.js';
+
+vi.mock('../../../src/validators/prettier/loadPrettier.js');
+
+const mockLoadPrettierModule = vi.mocked(loadPrettierModule);
+
+const source = 'const a = "x";\nexport default a;\n';
+const formatted = "const a = 'x'\nexport default a\n";
+
+describe('PrettierValidator', () => {
+  const prettier = {
+    format: vi.fn(),
+    check: vi.fn(),
+    resolveConfig: vi.fn(),
+    getFileInfo: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    prettier.format.mockResolvedValue(formatted);
+    prettier.resolveConfig.mockResolvedValue({ semi: false, singleQuote: true });
+    prettier.getFileInfo.mockResolvedValue({ ignored: false, inferredParser: 'typescript' });
+    mockLoadPrettierModule.mockResolvedValue(prettier);
+  });
+
+  it('should report unformatted content with a diff and a fix', async () => {
+    const validator = new PrettierValidator({ enabled: true }, '/project');
+
+    const result = await validator.validate({ path: 'src/a.ts', content: source });
+
+    expect(prettier.format).toHaveBeenCalledWith(source, {
+      semi: false,
+      singleQuote: true,
+      filepath: '/project/src/a.ts',
+    });
+    expect(result.success).toBe(false);
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        line: 1,
+        endLine: 2,
+        source: 'prettier',
+        category: 'format',
+        fixable: true,
+        diff: [
+          '@@ -1,2 +1,2 @@',
+          '-const a = "x";',
+          '-export default a;',
+          "+const a = 'x'",
+          '+export default a',
+        ].join('\n'),
+        fix: {
+          fixName: 'prettier',
+          description: 'Format the file with Prettier',
+          edits: [{ start: 0, length: source.length, newText: formatted }],
+        },
+      }),
+    ]);
+  });
+
+  it('should accept formatted content', async () => {
+    const validator = new PrettierValidator({ enabled: true }, '/project');
+
+    const result = await validator.validate({ path: 'src/a.ts', content: formatted });
+
+    expect(result).toEqual({ success: true, issues: [], fixed: 0 });
+  });
+
+  it('should respect the ignore files and the configured config path', async () => {
+    prettier.getFileInfo.mockResolvedValue({ ignored: true, inferredParser: null });
+    const validator = new PrettierValidator(
+      { enabled: true, configPath: 'config/.prettierrc' },
+      '/project'
+    );
+
+    const result = await validator.validate({ path: 'generated/a.ts', content: source });
+
+    expect(prettier.getFileInfo).toHaveBeenCalledWith('/project/generated/a.ts', {
+      ignorePath: ['/project/.gitignore', '/project/.prettierignore'],
+    });
+    expect(prettier.format).not.toHaveBeenCalled();
+    expect(result.issues).toEqual([]);
+
+    prettier.getFileInfo.mockResolvedValue({ ignored: false, inferredParser: 'typescript' });
+    await validator.validate({ path: 'src/a.ts', content: source });
+
+    expect(prettier.resolveConfig).toHaveBeenCalledWith('/project/src/a.ts', {
+      editorconfig: true,
+      config: '/project/config/.prettierrc',
+    });
+  });
+
+  it('should leave syntax errors to the other validators', async () => {
+    prettier.format.mockRejectedValue(
+      Object.assign(new SyntaxError('Expression expected. (1:11)'), {
+        loc: { start: { line: 1, column: 11 } },
+      })
+    );
+    const validator = new PrettierValidator({ enabled: true }, '/project');
+
+    const result = await validator.validate({ path: 'src/a.ts', content: 'const a = ;' });
+
+    expect(result).toEqual({ success: true, issues: [], fixed: 0 });
+  });
+
+  it('should return formatted output without writing the file', async () => {
+    const validator = new PrettierValidator({ enabled: true }, '/project');
+
+    const result = await validator.format({ path: 'src/a.ts', content: source });
+
+    expect(result).toMatchObject({ success: true, output: formatted });
+  });
+
+  it('should skip format checks when the project does not have Prettier', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockLoadPrettierModule.mockResolvedValue(null);
+    const validator = new PrettierValidator({ enabled: true }, '/project');
+
+    const result = await validator.validate({ path: 'src/a.ts', content: source });
+
+    expect(result).toEqual({ success: true, issues: [], fixed: 0 });
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Prettier not found'));
+    warnSpy.mockRestore();
+  });
+});
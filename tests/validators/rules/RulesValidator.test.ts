@@ -0,0 +1,169 @@
+/**
+ * Tests for RulesValidator
+ *
+ * Tests banned imports, identifiers and calls, pattern wildcards and the
+ * file scope and severity of each rule.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { RuleConfig } from '../../../src/types/config.js';
+import { RulesValidator } from '../../../src/validators/rules/index.js';
+
+const NO_LODASH: RuleConfig = {
+  name: 'no-lodash',
+  type: 'import',
+  pattern: 'lodash',
+  message: 'Use es-toolkit instead',
+};
+
+describe('RulesValidator', () => {
+  it('should report banned imports, requires and subpaths', async () => {
+    const validator = new RulesValidator([NO_LODASH], '/project');
+    const content = [
+      "import { get } from 'lodash/get';",
+      "const _ = require('lodash');",
+      "export * from 'lodash-es';",
+      "const later = await import('lodash');",
+    ].join('\n');
+
+    const result = await validator.validate({ path: '/project/src/a.ts', content });
+
+    expect(result.success).toBe(false);
+    expect(result.issues).toEqual([
+      {
+        file: '/project/src/a.ts',
+        line: 1,
+        column: 21,
+        endLine: 1,
+        endColumn: 33,
+        severity: 'error',
+        message: "Importing 'lodash/get' is not allowed: Use es-toolkit instead",
+        fixed: false,
+        fixable: false,
+        kind: 'lint',
+        source: 'rules',
+        ruleId: 'no-lodash',
+        category: 'import',
+      },
+      expect.objectContaining({ line: 2, column: 19 }),
+      expect.objectContaining({ line: 4, column: 28 }),
+    ]);
+  });
+
+  it('should match node: prefixes on either side', async () => {
+    const validator = new RulesValidator(
+      [{ name: 'no-fs', type: 'import', pattern: 'fs', message: 'No file system access' }],
+      '/project'
+    );
+
+    const result = await validator.validate({
+      path: '/project/src/a.ts',
+      content: "import fs from 'node:fs';\nimport { readFile } from 'fs/promises';",
+    });
+
+    expect(result.issues.map((issue) => issue.line)).toEqual([1, 2]);
+  });
+
+  it('should report calls by their dotted name and wildcards', async () => {
+    const validator = new RulesValidator(
+      [
+        { name: 'no-console', type: 'call', pattern: 'console.*', message: 'Use the logger' },
+        { name: 'no-clock', type: 'call', pattern: 'Date.now', message: 'Inject a clock' },
+        { name: 'no-new-date', type: 'call', pattern: 'new Date', message: 'Inject a clock' },
+      ],
+      '/project'
+    );
+    const content = [
+      "console.log('a');",
+      'const now = Date.now() + new Date().getTime();',
+      'logger.console.log();',
+      "console['warn']('b');",
+    ].join('\n');
+
+    const result = await validator.validate({ path: '/project/src/a.js', content });
+
+    expect(result.issues).toMatchObject([
+      {
+        line: 1,
+        column: 1,
+        endColumn: 12,
+        message: '`console.log()` is not allowed: Use the logger',
+      },
+      { line: 2, column: 13, ruleId: 'no-clock' },
+      {
+        line: 2,
+        column: 30,
+        ruleId: 'no-new-date',
+        message: expect.stringMatching(/^`new Date\(\)`/),
+      },
+      { line: 4, ruleId: 'no-console' },
+    ]);
+  });
+
+  it('should report identifier references but not declarations or properties', async () => {
+    const validator = new RulesValidator(
+      [{ name: 'no-process', type: 'identifier', pattern: 'process', message: 'Read the config' }],
+      '/project'
+    );
+    const content = [
+      'const env = process.env.NODE_ENV;',
+      'const options = { process: true, env: config.process };',
+      'function run(process: string) {}',
+      'const value = { process };',
+    ].join('\n');
+
+    const result = await validator.validate({ path: '/project/src/a.ts', content });
+
+    expect(result.issues).toMatchObject([
+      { line: 1, column: 13, message: '`process` is not allowed: Read the config' },
+      { line: 4, column: 17 },
+    ]);
+  });
+
+  it('should not report identifiers in type positions', async () => {
+    const validator = new RulesValidator(
+      [{ name: 'no-buffer', type: 'identifier', pattern: 'Buffer', message: 'Use Uint8Array' }],
+      '/project'
+    );
+    const content = [
+      'const data: Buffer = read() as Buffer;',
+      'function size(input: Array<Buffer>): typeof Buffer {}',
+      'interface Chunk extends Buffer {}',
+      'class Bytes extends Buffer implements Buffer {}',
+      'const copy = Buffer.from(data);',
+    ].join('\n');
+
+    const result = await validator.validate({ path: '/project/src/a.ts', content });
+
+    expect(result.issues).toMatchObject([
+      { line: 4, column: 21 },
+      { line: 5, column: 14 },
+    ]);
+  });
+
+  it('should only apply rules to the files in their scope', async () => {
+    const validator = new RulesValidator(
+      [
+        {
+          ...NO_LODASH,
+          files: ['packages/web/**'],
+          exclude: ['**/*.test.ts'],
+          severity: 'warning',
+        },
+      ],
+      '/project'
+    );
+    const content = "import get from 'lodash/get';";
+
+    const inScope = await validator.validate({ path: '/project/packages/web/a.ts', content });
+    const outOfScope = await validator.validate({ path: '/project/packages/api/a.ts', content });
+    const excluded = await validator.validate({
+      path: '/project/packages/web/a.test.ts',
+      content,
+    });
+
+    expect(inScope).toMatchObject({ success: true, issues: [{ severity: 'warning' }] });
+    expect(outOfScope.issues).toEqual([]);
+    expect(excluded.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Tests for RelatedTestsValidator
+ *
+ * Tests runner detection, runner arguments, the time budget and parsing of
+ * the JSON test report into issues.
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  parseTestReport,
+  RelatedTestsValidator,
+  type TestReport,
+} from '../../../src/validators/tests/index.js';
+
+vi.mock('execa');
+
+const { execa } = await import('execa');
+const mockExeca = vi.mocked(execa);
+
+const FAILING_REPORT: TestReport = {
+  numFailedTests: 1,
+  testResults: [
+    {
+      name: '/project/tests/math.test.ts',
+      status: 'failed',
+      assertionResults: [
+        {
+          ancestorTitles: ['add'],
+          title: 'adds numbers',
+          fullName: 'add adds numbers',
+          status: 'failed',
+          failureMessages: [
+            [
+              '\u001b[31mAssertionError: expected -1 to be 3 // Object.is equality\u001b[39m',
+              '',
+              '- Expected: 3',
+              '+ Received: -1',
+              '',
+              '    at /project/tests/math.test.ts:5:23',
+            ].join('\n'),
+          ],
+          location: { line: 5, column: 5 },
+        },
+        { ancestorTitles: ['add'], title: 'handles zero', status: 'passed', failureMessages: [] },
+      ],
+    },
+  ],
+};
+
+describe('RelatedTestsValidator', () => {
+  let root: string;
+  let file: { path: string; content: string };
+
+  /**
+   * Make the runner write a report and exit with the given code
+   */
+  const mockRun = (report: TestReport | null, exitCode = 1) => {
+    mockExeca.mockImplementation((async (_command: string, args: string[]) => {
+      const outputFile = args.find((arg) => arg.startsWith('--outputFile='));
+      if (report && outputFile) {
+        writeFileSync(outputFile.slice('--outputFile='.length), JSON.stringify(report));
+      }
+      return { exitCode, stdout: '', stderr: 'Error: Failed to load config', timedOut: false };
+    }) as never);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    root = mkdtempSync(join(tmpdir(), 'related-tests-validator-'));
+    mkdirSync(join(root, 'src'));
+    file = { path: join(root, 'src/math.ts'), content: 'export const add = () => 0;\n' };
+    writeFileSync(file.path, file.content);
+    writeFileSync(
+      join(root, 'package.json'),
+      JSON.stringify({ devDependencies: { jest: '29.0.0', vitest: '3.0.0' } })
+    );
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should run the related tests with Vitest and report failing tests', async () => {
+    mockRun(FAILING_REPORT);
+
+    const result = await new RelatedTestsValidator({ enabled: true }, root).validate(file);
+
+    const [command, args, options] = mockExeca.mock.calls[0] as unknown as [
+      string,
+      string[],
+      { cwd: string; timeout: number },
+    ];
+    expect(command).toBe('npx');
+    expect(args.slice(0, 4)).toEqual(['vitest', 'related', file.path, '--run']);
+    expect(args).toContain('--reporter=json');
+    expect(options).toMatchObject({ cwd: root, timeout: 4000 });
+    expect(result).toEqual({
+      success: false,
+      issues: [
+        {
+          file: '/project/tests/math.test.ts',
+          line: 5,
+          column: 5,
+          severity: 'error',
+          message:
+            'Test "add adds numbers" failed: AssertionError: expected -1 to be 3 // Object.is equality',
+          fixed: false,
+          fixable: false,
+          source: 'tests',
+          notes: ['- Expected: 3', '+ Received: -1'],
+        },
+      ],
+    });
+  });
+
+  it('should run the test files found by name and import with Jest', async () => {
+    const test = join(root, 'src/math.test.ts');
+    writeFileSync(test, '');
+    mockRun({ testResults: [] }, 0);
+
+    const result = await new RelatedTestsValidator(
+      { enabled: true, runner: 'jest', related: 'graph' },
+      root
+    ).validate(file);
+
+    const args = mockExeca.mock.calls[0]?.[1] as string[];
+    expect(args.slice(0, 4)).toEqual(['jest', '--ci', '--runTestsByPath', test]);
+    expect(args).toContain('--json');
+    expect(result).toEqual({ success: true, issues: [] });
+  });
+
+  it('should not run anything when no test file is related', async () => {
+    const result = await new RelatedTestsValidator(
+      { enabled: true, related: 'graph' },
+      root
+    ).validate(file);
+
+    expect(mockExeca).not.toHaveBeenCalled();
+    expect(result).toEqual({ success: true, issues: [] });
+  });
+
+  it('should warn when the tests exceed the time budget', async () => {
+    mockExeca.mockResolvedValue({ timedOut: true } as never);
+
+    const result = await new RelatedTestsValidator({ enabled: true, timeout: 2000 }, root).validate(
+      file
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.issues).toMatchObject([
+      {
+        file: file.path,
+        severity: 'warning',
+        message: 'Related tests did not finish within 2000ms and were stopped',
+      },
+    ]);
+  });
+
+  it('should keep the time budget within the hook timeout and stop with the hook', async () => {
+    mockExeca.mockResolvedValue({ isCanceled: true } as never);
+    const controller = new AbortController();
+
+    const result = await new RelatedTestsValidator(
+      { enabled: true, timeout: 20000 },
+      root,
+      10000
+    ).validate(file, controller.signal);
+
+    expect(mockExeca.mock.calls[0]?.[2]).toMatchObject({
+      timeout: 8000,
+      cancelSignal: controller.signal,
+    });
+    expect(result).toEqual({
+      success: true,
+      issues: [],
+      error: 'Related tests were stopped with the hook',
+    });
+  });
+
+  it('should fail when the runner writes no report', async () => {
+    mockRun(null);
+
+    const result = await new RelatedTestsValidator({ enabled: true }, root).validate(file);
+
+    expect(result).toEqual({
+      success: false,
+      issues: [],
+      error: 'vitest did not write a test report: Error: Failed to load config',
+    });
+  });
+
+  it('should skip unsaved content and projects without a test runner', async () => {
+    const unsaved = await new RelatedTestsValidator({ enabled: true }, root).validate({
+      path: file.path,
+      content: 'export const add = () => 1;\n',
+    });
+    expect(unsaved).toEqual({ success: true, issues: [] });
+
+    writeFileSync(join(root, 'package.json'), '{}');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const noRunner = await new RelatedTestsValidator({ enabled: true }, root).validate(file);
+
+    expect(noRunner).toEqual({ success: true, issues: [] });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('[RelatedTestsValidator]'));
+    expect(mockExeca).not.toHaveBeenCalled();
+  });
+
+  describe('parseTestReport', () => {
+    it('should report test files that failed without running tests', () => {
+      const issues = parseTestReport({
+        testResults: [
+          {
+            name: '/project/tests/broken.test.ts',
+            status: 'failed',
+            message: "Error: Cannot find module './missing'\n    at require (node:internal)",
+            assertionResults: [],
+          },
+          { name: '/project/tests/ok.test.ts', status: 'passed', assertionResults: [] },
+        ],
+      });
+
+      expect(issues).toMatchObject([
+        {
+          file: '/project/tests/broken.test.ts',
+          line: 1,
+          message: "Test file failed: Error: Cannot find module './missing'",
+          notes: undefined,
+        },
+      ]);
+    });
+  });
+});
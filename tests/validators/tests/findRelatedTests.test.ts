@@ -0,0 +1,63 @@
+/**
+ * Tests for the related test lookup
+ *
+ * Tests finding test files by name and by import against a temporary project
+ * on disk.
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findRelatedTestFiles } from '../../../src/validators/tests/index.js';
+
+describe('findRelatedTestFiles', () => {
+  let root: string;
+
+  const write = (path: string, content = ''): string => {
+    const fullPath = join(root, path);
+    mkdirSync(join(fullPath, '..'), { recursive: true });
+    writeFileSync(fullPath, content);
+    return fullPath;
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'related-tests-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should find test files named after the source and test files importing it', async () => {
+    const source = write('src/math.ts', 'export const add = (a, b) => a + b;');
+    const named = write('tests/math.test.ts');
+    const importing = write('tests/calculator.spec.ts', "import { add } from '../src/math.js';");
+    write('tests/other.test.ts', "import { x } from '../src/other.js';");
+    write('node_modules/pkg/math.test.js');
+
+    const related = await findRelatedTestFiles(source, { projectRoot: root });
+
+    expect(related).toEqual([importing, named]);
+  });
+
+  it('should return a test file as its own related test', async () => {
+    const test = write('src/math.test.ts');
+
+    expect(await findRelatedTestFiles(test, { projectRoot: root })).toEqual([test]);
+  });
+
+  it('should use the configured test files and names', async () => {
+    const source = write('src/math.ts');
+    const test = write('src/__tests__/math.unit.ts');
+    write('src/math.test.ts');
+
+    const related = await findRelatedTestFiles(source, {
+      projectRoot: root,
+      testFiles: ['**/__tests__/**/*.ts'],
+      testFileNames: ['{name}.unit'],
+    });
+
+    expect(related).toEqual([test]);
+  });
+});
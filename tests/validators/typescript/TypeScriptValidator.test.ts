@@ -8,6 +8,7 @@
  * - Timeout protection
  */
 
+import { readFile } from 'node:fs/promises';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type { TypeScriptConfig } from '../../../src/types/config.js';
 import type { FileInfo } from '../../../src/validators/typescript/TypeScriptValidator.js';
@@ -22,8 +23,12 @@ const mockTS = {
     Suggestion: 2,
     Message: 3,
   },
-  createProgram: vi.fn(),
-  createCompilerHost: vi.fn(),
+  createSemanticDiagnosticsBuilderProgram: vi.fn(),
+  createIncrementalCompilerHost: vi.fn(),
+  readBuilderProgram: vi.fn(),
+  createLanguageService: vi.fn(),
+  createDocumentRegistry: vi.fn(),
+  getSupportedCodeFixes: vi.fn().mockReturnValue([]),
   parseJsonConfigFileContent: vi.fn(),
   convertCompilerOptionsFromJson: vi.fn(),
   flattenDiagnosticMessageText: vi.fn(),
@@ -37,6 +42,33 @@ const mockTS = {
 // Mock dynamic import of TypeScript
 vi.mock('typescript', () => mockTS);
 
+// Mock reading the file from disk to choose between on-disk and in-memory checking
+vi.mock('node:fs/promises', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('node:fs/promises')>()),
+  readFile: vi.fn(),
+}));
+
+const mockReadFile = vi.mocked(readFile);
+
+/**
+ * Create a builder program that reports the given diagnostics for any file
+ */
+function createMockBuilder({
+  syntactic = [],
+  semantic = [],
+}: {
+  syntactic?: unknown[];
+  semantic?: unknown[];
+}) {
+  return {
+    getSourceFile: vi.fn().mockImplementation((fileName: string) => ({ fileName })),
+    getSemanticDiagnosticsOfNextAffectedFile: vi.fn().mockReturnValue(undefined),
+    getSyntacticDiagnostics: vi.fn().mockReturnValue(syntactic),
+    getSemanticDiagnostics: vi.fn().mockReturnValue(semantic),
+    emit: vi.fn(),
+  };
+}
+
 describe('TypeScriptValidator', () => {
   let validator: TypeScriptValidator;
   let mockConfig: TypeScriptConfig;
@@ -58,6 +90,9 @@ describe('TypeScriptValidator', () => {
 
     // Reset all mocks
     vi.clearAllMocks();
+
+    // The file on disk matches the content being validated
+    mockReadFile.mockResolvedValue(mockFile.content as never);
   });
 
   afterEach(() => {
@@ -94,12 +129,16 @@ describe('TypeScriptValidator', () => {
       // Mock successful TypeScript setup
       vi.doMock('typescript', () => mockTS);
 
-      mockTS.createProgram.mockReturnValue({
-        getSyntacticDiagnostics: vi.fn().mockReturnValue([]),
-        getSemanticDiagnostics: vi.fn().mockReturnValue([]),
-      });
+      mockTS.createSemanticDiagnosticsBuilderProgram.mockReturnValue(
+        createMockBuilder({ semantic: [] })
+      );
+
+      mockTS.createIncrementalCompilerHost.mockReturnValue({});
 
-      mockTS.createCompilerHost.mockReturnValue({});
+      mockTS.createLanguageService.mockReturnValue({
+        getCodeFixesAtPosition: vi.fn().mockReturnValue([]),
+        dispose: vi.fn(),
+      });
 
       mockTS.parseJsonConfigFileContent.mockReturnValue({
         options: { noEmit: true, strict: true },
@@ -132,12 +171,9 @@ describe('TypeScriptValidator', () => {
         messageText: "Type 'string' is not assignable to type 'number'.",
       };
 
-      const mockProgram = {
-        getSyntacticDiagnostics: vi.fn().mockReturnValue([]),
-        getSemanticDiagnostics: vi.fn().mockReturnValue([mockDiagnostic]),
-      };
-
-      mockTS.createProgram.mockReturnValue(mockProgram);
+      mockTS.createSemanticDiagnosticsBuilderProgram.mockReturnValue(
+        createMockBuilder({ semantic: [mockDiagnostic] })
+      );
 
       const result = await validator.validate(mockFile);
 
@@ -147,6 +183,12 @@ describe('TypeScriptValidator', () => {
       expect(result.issues[0].severity).toBe('error');
       expect(result.issues[0].line).toBe(1); // 1-based indexing
       expect(result.issues[0].column).toBe(7); // 1-based indexing
+      expect(result.issues[0]).toMatchObject({
+        source: 'typescript',
+        ruleId: 'TS2322',
+        code: 2322,
+        category: 'type',
+      });
     });
 
     it('should handle custom tsconfig path', async () => {
@@ -167,6 +209,59 @@ describe('TypeScriptValidator', () => {
     });
   });
 
+  describe('in-memory content', () => {
+    const mockLanguageService = {
+      getSyntacticDiagnostics: vi.fn(),
+      getSemanticDiagnostics: vi.fn(),
+      dispose: vi.fn(),
+    };
+
+    beforeEach(() => {
+      mockReadFile.mockResolvedValue('const x: number = 1;' as never);
+      mockTS.parseJsonConfigFileContent.mockReturnValue({ options: {}, errors: [] });
+      mockTS.convertCompilerOptionsFromJson.mockReturnValue({ options: {}, errors: [] });
+      mockTS.createLanguageService.mockReturnValue(mockLanguageService);
+      mockLanguageService.getSyntacticDiagnostics.mockReturnValue([]);
+    });
+
+    it('should check content that differs from disk through the language service', async () => {
+      mockLanguageService.getSemanticDiagnostics.mockReturnValue([
+        {
+          file: {
+            fileName: mockFile.path,
+            getLineAndCharacterOfPosition: vi.fn().mockReturnValue({ line: 0, character: 6 }),
+          },
+          start: 6,
+          category: mockTS.DiagnosticCategory.Error,
+          code: 2322,
+          messageText: "Type 'string' is not assignable to type 'number'.",
+        },
+      ]);
+
+      const result = await validator.validate(mockFile);
+
+      expect(mockLanguageService.getSemanticDiagnostics).toHaveBeenCalledWith(mockFile.path);
+      expect(mockTS.createSemanticDiagnosticsBuilderProgram).not.toHaveBeenCalled();
+      expect(result.status).toBe('error');
+      expect(result.issues[0].line).toBe(1);
+    });
+
+    it('should serve the content through the host overlay only during the check', async () => {
+      let contentDuringCheck: string | undefined;
+      mockLanguageService.getSemanticDiagnostics.mockImplementation(() => {
+        const host = mockTS.createLanguageService.mock.calls[0][0];
+        contentDuringCheck = host.readFile(mockFile.path);
+        return [];
+      });
+
+      await validator.validate(mockFile);
+
+      const host = mockTS.createLanguageService.mock.calls[0][0];
+      expect(contentDuringCheck).toBe(mockFile.content);
+      expect(host.getScriptFileNames()).toEqual([mockFile.path]);
+    });
+  });
+
   describe('timeout protection', () => {
     it('should handle validation timeout', async () => {
       // Mock a slow validation
@@ -209,7 +304,7 @@ describe('TypeScriptValidator', () => {
 
   describe('error handling', () => {
     it('should handle malformed TypeScript program creation', async () => {
-      mockTS.createProgram.mockImplementation(() => {
+      mockTS.createSemanticDiagnosticsBuilderProgram.mockImplementation(() => {
         throw new Error('Invalid program');
       });
 
@@ -226,12 +321,9 @@ describe('TypeScriptValidator', () => {
         category: mockTS.DiagnosticCategory.Error,
       };
 
-      const mockProgram = {
-        getSyntacticDiagnostics: vi.fn().mockReturnValue([malformedDiagnostic]),
-        getSemanticDiagnostics: vi.fn().mockReturnValue([]),
-      };
-
-      mockTS.createProgram.mockReturnValue(mockProgram);
+      mockTS.createSemanticDiagnosticsBuilderProgram.mockReturnValue(
+        createMockBuilder({ syntactic: [malformedDiagnostic] })
+      );
 
       const result = await validator.validate(mockFile);
 
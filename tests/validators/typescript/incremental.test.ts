@@ -0,0 +1,137 @@
+/**
+ * Incremental TypeScript Checking Tests
+ *
+ * These tests run the real TypeScript compiler against a temporary project to
+ * verify that dependents are rechecked and builder state is persisted and
+ * reused by the next process.
+ */
+
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { SemanticDiagnosticsBuilderProgram } from 'typescript';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TypeScriptValidator } from '../../../src/validators/typescript/TypeScriptValidator.js';
+
+// Files each builder program found affected by changes, to tell whether persisted state was reused
+const { affectedFiles } = vi.hoisted(() => ({ affectedFiles: [] as number[] }));
+
+vi.mock('typescript', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('typescript')>();
+  const createBuilder = (...args: unknown[]) => {
+    const builder = (
+      actual.createSemanticDiagnosticsBuilderProgram as (
+        ...args: unknown[]
+      ) => SemanticDiagnosticsBuilderProgram
+    )(...args);
+    const index = affectedFiles.push(0) - 1;
+    const next = builder.getSemanticDiagnosticsOfNextAffectedFile.bind(builder);
+    builder.getSemanticDiagnosticsOfNextAffectedFile = (...nextArgs) => {
+      const affected = next(...nextArgs);
+      if (affected) {
+        affectedFiles[index] = (affectedFiles[index] ?? 0) + 1;
+      }
+      return affected;
+    };
+    return builder;
+  };
+
+  return {
+    ...actual,
+    default: { ...actual.default, createSemanticDiagnosticsBuilderProgram: createBuilder },
+    createSemanticDiagnosticsBuilderProgram: createBuilder,
+  };
+});
+
+describe('TypeScriptValidator incremental checking', () => {
+  let root: string;
+  let validator: TypeScriptValidator;
+
+  const write = (name: string, content: string) => {
+    const path = join(root, name);
+    writeFileSync(path, content);
+    return { path, relativePath: name, content };
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'ts-incremental-'));
+    write(
+      'tsconfig.json',
+      JSON.stringify({ compilerOptions: { strict: true, module: 'esnext', skipLibCheck: true } })
+    );
+    write('util.ts', 'export const value: number = 1;\n');
+    validator = new TypeScriptValidator({ enabled: true }, root);
+  });
+
+  afterEach(() => {
+    validator.dispose();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should recheck a file when a file it imports changes', async () => {
+    const app = write(
+      'app.ts',
+      "import { value } from './util';\nexport const text: string = value;\n"
+    );
+
+    const before = await validator.validate(app);
+    expect(before.issues.map((issue) => issue.message)).toEqual([
+      expect.stringContaining("Type 'number' is not assignable to type 'string'"),
+    ]);
+
+    write('util.ts', "export const value: string = 'one';\n");
+    const after = await validator.validate(app);
+
+    expect(after.status).toBe('success');
+    expect(after.issues).toEqual([]);
+  }, 30000);
+
+  it('should persist builder state for the next process', async () => {
+    const app = write(
+      'app.ts',
+      "import { value } from './util';\nexport const next = value + 1;\n"
+    );
+
+    await validator.validate(app);
+
+    const cacheDir = join(root, 'node_modules', '.cache', 'claude-jsqualityhooks');
+    expect(existsSync(cacheDir)).toBe(true);
+    expect(readdirSync(cacheDir).some((file) => file.endsWith('.tsbuildinfo'))).toBe(true);
+
+    // A new validator starts from the persisted state and still reports changes
+    write('util.ts', 'export const value = {};\n');
+    const fresh = new TypeScriptValidator({ enabled: true }, root);
+    const result = await fresh.validate(app);
+    fresh.dispose();
+
+    expect(result.status).toBe('error');
+  }, 30000);
+
+  it('should reuse the persisted state for other files of the project', async () => {
+    const app = write(
+      'app.ts',
+      "import { value } from './util';\nexport const next = value + 1;\n"
+    );
+    const other = write('other.ts', 'export const other: number = 1;\n');
+    await validator.validate(app);
+
+    affectedFiles.length = 0;
+    const fresh = new TypeScriptValidator({ enabled: true }, root);
+    const result = await fresh.validate(other);
+    fresh.dispose();
+
+    expect(result.status).toBe('success');
+    expect(affectedFiles).toEqual([0]);
+  }, 30000);
+
+  it('should see global declarations of the project when checking files on disk', async () => {
+    write('globals.d.ts', 'declare const BUILD_ID: string;\n');
+    const app = write('app.ts', 'export const id: string = BUILD_ID;\n');
+
+    const onDisk = await validator.validate(app);
+    const inMemory = await validator.validate({ ...app, content: `${app.content}\n` });
+
+    expect(onDisk.issues).toEqual([]);
+    expect(inMemory.issues).toEqual([]);
+  }, 30000);
+});
@@ -0,0 +1,65 @@
+/**
+ * In-Memory TypeScript Checking Tests
+ *
+ * These tests run the real TypeScript compiler against a temporary project to
+ * verify that content not yet on disk is checked against the files on disk.
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TypeScriptValidator } from '../../../src/validators/typescript/TypeScriptValidator.js';
+
+describe('TypeScriptValidator in-memory content', () => {
+  let root: string;
+  let validator: TypeScriptValidator;
+  let appPath: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'ts-overlay-'));
+    writeFileSync(
+      join(root, 'tsconfig.json'),
+      JSON.stringify({ compilerOptions: { strict: true, module: 'esnext', skipLibCheck: true } })
+    );
+    writeFileSync(join(root, 'util.ts'), 'export const value: number = 1;\n');
+    appPath = join(root, 'app.ts');
+    writeFileSync(appPath, "import { value } from './util';\nexport const next = value + 1;\n");
+    validator = new TypeScriptValidator({ enabled: true }, root);
+  });
+
+  afterEach(() => {
+    validator.dispose();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should check proposed content against the project on disk', async () => {
+    const proposed = "import { value } from './util';\nexport const text: string = value;\n";
+
+    const result = await validator.validate({
+      path: appPath,
+      relativePath: 'app.ts',
+      content: proposed,
+    });
+
+    expect(result.status).toBe('error');
+    expect(result.issues[0]).toMatchObject({ line: 2 });
+    expect(readFileSync(appPath, 'utf8')).not.toBe(proposed);
+  }, 30000);
+
+  it('should check the file on disk again once the overlay is gone', async () => {
+    await validator.validate({
+      path: appPath,
+      relativePath: 'app.ts',
+      content: 'export const broken: number = "x";\n',
+    });
+
+    const result = await validator.validate({
+      path: appPath,
+      relativePath: 'app.ts',
+      content: readFileSync(appPath, 'utf8'),
+    });
+
+    expect(result.status).toBe('success');
+  }, 30000);
+});
@@ -0,0 +1,81 @@
+/**
+ * TypeScript Quick Fix Tests
+ *
+ * These tests run the real TypeScript LanguageService against a temporary
+ * project to verify which code fixes are attached to issues.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { isSafeQuickFix } from '../../../src/validators/typescript/quickFixes.js';
+import { TypeScriptValidator } from '../../../src/validators/typescript/TypeScriptValidator.js';
+
+describe('TypeScript quick fixes', () => {
+  let root: string;
+  let validator: TypeScriptValidator;
+
+  const validate = (content: string) => {
+    const path = join(root, 'app.ts');
+    writeFileSync(path, content);
+    return validator.validate({ path, relativePath: 'app.ts', content });
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'ts-quickfix-'));
+    writeFileSync(
+      join(root, 'tsconfig.json'),
+      JSON.stringify({ compilerOptions: { strict: true, module: 'esnext', skipLibCheck: true } })
+    );
+    writeFileSync(join(root, 'util.ts'), 'export function helper(): number {\n  return 1;\n}\n');
+    validator = new TypeScriptValidator({ enabled: true }, root, true);
+  });
+
+  afterEach(() => {
+    validator.dispose();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should attach a missing import fix', async () => {
+    const result = await validate('export const value = helper();\n');
+
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({
+      fixable: true,
+      fix: { fixName: 'import' },
+    });
+    expect(result.issues[0]?.fix?.edits[0]?.newText).toContain('./util');
+  }, 30000);
+
+  it('should attach a spelling fix', async () => {
+    const result = await validate('const count = 1;\nexport const value = coutn;\n');
+
+    expect(result.issues[0]?.fix).toMatchObject({
+      fixName: 'spelling',
+      edits: [{ newText: 'count' }],
+    });
+  }, 30000);
+
+  it('should leave issues without a safe fix unfixable', async () => {
+    const result = await validate('export const value: string = 1;\n');
+
+    expect(result.issues[0]).toMatchObject({ fixable: false });
+    expect(result.issues[0]?.fix).toBeUndefined();
+  }, 30000);
+
+  it('should not look for fixes unless auto-fix is enabled', async () => {
+    validator = new TypeScriptValidator({ enabled: true }, root);
+
+    const result = await validate('export const value = helper();\n');
+
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({ fixable: false });
+    expect(result.issues[0]?.fix).toBeUndefined();
+  }, 30000);
+
+  it('should only allow fixes on the allowlist', () => {
+    expect(isSafeQuickFix({ fixName: 'import', description: '', edits: [] })).toBe(true);
+    expect(isSafeQuickFix({ fixName: 'fixMissingMember', description: '', edits: [] })).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for the shared document registry
+ *
+ * These tests run a real TypeScript LanguageService over a temporary project
+ * to verify it reuses cached source files while their text is unchanged.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import ts from 'typescript';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { OverlayLanguageServiceHost } from '../../../src/validators/typescript/OverlayLanguageServiceHost.js';
+import { createSharedDocumentRegistry } from '../../../src/validators/typescript/sharedDocumentRegistry.js';
+
+describe('createSharedDocumentRegistry', () => {
+  let root: string;
+  let path: string;
+  let cache: Map<string, { text: string; sourceFile: ts.SourceFile }>;
+  let host: OverlayLanguageServiceHost;
+  let service: ts.LanguageService;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'ts-registry-'));
+    path = join(root, 'app.ts');
+    const text = 'export const value = 1;\n';
+    writeFileSync(path, text);
+
+    const sourceFile = ts.createSourceFile(path, text, ts.ScriptTarget.Latest);
+    cache = new Map([[path, { text, sourceFile }]]);
+    host = new OverlayLanguageServiceHost(ts, { noLib: true }, root, [path]);
+    service = ts.createLanguageService(host, createSharedDocumentRegistry(ts, cache));
+  });
+
+  afterEach(() => {
+    service.dispose();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should reuse a cached source file with the same text', () => {
+    expect(service.getProgram()?.getSourceFile(path)).toBe(cache.get(path)?.sourceFile);
+  });
+
+  it('should parse changed text and return to the cached file once it matches again', () => {
+    service.getProgram();
+
+    host.setOverlay(path, 'export const value = 2;\n');
+    const changed = service.getProgram()?.getSourceFile(path);
+    host.clearOverlay(path);
+    const restored = service.getProgram()?.getSourceFile(path);
+
+    expect(changed).not.toBe(cache.get(path)?.sourceFile);
+    expect(changed?.text).toBe('export const value = 2;\n');
+    expect(restored).toBe(cache.get(path)?.sourceFile);
+  });
+});